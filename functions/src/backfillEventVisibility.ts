@@ -0,0 +1,55 @@
+/**
+ * One-off migration for events saved before visibility existed. Friends'
+ * events are queried by visibility, so events without one never show up
+ * for them; this gives each the default, which is what the rules already
+ * treat it as. syncBusyBlocks picks up every write, so busy blocks follow.
+ *
+ *   npm run backfill:visibility
+ *
+ * Runs with the project's default credentials (or against the emulator
+ * when FIRESTORE_EMULATOR_HOST is set) and is safe to run again.
+ */
+import { initializeApp } from "firebase-admin/app";
+import { FieldPath, getFirestore } from "firebase-admin/firestore";
+import { DEFAULT_EVENT_VISIBILITY } from "@/lib/eventVisibility";
+
+// Firestore batches take at most 500 writes
+const PAGE_SIZE = 500;
+
+initializeApp();
+const db = getFirestore();
+
+const backfill = async () => {
+  let updated = 0;
+  let last: string | undefined;
+
+  // Missing fields can't be queried for, so go through every event
+  for (;;) {
+    let page = db
+      .collection("events")
+      .orderBy(FieldPath.documentId())
+      .limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    const legacy = snapshot.docs.filter((doc) => !doc.get("visibility"));
+    if (legacy.length > 0) {
+      const batch = db.batch();
+      legacy.forEach((doc) =>
+        batch.update(doc.ref, { visibility: DEFAULT_EVENT_VISIBILITY }),
+      );
+      await batch.commit();
+      updated += legacy.length;
+    }
+    last = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  console.log(`Set visibility on ${updated} events`);
+};
+
+backfill().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,81 @@
+/**
+ * One-off migration for users saved before private profiles existed: moves
+ * each user's home area and block list out of their readable profile into
+ * privateProfiles/{userId} (see src/lib/profiles.ts). Until it has run,
+ * people who blocked someone before the move can still be sent friend
+ * requests and messages by them.
+ *
+ *   npm run backfill:private-profiles
+ *
+ * Runs with the project's default credentials (or against the emulator
+ * when FIRESTORE_EMULATOR_HOST is set) and is safe to run again.
+ */
+import { initializeApp } from "firebase-admin/app";
+import { FieldPath, FieldValue, getFirestore } from "firebase-admin/firestore";
+import { PrivateProfile, splitPrivateProfile } from "@/lib/profiles";
+import { User } from "@/types";
+
+// Two writes per user, and Firestore batches take at most 500
+const PAGE_SIZE = 250;
+
+initializeApp();
+const db = getFirestore();
+
+const backfill = async () => {
+  let moved = 0;
+  let last: string | undefined;
+
+  for (;;) {
+    let page = db
+      .collection("users")
+      .orderBy(FieldPath.documentId())
+      .limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    const legacy = snapshot.docs
+      .map((doc) => ({ doc, ...splitPrivateProfile(doc.data() as User) }))
+      .filter(({ privateProfile }) => Object.keys(privateProfile).length > 0);
+    if (legacy.length > 0) {
+      const saved = await db.getAll(
+        ...legacy.map(({ doc }) =>
+          db.collection("privateProfiles").doc(doc.id),
+        ),
+      );
+
+      const batch = db.batch();
+      legacy.forEach(({ doc, privateProfile }, index) => {
+        // Anything already saved in the private profile is newer
+        const current = (saved[index].data() || {}) as PrivateProfile;
+        batch.set(saved[index].ref, {
+          homeArea:
+            "homeArea" in current
+              ? current.homeArea
+              : (privateProfile.homeArea ?? null),
+          blockedUsers: Array.from(
+            new Set([
+              ...(privateProfile.blockedUsers || []),
+              ...(current.blockedUsers || []),
+            ]),
+          ),
+        });
+        batch.update(doc.ref, {
+          homeArea: FieldValue.delete(),
+          blockedUsers: FieldValue.delete(),
+        });
+      });
+      await batch.commit();
+      moved += legacy.length;
+    }
+    last = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  console.log(`Moved private fields of ${moved} users`);
+};
+
+backfill().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,300 @@
+import { initializeApp } from "firebase-admin/app";
+import { QuerySnapshot, getFirestore } from "firebase-admin/firestore";
+import { logger } from "firebase-functions";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { Conversation, Event, HangoutEvent, HangoutMatch, User } from "@/types";
+import {
+  createHangoutMatchNotifications,
+  planHangoutMatches,
+} from "@/lib/hangoutMatch";
+import { planInvitationNotifications } from "@/lib/invitations";
+import { needsBusyBlock, toBusyBlock } from "@/lib/eventVisibility";
+import { hasBlocked, isBlockedBetween, isMatchBetween } from "@/lib/moderation";
+import { PrivateProfile } from "@/lib/profiles";
+
+initializeApp();
+const db = getFirestore();
+
+// Firestore 'in' queries are limited to 10 values, so fetch in batches
+const getEventsByUserIds = async (userIds: string[]): Promise<Event[]> => {
+  const batches: Promise<QuerySnapshot>[] = [];
+  for (let i = 0; i < userIds.length; i += 10) {
+    batches.push(
+      db
+        .collection("events")
+        .where("userId", "in", userIds.slice(i, i + 10))
+        .get(),
+    );
+  }
+
+  const snapshots = await Promise.all(batches);
+  return snapshots.flatMap((snapshot) =>
+    snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as Event),
+  );
+};
+
+// A user with their private profile (home area and block list), or null
+// when they don't exist
+const getUser = async (userId: string): Promise<User | null> => {
+  const [profile, privateProfile] = await Promise.all([
+    db.collection("users").doc(userId).get(),
+    db.collection("privateProfiles").doc(userId).get(),
+  ]);
+  if (!profile.exists) return null;
+  return { ...(profile.data() as User), ...privateProfile.data(), id: userId };
+};
+
+/**
+ * Keep hangout matches in step with events. Runs on every create, update
+ * and delete, so matches are found no matter which client (or import)
+ * wrote the event, and go away when a hangout is moved or removed.
+ */
+export const syncHangoutMatches = onDocumentWritten(
+  "events/{eventId}",
+  async (change) => {
+    const { eventId } = change.params;
+    const after = change.data?.after.data() as Event | undefined;
+    const event = after ? { ...after, id: eventId } : null;
+
+    const existingSnapshot = await db
+      .collection("hangoutMatches")
+      .where("sourceEvents", "array-contains", eventId)
+      .get();
+    const existing = existingSnapshot.docs.map(
+      (doc) => doc.data() as HangoutMatch,
+    );
+
+    let friendEvents: Event[] = [];
+    if (event?.type === "hangout") {
+      const owner = await getUser(event.userId);
+      const friendIds = (owner?.friends || []).filter(
+        (friendId) => !hasBlocked(owner, friendId),
+      );
+      friendEvents = await getEventsByUserIds(friendIds);
+    }
+
+    const plan = planHangoutMatches(event, friendEvents, existing);
+
+    // The friend's event may be written at the same moment, so only the
+    // first function to record a match notifies the users
+    for (const match of plan.create) {
+      const matchRef = db.collection("hangoutMatches").doc(match.id);
+      await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(matchRef);
+        if (current.exists) return;
+
+        transaction.set(matchRef, match);
+        createHangoutMatchNotifications(match).forEach((notification) => {
+          const notificationRef = db.collection("notifications").doc();
+          transaction.set(notificationRef, {
+            ...notification,
+            id: notificationRef.id,
+          });
+        });
+      });
+    }
+
+    const batch = db.batch();
+    plan.update.forEach((match) => {
+      batch.update(db.collection("hangoutMatches").doc(match.id), {
+        overlappingTime: match.overlappingTime,
+        updatedAt: match.updatedAt,
+      });
+    });
+
+    for (const match of plan.remove) {
+      batch.delete(db.collection("hangoutMatches").doc(match.id));
+      const notifications = await db
+        .collection("notifications")
+        .where("data.matchId", "==", match.id)
+        .get();
+      notifications.docs.forEach((doc) => batch.delete(doc.ref));
+    }
+    await batch.commit();
+
+    logger.info("Synced hangout matches", {
+      eventId,
+      created: plan.create.length,
+      updated: plan.update.length,
+      removed: plan.remove.length,
+    });
+  },
+);
+
+/**
+ * Remove the hangout matches (and their notifications) between a user and
+ * anyone they've just blocked. Blocking also ends the friendship, so
+ * syncHangoutMatches won't find new ones.
+ */
+export const removeBlockedHangoutMatches = onDocumentWritten(
+  "privateProfiles/{userId}",
+  async (change) => {
+    const { userId } = change.params;
+    const before = change.data?.before.data() as PrivateProfile | undefined;
+    const after = change.data?.after.data() as PrivateProfile | undefined;
+    const newlyBlocked = (after?.blockedUsers || []).filter(
+      (blockedId) => !hasBlocked(before, blockedId),
+    );
+    if (newlyBlocked.length === 0) return;
+
+    const matchesSnapshot = await db
+      .collection("hangoutMatches")
+      .where("users", "array-contains", userId)
+      .get();
+    const blockedMatches = matchesSnapshot.docs
+      .map((doc) => doc.data() as HangoutMatch)
+      .filter((match) =>
+        newlyBlocked.some((blockedId) =>
+          isMatchBetween(match, userId, blockedId),
+        ),
+      );
+
+    const batch = db.batch();
+    for (const match of blockedMatches) {
+      batch.delete(db.collection("hangoutMatches").doc(match.id));
+      const notifications = await db
+        .collection("notifications")
+        .where("data.matchId", "==", match.id)
+        .get();
+      notifications.docs.forEach((doc) => batch.delete(doc.ref));
+    }
+    await batch.commit();
+
+    logger.info("Removed blocked hangout matches", {
+      userId,
+      removed: blockedMatches.length,
+    });
+  },
+);
+
+/**
+ * Tell invitees when they're invited to a hangout and hosts when an invitee
+ * answers, and take back invitations that were withdrawn or whose hangout
+ * was deleted. Nobody hears from someone they've blocked (or who blocked
+ * them).
+ */
+export const notifyInvitations = onDocumentWritten(
+  "events/{eventId}",
+  async (change) => {
+    const { eventId } = change.params;
+    const before = change.data?.before.data() as Event | undefined;
+    const after = change.data?.after.data() as Event | undefined;
+    const previous = before ? { ...before, id: eventId } : null;
+    const current = after ? { ...after, id: eventId } : null;
+
+    const ownerId = (current || previous)?.userId;
+    const userIds = Array.from(
+      new Set([
+        ownerId,
+        ...((previous as HangoutEvent | null)?.invitees || []),
+        ...((current as HangoutEvent | null)?.invitees || []),
+      ]),
+    ).filter(Boolean);
+    const users = new Map(
+      (await Promise.all(userIds.map(getUser)))
+        .filter(Boolean)
+        .map((user) => [user.id, user]),
+    );
+
+    const plan = planInvitationNotifications(
+      previous,
+      current,
+      (userId) => users.get(userId)?.fullName,
+    );
+    if (plan.create.length === 0 && plan.withdraw.length === 0) return;
+
+    const batch = db.batch();
+    plan.create
+      .filter(
+        (notification) =>
+          !isBlockedBetween(
+            users.get(notification.userId),
+            users.get(
+              notification.data.inviterId || notification.data.inviteeId,
+            ),
+          ),
+      )
+      .forEach((notification) => {
+        const notificationRef = db.collection("notifications").doc();
+        batch.set(notificationRef, {
+          ...notification,
+          id: notificationRef.id,
+        });
+      });
+
+    if (plan.withdraw.length > 0) {
+      const invites = await db
+        .collection("notifications")
+        .where("type", "==", "event_invite")
+        .where("data.eventId", "==", eventId)
+        .get();
+      invites.docs
+        .filter((doc) => plan.withdraw.includes(doc.data().userId))
+        .forEach((doc) => batch.delete(doc.ref));
+    }
+    await batch.commit();
+
+    logger.info("Sent invitation notifications", {
+      eventId,
+      created: plan.create.length,
+      withdrawn: plan.withdraw.length,
+    });
+  },
+);
+
+/**
+ * Keep each event's busy block in step with it. Friends can't read events
+ * hidden from them, so the block (only the times) is what they read
+ * instead; see lib/eventVisibility and firestore.rules.
+ */
+export const syncBusyBlocks = onDocumentWritten(
+  "events/{eventId}",
+  async (change) => {
+    const { eventId } = change.params;
+    const after = change.data?.after.data() as Event | undefined;
+    const blockRef = db.collection("busyBlocks").doc(eventId);
+
+    if (after && needsBusyBlock(after)) {
+      await blockRef.set(toBusyBlock({ ...after, id: eventId }));
+    } else {
+      await blockRef.delete();
+    }
+  },
+);
+
+/**
+ * Clear the read cursors of people no longer in a conversation, or of
+ * everyone once it's deleted. Members can only delete their own, so the
+ * rest are left to this.
+ */
+export const removeStaleReadCursors = onDocumentWritten(
+  "conversations/{conversationId}",
+  async (change) => {
+    const { conversationId } = change.params;
+    const before = change.data?.before.data() as Conversation | undefined;
+    const after = change.data?.after.data() as Conversation | undefined;
+    // Most writes are new messages; only leaving or deleting matters
+    const left = (before?.participants || []).filter(
+      (userId) => !after?.participants.includes(userId),
+    );
+    if (left.length === 0) return;
+
+    const cursors = await db
+      .collection("readCursors")
+      .where("conversationId", "==", conversationId)
+      .get();
+    const stale = cursors.docs.filter((doc) =>
+      left.includes(doc.get("userId")),
+    );
+    if (stale.length === 0) return;
+
+    const batch = db.batch();
+    stale.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+
+    logger.info("Removed read cursors", {
+      conversationId,
+      removed: stale.length,
+    });
+  },
+);
@@ -4,6 +4,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useAuth, AuthProvider } from "@/store/authStore";
+import { usePresenceReporter } from "@/store/presenceStore";
+import { useOutboxSync } from "@/store/outboxStore";
 import { ProtectedRoute } from "@/components/layout/ProtectedRoute";
 
 // Pages
@@ -14,6 +16,7 @@ import Calendar from "./pages/Calendar";
 import Messages from "./pages/Messages";
 import Friends from "./pages/Friends";
 import FriendHangouts from "./pages/FriendHangouts";
+import Planner from "./pages/Planner";
 import Profile from "./pages/Profile";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
@@ -21,7 +24,9 @@ import NotFound from "./pages/NotFound";
 const queryClient = new QueryClient();
 
 const AppRoutes = () => {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  usePresenceReporter(user);
+  useOutboxSync(user?.id);
 
   if (isLoading) {
     return (
@@ -88,6 +93,14 @@ const AppRoutes = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/planner"
+        element={
+          <ProtectedRoute>
+            <Planner />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/profile"
         element={
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { HangoutEvent, RsvpStatus, User } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import {
+  RSVP_LABELS,
+  getInvitees,
+  getRsvpStatus,
+  summarizeRsvps,
+} from "@/lib/invitations";
+
+const STATUS_STYLES: Record<RsvpStatus | "pending", string> = {
+  yes: "bg-green-100 text-green-800 border-green-200",
+  maybe: "bg-amber-100 text-amber-800 border-amber-200",
+  no: "bg-red-100 text-red-800 border-red-200",
+  pending: "bg-muted text-muted-foreground",
+};
+
+interface AttendeeListProps {
+  event: HangoutEvent;
+  // Profiles already on hand; anyone missing is looked up
+  people?: User[];
+}
+
+// Who's invited to a hangout and what each of them answered
+export const AttendeeList = ({ event, people = [] }: AttendeeListProps) => {
+  const invitees = getInvitees(event);
+  const [profiles, setProfiles] = useState<Record<string, User>>({});
+
+  const knownIds = people.map((person) => person.id);
+  const missing = [event.userId, ...invitees].filter(
+    (id) => !knownIds.includes(id),
+  );
+
+  useEffect(() => {
+    if (missing.length === 0) return;
+    let cancelled = false;
+
+    dataProvider.getUsersByIds(missing).then((users) => {
+      if (cancelled) return;
+      setProfiles(Object.fromEntries(users.map((u) => [u.id, u])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [missing.join(",")]);
+
+  const getProfile = (userId: string) =>
+    people.find((person) => person.id === userId) || profiles[userId];
+
+  const getInitials = (name: string) =>
+    name
+      .split(" ")
+      .map((word) => word[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+
+  if (invitees.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nobody invited yet</p>;
+  }
+
+  const summary = summarizeRsvps(event);
+  const host = getProfile(event.userId);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {summary.yes} going, {summary.maybe} maybe, {summary.no} not going
+        {summary.pending > 0 && `, ${summary.pending} yet to answer`}
+        {host && ` · Hosted by ${host.fullName}`}
+      </p>
+      <ul className="space-y-2">
+        {invitees.map((userId) => {
+          const profile = getProfile(userId);
+          const name = profile?.fullName || "Unknown user";
+          const status = getRsvpStatus(event, userId);
+          const note = event.rsvps?.[userId]?.note;
+
+          return (
+            <li key={userId} className="flex items-start space-x-3">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={profile?.avatar} alt={name} />
+                <AvatarFallback className="text-xs">
+                  {getInitials(name)}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between space-x-2">
+                  <p className="truncate text-sm font-medium">{name}</p>
+                  <Badge
+                    variant="outline"
+                    className={`text-xs ${STATUS_STYLES[status]}`}
+                  >
+                    {RSVP_LABELS[status]}
+                  </Badge>
+                </div>
+                {note && (
+                  <p className="text-xs text-muted-foreground">"{note}"</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -9,7 +9,10 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { HangoutOverlapModal } from "./HangoutOverlapModal";
+import { TimeGridView } from "./TimeGridView";
+import { EventSyncBadge } from "./EventSyncBadge";
 import {
   Calendar as CalendarIcon,
   ChevronLeft,
@@ -17,38 +20,90 @@ import {
   MapPin,
   Plus,
   Clock,
+  Mail,
+  Repeat,
   Users,
 } from "lucide-react";
-import { Event, HangoutEvent, User } from "@/types";
-import {
-  format,
-  startOfMonth,
-  endOfMonth,
-  eachDayOfInterval,
-  isSameDay,
-  isToday,
-  addMonths,
-  subMonths,
-} from "date-fns";
+import { Event, EventOccurrence, HangoutEvent, User } from "@/types";
+import { format, eachDayOfInterval, isSameDay } from "date-fns";
 import { cn } from "@/lib/utils";
+import { FindOverlapOptions } from "@/lib/overlap";
+import { OutboxStatus } from "@/lib/outbox";
+import { expandEvents } from "@/lib/recurrence";
+import {
+  CALENDAR_VIEW_MODES,
+  CalendarViewMode,
+  getViewRange,
+  moveEventTo,
+  shiftViewDate,
+} from "@/lib/calendarView";
+import {
+  formatInTimeZone,
+  formatRangeInTimeZone,
+  getDayBoundsInTimeZone,
+  getDayKey,
+  getLocalDayKey,
+  getTimeZoneAbbreviation,
+  isSameOffset,
+  resolveTimeZone,
+  toZonedDate,
+} from "@/lib/timezone";
+import {
+  EventOverlap,
+  FriendHangout,
+  GroupHangoutWindow,
+} from "@/store/calendarStore";
+
+const VIEW_LABELS: Record<CalendarViewMode, string> = {
+  month: "Month",
+  week: "Week",
+  day: "Day",
+};
+
+// Shared default, so the memoized event lists don't change every render
+const NO_INVITATIONS: HangoutEvent[] = [];
 
 interface CalendarViewProps {
   events: Event[];
   onDateSelect: (date: Date) => void;
-  onEventClick: (event: Event) => void;
-  getOverlappingHangouts?: (date: Date) => Array<{
-    userEvent: HangoutEvent;
-    friendEvent: HangoutEvent;
-    friend: User;
-    overlap: { start: string; end: string };
-  }>;
-  checkEventOverlap?: (eventId: string) => {
-    userEvent: HangoutEvent;
-    friendEvent: HangoutEvent;
-    friend: User;
-    overlap: { start: string; end: string };
-  } | null;
+  // Recurring events are passed as the clicked occurrence
+  onEventClick: (event: EventOccurrence) => void;
+  getOverlappingHangouts?: (date: Date) => Promise<EventOverlap[]>;
+  checkEventOverlap?: (eventId: string) => Promise<EventOverlap | null>;
+  findGroupHangoutWindows?: (
+    options?: FindOverlapOptions,
+  ) => Promise<GroupHangoutWindow[]>;
+  getFriendHangoutsInRange?: (
+    rangeStart: Date,
+    rangeEnd: Date,
+  ) => Promise<FriendHangout[]>;
+  // Friends' live events; overlaps are re-checked whenever they change
+  friendEvents?: Event[];
   selectedDate?: Date;
+  // View and focused date; uncontrolled (month, today) when omitted
+  view?: CalendarViewMode;
+  onViewChange?: (view: CalendarViewMode) => void;
+  focusDate?: Date;
+  onFocusDateChange?: (date: Date) => void;
+  // Viewer's home zone. Days and times are shown in it; selectedDate,
+  // focusDate and onDateSelect dates are wall-clock times there.
+  timeZone?: string;
+  // Time range dragged out on the week/day grid (wall-clock times)
+  onRangeSelect?: (start: Date, end: Date) => void;
+  // New times for an event dragged or resized; disables dragging if omitted
+  onEventReschedule?: (
+    event: EventOccurrence,
+    times: { startTime: string; endTime: string },
+  ) => void;
+  // Marks events with changes that haven't synced yet
+  getEventSyncStatus?: (eventId: string) => OutboxStatus | null;
+  // Overlaps whose compatibility scores below this aren't shown
+  minMatchScore?: number;
+  // Other people's hangouts the viewer is invited to, shown alongside their
+  // own events but never moved from here
+  invitedEvents?: HangoutEvent[];
+  // Invites friends to one of the viewer's hangouts from the overlap details
+  onInvite?: (event: EventOccurrence, friendIds: string[]) => Promise<boolean>;
 }
 
 export const CalendarView = ({
@@ -57,67 +112,273 @@ export const CalendarView = ({
   onEventClick,
   getOverlappingHangouts,
   checkEventOverlap,
+  findGroupHangoutWindows,
+  getFriendHangoutsInRange,
+  friendEvents,
   selectedDate,
+  view: viewProp,
+  onViewChange,
+  focusDate: focusDateProp,
+  onFocusDateChange,
+  timeZone,
+  onRangeSelect,
+  onEventReschedule,
+  getEventSyncStatus,
+  minMatchScore = 0,
+  invitedEvents = NO_INVITATIONS,
+  onInvite,
 }: CalendarViewProps) => {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const zone = resolveTimeZone(timeZone);
+  const [internalView, setInternalView] = useState<CalendarViewMode>("month");
+  const [internalFocusDate, setInternalFocusDate] = useState(() =>
+    toZonedDate(new Date(), zone),
+  );
+  const [friendHangouts, setFriendHangouts] = useState<FriendHangout[]>([]);
   const [showOverlapModal, setShowOverlapModal] = useState(false);
-  const [selectedOverlap, setSelectedOverlap] = useState<{
-    userEvent: HangoutEvent;
-    friendEvent: HangoutEvent;
-    friend: User;
-    overlap: { start: string; end: string };
-  } | null>(null);
+  const [selectedOverlap, setSelectedOverlap] = useState<EventOverlap | null>(
+    null,
+  );
+  const [alsoAvailable, setAlsoAvailable] = useState<User[]>([]);
+  const [overlapsByEvent, setOverlapsByEvent] = useState<
+    Record<string, EventOverlap>
+  >({});
+  // Event being dragged between days of the month grid
+  const [draggedEvent, setDraggedEvent] = useState<EventOccurrence | null>(
+    null,
+  );
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
 
-  const monthStart = startOfMonth(currentMonth);
-  const monthEnd = endOfMonth(currentMonth);
-  const monthDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
+  const view = viewProp || internalView;
+  const focusDate = focusDateProp || internalFocusDate;
 
-  const goToPreviousMonth = () => setCurrentMonth(subMonths(currentMonth, 1));
-  const goToNextMonth = () => setCurrentMonth(addMonths(currentMonth, 1));
+  const viewRange = getViewRange(view, focusDate);
+  const visibleDays = eachDayOfInterval(viewRange);
+  // The instants the visible days span in the viewer's zone
+  const rangeStart = getDayBoundsInTimeZone(viewRange.start, zone).start;
+  const rangeEnd = getDayBoundsInTimeZone(viewRange.end, zone).end;
+  const todayKey = getDayKey(new Date(), zone);
+  const isToday = (day: Date) => getLocalDayKey(day) === todayKey;
 
-  const getEventsForDay = (date: Date) => {
-    return events.filter((event) => {
-      const eventDate = new Date(event.startTime);
-      return isSameDay(eventDate, date);
+  const allEvents = useMemo(
+    () => [...events, ...invitedEvents],
+    [events, invitedEvents],
+  );
+  const invitedIds = useMemo(
+    () => new Set(invitedEvents.map((event) => event.id)),
+    [invitedEvents],
+  );
+  const isInvitation = (event: EventOccurrence) =>
+    invitedIds.has(event.recurringEventId || event.id);
+
+  // Recurring series expanded into the occurrences shown in this view
+  const visibleEvents = useMemo(
+    () => expandEvents(allEvents, rangeStart, rangeEnd),
+    [allEvents, rangeStart.getTime(), rangeEnd.getTime()],
+  );
+
+  const selectedDateEvents = useMemo(() => {
+    if (!selectedDate) return [];
+    const day = getDayBoundsInTimeZone(selectedDate, zone);
+    return expandEvents(allEvents, day.start, day.end).filter(
+      (event) =>
+        getDayKey(event.startTime, zone) === getLocalDayKey(selectedDate),
+    );
+  }, [allEvents, selectedDate, zone]);
+
+  // Resolve friend overlaps for every visible hangout occurrence
+  useEffect(() => {
+    if (!checkEventOverlap) return;
+    let cancelled = false;
+
+    const hangouts = [...visibleEvents, ...selectedDateEvents].filter(
+      (event, index, all) =>
+        event.type === "hangout" &&
+        !isInvitation(event) &&
+        all.findIndex((other) => other.id === event.id) === index,
+    );
+    Promise.all(
+      hangouts.map((event) => checkEventOverlap(event.id).catch(() => null)),
+    ).then((results) => {
+      if (cancelled) return;
+      const next: Record<string, EventOverlap> = {};
+      results.forEach((overlap, index) => {
+        if (overlap && overlap.compatibility.score >= minMatchScore) {
+          next[hangouts[index].id] = overlap;
+        }
+      });
+      setOverlapsByEvent(next);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    visibleEvents,
+    selectedDateEvents,
+    friendEvents,
+    minMatchScore,
+    checkEventOverlap,
+  ]);
+
+  // Keep the open overlap in step with edits, such as friends just invited
+  useEffect(() => {
+    setSelectedOverlap(
+      (current) =>
+        (current && overlapsByEvent[current.userEvent.id]) || current,
+    );
+  }, [overlapsByEvent]);
+
+  // Friends' free time is only drawn on the time grid
+  useEffect(() => {
+    if (view === "month" || !getFriendHangoutsInRange) {
+      setFriendHangouts([]);
+      return;
+    }
+    let cancelled = false;
+
+    getFriendHangoutsInRange(rangeStart, rangeEnd).then((hangouts) => {
+      if (!cancelled) setFriendHangouts(hangouts);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [view, rangeStart.getTime(), rangeEnd.getTime(), events, friendEvents]);
+
+  const openOverlap = (overlap: EventOverlap) => {
+    setSelectedOverlap(overlap);
+    setAlsoAvailable([]);
+    setShowOverlapModal(true);
+
+    if (!findGroupHangoutWindows) return;
+
+    // Look for a bigger group that is free during the same overlap
+    findGroupHangoutWindows({
+      minParticipants: 3,
+      requiredUserIds: [overlap.friend.id],
+    }).then((windows) => {
+      const start = new Date(overlap.overlap.start).getTime();
+      const match = windows.find(
+        (window) =>
+          new Date(window.start).getTime() <= start &&
+          new Date(window.end).getTime() > start,
+      );
+      setAlsoAvailable(
+        match ? match.friends.filter((f) => f.id !== overlap.friend.id) : [],
+      );
     });
   };
 
-  const getSelectedDateEvents = () => {
-    if (!selectedDate) return [];
-    return getEventsForDay(selectedDate);
+  const changeView = (next: CalendarViewMode) => {
+    setInternalView(next);
+    onViewChange?.(next);
+  };
+
+  const changeFocusDate = (next: Date) => {
+    setInternalFocusDate(next);
+    onFocusDateChange?.(next);
+  };
+
+  const goToPrevious = () =>
+    changeFocusDate(shiftViewDate(view, focusDate, -1));
+  const goToNext = () => changeFocusDate(shiftViewDate(view, focusDate, 1));
+
+  const getViewTitle = () => {
+    switch (view) {
+      case "day":
+        return format(focusDate, "EEEE, MMMM d, yyyy");
+      case "week":
+        return `${format(viewRange.start, "MMM d")} - ${format(viewRange.end, "MMM d, yyyy")}`;
+      default:
+        return format(focusDate, "MMMM yyyy");
+    }
+  };
+
+  // Hangouts with a friend match open the overlap details instead
+  const handleEventClick = (event: EventOccurrence) => {
+    const overlap =
+      event.type === "hangout" ? overlapsByEvent[event.id] : undefined;
+    if (overlap) {
+      openOverlap(overlap);
+    } else {
+      onEventClick(event);
+    }
+  };
+
+  const getEventsForDay = (date: Date) => {
+    const dayKey = getLocalDayKey(date);
+    return visibleEvents.filter(
+      (event) => getDayKey(event.startTime, zone) === dayKey,
+    );
+  };
+
+  // The event's own local time, when it was planned in another zone
+  const getEventLocalTime = (event: EventOccurrence) => {
+    const eventZone = resolveTimeZone(event.timeZone, zone);
+    if (isSameOffset(event.startTime, zone, eventZone)) return null;
+    return `${formatRangeInTimeZone(
+      event.startTime,
+      event.endTime,
+      eventZone,
+      "h:mm a",
+    )} ${getTimeZoneAbbreviation(event.startTime, eventZone)}`;
   };
 
-  const renderEventBadge = (event: Event) => {
+  const getSelectedDateEvents = () => selectedDateEvents;
+
+  // Dropping on a month cell keeps the event's time of day
+  const handleDayDrop = (day: Date) => {
+    const event = draggedEvent;
+    setDraggedEvent(null);
+    setDropTargetKey(null);
+    if (!event || !onEventReschedule) return;
+
+    const start = toZonedDate(event.startTime, zone);
+    if (getLocalDayKey(start) === getLocalDayKey(day)) return;
+
+    const target = new Date(day);
+    target.setHours(start.getHours(), start.getMinutes(), start.getSeconds());
+    onEventReschedule(event, moveEventTo(event, target, zone));
+  };
+
+  const renderEventBadge = (event: EventOccurrence) => {
     const hasOverlap =
-      event.type === "hangout" &&
-      checkEventOverlap &&
-      checkEventOverlap(event.id);
+      event.type === "hangout" ? overlapsByEvent[event.id] : undefined;
+    const invited = isInvitation(event);
 
     return (
       <div
         key={event.id}
+        draggable={Boolean(onEventReschedule) && !invited}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData("text/plain", event.id);
+          setDraggedEvent(event);
+        }}
+        onDragEnd={() => {
+          setDraggedEvent(null);
+          setDropTargetKey(null);
+        }}
         onClick={(e) => {
           e.stopPropagation();
-
-          // If it's a hangout with overlap, show the overlap modal
-          if (hasOverlap && event.type === "hangout") {
-            setSelectedOverlap(hasOverlap);
-            setShowOverlapModal(true);
-          } else {
-            onEventClick(event);
-          }
+          handleEventClick(event);
         }}
         className={cn(
           "text-xs p-1 mb-1 rounded cursor-pointer hover:opacity-80 transition-all duration-200",
-          event.type === "hangout" && hasOverlap
-            ? "bg-gradient-to-r from-green-100 to-blue-100 text-green-800 border-2 border-green-300 shadow-md animate-pulse"
-            : event.type === "hangout"
-              ? "bg-blue-100 text-blue-800 border border-blue-200"
-              : "bg-gray-100 text-gray-800 border border-gray-200",
+          draggedEvent?.id === event.id && "opacity-40",
+          invited
+            ? "bg-purple-50 text-purple-800 border border-dashed border-purple-300"
+            : event.type === "hangout" && hasOverlap
+              ? "bg-gradient-to-r from-green-100 to-blue-100 text-green-800 border-2 border-green-300 shadow-md animate-pulse"
+              : event.type === "hangout"
+                ? "bg-blue-100 text-blue-800 border border-blue-200"
+                : "bg-gray-100 text-gray-800 border border-gray-200",
         )}
       >
         <div className="flex items-center space-x-1">
-          {event.type === "hangout" && hasOverlap ? (
+          {invited ? (
+            <Mail className="h-3 w-3" />
+          ) : event.type === "hangout" && hasOverlap ? (
             <Users className="h-3 w-3 text-green-600" />
           ) : event.type === "hangout" ? (
             <MapPin className="h-3 w-3" />
@@ -125,6 +386,10 @@ export const CalendarView = ({
             <CalendarIcon className="h-3 w-3" />
           )}
           <span className="truncate">{event.title}</span>
+          {event.recurringEventId && (
+            <Repeat className="h-3 w-3 flex-shrink-0 opacity-60" />
+          )}
+          <EventSyncBadge status={getEventSyncStatus?.(event.id) || null} />
           {hasOverlap && (
             <span className="text-green-600 font-semibold">!</span>
           )}
@@ -139,75 +404,141 @@ export const CalendarView = ({
       <div className="lg:col-span-2">
         <Card>
           <CardHeader>
-            <div className="flex items-center justify-between">
+            <div className="flex flex-wrap items-center justify-between gap-2">
               <CardTitle className="flex items-center space-x-2">
                 <CalendarIcon className="h-5 w-5" />
-                <span>{format(currentMonth, "MMMM yyyy")}</span>
+                <span>{getViewTitle()}</span>
               </CardTitle>
-              <div className="flex space-x-1">
-                <Button variant="outline" size="sm" onClick={goToPreviousMonth}>
-                  <ChevronLeft className="h-4 w-4" />
-                </Button>
-                <Button variant="outline" size="sm" onClick={goToNextMonth}>
-                  <ChevronRight className="h-4 w-4" />
-                </Button>
+              <div className="flex items-center space-x-2">
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={view}
+                  onValueChange={(value) =>
+                    value && changeView(value as CalendarViewMode)
+                  }
+                >
+                  {CALENDAR_VIEW_MODES.map((mode) => (
+                    <ToggleGroupItem key={mode} value={mode}>
+                      {VIEW_LABELS[mode]}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <div className="flex space-x-1">
+                  <Button variant="outline" size="sm" onClick={goToPrevious}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      changeFocusDate(toZonedDate(new Date(), zone))
+                    }
+                  >
+                    Today
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={goToNext}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
             </div>
           </CardHeader>
           <CardContent>
-            {/* Calendar Header */}
-            <div className="grid grid-cols-7 gap-1 mb-2">
-              {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day) => (
-                <div
-                  key={day}
-                  className="p-2 text-center text-sm font-medium text-muted-foreground"
-                >
-                  {day}
+            {view !== "month" ? (
+              <TimeGridView
+                days={visibleDays}
+                events={visibleEvents}
+                friendHangouts={friendHangouts}
+                overlapsByEvent={overlapsByEvent}
+                selectedDate={selectedDate}
+                timeZone={zone}
+                onEventClick={handleEventClick}
+                onSlotSelect={onDateSelect}
+                onRangeSelect={onRangeSelect}
+                onEventReschedule={onEventReschedule}
+                getEventSyncStatus={getEventSyncStatus}
+                isInvitation={isInvitation}
+              />
+            ) : (
+              <>
+                {/* Calendar Header */}
+                <div className="grid grid-cols-7 gap-1 mb-2">
+                  {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map(
+                    (day) => (
+                      <div
+                        key={day}
+                        className="p-2 text-center text-sm font-medium text-muted-foreground"
+                      >
+                        {day}
+                      </div>
+                    ),
+                  )}
                 </div>
-              ))}
-            </div>
 
-            {/* Calendar Days */}
-            <div className="grid grid-cols-7 gap-1">
-              {monthDays.map((day) => {
-                const dayEvents = getEventsForDay(day);
-                const isSelected = selectedDate && isSameDay(day, selectedDate);
-                const isCurrentDay = isToday(day);
-
-                return (
-                  <div
-                    key={day.toISOString()}
-                    onClick={() => onDateSelect(day)}
-                    className={cn(
-                      "min-h-[100px] p-2 border rounded-md cursor-pointer transition-colors",
-                      isSelected && "bg-primary/10 border-primary",
-                      isCurrentDay && "bg-blue-50 border-blue-200",
-                      !isSelected &&
-                        !isCurrentDay &&
-                        "bg-background border-border hover:bg-muted",
-                    )}
-                  >
-                    <div
-                      className={cn(
-                        "text-sm font-medium mb-1",
-                        isCurrentDay && "text-blue-600",
-                        isSelected && "text-primary",
-                      )}
-                    >
-                      {format(day, "d")}
-                    </div>
-                    <div className="space-y-1">
-                      {dayEvents.slice(0, 2).map(renderEventBadge)}
-                      {dayEvents.length > 2 && (
-                        <div className="text-xs text-muted-foreground">
-                          +{dayEvents.length - 2} more
+                {/* Calendar Days */}
+                <div className="grid grid-cols-7 gap-1">
+                  {visibleDays.map((day) => {
+                    const dayEvents = getEventsForDay(day);
+                    const isSelected =
+                      selectedDate && isSameDay(day, selectedDate);
+                    const isCurrentDay = isToday(day);
+                    const dayKey = getLocalDayKey(day);
+
+                    return (
+                      <div
+                        key={day.toISOString()}
+                        onClick={() => onDateSelect(day)}
+                        onDragOver={(e) => {
+                          if (!draggedEvent) return;
+                          e.preventDefault();
+                          e.dataTransfer.dropEffect = "move";
+                          setDropTargetKey(dayKey);
+                        }}
+                        onDragLeave={() =>
+                          setDropTargetKey((key) =>
+                            key === dayKey ? null : key,
+                          )
+                        }
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleDayDrop(day);
+                        }}
+                        className={cn(
+                          "min-h-[100px] p-2 border rounded-md cursor-pointer transition-colors",
+                          dropTargetKey === dayKey &&
+                            "ring-2 ring-primary ring-inset",
+                          isSelected && "bg-primary/10 border-primary",
+                          isCurrentDay && "bg-blue-50 border-blue-200",
+                          !isSelected &&
+                            !isCurrentDay &&
+                            "bg-background border-border hover:bg-muted",
+                        )}
+                      >
+                        <div
+                          className={cn(
+                            "text-sm font-medium mb-1",
+                            isCurrentDay && "text-blue-600",
+                            isSelected && "text-primary",
+                          )}
+                        >
+                          {format(day, "d")}
                         </div>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
+                        <div className="space-y-1">
+                          {dayEvents.slice(0, 2).map(renderEventBadge)}
+                          {dayEvents.length > 2 && (
+                            <div className="text-xs text-muted-foreground">
+                              +{dayEvents.length - 2} more
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -245,21 +576,14 @@ export const CalendarView = ({
                 ) : (
                   getSelectedDateEvents().map((event) => {
                     const hasOverlap =
-                      event.type === "hangout" &&
-                      checkEventOverlap &&
-                      checkEventOverlap(event.id);
+                      event.type === "hangout"
+                        ? overlapsByEvent[event.id]
+                        : undefined;
 
                     return (
                       <div
                         key={event.id}
-                        onClick={() => {
-                          if (hasOverlap && event.type === "hangout") {
-                            setSelectedOverlap(hasOverlap);
-                            setShowOverlapModal(true);
-                          } else {
-                            onEventClick(event);
-                          }
-                        }}
+                        onClick={() => handleEventClick(event)}
                         className={cn(
                           "p-3 border rounded-lg cursor-pointer transition-colors",
                           hasOverlap
@@ -277,6 +601,21 @@ export const CalendarView = ({
                                   Hangout
                                 </Badge>
                               )}
+                              {event.recurringEventId && (
+                                <Badge variant="outline" className="text-xs">
+                                  <Repeat className="h-3 w-3 mr-1" />
+                                  Repeats
+                                </Badge>
+                              )}
+                              {isInvitation(event) && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-xs border-purple-300 text-purple-800"
+                                >
+                                  <Mail className="h-3 w-3 mr-1" />
+                                  Invited
+                                </Badge>
+                              )}
                               {hasOverlap && (
                                 <Badge
                                   variant="default"
@@ -290,10 +629,24 @@ export const CalendarView = ({
                             <div className="flex items-center space-x-1 text-sm text-muted-foreground">
                               <Clock className="h-3 w-3" />
                               <span>
-                                {format(new Date(event.startTime), "h:mm a")} -{" "}
-                                {format(new Date(event.endTime), "h:mm a")}
+                                {formatInTimeZone(
+                                  event.startTime,
+                                  zone,
+                                  "h:mm a",
+                                )}{" "}
+                                -{" "}
+                                {formatInTimeZone(
+                                  event.endTime,
+                                  zone,
+                                  "h:mm a",
+                                )}
                               </span>
                             </div>
+                            {getEventLocalTime(event) && (
+                              <p className="text-xs text-muted-foreground mt-0.5">
+                                Local time: {getEventLocalTime(event)}
+                              </p>
+                            )}
                             {event.description && (
                               <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
                                 {event.description}
@@ -368,6 +721,18 @@ export const CalendarView = ({
               <div className="w-4 h-4 bg-gradient-to-r from-green-100 to-blue-100 border-2 border-green-300 rounded"></div>
               <span className="text-sm">Overlapping Hangouts!</span>
             </div>
+            {invitedEvents.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-purple-50 border border-dashed border-purple-300 rounded"></div>
+                <span className="text-sm">Hangouts You're Invited To</span>
+              </div>
+            )}
+            {view !== "month" && getFriendHangoutsInRange && (
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-green-200/30 border border-dashed border-green-400 rounded"></div>
+                <span className="text-sm">Friends' Free Time</span>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -380,6 +745,10 @@ export const CalendarView = ({
         friendEvent={selectedOverlap?.friendEvent || null}
         friend={selectedOverlap?.friend || null}
         overlapTime={selectedOverlap?.overlap || null}
+        compatibility={selectedOverlap?.compatibility || null}
+        alsoAvailable={alsoAvailable}
+        timeZone={zone}
+        onInvite={onInvite}
       />
     </div>
   );
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -23,9 +23,52 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Calendar, Clock, MapPin, Plus, X } from "lucide-react";
-import { CreateEventInput } from "@/types";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Calendar,
+  Clock,
+  Eye,
+  MapPin,
+  Plus,
+  Repeat,
+  UserPlus,
+  X,
+} from "lucide-react";
+import {
+  CreateEventInput,
+  EventOccurrence,
+  EventVisibility,
+  GeoLocation,
+  HangoutEvent,
+  RecurrenceEditScope,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  Weekday,
+} from "@/types";
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  normalizeRecurrenceRule,
+} from "@/lib/recurrence";
+import {
+  formatInTimeZone,
+  getTimeZoneAbbreviation,
+  parseInTimeZone,
+  resolveTimeZone,
+  toZonedDate,
+} from "@/lib/timezone";
+import { getInvitees } from "@/lib/invitations";
+import {
+  DEFAULT_EVENT_VISIBILITY,
+  EVENT_VISIBILITIES,
+  EVENT_VISIBILITY_LABELS,
+} from "@/lib/eventVisibility";
+import { useFriends } from "@/hooks/use-friends";
+import { FriendPicker } from "@/components/messages/NewGroupDialog";
 import { format } from "date-fns";
+import { LocationPicker } from "./LocationPicker";
+import { AttendeeList } from "./AttendeeList";
 
 const eventSchema = z
   .object({
@@ -42,25 +85,73 @@ const eventSchema = z
 
 type EventFormData = z.infer<typeof eventSchema>;
 
+type RecurrenceEnd = "never" | "count" | "until";
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+};
+
 interface EventModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (eventData: CreateEventInput) => void;
+  onSubmit: (eventData: CreateEventInput, scope?: RecurrenceEditScope) => void;
   defaultDate?: Date;
+  // End of a dragged-out range; an hour after defaultDate when omitted
+  defaultEndDate?: Date;
+  // Event (or occurrence of a series) being edited; omit to create
+  event?: EventOccurrence | null;
+  // Zone the time inputs are shown in; defaultDate is a wall-clock time there
+  timeZone?: string;
+  // Where new hangouts set out from, usually the user's home area
+  defaultLocation?: GeoLocation;
+  // Who new events are shown to, from the user's privacy settings
+  defaultVisibility?: EventVisibility;
 }
 
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const toInputValue = (date: Date) => format(date, INPUT_FORMAT);
+
 export const EventModal = ({
   open,
   onOpenChange,
   onSubmit,
   defaultDate,
+  defaultEndDate,
+  event,
+  timeZone,
+  defaultLocation,
+  defaultVisibility = DEFAULT_EVENT_VISIBILITY,
 }: EventModalProps) => {
+  const zone = resolveTimeZone(timeZone);
   const [activitySuggestions, setActivitySuggestions] = useState<string[]>([]);
   const [newActivity, setNewActivity] = useState("");
   const [budgetLimit, setBudgetLimit] = useState<number | undefined>();
   const [maxTravelDistance, setMaxTravelDistance] = useState<
     number | undefined
   >();
+  const [location, setLocation] = useState<GeoLocation | null>(null);
+  // Remounts the location picker with each event loaded
+  const [locationKey, setLocationKey] = useState(0);
+  const [invitees, setInvitees] = useState<string[]>([]);
+  const [visibility, setVisibility] =
+    useState<EventVisibility>(defaultVisibility);
+  const [sharedWith, setSharedWith] = useState<string[]>([]);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | "none">(
+    "none",
+  );
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [byDay, setByDay] = useState<Weekday[]>([]);
+  const [recurrenceEnd, setRecurrenceEnd] = useState<RecurrenceEnd>("never");
+  const [occurrenceCount, setOccurrenceCount] = useState<number | undefined>();
+  const [untilDate, setUntilDate] = useState("");
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>("this");
+
+  const isEditing = Boolean(event);
+  const isOccurrence = Boolean(event?.recurringEventId);
+  const friends = useFriends(open);
 
   const {
     register,
@@ -85,24 +176,108 @@ export const EventModal = ({
 
   const watchedType = watch("type");
 
+  // Load the event being edited (or the clicked date) each time we open
+  useEffect(() => {
+    if (!open) return;
+
+    const start = event ? toZonedDate(event.startTime, zone) : defaultDate;
+    const end = event
+      ? toZonedDate(event.endTime, zone)
+      : defaultEndDate ||
+        (defaultDate && new Date(defaultDate.getTime() + 60 * 60 * 1000));
+    reset({
+      title: event?.title || "",
+      description: event?.description || "",
+      type: event?.type || "personal",
+      startTime: start ? toInputValue(start) : "",
+      endTime: end ? toInputValue(end) : "",
+    });
+
+    const preferences = (event as HangoutEvent)?.preferences;
+    setActivitySuggestions(preferences?.activitySuggestions || []);
+    setBudgetLimit(preferences?.budgetLimit);
+    setMaxTravelDistance(preferences?.maxTravelDistance);
+    setLocation(
+      (event as HangoutEvent)?.location ||
+        (event ? null : defaultLocation || null),
+    );
+    setLocationKey((key) => key + 1);
+    setInvitees(event ? getInvitees(event as HangoutEvent) : []);
+    setVisibility(
+      event ? event.visibility || DEFAULT_EVENT_VISIBILITY : defaultVisibility,
+    );
+    setSharedWith(event?.sharedWith || []);
+
+    const rule = event?.recurrence;
+    setFrequency(rule?.frequency || "none");
+    setRepeatInterval(rule?.interval || 1);
+    setByDay(rule?.byDay || []);
+    setRecurrenceEnd(rule?.count ? "count" : rule?.until ? "until" : "never");
+    setOccurrenceCount(rule?.count);
+    setUntilDate(
+      rule?.until ? formatInTimeZone(rule.until, zone, "yyyy-MM-dd") : "",
+    );
+    setEditScope("this");
+  }, [
+    open,
+    event,
+    zone,
+    defaultDate,
+    defaultEndDate,
+    defaultLocation,
+    defaultVisibility,
+  ]);
+
+  const buildRecurrence = (): RecurrenceRule | undefined => {
+    if (frequency === "none") return undefined;
+
+    return normalizeRecurrenceRule({
+      frequency,
+      interval: repeatInterval,
+      byDay: frequency === "weekly" ? byDay : undefined,
+      count: recurrenceEnd === "count" ? occurrenceCount : undefined,
+      // Include the whole final day
+      until:
+        recurrenceEnd === "until" && untilDate
+          ? parseInTimeZone(`${untilDate}T23:59:59`, zone).toISOString()
+          : undefined,
+    });
+  };
+
   const handleEventSubmit = (data: EventFormData) => {
     const eventData: CreateEventInput = {
       title: data.title,
       description: data.description,
-      startTime: new Date(data.startTime).toISOString(),
-      endTime: new Date(data.endTime).toISOString(),
+      startTime: parseInTimeZone(data.startTime, zone).toISOString(),
+      endTime: parseInTimeZone(data.endTime, zone).toISOString(),
       type: data.type,
+      visibility,
     };
 
+    if (visibility === "selected") {
+      eventData.sharedWith = sharedWith;
+    }
+
+    const recurrence = buildRecurrence();
+    if (recurrence) {
+      eventData.recurrence = recurrence;
+    }
+
     if (data.type === "hangout") {
       eventData.preferences = {
         activitySuggestions,
         budgetLimit,
         maxTravelDistance,
       };
+      if (location) {
+        eventData.location = location;
+      }
+      if (invitees.length > 0) {
+        eventData.invitees = invitees;
+      }
     }
 
-    onSubmit(eventData);
+    onSubmit(eventData, isOccurrence ? editScope : undefined);
     handleClose();
   };
 
@@ -112,6 +287,11 @@ export const EventModal = ({
     setNewActivity("");
     setBudgetLimit(undefined);
     setMaxTravelDistance(undefined);
+    setLocation(null);
+    setInvitees([]);
+    setVisibility(defaultVisibility);
+    setSharedWith([]);
+    setFrequency("none");
     onOpenChange(false);
   };
 
@@ -140,10 +320,13 @@ export const EventModal = ({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Create New Event</DialogTitle>
+          <DialogTitle>
+            {isEditing ? "Edit Event" : "Create New Event"}
+          </DialogTitle>
           <DialogDescription>
-            Add a new event to your calendar. Choose "hangout" type to find
-            friends with overlapping availability.
+            {isEditing
+              ? "Update the details of this event."
+              : 'Add a new event to your calendar. Choose "hangout" type to find friends with overlapping availability.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -232,6 +415,192 @@ export const EventModal = ({
                   </p>
                 )}
               </div>
+              <p className="col-span-2 -mt-2 text-xs text-muted-foreground">
+                Times are in {zone.replace(/_/g, " ")} (
+                {getTimeZoneAbbreviation(new Date(), zone)})
+              </p>
+            </div>
+
+            {/* Recurrence */}
+            <div className="space-y-2">
+              <Label
+                htmlFor="frequency"
+                className="flex items-center space-x-2"
+              >
+                <Repeat className="h-4 w-4" />
+                <span>Repeat</span>
+              </Label>
+              <Select
+                value={frequency}
+                onValueChange={(value) =>
+                  setFrequency(value as RecurrenceFrequency | "none")
+                }
+              >
+                <SelectTrigger id="frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Does not repeat</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {frequency !== "none" && (
+              <div className="space-y-4 rounded-md border p-4">
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="repeatInterval">Every</Label>
+                  <Input
+                    id="repeatInterval"
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    value={repeatInterval}
+                    onChange={(e) =>
+                      setRepeatInterval(Math.max(1, Number(e.target.value)))
+                    }
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {FREQUENCY_UNITS[frequency]}
+                  </span>
+                </div>
+
+                {frequency === "weekly" && (
+                  <div className="space-y-2">
+                    <Label>On</Label>
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      value={byDay}
+                      onValueChange={(value) => setByDay(value as Weekday[])}
+                      className="flex-wrap justify-start"
+                    >
+                      {WEEKDAYS.map((day) => (
+                        <ToggleGroupItem key={day} value={day}>
+                          {WEEKDAY_LABELS[day]}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Ends</Label>
+                  <RadioGroup
+                    value={recurrenceEnd}
+                    onValueChange={(value) =>
+                      setRecurrenceEnd(value as RecurrenceEnd)
+                    }
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="never" id="ends-never" />
+                      <Label htmlFor="ends-never" className="font-normal">
+                        Never
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="count" id="ends-count" />
+                      <Label htmlFor="ends-count" className="font-normal">
+                        After
+                      </Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        className="w-20"
+                        value={occurrenceCount || ""}
+                        disabled={recurrenceEnd !== "count"}
+                        onChange={(e) =>
+                          setOccurrenceCount(
+                            e.target.value ? Number(e.target.value) : undefined,
+                          )
+                        }
+                      />
+                      <span className="text-sm text-muted-foreground">
+                        occurrences
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="until" id="ends-until" />
+                      <Label htmlFor="ends-until" className="font-normal">
+                        On
+                      </Label>
+                      <Input
+                        type="date"
+                        className="w-44"
+                        value={untilDate}
+                        disabled={recurrenceEnd !== "until"}
+                        onChange={(e) => setUntilDate(e.target.value)}
+                      />
+                    </div>
+                  </RadioGroup>
+                </div>
+              </div>
+            )}
+
+            {isOccurrence && (
+              <div className="space-y-2">
+                <Label>Apply changes to</Label>
+                <RadioGroup
+                  value={editScope}
+                  onValueChange={(value) =>
+                    setEditScope(value as RecurrenceEditScope)
+                  }
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="this" id="scope-this" />
+                    <Label htmlFor="scope-this" className="font-normal">
+                      This event
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="following" id="scope-following" />
+                    <Label htmlFor="scope-following" className="font-normal">
+                      This and following events
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+
+            {/* Visibility */}
+            <div className="space-y-2">
+              <Label
+                htmlFor="visibility"
+                className="flex items-center space-x-2"
+              >
+                <Eye className="h-4 w-4" />
+                <span>Who Can See This</span>
+              </Label>
+              <Select
+                value={visibility}
+                onValueChange={(value) =>
+                  setVisibility(value as EventVisibility)
+                }
+              >
+                <SelectTrigger id="visibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_VISIBILITIES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {EVENT_VISIBILITY_LABELS[option].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {EVENT_VISIBILITY_LABELS[visibility].description}
+              </p>
+              {visibility === "selected" && (
+                <FriendPicker
+                  friends={friends}
+                  selected={sharedWith}
+                  onChange={setSharedWith}
+                />
+              )}
             </div>
 
             {/* Hangout Preferences */}
@@ -298,6 +667,23 @@ export const EventModal = ({
                     />
                   </div>
 
+                  {/* Starting Point */}
+                  <div className="space-y-2">
+                    <Label htmlFor="hangoutLocation">
+                      Starting From (Optional)
+                    </Label>
+                    <LocationPicker
+                      key={locationKey}
+                      id="hangoutLocation"
+                      value={location}
+                      onChange={setLocation}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Used with travel distances to find friends you can
+                      actually reach
+                    </p>
+                  </div>
+
                   {/* Max Travel Distance */}
                   <div className="space-y-2">
                     <Label htmlFor="maxTravelDistance">
@@ -317,6 +703,34 @@ export const EventModal = ({
                       step="0.1"
                     />
                   </div>
+
+                  {/* Invitations */}
+                  <div className="space-y-2">
+                    <Label className="flex items-center space-x-2">
+                      <UserPlus className="h-4 w-4" />
+                      <span>Invite Friends (Optional)</span>
+                    </Label>
+                    <FriendPicker
+                      friends={friends}
+                      selected={invitees}
+                      onChange={setInvitees}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Invited friends see the hangout on their calendar and can
+                      answer going, maybe or not going
+                    </p>
+                  </div>
+
+                  {isEditing &&
+                    getInvitees(event as HangoutEvent).length > 0 && (
+                      <div className="space-y-2">
+                        <Label>Attendees</Label>
+                        <AttendeeList
+                          event={event as HangoutEvent}
+                          people={friends}
+                        />
+                      </div>
+                    )}
                 </div>
               </>
             )}
@@ -330,8 +744,10 @@ export const EventModal = ({
               {isSubmitting ? (
                 <>
                   <Clock className="mr-2 h-4 w-4 animate-spin" />
-                  Creating...
+                  {isEditing ? "Saving..." : "Creating..."}
                 </>
+              ) : isEditing ? (
+                "Save Changes"
               ) : (
                 "Create Event"
               )}
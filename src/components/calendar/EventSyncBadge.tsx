@@ -0,0 +1,23 @@
+import { CircleAlert, CloudOff } from "lucide-react";
+import { OutboxStatus } from "@/lib/outbox";
+
+// Marks an event with changes that haven't reached the backend yet
+export const EventSyncBadge = ({ status }: { status: OutboxStatus | null }) => {
+  if (status === "failed") {
+    return (
+      <span title="Couldn't save changes" className="flex-shrink-0">
+        <CircleAlert className="h-3 w-3 text-destructive" />
+      </span>
+    );
+  }
+
+  if (status === "pending") {
+    return (
+      <span title="Waiting to sync" className="flex-shrink-0">
+        <CloudOff className="h-3 w-3 opacity-60" />
+      </span>
+    );
+  }
+
+  return null;
+};
@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
 import {
   MapPin,
   Clock,
@@ -17,10 +18,28 @@ import {
   MessageCircle,
   Users,
   Calendar,
+  UserPlus,
 } from "lucide-react";
-import { HangoutEvent, User } from "@/types";
-import { format } from "date-fns";
-import { Link } from "react-router-dom";
+import { useState } from "react";
+import { toast } from "sonner";
+import { EventOccurrence, HangoutEvent, User } from "@/types";
+import { useAuth } from "@/store/authStore";
+import { useMessageStore } from "@/store/messageStore";
+import { buildOverlapCard, describeHangoutCard } from "@/lib/hangoutCards";
+import {
+  HangoutCompatibility,
+  describeCompatibility,
+} from "@/lib/compatibility";
+import {
+  formatRangeInTimeZone,
+  getTimeZoneAbbreviation,
+  isSameOffset,
+  resolveTimeZone,
+} from "@/lib/timezone";
+import { formatDistance, getHangoutDistance } from "@/lib/location";
+import { getInvitees, isInvitedTo } from "@/lib/invitations";
+import { Link, useNavigate } from "react-router-dom";
+import { AttendeeList } from "./AttendeeList";
 
 interface HangoutOverlapModalProps {
   open: boolean;
@@ -29,6 +48,13 @@ interface HangoutOverlapModalProps {
   friendEvent: HangoutEvent | null;
   friend: User | null;
   overlapTime: { start: string; end: string } | null;
+  compatibility: HangoutCompatibility | null;
+  // Other friends who are also free during the overlap
+  alsoAvailable?: User[];
+  // Viewer's zone; the friend's own local time is shown alongside
+  timeZone?: string;
+  // Invites friends to the viewer's hangout; hides the invite button if omitted
+  onInvite?: (event: EventOccurrence, friendIds: string[]) => Promise<boolean>;
 }
 
 export const HangoutOverlapModal = ({
@@ -38,7 +64,58 @@ export const HangoutOverlapModal = ({
   friendEvent,
   friend,
   overlapTime,
+  compatibility,
+  alsoAvailable = [],
+  timeZone,
+  onInvite,
 }: HangoutOverlapModalProps) => {
+  const zone = resolveTimeZone(timeZone);
+  const friendZone = resolveTimeZone(friend?.timeZone, zone);
+  const { user } = useAuth();
+  const { createConversation, sendMessage, isLoading } = useMessageStore(
+    user?.id,
+  );
+  const navigate = useNavigate();
+  const [isSharing, setIsSharing] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+
+  // Sends the overlap to the friend as a card and opens the chat, so
+  // planning picks up with the time and preferences in view
+  const handleShare = async () => {
+    if (!userEvent || !friendEvent || !friend || !overlapTime) return;
+
+    setIsSharing(true);
+    try {
+      const card = buildOverlapCard(userEvent, friendEvent, overlapTime, zone);
+      const conversation = await createConversation(friend.id);
+      await sendMessage(conversation.id, describeHangoutCard(card, zone), {
+        card,
+      });
+      onOpenChange(false);
+      navigate(`/messages?conversation=${conversation.id}`);
+    } catch (error) {
+      console.error("Failed to share hangout:", error);
+      toast.error("Couldn't share the hangout");
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!userEvent || !friend || !onInvite) return;
+
+    setIsInviting(true);
+    try {
+      if (await onInvite(userEvent, [friend.id])) {
+        toast.success(`Invited ${friend.fullName}`);
+      } else {
+        toast.error(`Couldn't invite ${friend.fullName}`);
+      }
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -48,7 +125,7 @@ export const HangoutOverlapModal = ({
       .slice(0, 2);
   };
 
-  const formatOverlapTime = (start: string, end: string) => {
+  const formatOverlapTime = (start: string, end: string, inZone = zone) => {
     try {
       const startDate = new Date(start);
       const endDate = new Date(end);
@@ -57,13 +134,26 @@ export const HangoutOverlapModal = ({
         return "Invalid time range";
       }
 
-      return `${format(startDate, "MMM d, h:mm a")} - ${format(endDate, "h:mm a")}`;
+      return formatRangeInTimeZone(startDate, endDate, inZone);
     } catch (error) {
       return "Invalid time range";
     }
   };
 
-  const renderHangoutPreferences = (event: HangoutEvent, title: string) => (
+  // The same range on the friend's clock, when their zone differs
+  const formatFriendTime = (start: string, end: string) => {
+    if (!friend || isSameOffset(start, zone, friendZone)) return null;
+    return `${formatOverlapTime(start, end, friendZone)} ${getTimeZoneAbbreviation(
+      start,
+      friendZone,
+    )} for ${friend.fullName}`;
+  };
+
+  const renderHangoutPreferences = (
+    event: HangoutEvent,
+    title: string,
+    showFriendTime = false,
+  ) => (
     <div className="space-y-3">
       <div className="flex items-center space-x-2">
         <MapPin className="h-5 w-5 text-blue-600" />
@@ -74,9 +164,14 @@ export const HangoutOverlapModal = ({
         <div>
           <p className="font-medium">{event.title}</p>
           <p className="text-sm text-muted-foreground">
-            {format(new Date(event.startTime), "MMM d, h:mm a")} -{" "}
-            {format(new Date(event.endTime), "h:mm a")}
+            {formatOverlapTime(event.startTime, event.endTime)}
           </p>
+          {showFriendTime &&
+            formatFriendTime(event.startTime, event.endTime) && (
+              <p className="text-xs text-muted-foreground">
+                {formatFriendTime(event.startTime, event.endTime)}
+              </p>
+            )}
           {event.description && (
             <p className="text-sm text-muted-foreground mt-1">
               {event.description}
@@ -108,7 +203,14 @@ export const HangoutOverlapModal = ({
                 </div>
               )}
 
-            <div className="flex space-x-4 text-sm">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+              {event.location && (
+                <div className="flex items-center space-x-1 text-blue-600">
+                  <MapPin className="h-3 w-3" />
+                  <span>From {event.location.label}</span>
+                </div>
+              )}
+
               {event.preferences.budgetLimit && (
                 <div className="flex items-center space-x-1 text-green-600">
                   <DollarSign className="h-3 w-3" />
@@ -135,6 +237,8 @@ export const HangoutOverlapModal = ({
     return null;
   }
 
+  const distance = getHangoutDistance(userEvent, friendEvent);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
@@ -181,17 +285,82 @@ export const HangoutOverlapModal = ({
             <p className="text-green-700">
               {formatOverlapTime(overlapTime.start, overlapTime.end)}
             </p>
+            {formatFriendTime(overlapTime.start, overlapTime.end) && (
+              <p className="text-sm text-green-600">
+                {formatFriendTime(overlapTime.start, overlapTime.end)}
+              </p>
+            )}
+            {distance !== undefined && (
+              <p className="mt-1 flex items-center justify-center space-x-1 text-sm text-green-700">
+                <Navigation className="h-3 w-3" />
+                <span>{formatDistance(distance)} apart</span>
+              </p>
+            )}
+            {alsoAvailable.length > 0 && (
+              <div className="mt-3 space-y-2">
+                <p className="text-sm text-green-800">
+                  Also free then - make it a group hangout:
+                </p>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {alsoAvailable.map((other) => (
+                    <Badge
+                      key={other.id}
+                      variant="outline"
+                      className="flex items-center space-x-1 bg-white"
+                    >
+                      <Avatar className="h-4 w-4">
+                        <AvatarImage src={other.avatar} alt={other.fullName} />
+                        <AvatarFallback className="text-[8px]">
+                          {getInitials(other.fullName)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span>{other.fullName}</span>
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Your Hangout */}
           {renderHangoutPreferences(userEvent, "Your Hangout Plans")}
 
+          {/* Attendees */}
+          {(getInvitees(userEvent).length > 0 || onInvite) && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Users className="h-5 w-5 text-purple-600" />
+                  <h3 className="font-semibold">Who's Coming</h3>
+                </div>
+                {onInvite && !isInvitedTo(userEvent, friend.id) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleInvite}
+                    disabled={isInviting}
+                  >
+                    <UserPlus className="mr-2 h-4 w-4" />
+                    {isInviting ? "Inviting..." : `Invite ${friend.fullName}`}
+                  </Button>
+                )}
+              </div>
+              <div className="ml-7">
+                <AttendeeList
+                  event={userEvent}
+                  people={[friend, ...alsoAvailable]}
+                />
+              </div>
+            </div>
+          )}
+
           <Separator />
 
           {/* Friend's Hangout */}
           {renderHangoutPreferences(
             friendEvent,
             `${friend.fullName}'s Hangout Plans`,
+            true,
           )}
 
           {/* Compatibility Check */}
@@ -201,65 +370,45 @@ export const HangoutOverlapModal = ({
               <span>Compatibility Analysis</span>
             </h4>
             <div className="space-y-2 text-sm">
-              {/* Activity Compatibility */}
-              {userEvent.preferences?.activitySuggestions &&
-                friendEvent.preferences?.activitySuggestions && (
-                  <div>
-                    <p className="font-medium">Common Activities:</p>
-                    {(() => {
-                      const commonActivities =
-                        userEvent.preferences.activitySuggestions.filter(
-                          (activity) =>
-                            friendEvent.preferences?.activitySuggestions?.includes(
-                              activity,
-                            ),
-                        );
-
-                      if (commonActivities.length > 0) {
-                        return (
-                          <div className="flex flex-wrap gap-1 mt-1">
-                            {commonActivities.map((activity, index) => (
-                              <Badge
-                                key={index}
-                                variant="default"
-                                className="text-xs bg-green-600"
-                              >
-                                {activity}
-                              </Badge>
-                            ))}
-                          </div>
-                        );
-                      } else {
-                        return (
-                          <p className="text-muted-foreground">
-                            No common activities, but that's okay - you can try
-                            something new!
-                          </p>
-                        );
-                      }
-                    })()}
-                  </div>
-                )}
-
-              {/* Budget Compatibility */}
-              {userEvent.preferences?.budgetLimit &&
-                friendEvent.preferences?.budgetLimit && (
-                  <div>
-                    <p className="font-medium">Budget Range:</p>
-                    <p className="text-muted-foreground">
-                      $
-                      {Math.min(
-                        userEvent.preferences.budgetLimit,
-                        friendEvent.preferences.budgetLimit,
-                      )}{" "}
-                      - $
-                      {Math.max(
-                        userEvent.preferences.budgetLimit,
-                        friendEvent.preferences.budgetLimit,
-                      )}
+              {compatibility && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium">
+                      {describeCompatibility(compatibility.score)}
                     </p>
+                    <Badge variant="secondary">
+                      {compatibility.score}% match
+                    </Badge>
                   </div>
-                )}
+                  <Progress value={compatibility.score} className="h-2" />
+                  <ul className="space-y-1 text-muted-foreground">
+                    {compatibility.factors.map((factor) => (
+                      <li
+                        key={factor.key}
+                        className="flex items-center justify-between"
+                      >
+                        <span>{factor.detail}</span>
+                        <span className="text-xs">
+                          {Math.round(factor.score * 100)}%
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {compatibility.sharedActivities.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {compatibility.sharedActivities.map((activity) => (
+                        <Badge
+                          key={activity}
+                          variant="default"
+                          className="text-xs bg-green-600"
+                        >
+                          {activity}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
 
               {/* Travel Compatibility */}
               {userEvent.preferences?.maxTravelDistance &&
@@ -285,7 +434,10 @@ export const HangoutOverlapModal = ({
               💡 Suggestions
             </h4>
             <ul className="text-sm text-amber-700 space-y-1">
-              <li>• Message {friend.fullName} to coordinate your plans</li>
+              <li>
+                • Share this overlap with {friend.fullName} to coordinate your
+                plans
+              </li>
               <li>• Consider combining your hangout ideas</li>
               <li>• Meet somewhere in the middle if travel distance allows</li>
               <li>• Share activity suggestions to find common interests</li>
@@ -297,12 +449,10 @@ export const HangoutOverlapModal = ({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Close
           </Button>
-          <Link to={`/messages?user=${friend.id}`}>
-            <Button>
-              <MessageCircle className="mr-2 h-4 w-4" />
-              Start Planning Together
-            </Button>
-          </Link>
+          <Button onClick={handleShare} disabled={isLoading || isSharing}>
+            <MessageCircle className="mr-2 h-4 w-4" />
+            {isSharing ? "Sharing..." : "Start Planning Together"}
+          </Button>
         </div>
       </DialogContent>
     </Dialog>
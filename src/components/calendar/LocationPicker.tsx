@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GeoLocation } from "@/types";
+import { CITIES } from "@/lib/cities";
+import { createCustomLocation } from "@/lib/location";
+
+const NO_LOCATION = "none";
+const CUSTOM_LOCATION = "custom";
+
+interface LocationPickerProps {
+  id?: string;
+  // Read when the picker mounts; give it a new key to load another value
+  value?: GeoLocation | null;
+  // Null when cleared, or while typed coordinates aren't valid yet
+  onChange: (location: GeoLocation | null) => void;
+}
+
+const isCity = (location: GeoLocation) =>
+  CITIES.some(
+    (city) =>
+      city.label === location.label &&
+      city.latitude === location.latitude &&
+      city.longitude === location.longitude,
+  );
+
+// A city from the bundled list, or coordinates typed in by hand
+export const LocationPicker = ({
+  id,
+  value,
+  onChange,
+}: LocationPickerProps) => {
+  const [selected, setSelected] = useState(
+    !value ? NO_LOCATION : isCity(value) ? value.label : CUSTOM_LOCATION,
+  );
+  const custom = value && !isCity(value) ? value : null;
+  const [latitude, setLatitude] = useState(custom?.latitude.toString() || "");
+  const [longitude, setLongitude] = useState(
+    custom?.longitude.toString() || "",
+  );
+  const [label, setLabel] = useState(custom?.label || "");
+
+  const updateCustom = (next: {
+    latitude?: string;
+    longitude?: string;
+    label?: string;
+  }) => {
+    const fields = { latitude, longitude, label, ...next };
+    setLatitude(fields.latitude);
+    setLongitude(fields.longitude);
+    setLabel(fields.label);
+
+    onChange(
+      fields.latitude.trim() && fields.longitude.trim()
+        ? createCustomLocation(
+            Number(fields.latitude),
+            Number(fields.longitude),
+            fields.label,
+          )
+        : null,
+    );
+  };
+
+  const handleSelect = (next: string) => {
+    setSelected(next);
+    if (next === CUSTOM_LOCATION) {
+      updateCustom({});
+    } else {
+      onChange(CITIES.find((city) => city.label === next) || null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={selected} onValueChange={handleSelect}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="max-h-72">
+          <SelectItem value={NO_LOCATION}>No location</SelectItem>
+          <SelectItem value={CUSTOM_LOCATION}>Enter coordinates...</SelectItem>
+          {CITIES.map((city) => (
+            <SelectItem key={city.label} value={city.label}>
+              {city.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {selected === CUSTOM_LOCATION && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="number"
+            placeholder="Latitude (e.g. 40.71)"
+            value={latitude}
+            onChange={(e) => updateCustom({ latitude: e.target.value })}
+            min="-90"
+            max="90"
+            step="any"
+            aria-label="Latitude"
+          />
+          <Input
+            type="number"
+            placeholder="Longitude (e.g. -74.01)"
+            value={longitude}
+            onChange={(e) => updateCustom({ longitude: e.target.value })}
+            min="-180"
+            max="180"
+            step="any"
+            aria-label="Longitude"
+          />
+          <Input
+            className="col-span-2"
+            placeholder="Name this place (optional)"
+            value={label}
+            onChange={(e) => updateCustom({ label: e.target.value })}
+            aria-label="Location name"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,720 @@
+import { useEffect, useRef, useState } from "react";
+import { format, isSameDay, setHours, startOfDay } from "date-fns";
+import {
+  Calendar as CalendarIcon,
+  Mail,
+  MapPin,
+  Repeat,
+  Users,
+} from "lucide-react";
+import { EventOccurrence } from "@/types";
+import { cn } from "@/lib/utils";
+import { OutboxStatus } from "@/lib/outbox";
+import {
+  GridPoint,
+  GridRange,
+  getGridTime,
+  getSelectionRange,
+  layoutDayItems,
+  moveEventTo,
+  resizeEventTo,
+  snapToSlot,
+} from "@/lib/calendarView";
+import {
+  formatInTimeZone,
+  formatRangeInTimeZone,
+  getDayKey,
+  getLocalDayKey,
+  getZonedParts,
+  isSameOffset,
+  resolveTimeZone,
+  toZonedDate,
+} from "@/lib/timezone";
+import { EventOverlap, FriendHangout } from "@/store/calendarStore";
+import { EventSyncBadge } from "./EventSyncBadge";
+
+const HOUR_HEIGHT = 48;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const MINUTES_PER_DAY = 24 * 60;
+// Scroll position on open, so the grid starts at the morning
+const INITIAL_SCROLL_HOUR = 8;
+// Clicks and drags snap to this many minutes
+const SLOT_MINUTES = 30;
+// Pointer travel (px) before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+// An in-progress selection, move or resize
+type GridDrag =
+  | { mode: "create"; anchor: GridPoint; current: GridPoint }
+  | {
+      mode: "move";
+      event: EventOccurrence;
+      // Minutes between the grab point and the event start
+      offset: number;
+      current: GridPoint;
+    }
+  | { mode: "resize"; event: EventOccurrence; current: GridPoint };
+
+// Pointer drags commit on release; keyboard ones commit on Enter and are
+// dropped on Escape or blur
+type DragState = GridDrag & {
+  keyboard: boolean;
+  moved: boolean;
+  origin?: { x: number; y: number };
+};
+
+interface TimeGridViewProps {
+  days: Date[];
+  events: EventOccurrence[];
+  friendHangouts?: FriendHangout[];
+  overlapsByEvent?: Record<string, EventOverlap>;
+  selectedDate?: Date;
+  // Viewer's zone; days are its calendar days and slots its wall-clock times
+  timeZone?: string;
+  onEventClick: (event: EventOccurrence) => void;
+  onSlotSelect: (date: Date) => void;
+  // Dragged-out range (wall-clock times); falls back to onSlotSelect
+  onRangeSelect?: (start: Date, end: Date) => void;
+  // Moving and resizing are disabled when omitted
+  onEventReschedule?: (
+    event: EventOccurrence,
+    times: { startTime: string; endTime: string },
+  ) => void;
+  // Marks events with changes that haven't synced yet
+  getEventSyncStatus?: (eventId: string) => OutboxStatus | null;
+  // Other people's hangouts the viewer is invited to; they can't be moved
+  isInvitation?: (event: EventOccurrence) => boolean;
+}
+
+const toPixels = (minutes: number) => (minutes / 60) * HOUR_HEIGHT;
+
+// Nearest slot boundary, for event edges
+const roundToSlot = (minutes: number) =>
+  Math.max(
+    0,
+    Math.min(
+      Math.round(minutes / SLOT_MINUTES) * SLOT_MINUTES,
+      MINUTES_PER_DAY,
+    ),
+  );
+
+export const TimeGridView = ({
+  days,
+  events,
+  friendHangouts = [],
+  overlapsByEvent = {},
+  selectedDate,
+  timeZone,
+  onEventClick,
+  onSlotSelect,
+  onRangeSelect,
+  onEventReschedule,
+  getEventSyncStatus,
+  isInvitation = () => false,
+}: TimeGridViewProps) => {
+  const zone = resolveTimeZone(timeZone);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const columnRefs = useRef<Array<HTMLDivElement | null>>([]);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const gridColumns = `4rem repeat(${days.length}, minmax(0, 1fr))`;
+
+  const canReschedule = (event: EventOccurrence) =>
+    Boolean(onEventReschedule) && !isInvitation(event);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = INITIAL_SCROLL_HOUR * HOUR_HEIGHT;
+    }
+  }, []);
+
+  // Where an instant sits on the grid; dayIndex is -1 off the grid
+  const getGridPoint = (iso: string): GridPoint => {
+    const wallClock = toZonedDate(iso, zone);
+    const dayKey = getLocalDayKey(wallClock);
+    return {
+      dayIndex: days.findIndex((day) => getLocalDayKey(day) === dayKey),
+      minutes: wallClock.getHours() * 60 + wallClock.getMinutes(),
+    };
+  };
+
+  const pointFromPointer = (clientX: number, clientY: number): GridPoint => {
+    const columns = columnRefs.current.slice(0, days.length);
+    let dayIndex = columns.findIndex((column) => {
+      const rect = column?.getBoundingClientRect();
+      return rect && clientX >= rect.left && clientX < rect.right;
+    });
+    if (dayIndex === -1) {
+      const first = columns[0]?.getBoundingClientRect();
+      dayIndex = first && clientX < first.left ? 0 : days.length - 1;
+    }
+
+    const rect = columns[dayIndex].getBoundingClientRect();
+    const minutes = ((clientY - rect.top) / HOUR_HEIGHT) * 60;
+    return {
+      dayIndex,
+      minutes: Math.max(0, Math.min(minutes, MINUTES_PER_DAY)),
+    };
+  };
+
+  // The range an in-progress drag would produce
+  const getDragRange = (state: DragState): GridRange => {
+    if (state.mode === "create") {
+      return getSelectionRange(state.anchor, state.current, SLOT_MINUTES);
+    }
+
+    if (state.mode === "move") {
+      const startMinutes = roundToSlot(state.current.minutes - state.offset);
+      const duration =
+        (new Date(state.event.endTime).getTime() -
+          new Date(state.event.startTime).getTime()) /
+        60000;
+      return {
+        dayIndex: state.current.dayIndex,
+        startMinutes,
+        endMinutes: startMinutes + duration,
+      };
+    }
+
+    // Resizing is previewed on the start day, running to midnight when the
+    // end is dragged into a later day
+    const start = getGridPoint(state.event.startTime);
+    const endMinutes =
+      state.current.dayIndex > start.dayIndex
+        ? MINUTES_PER_DAY
+        : roundToSlot(state.current.minutes);
+    return {
+      dayIndex: start.dayIndex,
+      startMinutes: start.minutes,
+      endMinutes: Math.max(endMinutes, start.minutes + SLOT_MINUTES),
+    };
+  };
+
+  const commitDrag = (state: DragState) => {
+    setDrag(null);
+
+    if (state.mode === "create") {
+      const range = getDragRange(state);
+      const day = days[range.dayIndex];
+      if (state.moved && onRangeSelect) {
+        onRangeSelect(
+          getGridTime(day, range.startMinutes),
+          getGridTime(day, range.endMinutes),
+        );
+      } else {
+        onSlotSelect(getGridTime(day, range.startMinutes));
+      }
+      return;
+    }
+
+    if (!state.moved || !canReschedule(state.event)) {
+      onEventClick(state.event);
+      return;
+    }
+
+    if (state.mode === "move") {
+      const range = getDragRange(state);
+      onEventReschedule(
+        state.event,
+        moveEventTo(
+          state.event,
+          getGridTime(days[range.dayIndex], range.startMinutes),
+          zone,
+        ),
+      );
+      return;
+    }
+
+    onEventReschedule(
+      state.event,
+      resizeEventTo(
+        state.event,
+        getGridTime(
+          days[state.current.dayIndex],
+          roundToSlot(state.current.minutes),
+        ),
+        zone,
+        SLOT_MINUTES,
+      ),
+    );
+  };
+
+  // Pointer drags follow the pointer anywhere on the page until release
+  useEffect(() => {
+    if (!drag || drag.keyboard) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const moved =
+        drag.moved ||
+        Math.hypot(e.clientX - drag.origin.x, e.clientY - drag.origin.y) >
+          DRAG_THRESHOLD;
+      setDrag({
+        ...drag,
+        moved,
+        current: pointFromPointer(e.clientX, e.clientY),
+      });
+    };
+    const handleUp = () => commitDrag(drag);
+    const handleCancel = () => setDrag(null);
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    window.addEventListener("pointercancel", handleCancel);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      window.removeEventListener("pointercancel", handleCancel);
+    };
+  }, [drag]);
+
+  const startPointerDrag = (
+    e: React.PointerEvent<HTMLDivElement>,
+    state: GridDrag,
+  ) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    setDrag({
+      ...state,
+      keyboard: false,
+      moved: false,
+      origin: { x: e.clientX, y: e.clientY },
+    });
+  };
+
+  const handleColumnPointerDown = (
+    dayIndex: number,
+    e: React.PointerEvent<HTMLDivElement>,
+  ) => {
+    const point = { ...pointFromPointer(e.clientX, e.clientY), dayIndex };
+    startPointerDrag(e, { mode: "create", anchor: point, current: point });
+  };
+
+  const handleEventPointerDown = (
+    event: EventOccurrence,
+    e: React.PointerEvent<HTMLDivElement>,
+  ) => {
+    const point = pointFromPointer(e.clientX, e.clientY);
+    const start = getGridPoint(event.startTime);
+    // Events that started on an earlier day are grabbed by their top edge
+    const offset =
+      start.dayIndex === point.dayIndex ? point.minutes - start.minutes : 0;
+
+    startPointerDrag(e, { mode: "move", event, offset, current: point });
+  };
+
+  const handleResizePointerDown = (
+    event: EventOccurrence,
+    e: React.PointerEvent<HTMLDivElement>,
+  ) => {
+    startPointerDrag(e, {
+      mode: "resize",
+      event,
+      current: pointFromPointer(e.clientX, e.clientY),
+    });
+  };
+
+  // Arrow keys step by a slot (up/down) or a day (left/right)
+  const stepPoint = (point: GridPoint, key: string): GridPoint => {
+    switch (key) {
+      case "ArrowUp":
+        return { ...point, minutes: Math.max(point.minutes - SLOT_MINUTES, 0) };
+      case "ArrowDown":
+        return {
+          ...point,
+          minutes: Math.min(point.minutes + SLOT_MINUTES, MINUTES_PER_DAY),
+        };
+      case "ArrowLeft":
+        return { ...point, dayIndex: Math.max(point.dayIndex - 1, 0) };
+      case "ArrowRight":
+        return {
+          ...point,
+          dayIndex: Math.min(point.dayIndex + 1, days.length - 1),
+        };
+      default:
+        return point;
+    }
+  };
+
+  const isVerticalKey = (key: string) =>
+    key === "ArrowUp" || key === "ArrowDown";
+  const isArrowKey = (key: string) =>
+    isVerticalKey(key) || key === "ArrowLeft" || key === "ArrowRight";
+
+  // Keyboard selection: arrows place a slot, Shift+Up/Down extends it and
+  // Enter opens the new event form for it
+  const handleColumnKeyDown = (
+    dayIndex: number,
+    e: React.KeyboardEvent<HTMLDivElement>,
+  ) => {
+    if (e.target !== e.currentTarget) return;
+    const active =
+      drag?.keyboard &&
+      drag.mode === "create" &&
+      drag.anchor.dayIndex === dayIndex
+        ? drag
+        : null;
+
+    if (e.key === "Escape" && active) {
+      e.preventDefault();
+      setDrag(null);
+      return;
+    }
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (active) {
+        commitDrag(active);
+      } else {
+        onSlotSelect(getGridTime(days[dayIndex], INITIAL_SCROLL_HOUR * 60));
+      }
+      return;
+    }
+    if (!isArrowKey(e.key)) return;
+    e.preventDefault();
+
+    if (!active) {
+      const point = { dayIndex, minutes: INITIAL_SCROLL_HOUR * 60 };
+      setDrag({
+        mode: "create",
+        anchor: point,
+        current: point,
+        keyboard: true,
+        moved: false,
+      });
+      return;
+    }
+
+    if (!isVerticalKey(e.key)) {
+      const next = stepPoint(active.anchor, e.key).dayIndex;
+      setDrag({
+        ...active,
+        anchor: { ...active.anchor, dayIndex: next },
+        current: { ...active.current, dayIndex: next },
+      });
+      columnRefs.current[next]?.focus();
+      return;
+    }
+
+    const current = stepPoint(active.current, e.key);
+    const delta = current.minutes - active.current.minutes;
+    setDrag({
+      ...active,
+      moved: active.moved || e.shiftKey,
+      anchor: e.shiftKey
+        ? active.anchor
+        : {
+            ...active.anchor,
+            minutes: snapToSlot(active.anchor.minutes + delta, SLOT_MINUTES),
+          },
+      current: {
+        ...current,
+        minutes: snapToSlot(current.minutes, SLOT_MINUTES),
+      },
+    });
+  };
+
+  // Keyboard rescheduling: arrows move the event, Shift+Up/Down moves its
+  // end, Enter saves
+  const handleEventKeyDown = (
+    event: EventOccurrence,
+    e: React.KeyboardEvent<HTMLDivElement>,
+  ) => {
+    const active =
+      drag?.keyboard && drag.mode !== "create" && drag.event.id === event.id
+        ? drag
+        : null;
+
+    if (e.key === "Escape" && active) {
+      e.preventDefault();
+      setDrag(null);
+      return;
+    }
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      if (active) commitDrag(active);
+      else onEventClick(event);
+      return;
+    }
+    if (!isArrowKey(e.key) || !canReschedule(event)) return;
+    e.preventDefault();
+
+    const mode = e.shiftKey && isVerticalKey(e.key) ? "resize" : "move";
+    const from =
+      active && active.mode === mode
+        ? active.current
+        : getGridPoint(mode === "resize" ? event.endTime : event.startTime);
+    if (from.dayIndex === -1) return;
+
+    const current = stepPoint(from, e.key);
+    setDrag(
+      mode === "move"
+        ? { mode, event, offset: 0, current, keyboard: true, moved: true }
+        : { mode, event, current, keyboard: true, moved: true },
+    );
+  };
+
+  const cancelKeyboardDrag = () => {
+    if (drag?.keyboard) setDrag(null);
+  };
+
+  const now = getZonedParts(new Date(), zone);
+  const nowMinutes = now.hour * 60 + now.minute;
+  const todayKey = getDayKey(new Date(), zone);
+  const isToday = (day: Date) => getLocalDayKey(day) === todayKey;
+
+  // A friend's free time, with their own local time when it differs
+  const describeFriendHangout = ({ friend, event }: FriendHangout) => {
+    const friendZone = resolveTimeZone(friend.timeZone, zone);
+    const localTime = isSameOffset(event.startTime, zone, friendZone)
+      ? ""
+      : ` (${formatRangeInTimeZone(
+          event.startTime,
+          event.endTime,
+          friendZone,
+          "h:mm a",
+        )} their time)`;
+    return `${friend.fullName} is free: ${event.title}${localTime}`;
+  };
+
+  // Only drags that actually go somewhere get a preview
+  const showPreview =
+    drag &&
+    (drag.mode === "create" ? drag.moved || drag.keyboard : drag.moved) &&
+    (drag.mode === "create" || canReschedule(drag.event));
+  const dragRange = showPreview ? getDragRange(drag) : null;
+  const draggedEventId =
+    dragRange && drag.mode !== "create" ? drag.event.id : null;
+
+  return (
+    <div className="border rounded-md overflow-hidden">
+      {/* Day headers */}
+      <div
+        className="grid border-b bg-muted/30"
+        style={{ gridTemplateColumns: gridColumns }}
+      >
+        <div />
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className={cn(
+              "p-2 text-center border-l",
+              selectedDate && isSameDay(day, selectedDate) && "bg-primary/10",
+            )}
+          >
+            <div className="text-xs text-muted-foreground">
+              {format(day, "EEE")}
+            </div>
+            <div
+              className={cn(
+                "text-lg font-medium",
+                isToday(day) && "text-blue-600",
+              )}
+            >
+              {format(day, "d")}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Time grid */}
+      <div ref={scrollRef} className="h-[600px] overflow-y-auto">
+        <div
+          className={cn(
+            "grid select-none",
+            drag && !drag.keyboard && drag.moved && "cursor-grabbing",
+          )}
+          style={{ gridTemplateColumns: gridColumns, height: 24 * HOUR_HEIGHT }}
+        >
+          {/* Hour axis */}
+          <div className="relative">
+            {HOURS.slice(1).map((hour) => (
+              <div
+                key={hour}
+                className="absolute right-2 -translate-y-1/2 text-xs text-muted-foreground"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {format(setHours(startOfDay(days[0]), hour), "h a")}
+              </div>
+            ))}
+          </div>
+
+          {days.map((day, dayIndex) => (
+            <div
+              key={day.toISOString()}
+              ref={(element) => (columnRefs.current[dayIndex] = element)}
+              tabIndex={0}
+              role="group"
+              aria-label={`${format(day, "EEEE, MMMM d")}: arrow keys pick a time, Shift+Up or Down extends it, Enter adds an event`}
+              className="relative border-l cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary"
+              onPointerDown={(e) => handleColumnPointerDown(dayIndex, e)}
+              onKeyDown={(e) => handleColumnKeyDown(dayIndex, e)}
+              onBlur={cancelKeyboardDrag}
+            >
+              {HOURS.map((hour) => (
+                <div
+                  key={hour}
+                  className="border-t border-border/60"
+                  style={{ height: HOUR_HEIGHT }}
+                />
+              ))}
+
+              {/* Friends' free time, behind the user's own events */}
+              {layoutDayItems(
+                friendHangouts,
+                day,
+                ({ event }) => ({
+                  start: event.startTime,
+                  end: event.endTime,
+                }),
+                zone,
+              ).map(({ item, startMinutes, endMinutes, column, columns }) => (
+                <div
+                  key={`${item.friend.id}-${item.event.id}`}
+                  title={describeFriendHangout(item)}
+                  className="absolute pointer-events-none rounded-sm border border-dashed border-green-400 bg-green-200/30 px-1 overflow-hidden"
+                  style={{
+                    top: toPixels(startMinutes),
+                    height: toPixels(endMinutes - startMinutes),
+                    left: `${(column / columns) * 100}%`,
+                    width: `${100 / columns}%`,
+                  }}
+                >
+                  <span className="text-[10px] text-green-800">
+                    {item.friend.fullName}
+                  </span>
+                </div>
+              ))}
+
+              {/* Events */}
+              {layoutDayItems(
+                events,
+                day,
+                (event) => ({
+                  start: event.startTime,
+                  end: event.endTime,
+                }),
+                zone,
+              ).map(
+                ({
+                  item: event,
+                  startMinutes,
+                  endMinutes,
+                  column,
+                  columns,
+                }) => {
+                  const hasOverlap = Boolean(overlapsByEvent[event.id]);
+                  const invited = isInvitation(event);
+                  // The resize handle sits on the day the event ends
+                  const endsHere =
+                    getGridPoint(event.endTime).dayIndex === dayIndex ||
+                    endMinutes === MINUTES_PER_DAY;
+
+                  return (
+                    <div
+                      key={event.id}
+                      tabIndex={0}
+                      role="button"
+                      aria-label={
+                        canReschedule(event)
+                          ? `${event.title}: arrow keys move it, Shift+Up or Down changes its end, Enter saves`
+                          : event.title
+                      }
+                      onPointerDown={(e) => handleEventPointerDown(event, e)}
+                      onKeyDown={(e) => handleEventKeyDown(event, e)}
+                      onBlur={cancelKeyboardDrag}
+                      className={cn(
+                        "absolute z-10 rounded-md border px-1.5 py-0.5 text-xs overflow-hidden shadow-sm hover:opacity-90 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary",
+                        canReschedule(event)
+                          ? "cursor-grab touch-none"
+                          : "cursor-pointer",
+                        draggedEventId === event.id && "opacity-40",
+                        invited
+                          ? "bg-purple-50 text-purple-800 border-dashed border-purple-300"
+                          : event.type === "hangout" && hasOverlap
+                            ? "bg-gradient-to-r from-green-100 to-blue-100 text-green-800 border-green-300"
+                            : event.type === "hangout"
+                              ? "bg-blue-100 text-blue-800 border-blue-200"
+                              : "bg-gray-100 text-gray-800 border-gray-200",
+                      )}
+                      style={{
+                        top: toPixels(startMinutes),
+                        height: Math.max(
+                          toPixels(endMinutes - startMinutes),
+                          18,
+                        ),
+                        left: `calc(${(column / columns) * 100}% + 2px)`,
+                        width: `calc(${100 / columns}% - 4px)`,
+                      }}
+                    >
+                      <div className="flex items-center space-x-1 font-medium">
+                        {invited ? (
+                          <Mail className="h-3 w-3 flex-shrink-0" />
+                        ) : event.type === "hangout" && hasOverlap ? (
+                          <Users className="h-3 w-3 flex-shrink-0 text-green-600" />
+                        ) : event.type === "hangout" ? (
+                          <MapPin className="h-3 w-3 flex-shrink-0" />
+                        ) : (
+                          <CalendarIcon className="h-3 w-3 flex-shrink-0" />
+                        )}
+                        <span className="truncate">{event.title}</span>
+                        {event.recurringEventId && (
+                          <Repeat className="h-3 w-3 flex-shrink-0 opacity-60" />
+                        )}
+                        <EventSyncBadge
+                          status={getEventSyncStatus?.(event.id) || null}
+                        />
+                      </div>
+                      {endMinutes - startMinutes >= 45 && (
+                        <div className="opacity-75">
+                          {formatInTimeZone(event.startTime, zone, "h:mm a")} -{" "}
+                          {formatInTimeZone(event.endTime, zone, "h:mm a")}
+                        </div>
+                      )}
+                      {canReschedule(event) && endsHere && (
+                        <div
+                          aria-hidden
+                          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+                          onPointerDown={(e) =>
+                            handleResizePointerDown(event, e)
+                          }
+                        />
+                      )}
+                    </div>
+                  );
+                },
+              )}
+
+              {/* Drag preview */}
+              {dragRange && dragRange.dayIndex === dayIndex && (
+                <div
+                  className="absolute inset-x-0.5 z-20 pointer-events-none rounded-md border-2 border-dashed border-primary bg-primary/10 px-1.5 py-0.5 text-xs text-primary"
+                  style={{
+                    top: toPixels(dragRange.startMinutes),
+                    height: toPixels(
+                      Math.min(dragRange.endMinutes, MINUTES_PER_DAY) -
+                        dragRange.startMinutes,
+                    ),
+                  }}
+                >
+                  {drag.mode !== "create" && (
+                    <div className="truncate font-medium">
+                      {drag.event.title}
+                    </div>
+                  )}
+                  {format(getGridTime(day, dragRange.startMinutes), "h:mm a")} -{" "}
+                  {format(getGridTime(day, dragRange.endMinutes), "h:mm a")}
+                </div>
+              )}
+
+              {/* Current time */}
+              {isToday(day) && (
+                <div
+                  className="absolute inset-x-0 z-20 border-t-2 border-red-500 pointer-events-none"
+                  style={{ top: toPixels(nowMinutes) }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
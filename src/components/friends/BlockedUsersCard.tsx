@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Ban } from "lucide-react";
+import { toast } from "sonner";
+import { User } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { useModeration } from "@/store/moderationStore";
+
+// The people you've blocked, with a way to unblock each
+export const BlockedUsersCard = () => {
+  const { blockedUserIds, unblockUser } = useModeration();
+  const [profiles, setProfiles] = useState<Record<string, User>>({});
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (blockedUserIds.length === 0) return;
+    let cancelled = false;
+
+    dataProvider.getUsersByIds(blockedUserIds).then((users) => {
+      if (cancelled) return;
+      setProfiles(Object.fromEntries(users.map((u) => [u.id, u])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [blockedUserIds.join(",")]);
+
+  const getInitials = (name: string) =>
+    name
+      .split(" ")
+      .map((word) => word[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+
+  const handleUnblock = async (blockedUserId: string, name: string) => {
+    setUnblockingId(blockedUserId);
+    try {
+      if (await unblockUser(blockedUserId)) {
+        toast.success(`Unblocked ${name}`);
+      } else {
+        toast.error(`Couldn't unblock ${name}`);
+      }
+    } finally {
+      setUnblockingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Ban className="h-5 w-5" />
+          <span>Blocked Users</span>
+        </CardTitle>
+        <CardDescription>
+          Blocked people can't find you, message you or match with you for
+          hangouts
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {blockedUserIds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't blocked anyone
+          </p>
+        ) : (
+          blockedUserIds.map((blockedUserId) => {
+            const profile = profiles[blockedUserId];
+            const name = profile?.fullName || "Unknown user";
+
+            return (
+              <div
+                key={blockedUserId}
+                className="flex items-center justify-between"
+              >
+                <div className="flex items-center space-x-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={profile?.avatar} alt={name} />
+                    <AvatarFallback className="text-xs">
+                      {getInitials(name)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="text-sm font-medium">{name}</p>
+                    {profile && (
+                      <p className="text-xs text-muted-foreground">
+                        @{profile.username}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleUnblock(blockedUserId, name)}
+                  disabled={unblockingId === blockedUserId}
+                >
+                  Unblock
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -16,14 +16,27 @@ import {
   MessageCircle,
 } from "lucide-react";
 import { HangoutEvent, User } from "@/types";
-import { format, isToday, isTomorrow, isThisWeek } from "date-fns";
+import { addDays, format, isSameDay, isSameWeek } from "date-fns";
+import {
+  formatRangeInTimeZone,
+  getTimeZoneAbbreviation,
+  isSameOffset,
+  resolveTimeZone,
+  toZonedDate,
+} from "@/lib/timezone";
 import { Link } from "react-router-dom";
 
 interface FriendHangoutsProps {
   friendHangouts: Array<{ event: HangoutEvent; friend: User }>;
+  // Viewer's zone; each friend's own local time is shown alongside
+  timeZone?: string;
 }
 
-export const FriendHangouts = ({ friendHangouts }: FriendHangoutsProps) => {
+export const FriendHangouts = ({
+  friendHangouts,
+  timeZone,
+}: FriendHangoutsProps) => {
+  const zone = resolveTimeZone(timeZone);
   // Safety check for undefined or null friendHangouts
   const safeFriendHangouts = friendHangouts || [];
 
@@ -38,19 +51,24 @@ export const FriendHangouts = ({ friendHangouts }: FriendHangoutsProps) => {
 
   const formatEventTime = (startTime: string, endTime: string) => {
     try {
-      const start = new Date(startTime);
-      const end = new Date(endTime);
-
       // Check for invalid dates
-      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      if (
+        isNaN(new Date(startTime).getTime()) ||
+        isNaN(new Date(endTime).getTime())
+      ) {
         return "Invalid date";
       }
 
-      if (isToday(start)) {
+      // Wall-clock dates in the viewer's zone
+      const start = toZonedDate(startTime, zone);
+      const end = toZonedDate(endTime, zone);
+      const today = toZonedDate(new Date(), zone);
+
+      if (isSameDay(start, today)) {
         return `Today ${format(start, "h:mm a")} - ${format(end, "h:mm a")}`;
-      } else if (isTomorrow(start)) {
+      } else if (isSameDay(start, addDays(today, 1))) {
         return `Tomorrow ${format(start, "h:mm a")} - ${format(end, "h:mm a")}`;
-      } else if (isThisWeek(start)) {
+      } else if (isSameWeek(start, today)) {
         return `${format(start, "EEEE h:mm a")} - ${format(end, "h:mm a")}`;
       } else {
         return `${format(start, "MMM d, h:mm a")} - ${format(end, "h:mm a")}`;
@@ -61,6 +79,18 @@ export const FriendHangouts = ({ friendHangouts }: FriendHangoutsProps) => {
     }
   };
 
+  // The friend's own local time, when their zone differs from the viewer's
+  const formatFriendLocalTime = (event: HangoutEvent, friend: User) => {
+    const friendZone = resolveTimeZone(friend.timeZone, zone);
+    if (isSameOffset(event.startTime, zone, friendZone)) return null;
+
+    return `${formatRangeInTimeZone(
+      event.startTime,
+      event.endTime,
+      friendZone,
+    )} ${getTimeZoneAbbreviation(event.startTime, friendZone)} their time`;
+  };
+
   const upcomingHangouts = safeFriendHangouts.filter(
     ({ event }) => new Date(event.startTime) > new Date(),
   );
@@ -146,6 +176,11 @@ export const FriendHangouts = ({ friendHangouts }: FriendHangoutsProps) => {
                       {formatEventTime(event.startTime, event.endTime)}
                     </span>
                   </div>
+                  {formatFriendLocalTime(event, friend) && (
+                    <p className="text-xs text-muted-foreground ml-4">
+                      {formatFriendLocalTime(event, friend)}
+                    </p>
+                  )}
 
                   {event.description && (
                     <p className="text-sm text-muted-foreground">
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -15,6 +15,8 @@ import { User } from "@/types";
 import { Link } from "react-router-dom";
 import { useCalendarStore } from "@/store/calendarStore";
 import { useAuth } from "@/store/authStore";
+import { usePresenceStore } from "@/store/presenceStore";
+import { PresenceDot } from "./PresenceDot";
 
 interface FriendsListProps {
   friends: User[];
@@ -24,6 +26,11 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
   const { user } = useAuth();
   const { getFriendHangouts } = useCalendarStore(user?.id);
   const [searchFilter, setSearchFilter] = useState("");
+  // Upcoming hangouts per friend, loaded once the list of friends is known
+  const [upcomingCounts, setUpcomingCounts] = useState<Record<string, number>>(
+    {},
+  );
+  const presence = usePresenceStore(friends.map((friend) => friend.id));
 
   const getInitials = (name: string) => {
     return name
@@ -40,12 +47,30 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
       friend.username.toLowerCase().includes(searchFilter.toLowerCase()),
   );
 
-  const getUpcomingHangouts = (friendId: string) => {
-    const hangouts = getFriendHangouts(friendId);
-    return hangouts.filter(
-      (hangout) => new Date(hangout.startTime) > new Date(),
-    ).length;
-  };
+  const friendIds = friends.map((friend) => friend.id).join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      friends.map(async (friend) => {
+        const hangouts = await getFriendHangouts(friend.id);
+        const upcoming = hangouts.filter(
+          (hangout) => new Date(hangout.startTime) > new Date(),
+        ).length;
+        return [friend.id, upcoming] as const;
+      }),
+    ).then((counts) => {
+      if (!cancelled) setUpcomingCounts(Object.fromEntries(counts));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [friendIds]);
+
+  const getUpcomingHangouts = (friendId: string) =>
+    upcomingCounts[friendId] || 0;
 
   if (friends.length === 0) {
     return (
@@ -97,6 +122,7 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
           ) : (
             filteredFriends.map((friend) => {
               const upcomingHangouts = getUpcomingHangouts(friend.id);
+              const status = presence.describe(friend.id);
 
               return (
                 <div
@@ -104,12 +130,18 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
                   className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
                 >
                   <div className="flex items-center space-x-3">
-                    <Avatar className="h-12 w-12">
-                      <AvatarImage src={friend.avatar} alt={friend.fullName} />
-                      <AvatarFallback>
-                        {getInitials(friend.fullName)}
-                      </AvatarFallback>
-                    </Avatar>
+                    <div className="relative">
+                      <Avatar className="h-12 w-12">
+                        <AvatarImage
+                          src={friend.avatar}
+                          alt={friend.fullName}
+                        />
+                        <AvatarFallback>
+                          {getInitials(friend.fullName)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <PresenceDot state={presence.getState(friend.id)} />
+                    </div>
                     <div>
                       <div className="flex items-center space-x-2">
                         <p className="font-medium">{friend.fullName}</p>
@@ -122,6 +154,7 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
                       </div>
                       <p className="text-sm text-muted-foreground">
                         @{friend.username}
+                        {status && ` · ${status}`}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,31 @@
+import { PresenceState } from "@/types";
+import { cn } from "@/lib/utils";
+
+const DOT_STYLES: Record<PresenceState, string> = {
+  online: "bg-green-500",
+  idle: "bg-amber-400",
+  offline: "bg-gray-400",
+};
+
+interface PresenceDotProps {
+  state: PresenceState | null;
+  className?: string;
+}
+
+// Status dot for the corner of an avatar; the parent must be `relative`.
+// Renders nothing for people who hide their presence.
+export const PresenceDot = ({ state, className }: PresenceDotProps) => {
+  if (!state) return null;
+
+  return (
+    <span
+      className={cn(
+        "absolute bottom-0 right-0 block h-3 w-3 rounded-full ring-2 ring-background",
+        DOT_STYLES[state],
+        className,
+      )}
+      aria-label={state}
+      title={state.charAt(0).toUpperCase() + state.slice(1)}
+    />
+  );
+};
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { ReportReason } from "@/types";
+import { MAX_REPORT_DETAILS_LENGTH, REPORT_REASONS } from "@/lib/moderation";
+
+interface ReportUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Who's being reported, for the title
+  userName: string;
+  // Reporting a single message rather than the person in general
+  isMessageReport?: boolean;
+  onSubmit: (reason: ReportReason, details: string) => Promise<boolean>;
+}
+
+export const ReportUserDialog = ({
+  open,
+  onOpenChange,
+  userName,
+  isMessageReport = false,
+  onSubmit,
+}: ReportUserDialogProps) => {
+  const [reason, setReason] = useState<ReportReason>("spam");
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason("spam");
+      setDetails("");
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      if (await onSubmit(reason, details)) onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {isMessageReport ? "Report message" : `Report ${userName}`}
+          </DialogTitle>
+          <DialogDescription>
+            Reports are private. {userName} won't be told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>What's wrong?</Label>
+            <RadioGroup
+              value={reason}
+              onValueChange={(value) => setReason(value as ReportReason)}
+            >
+              {(Object.keys(REPORT_REASONS) as ReportReason[]).map((key) => (
+                <div key={key} className="flex items-center space-x-2">
+                  <RadioGroupItem value={key} id={`report-${key}`} />
+                  <Label htmlFor={`report-${key}`} className="font-normal">
+                    {REPORT_REASONS[key]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={MAX_REPORT_DETAILS_LENGTH}
+              placeholder="Anything that would help us look into this"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Sending..." : "Send report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -23,18 +23,25 @@ export const UserSearch = () => {
   const [isSearching, setIsSearching] = useState(false);
 
   useEffect(() => {
-    const delayedSearch = setTimeout(() => {
+    // Results for an older query that arrive late are dropped
+    let cancelled = false;
+    const delayedSearch = setTimeout(async () => {
       if (searchQuery.trim() && user) {
         setIsSearching(true);
-        const results = searchUsers(searchQuery, user.id);
+        const results = await searchUsers(searchQuery, user.id);
+        if (cancelled) return;
         setSearchResults(results);
         setIsSearching(false);
       } else {
         setSearchResults([]);
+        setIsSearching(false);
       }
     }, 300);
 
-    return () => clearTimeout(delayedSearch);
+    return () => {
+      cancelled = true;
+      clearTimeout(delayedSearch);
+    };
   }, [searchQuery, user]);
 
   const getInitials = (name: string) => {
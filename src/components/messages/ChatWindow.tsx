@@ -1,47 +1,247 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { Send, ArrowLeft } from "lucide-react";
-import { User, Conversation, Message } from "@/types";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Send,
+  ArrowLeft,
+  Settings,
+  Users,
+  X,
+  Paperclip,
+  FileText,
+  MoreVertical,
+  Bell,
+  BellOff,
+  Ban,
+  Flag,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Conversation,
+  HangoutCard,
+  Message,
+  MessageDeleteScope,
+  ReportReason,
+} from "@/types";
 import { useAuth } from "@/store/authStore";
 import { useMessageStore } from "@/store/messageStore";
+import { useCalendarStore } from "@/store/calendarStore";
+import { useOutbox } from "@/store/outboxStore";
+import { useModeration } from "@/store/moderationStore";
+import { isGroupConversation } from "@/lib/conversations";
+import { isMessageVisibleTo } from "@/lib/messages";
+import { getPendingMessages } from "@/lib/outbox";
+import { hangoutCardToEvent, isCardInCalendar } from "@/lib/hangoutCards";
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  formatFileSize,
+  getAttachmentKind,
+  validateAttachment,
+} from "@/lib/attachments";
 import { format, isToday, isYesterday } from "date-fns";
 import { cn } from "@/lib/utils";
+import { useMessageHistory } from "@/hooks/use-message-history";
+import { usePresenceStore, useTypingIndicator } from "@/store/presenceStore";
+import { describeTyping } from "@/lib/presence";
+import { PresenceDot } from "@/components/friends/PresenceDot";
+import { ReportUserDialog } from "@/components/friends/ReportUserDialog";
+import { GroupDetailsDialog } from "./GroupDetailsDialog";
+import { MessageBubble } from "./MessageBubble";
+import { HangoutCardMessage } from "./HangoutCardMessage";
 
 interface ChatWindowProps {
   conversation: Conversation | null;
-  otherUser: User | null;
   onBack?: () => void;
+  // Called after anything that changes the conversation list
+  onConversationChange?: () => void;
+  // Opens history around this message (from search) instead of the latest
+  focusMessageId?: string | null;
+  onJumpToLatest?: () => void;
 }
 
+// Who's being reported, and which message if it's about one
+interface ReportTarget {
+  userId: string;
+  messageId?: string;
+}
+
+// A file picked for the next message, with a local preview for images
+interface PendingFile {
+  id: string;
+  file: File;
+  previewUrl?: string;
+}
+
+const revokePreviews = (files: PendingFile[]) =>
+  files.forEach((pending) => {
+    if (pending.previewUrl) URL.revokeObjectURL(pending.previewUrl);
+  });
+
 export const ChatWindow = ({
   conversation,
-  otherUser,
   onBack,
+  onConversationChange,
+  focusMessageId,
+  onJumpToLatest,
 }: ChatWindowProps) => {
   const { user } = useAuth();
-  const { sendMessage, markMessagesAsRead } = useMessageStore(user?.id);
+  const {
+    sendMessage,
+    markMessagesAsRead,
+    getSeenBy,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    acceptHangout,
+    getMember,
+    getConversationTitle,
+    renameConversation,
+    addMembers,
+    removeMember,
+    leaveConversation,
+    muteConversation,
+    isMuted,
+  } = useMessageStore(user?.id);
+  const { isBlocked, blockUser, unblockUser, reportUser } = useModeration();
+  const { events, createEvent } = useCalendarStore(user?.id, user?.timeZone);
   const [newMessage, setNewMessage] = useState("");
   const [isSending, setIsSending] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    messages,
+    hasMore,
+    hasNewer,
+    isLoading,
+    isLoadingOlder,
+    isLoadingNewer,
+    loadOlder,
+    loadNewer,
+    applyUpdate,
+  } = useMessageHistory(conversation?.id, focusMessageId || undefined);
+  const { entries: outboxEntries, retry, discard } = useOutbox(user?.id);
+  // Your messages still waiting in the outbox, shown after the history. Each
+  // drops out here as it arrives there.
+  const pendingMessages =
+    conversation && !hasNewer
+      ? getPendingMessages(outboxEntries, conversation.id).filter(
+          (pending) =>
+            !messages.some((message) => message.id === pending.message.id),
+        )
+      : [];
+  const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(
+    conversation?.id,
+    user,
+  );
+  // Direct chats show whether the other person is around
+  const otherUserId =
+    conversation && !isGroupConversation(conversation)
+      ? conversation.participants.find((id) => id !== user?.id)
+      : undefined;
+  const presence = usePresenceStore([otherUserId]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Scroll height before older messages were added above
+  const heightBeforeOlder = useRef<number | null>(null);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  };
+  const firstMessageId = messages[0]?.id;
+  const lastMessage = pendingMessages.length
+    ? pendingMessages[pendingMessages.length - 1].message
+    : messages[messages.length - 1];
+  const lastMessageId = lastMessage?.id;
+  const pendingCount = pendingMessages.length;
+  const previousPendingCount = useRef(pendingCount);
+  const previousLastId = useRef<string | undefined>();
+  // Whether the reader is at the bottom, so new messages don't pull them
+  // away from history they're reading
+  const isAtBottom = useRef(true);
+  const focusedId = useRef<string | null>(null);
+
+  // Keep your place when older messages are added above, and follow the
+  // conversation down when new ones arrive
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (container && heightBeforeOlder.current !== null) {
+      container.scrollTop += container.scrollHeight - heightBeforeOlder.current;
+      heightBeforeOlder.current = null;
+    }
+  }, [firstMessageId]);
+
+  useEffect(() => {
+    const isFirstLoad = !previousLastId.current;
+    const isOwn = lastMessage?.senderId === user?.id;
+    if (
+      lastMessageId &&
+      lastMessageId !== previousLastId.current &&
+      (isFirstLoad ? !focusMessageId : isAtBottom.current || isOwn)
+    ) {
+      // Jump on first load so we don't scroll through (and page in) history
+      messagesEndRef.current?.scrollIntoView({
+        behavior: isFirstLoad ? "auto" : "smooth",
+      });
+    }
+    previousLastId.current = lastMessageId;
+  }, [lastMessageId]);
+
+  // Queued messages that land change the conversation's latest message
+  useEffect(() => {
+    if (pendingCount < previousPendingCount.current) onConversationChange?.();
+    previousPendingCount.current = pendingCount;
+  }, [pendingCount]);
 
+  // Bring a search result into view once its page has loaded
   useEffect(() => {
-    scrollToBottom();
-  }, [conversation?.messages]);
+    if (!focusMessageId || focusedId.current === focusMessageId) return;
+    const element = scrollRef.current?.querySelector(
+      `[data-message-id="${focusMessageId}"]`,
+    );
+    if (!element) return;
+
+    element.scrollIntoView({ block: "center" });
+    focusedId.current = focusMessageId;
+  }, [focusMessageId, messages]);
+
+  const handleLoadOlder = () => {
+    if (!hasMore || isLoadingOlder) return;
+    heightBeforeOlder.current = scrollRef.current?.scrollHeight ?? null;
+    loadOlder();
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    isAtBottom.current = scrollHeight - scrollTop - clientHeight < 80;
+    if (scrollTop < 80) handleLoadOlder();
+    if (isAtBottom.current && hasNewer && !isLoadingNewer) loadNewer();
+  };
 
   useEffect(() => {
-    // Mark messages as read when conversation is opened
+    // Mark messages as read when the conversation opens or a new one arrives,
+    // then let the page refresh its unread counts
     if (conversation && user) {
-      markMessagesAsRead(conversation.id);
+      markMessagesAsRead(conversation.id)
+        .then((marked) => marked && onConversationChange?.())
+        .catch(() => undefined);
     }
-  }, [conversation, user, markMessagesAsRead]);
+  }, [conversation?.id, lastMessageId, user?.id]);
 
   const getInitials = (name: string) => {
     return name
@@ -64,29 +264,193 @@ export const ChatWindow = ({
     }
   };
 
+  // Editing, deleting and reacting show up straight away; the page only
+  // needs to refresh when the conversation preview changed
+  const handleMessageChange = (updated: Message | null) => {
+    if (!updated) return;
+    applyUpdate(updated);
+    if (updated.id === conversation?.lastMessage?.id) {
+      onConversationChange?.();
+    }
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessage(message);
+    setNewMessage(message.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage("");
+  };
+
+  const handleDeleteMessage = async (
+    message: Message,
+    scope: MessageDeleteScope,
+  ) => {
+    if (editingMessage?.id === message.id) cancelEditing();
+    handleMessageChange(await deleteMessage(message.id, scope));
+  };
+
+  // Shared hangouts go on your calendar as a hangout of your own
+  const addCardToCalendar = async (card: HangoutCard) => {
+    if (isCardInCalendar(card, events)) return true;
+
+    const created = await createEvent(hangoutCardToEvent(card));
+    if (!created) {
+      toast.error("Couldn't add the hangout to your calendar");
+      return false;
+    }
+    toast.success("Added to your calendar");
+    return true;
+  };
+
+  const handleAcceptHangout = async (message: Message) => {
+    if (!message.card || !(await addCardToCalendar(message.card))) return;
+    handleMessageChange(await acceptHangout(message.id));
+  };
+
+  // Picked files stay with the conversation they were picked in
+  useEffect(() => {
+    setPendingFiles((current) => {
+      revokePreviews(current);
+      return [];
+    });
+  }, [conversation?.id]);
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const accepted: PendingFile[] = [];
+    files.forEach((file) => {
+      const error = validateAttachment(file);
+      if (error) {
+        toast.error(error);
+      } else if (
+        pendingFiles.length + accepted.length >=
+        MAX_ATTACHMENTS_PER_MESSAGE
+      ) {
+        toast.error(
+          `Attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files at a time`,
+        );
+      } else {
+        accepted.push({
+          id: `${file.name}-${file.lastModified}-${Math.random()}`,
+          file,
+          previewUrl:
+            getAttachmentKind(file.type) === "image"
+              ? URL.createObjectURL(file)
+              : undefined,
+        });
+      }
+    });
+    setPendingFiles((current) => [...current, ...accepted]);
+  };
+
+  const removePendingFile = (id: string) => {
+    setPendingFiles((current) => {
+      revokePreviews(current.filter((pending) => pending.id === id));
+      return current.filter((pending) => pending.id !== id);
+    });
+  };
+
+  const canSend = Boolean(newMessage.trim()) || pendingFiles.length > 0;
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !otherUser || !user || isSending) return;
+    if (!canSend || !conversation || !user || isSending) return;
 
     setIsSending(true);
+    stopTyping();
     try {
-      await sendMessage(otherUser.id, newMessage);
+      if (editingMessage) {
+        handleMessageChange(await editMessage(editingMessage.id, newMessage));
+        cancelEditing();
+        return;
+      }
+
+      await sendMessage(conversation.id, newMessage, {
+        files: pendingFiles.map((pending) => pending.file),
+      });
       setNewMessage("");
+      revokePreviews(pendingFiles);
+      setPendingFiles([]);
+      onConversationChange?.();
+      // Your message is at the end, past the history you jumped to
+      if (hasNewer) onJumpToLatest?.();
     } catch (error) {
       console.error("Failed to send message:", error);
+      if (pendingFiles.length > 0) {
+        toast.error("Couldn't send the attachments", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      }
     } finally {
       setIsSending(false);
     }
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
+    if (e.key === "Escape" && editingMessage) {
+      cancelEditing();
+    } else if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage(e as any);
     }
   };
 
-  if (!conversation || !otherUser) {
+  const handleToggleMute = async () => {
+    const muted = !isMuted(conversation.id);
+    if (await muteConversation(conversation.id, muted)) {
+      onConversationChange?.();
+      toast.success(muted ? "Notifications muted" : "Notifications unmuted");
+    } else {
+      toast.error("Couldn't update notifications");
+    }
+  };
+
+  const handleToggleBlock = async (otherId: string, name: string) => {
+    const blocking = !isBlocked(otherId);
+    const success = blocking
+      ? await blockUser(otherId)
+      : await unblockUser(otherId);
+    if (!success) {
+      toast.error(`Couldn't ${blocking ? "block" : "unblock"} ${name}`);
+      return;
+    }
+    onConversationChange?.();
+    toast.success(blocking ? `Blocked ${name}` : `Unblocked ${name}`);
+  };
+
+  const handleReport = async (reason: ReportReason, details: string) => {
+    if (!reportTarget) return false;
+
+    const success = await reportUser({
+      reportedUserId: reportTarget.userId,
+      reason,
+      details,
+      conversationId: conversation?.id,
+      messageId: reportTarget.messageId,
+    });
+    if (success) {
+      toast.success("Thanks, your report was sent");
+    } else {
+      toast.error("Couldn't send the report");
+    }
+    return success;
+  };
+
+  // Runs a group change and tells the page to refresh if it worked
+  const withRefresh =
+    <T extends unknown[]>(action: (...args: T) => Promise<boolean>) =>
+    async (...args: T) => {
+      const success = await action(...args);
+      if (success) onConversationChange?.();
+      return success;
+    };
+
+  if (!conversation || !user) {
     return (
       <Card className="h-full flex items-center justify-center">
         <CardContent>
@@ -98,6 +462,36 @@ export const ChatWindow = ({
     );
   }
 
+  const isGroup = isGroupConversation(conversation);
+  // Messages you deleted just for yourself stay out of view, as do group
+  // messages from people you blocked
+  const visibleMessages = messages.filter(
+    (message) =>
+      isMessageVisibleTo(message, user.id) && !isBlocked(message.senderId),
+  );
+  // Receipts only go under your latest message
+  const ownMessages = visibleMessages.filter(
+    (message) => message.senderId === user.id,
+  );
+  const lastOwnMessageId = ownMessages[ownMessages.length - 1]?.id;
+  const shownMessages = [
+    ...visibleMessages,
+    ...pendingMessages.map((pending) => pending.message),
+  ];
+  const title = getConversationTitle(conversation);
+  const otherUser = isGroup ? null : getMember(otherUserId);
+  const otherName = otherUser?.fullName || title;
+  // Blocking the other person closes a direct chat. Their block list is
+  // private, so being blocked only shows when a message doesn't go out.
+  const isChatBlocked = !isGroup && isBlocked(otherUserId);
+  const reportedName =
+    (reportTarget && getMember(reportTarget.userId)?.fullName) || "This user";
+  const typingText = describeTyping(
+    typingUserIds.map(
+      (memberId) => getMember(memberId)?.fullName.split(" ")[0] || "Someone",
+    ),
+  );
+
   return (
     <Card className="h-full flex flex-col">
       {/* Chat Header */}
@@ -113,57 +507,149 @@ export const ChatWindow = ({
               <ArrowLeft className="h-4 w-4" />
             </Button>
           )}
-          <Avatar className="h-8 w-8">
-            <AvatarImage src={otherUser.avatar} alt={otherUser.fullName} />
-            <AvatarFallback className="text-xs">
-              {getInitials(otherUser.fullName)}
-            </AvatarFallback>
-          </Avatar>
-          <div>
-            <p className="font-medium">{otherUser.fullName}</p>
+          <div className="relative">
+            <Avatar className="h-8 w-8">
+              {!isGroup && <AvatarImage src={otherUser?.avatar} alt={title} />}
+              <AvatarFallback className="text-xs">
+                {isGroup ? <Users className="h-4 w-4" /> : getInitials(title)}
+              </AvatarFallback>
+            </Avatar>
+            {otherUser && (
+              <PresenceDot
+                state={presence.getState(otherUser.id)}
+                className="h-2.5 w-2.5"
+              />
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">{title}</p>
             <p className="text-sm text-muted-foreground font-normal">
-              @{otherUser.username}
+              {isGroup
+                ? `${conversation.participants.length} members`
+                : otherUser &&
+                  [`@${otherUser.username}`, presence.describe(otherUser.id)]
+                    .filter(Boolean)
+                    .join(" · ")}
             </p>
           </div>
+          {isGroup && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowDetails(true)}
+              aria-label="Group details"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" aria-label="More options">
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={handleToggleMute}>
+                {isMuted(conversation.id) ? (
+                  <>
+                    <Bell className="mr-2 h-4 w-4" />
+                    Unmute notifications
+                  </>
+                ) : (
+                  <>
+                    <BellOff className="mr-2 h-4 w-4" />
+                    Mute notifications
+                  </>
+                )}
+              </DropdownMenuItem>
+              {!isGroup && otherUserId && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onSelect={() => handleToggleBlock(otherUserId, otherName)}
+                  >
+                    <Ban className="mr-2 h-4 w-4" />
+                    {isBlocked(otherUserId)
+                      ? `Unblock ${otherName}`
+                      : `Block ${otherName}`}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onSelect={() => setReportTarget({ userId: otherUserId })}
+                  >
+                    <Flag className="mr-2 h-4 w-4" />
+                    Report {otherName}
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </CardTitle>
       </CardHeader>
 
       <Separator />
 
       {/* Messages */}
-      <CardContent className="flex-1 overflow-y-auto p-4 space-y-4">
-        {conversation.messages.length === 0 ? (
+      <CardContent
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4"
+      >
+        {shownMessages.length === 0 ? (
           <div className="flex items-center justify-center h-full">
             <p className="text-center text-muted-foreground">
-              No messages yet. Start the conversation!
+              {isLoading
+                ? "Loading messages..."
+                : "No messages yet. Start the conversation!"}
             </p>
           </div>
         ) : (
           <>
-            {conversation.messages.map((message: Message, index: number) => {
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleLoadOlder}
+                  disabled={isLoadingOlder}
+                >
+                  {isLoadingOlder ? "Loading..." : "Load older messages"}
+                </Button>
+              </div>
+            )}
+            {shownMessages.map((message: Message, index: number) => {
               const isFromUser = message.senderId === user?.id;
+              const pending = pendingMessages.find(
+                (queued) => queued.message.id === message.id,
+              );
+              const sender = getMember(message.senderId);
+              const senderName = sender?.fullName || "Unknown user";
               const showAvatar =
                 index === 0 ||
-                conversation.messages[index - 1].senderId !== message.senderId;
+                shownMessages[index - 1].senderId !== message.senderId;
+              const seenBy =
+                isFromUser && message.id === lastOwnMessageId
+                  ? getSeenBy(message)
+                  : [];
 
               return (
                 <div
                   key={message.id}
+                  data-message-id={message.id}
                   className={cn(
-                    "flex items-end space-x-2",
+                    "flex items-end space-x-2 rounded-lg",
                     isFromUser ? "justify-end" : "justify-start",
+                    message.id === focusMessageId &&
+                      "bg-yellow-100/60 ring-2 ring-yellow-200",
                   )}
                 >
                   {!isFromUser && (
                     <Avatar
                       className={cn("h-6 w-6", !showAvatar && "invisible")}
                     >
-                      <AvatarImage
-                        src={otherUser.avatar}
-                        alt={otherUser.fullName}
-                      />
+                      <AvatarImage src={sender?.avatar} alt={senderName} />
                       <AvatarFallback className="text-xs">
-                        {getInitials(otherUser.fullName)}
+                        {getInitials(senderName)}
                       </AvatarFallback>
                     </Avatar>
                   )}
@@ -174,24 +660,102 @@ export const ChatWindow = ({
                       isFromUser && "items-end",
                     )}
                   >
-                    <div
-                      className={cn(
-                        "rounded-lg px-3 py-2 text-sm break-words",
-                        isFromUser
-                          ? "bg-primary text-primary-foreground"
-                          : "bg-muted",
-                      )}
-                    >
-                      {message.content}
-                    </div>
+                    {isGroup && !isFromUser && showAvatar && (
+                      <p className="text-xs text-muted-foreground">
+                        {senderName}
+                      </p>
+                    )}
+                    <MessageBubble
+                      message={message}
+                      currentUserId={user.id}
+                      getMember={getMember}
+                      onReact={async (emoji) =>
+                        handleMessageChange(
+                          await toggleReaction(message.id, emoji),
+                        )
+                      }
+                      onEdit={() => startEditing(message)}
+                      onDelete={(scope) => handleDeleteMessage(message, scope)}
+                      onReport={() =>
+                        setReportTarget({
+                          userId: message.senderId,
+                          messageId: message.id,
+                        })
+                      }
+                      isPending={Boolean(pending)}
+                      card={
+                        message.card && (
+                          <HangoutCardMessage
+                            card={message.card}
+                            isFromUser={isFromUser}
+                            currentUserId={user.id}
+                            getMember={getMember}
+                            inCalendar={isCardInCalendar(message.card, events)}
+                            onAddToCalendar={() =>
+                              addCardToCalendar(message.card)
+                            }
+                            onAccept={() => handleAcceptHangout(message)}
+                            timeZone={user.timeZone}
+                          />
+                        )
+                      }
+                    />
                     <p
                       className={cn(
                         "text-xs text-muted-foreground",
                         isFromUser && "text-right",
                       )}
                     >
-                      {formatMessageTime(message.timestamp)}
+                      {pending?.status === "failed" ? (
+                        <span className="text-destructive">
+                          Not sent ·{" "}
+                          <button
+                            type="button"
+                            className="underline"
+                            onClick={() => retry(pending.entryId)}
+                          >
+                            Retry
+                          </button>{" "}
+                          ·{" "}
+                          <button
+                            type="button"
+                            className="underline"
+                            onClick={() => discard(pending.entryId)}
+                          >
+                            Discard
+                          </button>
+                        </span>
+                      ) : pending ? (
+                        "Sending..."
+                      ) : (
+                        formatMessageTime(message.timestamp)
+                      )}
+                      {message.editedAt && !message.deletedAt && (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className="cursor-default"> · edited</span>
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs space-y-1">
+                            <p className="font-medium">Earlier versions</p>
+                            {(message.edits || []).map((edit) => (
+                              <p key={edit.editedAt}>
+                                {formatMessageTime(edit.editedAt)}:{" "}
+                                {edit.content}
+                              </p>
+                            ))}
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
                     </p>
+                    {seenBy.length > 0 && (
+                      <p className="text-xs text-muted-foreground text-right">
+                        {isGroup
+                          ? `Seen by ${seenBy
+                              .map((member) => member.fullName.split(" ")[0])
+                              .join(", ")}`
+                          : "Seen"}
+                      </p>
+                    )}
                   </div>
 
                   {isFromUser && (
@@ -207,33 +771,158 @@ export const ChatWindow = ({
                 </div>
               );
             })}
+            {hasNewer && (
+              <div className="flex justify-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={loadNewer}
+                  disabled={isLoadingNewer}
+                >
+                  {isLoadingNewer ? "Loading..." : "Load newer messages"}
+                </Button>
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </>
         )}
       </CardContent>
 
+      {focusMessageId && (
+        <div className="flex justify-center pb-2">
+          <Button variant="outline" size="sm" onClick={onJumpToLatest}>
+            Jump to latest
+          </Button>
+        </div>
+      )}
+
+      {typingText && (
+        <p className="px-4 pb-2 text-xs italic text-muted-foreground">
+          {typingText}
+        </p>
+      )}
+
       <Separator />
 
       {/* Message Input */}
-      <div className="p-4 flex-shrink-0">
-        <form onSubmit={handleSendMessage} className="flex space-x-2">
-          <Input
-            placeholder={`Message ${otherUser.fullName}...`}
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            className="flex-1"
-            disabled={isSending}
-          />
-          <Button
-            type="submit"
-            size="sm"
-            disabled={!newMessage.trim() || isSending}
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </form>
-      </div>
+      {isChatBlocked ? (
+        <p className="p-4 flex-shrink-0 text-center text-sm text-muted-foreground">
+          You blocked {otherName}. Unblock them to send messages.
+        </p>
+      ) : (
+        <div className="p-4 flex-shrink-0 space-y-2">
+          {editingMessage && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Editing message</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2"
+                onClick={cancelEditing}
+                aria-label="Cancel editing"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          {pendingFiles.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {pendingFiles.map((pending) => (
+                <div
+                  key={pending.id}
+                  className="relative flex items-center space-x-2 rounded-lg border p-1 pr-7 text-xs"
+                >
+                  {pending.previewUrl ? (
+                    <img
+                      src={pending.previewUrl}
+                      alt={pending.file.name}
+                      className="h-10 w-10 rounded object-cover"
+                    />
+                  ) : (
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <div className="max-w-32">
+                    <p className="truncate">{pending.file.name}</p>
+                    <p className="text-muted-foreground">
+                      {formatFileSize(pending.file.size)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    className="absolute right-1 top-1 text-muted-foreground hover:text-foreground"
+                    onClick={() => removePendingFile(pending.id)}
+                    aria-label={`Remove ${pending.file.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <form onSubmit={handleSendMessage} className="flex space-x-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_TYPES.join(",")}
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSending || Boolean(editingMessage)}
+              aria-label="Attach files"
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+            <Input
+              placeholder={`Message ${title}...`}
+              value={newMessage}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                if (!editingMessage && e.target.value.trim()) notifyTyping();
+              }}
+              onKeyPress={handleKeyPress}
+              className="flex-1"
+              disabled={isSending}
+            />
+            <Button type="submit" size="sm" disabled={!canSend || isSending}>
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+      )}
+
+      {isGroup && (
+        <GroupDetailsDialog
+          open={showDetails}
+          onOpenChange={setShowDetails}
+          conversation={conversation}
+          currentUserId={user.id}
+          getMember={getMember}
+          onRename={withRefresh((name: string) =>
+            renameConversation(conversation.id, name),
+          )}
+          onAddMembers={withRefresh((memberIds: string[]) =>
+            addMembers(conversation.id, memberIds),
+          )}
+          onRemoveMember={withRefresh((memberId: string) =>
+            removeMember(conversation.id, memberId),
+          )}
+          onLeave={withRefresh(() => leaveConversation(conversation.id))}
+        />
+      )}
+
+      <ReportUserDialog
+        open={Boolean(reportTarget)}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+        userName={reportedName}
+        isMessageReport={Boolean(reportTarget?.messageId)}
+        onSubmit={handleReport}
+      />
     </Card>
   );
 };
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { LogOut, UserMinus } from "lucide-react";
+import { Conversation, User } from "@/types";
+import { useFriends } from "@/hooks/use-friends";
+import { FriendPicker } from "./NewGroupDialog";
+
+interface GroupDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversation: Conversation;
+  currentUserId: string;
+  getMember: (userId: string) => User | null;
+  onRename: (name: string) => Promise<boolean>;
+  onAddMembers: (memberIds: string[]) => Promise<boolean>;
+  onRemoveMember: (memberId: string) => Promise<boolean>;
+  onLeave: () => Promise<boolean>;
+}
+
+export const GroupDetailsDialog = ({
+  open,
+  onOpenChange,
+  conversation,
+  currentUserId,
+  getMember,
+  onRename,
+  onAddMembers,
+  onRemoveMember,
+  onLeave,
+}: GroupDetailsDialogProps) => {
+  const friends = useFriends(open);
+  const [name, setName] = useState(conversation.name || "");
+  const [toAdd, setToAdd] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(conversation.name || "");
+      setToAdd([]);
+    }
+  }, [open, conversation.id]);
+
+  const getInitials = (fullName: string) =>
+    fullName
+      .split(" ")
+      .map((word) => word[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsSaving(true);
+    try {
+      return await action();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (await run(() => onAddMembers(toAdd))) setToAdd([]);
+  };
+
+  const handleLeave = async () => {
+    if (await run(onLeave)) onOpenChange(false);
+  };
+
+  const candidates = friends.filter(
+    (friend) => !conversation.participants.includes(friend.id),
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Group details</DialogTitle>
+          <DialogDescription>
+            {conversation.participants.length} member
+            {conversation.participants.length !== 1 ? "s" : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-rename">Group name</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="group-rename"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name this group"
+              />
+              <Button
+                variant="outline"
+                onClick={() => run(() => onRename(name))}
+                disabled={isSaving || name.trim() === (conversation.name || "")}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            {conversation.participants.map((memberId) => {
+              const member = getMember(memberId);
+              const memberName = member?.fullName || "Unknown user";
+
+              return (
+                <div
+                  key={memberId}
+                  className="flex items-center justify-between"
+                >
+                  <div className="flex items-center space-x-3">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={member?.avatar} alt={memberName} />
+                      <AvatarFallback className="text-xs">
+                        {getInitials(memberName)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm">
+                      {memberName}
+                      {memberId === currentUserId && " (you)"}
+                    </span>
+                  </div>
+                  {memberId !== currentUserId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => run(() => onRemoveMember(memberId))}
+                      disabled={isSaving}
+                      aria-label={`Remove ${memberName}`}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {candidates.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <Label>Add friends</Label>
+                <FriendPicker
+                  friends={candidates}
+                  selected={toAdd}
+                  onChange={setToAdd}
+                />
+                <Button
+                  size="sm"
+                  onClick={handleAdd}
+                  disabled={toAdd.length === 0 || isSaving}
+                >
+                  Add to group
+                </Button>
+              </div>
+            </>
+          )}
+
+          <Separator />
+
+          <Button
+            variant="outline"
+            className="w-full text-destructive"
+            onClick={handleLeave}
+            disabled={isSaving}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            Leave group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,139 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  CalendarPlus,
+  Check,
+  Clock,
+  DollarSign,
+  Navigation,
+  Users,
+} from "lucide-react";
+import { HangoutCard, User } from "@/types";
+import {
+  formatRangeInTimeZone,
+  getTimeZoneAbbreviation,
+  resolveTimeZone,
+} from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+interface HangoutCardMessageProps {
+  card: HangoutCard;
+  isFromUser: boolean;
+  currentUserId: string;
+  getMember: (userId: string) => User | null;
+  // Whether the viewer already has a hangout at this time
+  inCalendar: boolean;
+  onAddToCalendar: () => void;
+  onAccept: () => void;
+  timeZone?: string;
+}
+
+// A shared hangout or overlap window, with actions to plan it from the chat
+export const HangoutCardMessage = ({
+  card,
+  isFromUser,
+  currentUserId,
+  getMember,
+  inCalendar,
+  onAddToCalendar,
+  onAccept,
+  timeZone,
+}: HangoutCardMessageProps) => {
+  const zone = resolveTimeZone(timeZone);
+  const acceptedBy = card.acceptedBy || [];
+  const hasAccepted = acceptedBy.includes(currentUserId);
+
+  return (
+    <div
+      className={cn(
+        "w-64 rounded-lg border bg-background p-3 text-sm text-foreground space-y-2",
+        isFromUser ? "border-primary/40" : "border-green-300",
+      )}
+    >
+      <div>
+        <p className="text-xs font-medium text-green-700">
+          {card.kind === "overlap" ? "You're both free" : "Hangout"}
+        </p>
+        <p className="font-semibold">{card.title}</p>
+        {card.description && (
+          <p className="text-muted-foreground">{card.description}</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-1 text-muted-foreground">
+        <Clock className="h-3 w-3" />
+        <span>
+          {formatRangeInTimeZone(card.startTime, card.endTime, zone)}{" "}
+          {getTimeZoneAbbreviation(card.startTime, zone)}
+        </span>
+      </div>
+
+      {card.activitySuggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {card.activitySuggestions.map((activity) => (
+            <Badge key={activity} variant="outline" className="text-xs">
+              {activity}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {(card.budgetLimit || card.maxTravelDistance) && (
+        <div className="flex space-x-3 text-xs">
+          {card.budgetLimit && (
+            <span className="flex items-center space-x-1 text-green-600">
+              <DollarSign className="h-3 w-3" />
+              <span>Up to ${card.budgetLimit}</span>
+            </span>
+          )}
+          {card.maxTravelDistance && (
+            <span className="flex items-center space-x-1 text-purple-600">
+              <Navigation className="h-3 w-3" />
+              <span>{card.maxTravelDistance} miles</span>
+            </span>
+          )}
+        </div>
+      )}
+
+      {acceptedBy.length > 0 && (
+        <p className="flex items-center space-x-1 text-xs text-muted-foreground">
+          <Users className="h-3 w-3" />
+          <span>
+            Accepted by{" "}
+            {acceptedBy
+              .map((userId) =>
+                userId === currentUserId
+                  ? "you"
+                  : getMember(userId)?.fullName.split(" ")[0] || "someone",
+              )
+              .join(", ")}
+          </span>
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 flex-1 px-2 text-xs"
+          onClick={onAddToCalendar}
+          disabled={inCalendar}
+        >
+          <CalendarPlus className="mr-1 h-3 w-3" />
+          {inCalendar ? "In your calendar" : "Add to my calendar"}
+        </Button>
+        {!isFromUser && (
+          <Button
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={onAccept}
+            disabled={hasAccepted}
+          >
+            <Check className="mr-1 h-3 w-3" />
+            {hasAccepted ? "Accepted" : "Accept"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
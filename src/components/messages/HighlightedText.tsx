@@ -0,0 +1,24 @@
+import { getHighlightSegments } from "@/lib/search";
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+// Text with the words matching a search marked
+export const HighlightedText = ({ text, terms }: HighlightedTextProps) => (
+  <>
+    {getHighlightSegments(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark
+          key={index}
+          className="rounded-sm bg-yellow-200 px-0.5 text-foreground"
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ),
+    )}
+  </>
+);
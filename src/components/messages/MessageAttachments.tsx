@@ -0,0 +1,70 @@
+import { FileText } from "lucide-react";
+import { MessageAttachment } from "@/types";
+import { formatFileSize } from "@/lib/attachments";
+import { cn } from "@/lib/utils";
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isFromUser: boolean;
+}
+
+// Image previews and file links; each opens the full file in a new tab
+export const MessageAttachments = ({
+  attachments,
+  isFromUser,
+}: MessageAttachmentsProps) => {
+  const images = attachments.filter(
+    (attachment) => attachment.kind === "image",
+  );
+  const files = attachments.filter((attachment) => attachment.kind === "file");
+
+  return (
+    <div className={cn("space-y-1", isFromUser && "flex flex-col items-end")}>
+      {images.length > 0 && (
+        <div
+          className={cn(
+            "grid gap-1",
+            images.length > 1 ? "grid-cols-2" : "grid-cols-1",
+          )}
+        >
+          {images.map((image) => (
+            <a
+              key={image.id}
+              href={image.url}
+              target="_blank"
+              rel="noreferrer"
+              className="block overflow-hidden rounded-lg border"
+            >
+              <img
+                src={image.thumbnailUrl || image.url}
+                alt={image.name}
+                loading="lazy"
+                className={cn(
+                  "object-cover",
+                  images.length > 1 ? "h-28 w-28" : "max-h-60 max-w-60",
+                )}
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={file.url}
+          target="_blank"
+          rel="noreferrer"
+          download={file.name}
+          className="flex max-w-60 items-center space-x-2 rounded-lg border bg-background px-3 py-2 text-sm hover:bg-muted"
+        >
+          <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="min-w-0 flex-1 truncate">{file.name}</span>
+          <span className="text-xs text-muted-foreground">
+            {formatFileSize(file.size)}
+          </span>
+        </a>
+      ))}
+    </div>
+  );
+};
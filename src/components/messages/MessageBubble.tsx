@@ -0,0 +1,158 @@
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { ReactNode } from "react";
+import { Flag, Pencil, Trash2 } from "lucide-react";
+import { Message, MessageDeleteScope, User } from "@/types";
+import { REACTION_EMOJIS, getReactionTallies } from "@/lib/messages";
+import { cn } from "@/lib/utils";
+import { MessageAttachments } from "./MessageAttachments";
+
+interface MessageBubbleProps {
+  message: Message;
+  currentUserId: string;
+  getMember: (userId: string) => User | null;
+  onReact: (emoji: string) => void;
+  onEdit: () => void;
+  onDelete: (scope: MessageDeleteScope) => void;
+  // Offered on other people's messages
+  onReport?: () => void;
+  // Shown instead of the text for messages carrying a shared hangout
+  card?: ReactNode;
+  // Still in the outbox: shown faded, with no actions until it's sent
+  isPending?: boolean;
+}
+
+// A message's text and reactions. Right-click (or long-press) for actions.
+export const MessageBubble = ({
+  message,
+  currentUserId,
+  getMember,
+  onReact,
+  onEdit,
+  onDelete,
+  onReport,
+  card,
+  isPending = false,
+}: MessageBubbleProps) => {
+  const isFromUser = message.senderId === currentUserId;
+  const isDeleted = Boolean(message.deletedAt);
+  const tallies = getReactionTallies(message, currentUserId);
+
+  return (
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger asChild disabled={isPending}>
+          {card && !isDeleted ? (
+            <div className={cn(isPending && "opacity-70")}>{card}</div>
+          ) : (
+            <div className={cn("space-y-1", isPending && "opacity-70")}>
+              {!isDeleted && message.attachments?.length > 0 && (
+                <MessageAttachments
+                  attachments={message.attachments}
+                  isFromUser={isFromUser}
+                />
+              )}
+              {(isDeleted || message.content) && (
+                <div
+                  className={cn(
+                    "rounded-lg px-3 py-2 text-sm break-words",
+                    isFromUser
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted",
+                    isDeleted && "italic opacity-70",
+                  )}
+                >
+                  {isDeleted ? "This message was deleted" : message.content}
+                </div>
+              )}
+            </div>
+          )}
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-56">
+          {!isDeleted && (
+            <>
+              <div className="flex justify-between">
+                {REACTION_EMOJIS.map((emoji) => (
+                  <ContextMenuItem
+                    key={emoji}
+                    className="px-1.5 text-lg"
+                    onSelect={() => onReact(emoji)}
+                    aria-label={`React with ${emoji}`}
+                  >
+                    {emoji}
+                  </ContextMenuItem>
+                ))}
+              </div>
+              <ContextMenuSeparator />
+              {isFromUser && !message.card && message.content && (
+                <ContextMenuItem onSelect={onEdit}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit
+                </ContextMenuItem>
+              )}
+            </>
+          )}
+          <ContextMenuItem onSelect={() => onDelete("me")}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete for me
+          </ContextMenuItem>
+          {isFromUser && !isDeleted && (
+            <ContextMenuItem
+              className="text-destructive focus:text-destructive"
+              onSelect={() => onDelete("everyone")}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete for everyone
+            </ContextMenuItem>
+          )}
+          {!isFromUser && !isDeleted && onReport && (
+            <>
+              <ContextMenuSeparator />
+              <ContextMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={onReport}
+              >
+                <Flag className="mr-2 h-4 w-4" />
+                Report message
+              </ContextMenuItem>
+            </>
+          )}
+        </ContextMenuContent>
+      </ContextMenu>
+
+      {tallies.length > 0 && (
+        <div
+          className={cn("flex flex-wrap gap-1", isFromUser && "justify-end")}
+        >
+          {tallies.map((tally) => (
+            <button
+              key={tally.emoji}
+              type="button"
+              onClick={() => onReact(tally.emoji)}
+              title={tally.userIds
+                .map((userId) =>
+                  userId === currentUserId
+                    ? "You"
+                    : getMember(userId)?.fullName || "Someone",
+                )
+                .join(", ")}
+              className={cn(
+                "rounded-full border px-2 py-0.5 text-xs",
+                tally.reactedByMe
+                  ? "border-primary bg-primary/10"
+                  : "bg-background hover:bg-muted",
+              )}
+            >
+              {tally.emoji} {tally.count}
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
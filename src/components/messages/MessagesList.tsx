@@ -9,28 +9,44 @@ import {
 } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Search, MessageCircle } from "lucide-react";
-import { Conversation, User } from "@/types";
-import { userStorage } from "@/utils/storage";
+import { Search, MessageCircle, Users, BellOff } from "lucide-react";
+import { Conversation, Message, User } from "@/types";
 import { useAuth } from "@/store/authStore";
 import { useMessageStore } from "@/store/messageStore";
+import { usePresenceStore } from "@/store/presenceStore";
+import { PresenceDot } from "@/components/friends/PresenceDot";
+import { useMessageSearch } from "@/hooks/use-message-search";
+import { HighlightedText } from "./HighlightedText";
+import { isGroupConversation } from "@/lib/conversations";
+import { describeAttachments } from "@/lib/attachments";
+import { isConversationMuted } from "@/lib/moderation";
 import { format, isToday, isYesterday } from "date-fns";
 import { cn } from "@/lib/utils";
 
 interface MessagesListProps {
   conversations: Conversation[];
   selectedConversation: Conversation | null;
-  onConversationSelect: (conversation: Conversation, otherUser: User) => void;
+  onConversationSelect: (conversation: Conversation) => void;
+  // Opens a message found by search in its conversation
+  onMessageSelect?: (message: Message) => void;
 }
 
 export const MessagesList = ({
   conversations,
   selectedConversation,
   onConversationSelect,
+  onMessageSelect,
 }: MessagesListProps) => {
   const { user } = useAuth();
-  const { getUnreadCount } = useMessageStore(user?.id);
+  const { getUnreadCount, getMember, getConversationTitle } = useMessageStore(
+    user?.id,
+  );
   const [searchQuery, setSearchQuery] = useState("");
+  const {
+    results: messageResults,
+    terms: searchTerms,
+    isSearching,
+  } = useMessageSearch(onMessageSelect ? searchQuery : "");
 
   const getInitials = (name: string) => {
     return name
@@ -41,12 +57,25 @@ export const MessagesList = ({
       .slice(0, 2);
   };
 
+  // The other person in a direct chat; groups have no single avatar
   const getOtherParticipant = (conversation: Conversation): User | null => {
+    if (isGroupConversation(conversation)) return null;
     const otherUserId = conversation.participants.find(
       (id: string) => id !== user?.id,
     );
-    const users = userStorage.getUsers();
-    return users.find((u) => u.id === otherUserId) || null;
+    return getMember(otherUserId);
+  };
+
+  const presence = usePresenceStore(
+    conversations.map((conversation) => getOtherParticipant(conversation)?.id),
+  );
+
+  const getLastMessagePrefix = (conversation: Conversation) => {
+    const senderId = conversation.lastMessage?.senderId;
+    if (senderId === user?.id) return "You: ";
+    if (!isGroupConversation(conversation)) return "";
+    const sender = getMember(senderId);
+    return sender ? `${sender.fullName.split(" ")[0]}: ` : "";
   };
 
   const formatLastMessageTime = (timestamp: string) => {
@@ -62,12 +91,19 @@ export const MessagesList = ({
   };
 
   const filteredConversations = conversations.filter((conversation) => {
-    const otherUser = getOtherParticipant(conversation);
-    if (!otherUser) return false;
+    const query = searchQuery.toLowerCase();
+    const members = conversation.participants
+      .filter((id) => id !== user?.id)
+      .map(getMember)
+      .filter(Boolean);
 
     return (
-      otherUser.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      otherUser.username.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      getConversationTitle(conversation).toLowerCase().includes(query) ||
+      members.some(
+        (member) =>
+          member.fullName.toLowerCase().includes(query) ||
+          member.username.toLowerCase().includes(query),
+      ) ||
       conversation.lastMessage?.content
         .toLowerCase()
         .includes(searchQuery.toLowerCase())
@@ -115,7 +151,11 @@ export const MessagesList = ({
           <div className="relative">
             <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search conversations..."
+              placeholder={
+                onMessageSelect
+                  ? "Search conversations and messages..."
+                  : "Search conversations..."
+              }
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
@@ -132,7 +172,7 @@ export const MessagesList = ({
           ) : (
             filteredConversations.map((conversation) => {
               const otherUser = getOtherParticipant(conversation);
-              if (!otherUser) return null;
+              const title = getConversationTitle(conversation);
 
               const unreadCount = getUnreadCount(conversation.id);
               const isSelected = selectedConversation?.id === conversation.id;
@@ -140,28 +180,38 @@ export const MessagesList = ({
               return (
                 <div
                   key={conversation.id}
-                  onClick={() => onConversationSelect(conversation, otherUser)}
+                  onClick={() => onConversationSelect(conversation)}
                   className={cn(
                     "flex items-center space-x-3 p-4 border-b cursor-pointer hover:bg-muted/50 transition-colors",
                     isSelected && "bg-muted",
                   )}
                 >
-                  <Avatar className="h-10 w-10">
-                    <AvatarImage
-                      src={otherUser.avatar}
-                      alt={otherUser.fullName}
-                    />
-                    <AvatarFallback>
-                      {getInitials(otherUser.fullName)}
-                    </AvatarFallback>
-                  </Avatar>
+                  <div className="relative">
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={otherUser?.avatar} alt={title} />
+                      <AvatarFallback>
+                        {isGroupConversation(conversation) ? (
+                          <Users className="h-4 w-4" />
+                        ) : (
+                          getInitials(title)
+                        )}
+                      </AvatarFallback>
+                    </Avatar>
+                    {otherUser && (
+                      <PresenceDot state={presence.getState(otherUser.id)} />
+                    )}
+                  </div>
 
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between">
-                      <p className="font-medium truncate">
-                        {otherUser.fullName}
-                      </p>
+                      <p className="font-medium truncate">{title}</p>
                       <div className="flex items-center space-x-1">
+                        {isConversationMuted(conversation, user?.id) && (
+                          <BellOff
+                            className="h-3 w-3 text-muted-foreground"
+                            aria-label="Muted"
+                          />
+                        )}
                         {conversation.lastMessage && (
                           <span className="text-xs text-muted-foreground">
                             {formatLastMessageTime(
@@ -189,10 +239,13 @@ export const MessagesList = ({
                             : "text-muted-foreground",
                         )}
                       >
-                        {conversation.lastMessage.senderId === user?.id
-                          ? "You: "
-                          : ""}
-                        {conversation.lastMessage.content}
+                        {getLastMessagePrefix(conversation)}
+                        {conversation.lastMessage.deletedAt
+                          ? "Message deleted"
+                          : conversation.lastMessage.content ||
+                            describeAttachments(
+                              conversation.lastMessage.attachments,
+                            )}
                       </p>
                     ) : (
                       <p className="text-sm text-muted-foreground">
@@ -204,6 +257,56 @@ export const MessagesList = ({
               );
             })
           )}
+
+          {/* Message search results */}
+          {searchTerms.length > 0 && (
+            <>
+              <p className="px-4 pt-4 pb-2 text-xs font-medium uppercase text-muted-foreground">
+                Messages
+              </p>
+              {messageResults.length === 0 ? (
+                <p className="px-4 pb-4 text-sm text-muted-foreground">
+                  {isSearching ? "Searching..." : "No messages found"}
+                </p>
+              ) : (
+                messageResults.map((message) => {
+                  const conversation = conversations.find(
+                    (conv) => conv.id === message.conversationId,
+                  );
+                  const sender =
+                    message.senderId === user?.id
+                      ? "You"
+                      : getMember(message.senderId)?.fullName.split(" ")[0];
+
+                  return (
+                    <div
+                      key={message.id}
+                      onClick={() => onMessageSelect(message)}
+                      className="p-4 border-b cursor-pointer hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium truncate">
+                          {conversation
+                            ? getConversationTitle(conversation)
+                            : "Conversation"}
+                        </p>
+                        <span className="text-xs text-muted-foreground">
+                          {formatLastMessageTime(message.timestamp)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {sender && `${sender}: `}
+                        <HighlightedText
+                          text={message.content}
+                          terms={searchTerms}
+                        />
+                      </p>
+                    </div>
+                  );
+                })
+              )}
+            </>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { User } from "@/types";
+import { useFriends } from "@/hooks/use-friends";
+
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((word) => word[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+
+interface FriendPickerProps {
+  friends: User[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+export const FriendPicker = ({
+  friends,
+  selected,
+  onChange,
+}: FriendPickerProps) => {
+  if (friends.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No friends to add yet</p>
+    );
+  }
+
+  const toggle = (friendId: string, checked: boolean) =>
+    onChange(
+      checked
+        ? [...selected, friendId]
+        : selected.filter((id) => id !== friendId),
+    );
+
+  return (
+    <div className="max-h-60 space-y-2 overflow-y-auto">
+      {friends.map((friend) => (
+        <label
+          key={friend.id}
+          className="flex cursor-pointer items-center space-x-3 rounded-md p-2 hover:bg-muted/50"
+        >
+          <Checkbox
+            checked={selected.includes(friend.id)}
+            onCheckedChange={(checked) => toggle(friend.id, checked === true)}
+          />
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={friend.avatar} alt={friend.fullName} />
+            <AvatarFallback className="text-xs">
+              {getInitials(friend.fullName)}
+            </AvatarFallback>
+          </Avatar>
+          <div>
+            <p className="text-sm font-medium">{friend.fullName}</p>
+            <p className="text-xs text-muted-foreground">@{friend.username}</p>
+          </div>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+interface NewGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (memberIds: string[], name: string) => Promise<void>;
+}
+
+export const NewGroupDialog = ({
+  open,
+  onOpenChange,
+  onCreate,
+}: NewGroupDialogProps) => {
+  const friends = useFriends(open);
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setSelected([]);
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await onCreate(selected, name);
+      onOpenChange(false);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New group</DialogTitle>
+          <DialogDescription>
+            Pick the friends you want to chat with
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Group name (optional)</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Friday dinner crew"
+            />
+          </div>
+          <FriendPicker
+            friends={friends}
+            selected={selected}
+            onChange={setSelected}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={selected.length === 0 || isCreating}
+          >
+            Create group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -21,6 +21,8 @@ import {
   UserPlus,
   Calendar,
   MessageCircle,
+  Mail,
+  CalendarCheck,
 } from "lucide-react";
 import { useAuth } from "@/store/authStore";
 import { useNotificationStore } from "@/store/notificationStore";
@@ -120,6 +122,10 @@ export const NotificationBell = () => {
         return <Calendar className="h-4 w-4 text-green-600" />;
       case "message":
         return <MessageCircle className="h-4 w-4 text-purple-600" />;
+      case "event_invite":
+        return <Mail className="h-4 w-4 text-purple-600" />;
+      case "event_rsvp":
+        return <CalendarCheck className="h-4 w-4 text-green-600" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
@@ -130,7 +136,9 @@ export const NotificationBell = () => {
       const users = userStorage.getUsers();
 
       if (notification.type === "friend_request") {
-        const requester = users.find((u) => u.id === notification.data?.senderId);
+        const requesterId =
+          notification.data?.fromUserId ?? notification.data?.senderId;
+        const requester = users.find((u) => u.id === requesterId);
         return (
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
@@ -155,10 +163,7 @@ export const NotificationBell = () => {
                 variant="outline"
                 className="h-6 px-2 text-xs"
                 onClick={() =>
-                  handleAcceptFriendRequest(
-                    notification.data?.senderId,
-                    notification.id,
-                  )
+                  handleAcceptFriendRequest(requesterId, notification.id)
                 }
               >
                 <Check className="h-3 w-3" />
@@ -168,10 +173,7 @@ export const NotificationBell = () => {
                 variant="outline"
                 className="h-6 px-2 text-xs"
                 onClick={() =>
-                  handleRejectFriendRequest(
-                    notification.data?.senderId,
-                    notification.id,
-                  )
+                  handleRejectFriendRequest(requesterId, notification.id)
                 }
               >
                 <X className="h-3 w-3" />
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { User } from "@/types";
+import { useAuth } from "@/store/authStore";
+import { dataProvider } from "@/services/dataProvider";
+
+// The signed-in user's friends, loaded while `enabled` is true
+export const useFriends = (enabled: boolean): User[] => {
+  const { user } = useAuth();
+  const [friends, setFriends] = useState<User[]>([]);
+
+  useEffect(() => {
+    if (!enabled || !user?.id) return;
+    let cancelled = false;
+
+    dataProvider.getUserFriends(user.id).then((result) => {
+      if (!cancelled) setFriends(Array.isArray(result) ? result : []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, user?.id]);
+
+  return friends;
+};
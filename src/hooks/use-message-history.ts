@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Message } from "@/types";
+import { dataProvider, MessagePage } from "@/services/dataProvider";
+import { MESSAGE_PAGE_SIZE, mergeMessages } from "@/lib/conversations";
+
+// Updates only replace messages we have; older ones arrive with their page
+const mergeUpdates = (current: Message[], updated: Message[]) => {
+  const loaded = new Set(current.map((message) => message.id));
+  return mergeMessages(
+    current,
+    updated.filter((message) => loaded.has(message.id)),
+  );
+};
+
+/**
+ * A conversation's messages, oldest first. Starts with the latest page, or
+ * the page around `focusMessageId` when jumping to a search result, and
+ * pages in older (and, after a jump, newer) history on demand. New messages
+ * arrive live once the latest one is loaded; edits, deletes and reactions
+ * to loaded messages always do.
+ */
+export const useMessageHistory = (
+  conversationId?: string,
+  focusMessageId?: string,
+) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  // Only after a jump: newer messages between the window and the latest
+  const [hasNewer, setHasNewer] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isLoadingNewer, setIsLoadingNewer] = useState(false);
+  // Which conversation (and jump) the messages on hand were loaded for
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  // Pages that land after switching conversations (or jumping) are dropped
+  const currentKey = useRef("");
+  const latestMessages = useRef(messages);
+  latestMessages.current = messages;
+  const key = `${conversationId || ""}:${focusMessageId || ""}`;
+
+  useEffect(() => {
+    currentKey.current = key;
+    setMessages([]);
+    setHasMore(false);
+    setHasNewer(false);
+    if (!conversationId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    // Edits, deletes and reactions to anything loaded from here on
+    const unsubscribeUpdates = dataProvider.subscribeToMessageUpdates(
+      conversationId,
+      new Date().toISOString(),
+      (updated) => {
+        if (!cancelled) {
+          setMessages((current) => mergeUpdates(current, updated));
+        }
+      },
+    );
+
+    const load: Promise<MessagePage & { hasNewer?: boolean }> = focusMessageId
+      ? dataProvider
+          .getMessagesAround(conversationId, focusMessageId, MESSAGE_PAGE_SIZE)
+          .then(
+            (around) =>
+              // A message that's gone falls back to the latest page
+              around ||
+              dataProvider.getMessagesPage(conversationId, MESSAGE_PAGE_SIZE),
+          )
+      : dataProvider.getMessagesPage(conversationId, MESSAGE_PAGE_SIZE);
+
+    load
+      .then((page) => {
+        if (cancelled) return;
+        setMessages(page.messages);
+        setHasMore(page.hasMore);
+        setHasNewer(Boolean(page.hasNewer));
+        setLoadedKey(key);
+      })
+      .catch((error) => console.error("Error loading messages:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribeUpdates();
+    };
+  }, [key]);
+
+  // Listen for new messages once the latest is loaded, and only past it so
+  // the listener stays small
+  const atLatest = Boolean(conversationId) && loadedKey === key && !hasNewer;
+  useEffect(() => {
+    if (!atLatest) return;
+
+    const current = latestMessages.current;
+    const newest = current[current.length - 1] || null;
+    return dataProvider.subscribeToConversationMessages(
+      conversationId,
+      newest,
+      (newer) => setMessages((loaded) => mergeMessages(loaded, newer)),
+    );
+  }, [key, atLatest]);
+
+  const loadOlder = useCallback(async () => {
+    if (!conversationId || !hasMore || isLoadingOlder || !messages.length) {
+      return;
+    }
+
+    const requestKey = key;
+    setIsLoadingOlder(true);
+    try {
+      const page = await dataProvider.getMessagesPage(
+        conversationId,
+        MESSAGE_PAGE_SIZE,
+        messages[0],
+      );
+      if (currentKey.current !== requestKey) return;
+
+      setMessages((current) => mergeMessages(current, page.messages));
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Error loading older messages:", error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [conversationId, key, hasMore, isLoadingOlder, messages]);
+
+  const loadNewer = useCallback(async () => {
+    if (!conversationId || !hasNewer || isLoadingNewer || !messages.length) {
+      return;
+    }
+
+    const requestKey = key;
+    setIsLoadingNewer(true);
+    try {
+      const page = await dataProvider.getNewerMessagesPage(
+        conversationId,
+        MESSAGE_PAGE_SIZE,
+        messages[messages.length - 1],
+      );
+      if (currentKey.current !== requestKey) return;
+
+      setMessages((current) => mergeMessages(current, page.messages));
+      setHasNewer(page.hasMore);
+    } catch (error) {
+      console.error("Error loading newer messages:", error);
+    } finally {
+      setIsLoadingNewer(false);
+    }
+  }, [conversationId, key, hasNewer, isLoadingNewer, messages]);
+
+  // Shows a change we made ourselves without waiting for the listener
+  const applyUpdate = useCallback((updated: Message) => {
+    setMessages((current) => mergeUpdates(current, [updated]));
+  }, []);
+
+  return {
+    messages,
+    hasMore,
+    hasNewer,
+    isLoading,
+    isLoadingOlder,
+    isLoadingNewer,
+    loadOlder,
+    loadNewer,
+    applyUpdate,
+  };
+};
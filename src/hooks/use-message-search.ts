@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { Message } from "@/types";
+import { useAuth } from "@/store/authStore";
+import { dataProvider } from "@/services/dataProvider";
+import { parseSearchQuery } from "@/lib/search";
+
+const SEARCH_DELAY_MS = 250;
+
+// Messages matching the query, newest first, searched once typing pauses.
+// `terms` are what matched, for highlighting.
+export const useMessageSearch = (query: string) => {
+  const { user } = useAuth();
+  const [results, setResults] = useState<Message[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const terms = parseSearchQuery(query);
+  const termKey = terms.join(" ");
+
+  useEffect(() => {
+    setResults([]);
+    if (!termKey || !user?.id) {
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timeout = setTimeout(() => {
+      dataProvider
+        .searchMessages(user.id, termKey)
+        .then((found) => {
+          if (!cancelled) setResults(Array.isArray(found) ? found : []);
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [termKey, user?.id]);
+
+  return { results, terms, isSearching };
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { MessageAttachment } from "@/types";
+import {
+  MAX_ATTACHMENT_BYTES,
+  describeAttachments,
+  formatFileSize,
+  getAttachmentPath,
+  getAttachmentPaths,
+  validateAttachment,
+} from "./attachments";
+
+const attachment = (
+  kind: MessageAttachment["kind"],
+  name: string,
+  thumbnailPath?: string,
+): MessageAttachment => ({
+  id: name,
+  kind,
+  name,
+  contentType: kind === "image" ? "image/png" : "application/pdf",
+  size: 1024,
+  url: `https://files.test/${name}`,
+  path: `attachments/c1/${name}`,
+  thumbnailPath,
+});
+
+describe("attachments", () => {
+  it("should only accept supported files within the size limit", () => {
+    expect(
+      validateAttachment({ name: "a.png", type: "image/png", size: 2048 }),
+    ).toBeNull();
+    expect(
+      validateAttachment({
+        name: "run.exe",
+        type: "application/x-msdownload",
+        size: 2048,
+      }),
+    ).toBe("run.exe isn't a supported file type");
+    expect(
+      validateAttachment({
+        name: "big.pdf",
+        type: "application/pdf",
+        size: MAX_ATTACHMENT_BYTES + 1,
+      }),
+    ).toBe("big.pdf is larger than 10.0 MB");
+    expect(
+      validateAttachment({ name: "empty.txt", type: "text/plain", size: 0 }),
+    ).toBe("empty.txt is empty");
+  });
+
+  it("should keep storage paths safe and under their conversation", () => {
+    expect(getAttachmentPath("c1", "a1", "../My plan (1).pdf")).toBe(
+      "attachments/c1/a1/.._My_plan_1_.pdf",
+    );
+    expect(
+      getAttachmentPaths([
+        attachment("image", "a.png", "attachments/c1/a.png.thumb.jpg"),
+        attachment("file", "b.pdf"),
+      ]),
+    ).toEqual([
+      "attachments/c1/a.png",
+      "attachments/c1/a.png.thumb.jpg",
+      "attachments/c1/b.pdf",
+    ]);
+  });
+
+  it("should describe attachment-only messages", () => {
+    expect(describeAttachments([attachment("image", "a.png")])).toBe("Photo");
+    expect(describeAttachments([attachment("file", "plan.pdf")])).toBe(
+      "plan.pdf",
+    );
+    expect(
+      describeAttachments([
+        attachment("image", "a.png"),
+        attachment("image", "b.png"),
+      ]),
+    ).toBe("2 photos");
+    expect(
+      describeAttachments([
+        attachment("image", "a.png"),
+        attachment("file", "plan.pdf"),
+      ]),
+    ).toBe("2 attachments");
+    expect(formatFileSize(1536)).toBe("2 KB");
+  });
+});
@@ -0,0 +1,107 @@
+import { MessageAttachment } from "@/types";
+
+// Limits shared by the chat composer and storage.rules
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+// Longest side of an image preview, in pixels
+export const THUMBNAIL_SIZE = 320;
+
+export const IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+];
+export const FILE_TYPES = [
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/calendar",
+];
+export const ATTACHMENT_TYPES = [...IMAGE_TYPES, ...FILE_TYPES];
+
+type FileInfo = Pick<File, "name" | "type" | "size">;
+
+export const getAttachmentKind = (
+  contentType: string,
+): MessageAttachment["kind"] =>
+  IMAGE_TYPES.includes(contentType) ? "image" : "file";
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Why a file can't be attached, or null if it can
+export const validateAttachment = (file: FileInfo): string | null => {
+  if (!ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} isn't a supported file type`;
+  }
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
+
+// Files live under their conversation so storage rules can check membership
+export const getAttachmentPath = (
+  conversationId: string,
+  attachmentId: string,
+  name: string,
+) => {
+  const safeName = name.replace(/[^\w.-]+/g, "_").slice(-100) || "file";
+  return `attachments/${conversationId}/${attachmentId}/${safeName}`;
+};
+
+export const getThumbnailPath = (path: string) => `${path}.thumb.jpg`;
+
+// Preview text for a message that's only attachments
+export const describeAttachments = (attachments: MessageAttachment[] = []) => {
+  if (attachments.length === 0) return "";
+  if (attachments.length === 1) {
+    return attachments[0].kind === "image" ? "Photo" : attachments[0].name;
+  }
+  return attachments.every((attachment) => attachment.kind === "image")
+    ? `${attachments.length} photos`
+    : `${attachments.length} attachments`;
+};
+
+// Every stored file behind a message's attachments, previews included
+export const getAttachmentPaths = (attachments: MessageAttachment[] = []) =>
+  attachments.flatMap((attachment) =>
+    attachment.thumbnailPath
+      ? [attachment.path, attachment.thumbnailPath]
+      : [attachment.path],
+  );
+
+/**
+ * Scales an image down to a JPEG preview in the browser. Resolves to null
+ * if the image can't be decoded, in which case the full image is shown.
+ */
+export const createImageThumbnail = (file: Blob): Promise<Blob | null> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      const scale = Math.min(
+        1,
+        THUMBNAIL_SIZE / Math.max(image.width, image.height),
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      canvas
+        .getContext("2d")
+        ?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => resolve(blob), "image/jpeg", 0.8);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    image.src = url;
+  });
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  getSelectionRange,
+  getViewRange,
+  layoutDayItems,
+  moveEventTo,
+  parseCalendarDateParam,
+  parseCalendarViewMode,
+  resizeEventTo,
+  shiftViewDate,
+  snapToSlot,
+} from "./calendarView";
+
+const day = new Date(2025, 0, 8);
+const at = (hour: number, minute = 0, date = 8) =>
+  new Date(2025, 0, date, hour, minute).toISOString();
+
+const layout = (ranges: Array<[string, string, string]>) =>
+  layoutDayItems(
+    ranges.map(([id, start, end]) => ({ id, start, end })),
+    day,
+    (item) => item,
+  ).map(({ item, column, columns, startMinutes, endMinutes }) => [
+    item.id,
+    column,
+    columns,
+    startMinutes,
+    endMinutes,
+  ]);
+
+describe("layoutDayItems", () => {
+  it("should place overlapping items side by side", () => {
+    expect(
+      layout([
+        ["a", at(9), at(11)],
+        ["b", at(10), at(12)],
+        ["c", at(11), at(13)],
+        ["d", at(14), at(15)],
+      ]),
+    ).toEqual([
+      ["a", 0, 2, 540, 660],
+      ["b", 1, 2, 600, 720],
+      ["c", 0, 2, 660, 780],
+      ["d", 0, 1, 840, 900],
+    ]);
+  });
+
+  it("should clip items to the day and drop ones outside it", () => {
+    expect(
+      layout([
+        ["late", at(22), at(2, 0, 9)],
+        ["yesterday", at(20, 0, 7), at(23, 0, 7)],
+      ]),
+    ).toEqual([["late", 0, 1, 1320, 1440]]);
+  });
+
+  it("should lay out the day in the given time zone", () => {
+    const items = [
+      {
+        start: "2025-01-08T17:00:00.000Z",
+        end: "2025-01-08T18:30:00.000Z",
+      },
+    ];
+
+    expect(
+      layoutDayItems(items, day, (item) => item, "America/New_York").map(
+        ({ startMinutes, endMinutes }) => [startMinutes, endMinutes],
+      ),
+    ).toEqual([[720, 810]]);
+  });
+});
+
+describe("calendar view helpers", () => {
+  it("should parse query string values with safe fallbacks", () => {
+    expect(parseCalendarViewMode("week")).toBe("week");
+    expect(parseCalendarViewMode("year")).toBe("month");
+    expect(parseCalendarDateParam("2025-01-08")).toEqual(day);
+    expect(parseCalendarDateParam("not-a-date")).toBeNull();
+  });
+
+  it("should compute ranges and navigation per view", () => {
+    expect(getViewRange("week", day).start).toEqual(new Date(2025, 0, 5));
+    expect(getViewRange("day", day).end.getHours()).toBe(23);
+    expect(shiftViewDate("week", day, -1)).toEqual(new Date(2025, 0, 1));
+    expect(shiftViewDate("month", day, 1)).toEqual(new Date(2025, 1, 8));
+  });
+});
+
+describe("time grid dragging", () => {
+  it("should snap selections to slots on the anchor's day", () => {
+    expect(snapToSlot(95, 30)).toBe(90);
+    expect(snapToSlot(1439, 30)).toBe(1410);
+    expect(
+      getSelectionRange(
+        { dayIndex: 2, minutes: 610 },
+        { dayIndex: 2, minutes: 545 },
+        30,
+      ),
+    ).toEqual({ dayIndex: 2, startMinutes: 540, endMinutes: 630 });
+    expect(
+      getSelectionRange(
+        { dayIndex: 2, minutes: 1300 },
+        { dayIndex: 3, minutes: 60 },
+        30,
+      ),
+    ).toEqual({ dayIndex: 2, startMinutes: 1290, endMinutes: 1440 });
+  });
+
+  it("should move and resize events in the given time zone", () => {
+    const event = {
+      startTime: "2025-01-08T17:00:00.000Z",
+      endTime: "2025-01-08T18:30:00.000Z",
+    };
+
+    // 9am on the 9th in New York
+    expect(
+      moveEventTo(event, new Date(2025, 0, 9, 9), "America/New_York"),
+    ).toEqual({
+      startTime: "2025-01-09T14:00:00.000Z",
+      endTime: "2025-01-09T15:30:00.000Z",
+    });
+    expect(
+      resizeEventTo(event, new Date(2025, 0, 8, 11), "America/New_York", 30)
+        .endTime,
+    ).toBe("2025-01-08T17:30:00.000Z");
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  isValid,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { fromZonedDate, getDayBoundsInTimeZone } from "./timezone";
+
+export type CalendarViewMode = "month" | "week" | "day";
+
+export const CALENDAR_VIEW_MODES: CalendarViewMode[] = ["month", "week", "day"];
+
+// Date format used in the /calendar?date= query string
+export const CALENDAR_DATE_PARAM_FORMAT = "yyyy-MM-dd";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const parseCalendarViewMode = (
+  value: string | null,
+): CalendarViewMode =>
+  CALENDAR_VIEW_MODES.includes(value as CalendarViewMode)
+    ? (value as CalendarViewMode)
+    : "month";
+
+export const parseCalendarDateParam = (value: string | null): Date | null => {
+  if (!value) return null;
+  const date = parse(value, CALENDAR_DATE_PARAM_FORMAT, new Date());
+  return isValid(date) ? date : null;
+};
+
+// The span of time a view shows around the focused date
+export const getViewRange = (
+  view: CalendarViewMode,
+  date: Date,
+): { start: Date; end: Date } => {
+  switch (view) {
+    case "day":
+      return { start: startOfDay(date), end: endOfDay(date) };
+    case "week":
+      return { start: startOfWeek(date), end: endOfWeek(date) };
+    default:
+      return { start: startOfMonth(date), end: endOfMonth(date) };
+  }
+};
+
+// Move the focused date one view-length forwards (1) or backwards (-1)
+export const shiftViewDate = (
+  view: CalendarViewMode,
+  date: Date,
+  direction: 1 | -1,
+): Date => {
+  switch (view) {
+    case "day":
+      return addDays(date, direction);
+    case "week":
+      return addWeeks(date, direction);
+    default:
+      return addMonths(date, direction);
+  }
+};
+
+export interface TimeGridItem<T> {
+  item: T;
+  // Minutes from the start of the day, clipped to the day
+  startMinutes: number;
+  endMinutes: number;
+  // Side-by-side placement among overlapping items
+  column: number;
+  columns: number;
+}
+
+/**
+ * Position items on a single day of a time grid. Items are clipped to the
+ * day; items that overlap are spread across columns so none are hidden,
+ * and every item in a cluster of overlaps gets the same column count.
+ * With a time zone, the day (read from `day`'s local date) runs midnight to
+ * midnight in that zone.
+ */
+export const layoutDayItems = <T>(
+  items: T[],
+  day: Date,
+  getRange: (item: T) => { start: string; end: string },
+  timeZone?: string,
+): TimeGridItem<T>[] => {
+  const bounds = timeZone ? getDayBoundsInTimeZone(day, timeZone) : null;
+  const dayStart = bounds ? bounds.start.getTime() : startOfDay(day).getTime();
+  const dayEnd = bounds
+    ? bounds.end.getTime()
+    : dayStart + MINUTES_PER_DAY * 60 * 1000;
+
+  const positioned = items
+    .map((item) => {
+      const range = getRange(item);
+      const start = Math.max(new Date(range.start).getTime(), dayStart);
+      const end = Math.min(new Date(range.end).getTime(), dayEnd);
+      return {
+        item,
+        startMinutes: Math.round((start - dayStart) / 60000),
+        endMinutes: Math.round((end - dayStart) / 60000),
+        column: 0,
+        columns: 1,
+      };
+    })
+    .filter((entry) => entry.endMinutes > entry.startMinutes)
+    .sort(
+      (a, b) =>
+        a.startMinutes - b.startMinutes ||
+        b.endMinutes - b.startMinutes - (a.endMinutes - a.startMinutes),
+    );
+
+  let cluster: TimeGridItem<T>[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    cluster.forEach((entry) => (entry.columns = columnEnds.length));
+    cluster = [];
+    columnEnds = [];
+  };
+
+  positioned.forEach((entry) => {
+    if (entry.startMinutes >= clusterEnd) closeCluster();
+
+    const free = columnEnds.findIndex((end) => end <= entry.startMinutes);
+    entry.column = free === -1 ? columnEnds.length : free;
+    columnEnds[entry.column] = entry.endMinutes;
+
+    cluster.push(entry);
+    clusterEnd = Math.max(clusterEnd, entry.endMinutes);
+  });
+  closeCluster();
+
+  return positioned;
+};
+
+// A position on a time grid: a column and minutes into that day
+export interface GridPoint {
+  dayIndex: number;
+  minutes: number;
+}
+
+export interface GridRange {
+  dayIndex: number;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+// Round down to the slot containing `minutes`, keeping a whole slot in the day
+export const snapToSlot = (minutes: number, slotMinutes: number): number =>
+  Math.max(
+    0,
+    Math.min(
+      Math.floor(minutes / slotMinutes) * slotMinutes,
+      MINUTES_PER_DAY - slotMinutes,
+    ),
+  );
+
+/**
+ * The range selected by dragging from `anchor` to `current`. Selections stay
+ * on the anchor's day (dragging into another column runs to the end or
+ * start of it) and always cover at least one slot.
+ */
+export const getSelectionRange = (
+  anchor: GridPoint,
+  current: GridPoint,
+  slotMinutes: number,
+): GridRange => {
+  const currentMinutes =
+    current.dayIndex === anchor.dayIndex
+      ? current.minutes
+      : current.dayIndex > anchor.dayIndex
+        ? MINUTES_PER_DAY
+        : 0;
+  const from = snapToSlot(anchor.minutes, slotMinutes);
+  const to = snapToSlot(currentMinutes, slotMinutes);
+
+  return {
+    dayIndex: anchor.dayIndex,
+    startMinutes: Math.min(from, to),
+    endMinutes: Math.max(from, to) + slotMinutes,
+  };
+};
+
+// Wall-clock time `minutes` into a grid day
+export const getGridTime = (day: Date, minutes: number): Date => {
+  const date = startOfDay(day);
+  date.setMinutes(minutes);
+  return date;
+};
+
+/**
+ * Times for an event moved to start at a wall-clock time in `timeZone`,
+ * keeping its duration.
+ */
+export const moveEventTo = (
+  event: { startTime: string; endTime: string },
+  wallClockStart: Date,
+  timeZone: string,
+): { startTime: string; endTime: string } => {
+  const start = fromZonedDate(wallClockStart, timeZone);
+  const duration =
+    new Date(event.endTime).getTime() - new Date(event.startTime).getTime();
+
+  return {
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + duration).toISOString(),
+  };
+};
+
+/**
+ * Times for an event resized to end at a wall-clock time in `timeZone`. The
+ * event keeps at least `minimumMinutes`.
+ */
+export const resizeEventTo = (
+  event: { startTime: string; endTime: string },
+  wallClockEnd: Date,
+  timeZone: string,
+  minimumMinutes: number,
+): { startTime: string; endTime: string } => {
+  const start = new Date(event.startTime).getTime();
+  const end = Math.max(
+    fromZonedDate(wallClockEnd, timeZone).getTime(),
+    start + minimumMinutes * 60000,
+  );
+
+  return { startTime: event.startTime, endTime: new Date(end).toISOString() };
+};
@@ -0,0 +1,66 @@
+import { GeoLocation } from "@/types";
+
+// Cities offered when picking a location, so nothing has to be looked up
+// online. Coordinates are city centres, which is plenty for travel limits.
+export const CITIES: GeoLocation[] = [
+  { label: "Atlanta, GA", latitude: 33.749, longitude: -84.388 },
+  { label: "Austin, TX", latitude: 30.2672, longitude: -97.7431 },
+  { label: "Baltimore, MD", latitude: 39.2904, longitude: -76.6122 },
+  { label: "Boston, MA", latitude: 42.3601, longitude: -71.0589 },
+  { label: "Charlotte, NC", latitude: 35.2271, longitude: -80.8431 },
+  { label: "Chicago, IL", latitude: 41.8781, longitude: -87.6298 },
+  { label: "Cleveland, OH", latitude: 41.4993, longitude: -81.6944 },
+  { label: "Dallas, TX", latitude: 32.7767, longitude: -96.797 },
+  { label: "Denver, CO", latitude: 39.7392, longitude: -104.9903 },
+  { label: "Detroit, MI", latitude: 42.3314, longitude: -83.0458 },
+  { label: "Honolulu, HI", latitude: 21.3069, longitude: -157.8583 },
+  { label: "Houston, TX", latitude: 29.7604, longitude: -95.3698 },
+  { label: "Indianapolis, IN", latitude: 39.7684, longitude: -86.1581 },
+  { label: "Kansas City, MO", latitude: 39.0997, longitude: -94.5786 },
+  { label: "Las Vegas, NV", latitude: 36.1699, longitude: -115.1398 },
+  { label: "Los Angeles, CA", latitude: 34.0522, longitude: -118.2437 },
+  { label: "Miami, FL", latitude: 25.7617, longitude: -80.1918 },
+  { label: "Minneapolis, MN", latitude: 44.9778, longitude: -93.265 },
+  { label: "Nashville, TN", latitude: 36.1627, longitude: -86.7816 },
+  { label: "New Orleans, LA", latitude: 29.9511, longitude: -90.0715 },
+  { label: "New York, NY", latitude: 40.7128, longitude: -74.006 },
+  { label: "Newark, NJ", latitude: 40.7357, longitude: -74.1724 },
+  { label: "Oakland, CA", latitude: 37.8044, longitude: -122.2712 },
+  { label: "Orlando, FL", latitude: 28.5383, longitude: -81.3792 },
+  { label: "Philadelphia, PA", latitude: 39.9526, longitude: -75.1652 },
+  { label: "Phoenix, AZ", latitude: 33.4484, longitude: -112.074 },
+  { label: "Pittsburgh, PA", latitude: 40.4406, longitude: -79.9959 },
+  { label: "Portland, OR", latitude: 45.5152, longitude: -122.6784 },
+  { label: "Raleigh, NC", latitude: 35.7796, longitude: -78.6382 },
+  { label: "Sacramento, CA", latitude: 38.5816, longitude: -121.4944 },
+  { label: "Salt Lake City, UT", latitude: 40.7608, longitude: -111.891 },
+  { label: "San Antonio, TX", latitude: 29.4241, longitude: -98.4936 },
+  { label: "San Diego, CA", latitude: 32.7157, longitude: -117.1611 },
+  { label: "San Francisco, CA", latitude: 37.7749, longitude: -122.4194 },
+  { label: "San Jose, CA", latitude: 37.3382, longitude: -121.8863 },
+  { label: "Seattle, WA", latitude: 47.6062, longitude: -122.3321 },
+  { label: "St. Louis, MO", latitude: 38.627, longitude: -90.1994 },
+  { label: "Tampa, FL", latitude: 27.9506, longitude: -82.4572 },
+  { label: "Washington, DC", latitude: 38.9072, longitude: -77.0369 },
+  { label: "Montreal, Canada", latitude: 45.5019, longitude: -73.5674 },
+  { label: "Toronto, Canada", latitude: 43.6532, longitude: -79.3832 },
+  { label: "Vancouver, Canada", latitude: 49.2827, longitude: -123.1207 },
+  { label: "Mexico City, Mexico", latitude: 19.4326, longitude: -99.1332 },
+  { label: "Amsterdam, Netherlands", latitude: 52.3676, longitude: 4.9041 },
+  { label: "Barcelona, Spain", latitude: 41.3874, longitude: 2.1686 },
+  { label: "Berlin, Germany", latitude: 52.52, longitude: 13.405 },
+  { label: "Dublin, Ireland", latitude: 53.3498, longitude: -6.2603 },
+  { label: "London, UK", latitude: 51.5072, longitude: -0.1276 },
+  { label: "Madrid, Spain", latitude: 40.4168, longitude: -3.7038 },
+  { label: "Paris, France", latitude: 48.8566, longitude: 2.3522 },
+  { label: "Rome, Italy", latitude: 41.9028, longitude: 12.4964 },
+  { label: "Stockholm, Sweden", latitude: 59.3293, longitude: 18.0686 },
+  { label: "Bangalore, India", latitude: 12.9716, longitude: 77.5946 },
+  { label: "Mumbai, India", latitude: 19.076, longitude: 72.8777 },
+  { label: "Seoul, South Korea", latitude: 37.5665, longitude: 126.978 },
+  { label: "Singapore", latitude: 1.3521, longitude: 103.8198 },
+  { label: "Tokyo, Japan", latitude: 35.6762, longitude: 139.6503 },
+  { label: "Melbourne, Australia", latitude: -37.8136, longitude: 144.9631 },
+  { label: "Sydney, Australia", latitude: -33.8688, longitude: 151.2093 },
+  { label: "São Paulo, Brazil", latitude: -23.5505, longitude: -46.6333 },
+];
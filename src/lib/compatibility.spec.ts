@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { HangoutEvent } from "@/types";
+import {
+  getActivitySimilarity,
+  normalizeActivity,
+  scoreHangoutCompatibility,
+  sortByCompatibility,
+} from "./compatibility";
+
+const hangout = (
+  preferences: Partial<HangoutEvent["preferences"]> = {},
+): Pick<HangoutEvent, "preferences"> => ({
+  preferences: { activitySuggestions: [], ...preferences },
+});
+
+// Overlaps starting at 10:00 UTC, this many minutes long
+const overlap = (minutes: number) => ({
+  start: "2025-01-01T10:00:00.000Z",
+  end: new Date(Date.UTC(2025, 0, 1, 10, minutes)).toISOString(),
+});
+
+describe("compatibility", () => {
+  it("should match activities loosely", () => {
+    expect(normalizeActivity("Grab some Coffees!")).toBe("coffee");
+    expect(getActivitySimilarity("Board games", "board-game")).toBe(1);
+    // A typo still counts as the same activity
+    expect(getActivitySimilarity("cofee", "Coffee")).toBeGreaterThan(0.8);
+    expect(getActivitySimilarity("hiking", "movies")).toBeLessThan(0.5);
+  });
+
+  it("should score on overlap alone when there's nothing else to compare", () => {
+    const full = scoreHangoutCompatibility(hangout(), hangout(), overlap(180));
+    expect(full.score).toBe(100);
+    expect(full.factors.map((factor) => factor.key)).toEqual(["time"]);
+    expect(full.factors[0].detail).toBe("3h free together");
+
+    expect(
+      scoreHangoutCompatibility(hangout(), hangout(), overlap(30)).score,
+    ).toBe(25);
+  });
+
+  it("should weigh activities, budget and distance", () => {
+    const mine = hangout({
+      activitySuggestions: ["Coffee", "Hiking"],
+      budgetLimit: 20,
+      maxTravelDistance: 5,
+    });
+    const theirs = hangout({
+      activitySuggestions: ["coffees", "bowling"],
+      budgetLimit: 40,
+      maxTravelDistance: 10,
+    });
+
+    const result = scoreHangoutCompatibility(mine, theirs, overlap(120), {
+      distanceMiles: 12,
+    });
+    expect(result.sharedActivities).toEqual(["Coffee"]);
+    expect(
+      Object.fromEntries(result.factors.map((f) => [f.key, f.score])),
+    ).toEqual({ time: 1, activities: 0.5, budget: 0.5, distance: 0.5 });
+    // 0.4 + 0.3 * 0.5 + 0.15 * 0.5 + 0.15 * 0.5
+    expect(result.score).toBe(70);
+    expect(result.factors.find((f) => f.key === "distance")?.detail).toBe(
+      "12 miles apart; meet in the middle",
+    );
+
+    // Without a distance the other factors are weighted up
+    expect(scoreHangoutCompatibility(mine, theirs, overlap(120)).score).toBe(
+      74,
+    );
+  });
+
+  it("should sort best first with unscored items last", () => {
+    const score = (value: number) =>
+      scoreHangoutCompatibility(hangout(), hangout(), overlap(value));
+    const items = [
+      { id: "short", compatibility: score(30) },
+      { id: "unknown", compatibility: null },
+      { id: "long", compatibility: score(120) },
+    ];
+
+    expect(sortByCompatibility(items).map((item) => item.id)).toEqual([
+      "long",
+      "short",
+      "unknown",
+    ]);
+  });
+});
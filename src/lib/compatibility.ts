@@ -0,0 +1,292 @@
+import { HangoutEvent, User } from "@/types";
+
+// How well two overlapping hangouts fit together, from 0 to 100, with the
+// parts that went into it. Time always counts; activities, budget and
+// distance only count when both sides (or the caller) have something to
+// compare, and the rest are weighted up to fill in.
+
+export type CompatibilityFactorKey =
+  "time" | "activities" | "budget" | "distance";
+
+export interface CompatibilityFactor {
+  key: CompatibilityFactorKey;
+  // 0 (no fit) to 1 (perfect fit)
+  score: number;
+  weight: number;
+  // One line for the explanation, e.g. "2h 30m free together"
+  detail: string;
+}
+
+export interface HangoutCompatibility {
+  score: number;
+  factors: CompatibilityFactor[];
+  // Activities on both lists, as the first hangout spells them
+  sharedActivities: string[];
+}
+
+export interface CompatibilityOptions {
+  // Miles between the two people, when both locations are known
+  distanceMiles?: number;
+}
+
+const FACTOR_WEIGHTS: Record<CompatibilityFactorKey, number> = {
+  time: 0.4,
+  activities: 0.3,
+  budget: 0.15,
+  distance: 0.15,
+};
+
+// An overlap this long (or longer) is as good as it gets
+export const FULL_OVERLAP_MINUTES = 120;
+
+// Activity names this alike count as the same activity...
+const SAME_ACTIVITY_SIMILARITY = 0.8;
+// ...and this alike as close enough for partial credit
+const SIMILAR_ACTIVITY_SIMILARITY = 0.5;
+
+// Users see every match until they choose a higher bar in settings
+export const DEFAULT_MIN_MATCH_SCORE = 0;
+
+export const getMinMatchScore = (user: Pick<User, "minMatchScore"> | null) =>
+  user?.minMatchScore ?? DEFAULT_MIN_MATCH_SCORE;
+
+// Words that say nothing about the activity itself
+const FILLER_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "at",
+  "for",
+  "go",
+  "going",
+  "grab",
+  "get",
+  "some",
+  "the",
+  "to",
+]);
+
+// "Grab some Coffees!" and "coffee" both become "coffee"
+export const normalizeActivity = (activity: string): string =>
+  activity
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !FILLER_WORDS.has(word))
+    .map((word) =>
+      word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+        ? word.slice(0, -1)
+        : word,
+    )
+    .join(" ");
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * How alike two activity names are, from 0 to 1: the better of their
+ * spelling similarity (catches typos) and the share of words they have in
+ * common (catches "board games" vs "games night").
+ */
+export const getActivitySimilarity = (a: string, b: string): number => {
+  const first = normalizeActivity(a);
+  const second = normalizeActivity(b);
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+
+  const spelling =
+    1 - levenshtein(first, second) / Math.max(first.length, second.length);
+  const firstWords = new Set(first.split(" "));
+  const secondWords = new Set(second.split(" "));
+  const common = [...firstWords].filter((word) => secondWords.has(word));
+  const words = common.length / new Set([...firstWords, ...secondWords]).size;
+
+  return Math.max(spelling, words);
+};
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest}m`;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+const scoreTime = (overlap: {
+  start: string;
+  end: string;
+}): CompatibilityFactor => {
+  const minutes = Math.max(
+    Math.round(
+      (new Date(overlap.end).getTime() - new Date(overlap.start).getTime()) /
+        60000,
+    ),
+    0,
+  );
+
+  return {
+    key: "time",
+    score: Math.min(minutes / FULL_OVERLAP_MINUTES, 1),
+    weight: FACTOR_WEIGHTS.time,
+    detail: `${formatMinutes(minutes)} free together`,
+  };
+};
+
+const scoreActivities = (
+  first: string[],
+  second: string[],
+): { factor: CompatibilityFactor | null; shared: string[] } => {
+  const mine = first.filter((activity) => normalizeActivity(activity));
+  const theirs = second.filter((activity) => normalizeActivity(activity));
+  if (mine.length === 0 || theirs.length === 0) {
+    return { factor: null, shared: [] };
+  }
+
+  const shared: string[] = [];
+  let similar = 0;
+  let credit = 0;
+
+  mine.forEach((activity) => {
+    const best = Math.max(
+      ...theirs.map((other) => getActivitySimilarity(activity, other)),
+    );
+    if (best >= SAME_ACTIVITY_SIMILARITY) {
+      shared.push(activity);
+      credit += 1;
+    } else if (best >= SIMILAR_ACTIVITY_SIMILARITY) {
+      similar += 1;
+      credit += best;
+    }
+  });
+
+  // Having one thing in common with a long list is still a good fit
+  const score = Math.min(credit / Math.min(mine.length, theirs.length), 1);
+  const detail =
+    shared.length > 0
+      ? `Both up for ${shared.join(", ")}`
+      : similar > 0
+        ? "Similar activity ideas"
+        : "No activities in common";
+
+  return {
+    factor: {
+      key: "activities",
+      score,
+      weight: FACTOR_WEIGHTS.activities,
+      detail,
+    },
+    shared,
+  };
+};
+
+const scoreBudget = (
+  first?: number,
+  second?: number,
+): CompatibilityFactor | null => {
+  if (!first || !second) return null;
+
+  const lower = Math.min(first, second);
+  return {
+    key: "budget",
+    score: lower / Math.max(first, second),
+    weight: FACTOR_WEIGHTS.budget,
+    detail:
+      first === second
+        ? `Same budget of $${lower}`
+        : `Budgets of $${first} and $${second}; plan for up to $${lower}`,
+  };
+};
+
+/**
+ * Full marks when either person would travel the whole way, half when they
+ * only reach each other by meeting in between, none when even that's too
+ * far. A missing travel limit means no limit.
+ */
+const scoreDistance = (
+  distanceMiles: number | undefined,
+  first?: number,
+  second?: number,
+): CompatibilityFactor | null => {
+  if (distanceMiles === undefined || isNaN(distanceMiles)) return null;
+
+  const firstLimit = first || Infinity;
+  const secondLimit = second || Infinity;
+  const miles = Math.round(distanceMiles);
+  const [score, detail]: [number, string] =
+    distanceMiles <= Math.max(firstLimit, secondLimit)
+      ? [1, `${miles} miles apart, within travel range`]
+      : distanceMiles <= firstLimit + secondLimit
+        ? [0.5, `${miles} miles apart; meet in the middle`]
+        : [0, `${miles} miles apart, too far for both`];
+
+  return {
+    key: "distance",
+    score,
+    weight: FACTOR_WEIGHTS.distance,
+    detail,
+  };
+};
+
+export const scoreHangoutCompatibility = (
+  first: Pick<HangoutEvent, "preferences">,
+  second: Pick<HangoutEvent, "preferences">,
+  overlap: { start: string; end: string },
+  { distanceMiles }: CompatibilityOptions = {},
+): HangoutCompatibility => {
+  const mine = first.preferences || { activitySuggestions: [] };
+  const theirs = second.preferences || { activitySuggestions: [] };
+  const activities = scoreActivities(
+    mine.activitySuggestions || [],
+    theirs.activitySuggestions || [],
+  );
+
+  const factors = [
+    scoreTime(overlap),
+    activities.factor,
+    scoreBudget(mine.budgetLimit, theirs.budgetLimit),
+    scoreDistance(
+      distanceMiles,
+      mine.maxTravelDistance,
+      theirs.maxTravelDistance,
+    ),
+  ].filter(Boolean);
+
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0);
+  const weighted = factors.reduce(
+    (sum, factor) => sum + factor.score * factor.weight,
+    0,
+  );
+
+  return {
+    score: Math.round((weighted / totalWeight) * 100),
+    factors,
+    sharedActivities: activities.shared,
+  };
+};
+
+export const describeCompatibility = (score: number): string =>
+  score >= 75 ? "Great match" : score >= 50 ? "Good match" : "Weak match";
+
+// Best first; unscored items go last and equal scores keep their order
+export const sortByCompatibility = <
+  T extends { compatibility: HangoutCompatibility | null },
+>(
+  items: T[],
+): T[] =>
+  [...items].sort(
+    (a, b) => (b.compatibility?.score ?? -1) - (a.compatibility?.score ?? -1),
+  );
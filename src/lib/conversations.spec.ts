@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import { Conversation, Message, ReadCursor, User } from "@/types";
+import {
+  findDirectConversation,
+  findGroupConversation,
+  getConversationTitle,
+  advanceReadCursor,
+  countUnreadMessages,
+  getSeenBy,
+  isCursorBehind,
+  isMessageReadBy,
+  mergeMessages,
+} from "./conversations";
+
+const member = (id: string, fullName: string): User => ({
+  id,
+  email: `${id}@example.com`,
+  username: id,
+  fullName,
+  friends: [],
+  friendRequests: { sent: [], received: [] },
+  createdAt: "2025-01-01T00:00:00.000Z",
+});
+const members: Record<string, User> = {
+  a: member("a", "Alex Kim"),
+  b: member("b", "Sam Lee"),
+  c: member("c", "Jo Park"),
+  d: member("d", "Max Roy"),
+  e: member("e", "Ana Diaz"),
+};
+const getMember = (id: string) => members[id] || null;
+
+const conversation = (
+  id: string,
+  participants: string[],
+  extra: Partial<Conversation> = {},
+): Conversation => ({
+  id,
+  participants,
+  messages: [],
+  updatedAt: "2025-01-01T00:00:00.000Z",
+  ...extra,
+});
+
+describe("conversations", () => {
+  it("should find direct chats but not groups with the same people", () => {
+    const group = conversation("g1", ["a", "b"], { type: "group" });
+    const direct = conversation("d1", ["b", "a"], { type: "direct" });
+
+    expect(findDirectConversation([group, direct], "a", "b")).toBe(direct);
+    expect(findDirectConversation([group], "a", "b")).toBeNull();
+
+    const trio = conversation("g2", ["c", "a", "b"], { type: "group" });
+    expect(findGroupConversation([direct, group, trio], ["a", "b"])).toBe(
+      group,
+    );
+    expect(findGroupConversation([trio], ["a", "b", "c"])).toBe(trio);
+    expect(findGroupConversation([trio], ["a", "b", "d"])).toBeNull();
+  });
+
+  it("should title conversations by name, partner or members", () => {
+    expect(
+      getConversationTitle(conversation("d1", ["a", "b"]), "a", getMember),
+    ).toBe("Sam Lee");
+    expect(
+      getConversationTitle(
+        conversation("g1", ["a", "b", "c"], { type: "group", name: " " }),
+        "a",
+        getMember,
+      ),
+    ).toBe("Sam and Jo");
+    expect(
+      getConversationTitle(
+        conversation("g2", ["a", "b", "c", "d", "e"], { type: "group" }),
+        "a",
+        getMember,
+      ),
+    ).toBe("Sam, Jo and 2 others");
+    expect(
+      getConversationTitle(
+        conversation("g3", ["a", "b"], { type: "group", name: "Dinner" }),
+        "a",
+        getMember,
+      ),
+    ).toBe("Dinner");
+  });
+
+  it("should count unread messages from a member's read cursor", () => {
+    const message = (
+      id: string,
+      senderId: string,
+      minute: number,
+    ): Message => ({
+      id,
+      conversationId: "g1",
+      senderId,
+      content: id,
+      timestamp: `2025-01-01T10:0${minute}:00.000Z`,
+    });
+    const messages = [
+      message("m1", "a", 1),
+      message("m2", "b", 2),
+      message("m3", "a", 3),
+    ];
+    const cursor = (userId: string, read: Message): ReadCursor => ({
+      conversationId: "g1",
+      userId,
+      lastReadMessageId: read.id,
+      lastReadAt: read.timestamp,
+    });
+
+    expect(countUnreadMessages(messages, "c", null)).toBe(3);
+    // Your own messages never count
+    expect(countUnreadMessages(messages, "b", null)).toBe(2);
+    expect(countUnreadMessages(messages, "c", cursor("c", messages[1]))).toBe(
+      1,
+    );
+
+    const cursors = [cursor("b", messages[2]), cursor("c", messages[1])];
+    expect(getSeenBy(messages[0], cursors)).toEqual(["b", "c"]);
+    expect(getSeenBy(messages[2], cursors)).toEqual(["b"]);
+
+    // Cursors only move forward
+    expect(advanceReadCursor(cursors[0], cursor("b", messages[0]))).toBe(
+      cursors[0],
+    );
+
+    // Direct messages from before read cursors
+    const legacy = { ...messages[0], receiverId: "b", read: true };
+    expect(isMessageReadBy(legacy, "b", null)).toBe(true);
+  });
+
+  it("should move the cursor past a member's own latest reply", () => {
+    const fromSam: Message = {
+      id: "m1",
+      conversationId: "c1",
+      senderId: "b",
+      content: "Dinner?",
+      timestamp: "2025-01-01T10:00:00.000Z",
+    };
+    const reply: Message = {
+      ...fromSam,
+      id: "m2",
+      senderId: "a",
+      content: "Sure",
+      timestamp: "2025-01-01T10:05:00.000Z",
+    };
+
+    // Alex answered from another device without opening the chat here
+    expect(countUnreadMessages([reply], "a", null)).toBe(0);
+    expect(countUnreadMessages([fromSam, reply], "a", null)).toBe(1);
+    expect(isCursorBehind(reply, null)).toBe(true);
+
+    const cursor: ReadCursor = {
+      conversationId: "c1",
+      userId: "a",
+      lastReadMessageId: reply.id,
+      lastReadAt: reply.timestamp,
+    };
+    expect(countUnreadMessages([fromSam, reply], "a", cursor)).toBe(0);
+    expect(isCursorBehind(reply, cursor)).toBe(false);
+    expect(isCursorBehind(null, null)).toBe(false);
+  });
+
+  it("should merge pages and live messages in order without duplicates", () => {
+    const message = (id: string, timestamp: string): Message => ({
+      id,
+      conversationId: "c1",
+      senderId: "a",
+      content: id,
+      timestamp,
+    });
+    const page = [
+      message("m2", "2025-01-01T10:01:00.000Z"),
+      message("m3", "2025-01-01T10:02:00.000Z"),
+    ];
+    const older = [
+      message("m1", "2025-01-01T10:00:00.000Z"),
+      // Same millisecond as m2; the id decides
+      message("m0", "2025-01-01T10:01:00.000Z"),
+    ];
+
+    expect(mergeMessages(page, [...older, page[1]]).map((m) => m.id)).toEqual([
+      "m1",
+      "m0",
+      "m2",
+      "m3",
+    ]);
+  });
+});
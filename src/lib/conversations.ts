@@ -0,0 +1,140 @@
+import { Conversation, Message, ReadCursor, User } from "@/types";
+
+// Messages loaded at a time, both up front and per "load older"
+export const MESSAGE_PAGE_SIZE = 30;
+
+export const isGroupConversation = (conversation: Conversation): boolean =>
+  conversation.type === "group";
+
+// The direct chat between two people, if they have one
+export const findDirectConversation = (
+  conversations: Conversation[],
+  userId: string,
+  otherUserId: string,
+): Conversation | null =>
+  conversations.find(
+    (conversation) =>
+      !isGroupConversation(conversation) &&
+      conversation.participants.length === 2 &&
+      conversation.participants.includes(userId) &&
+      conversation.participants.includes(otherUserId),
+  ) || null;
+
+// A group with exactly these members (the user included), if there is one
+export const findGroupConversation = (
+  conversations: Conversation[],
+  memberIds: string[],
+): Conversation | null => {
+  const members = new Set(memberIds);
+  return (
+    conversations.find(
+      (conversation) =>
+        isGroupConversation(conversation) &&
+        conversation.participants.length === members.size &&
+        conversation.participants.every((id) => members.has(id)),
+    ) || null
+  );
+};
+
+/**
+ * Name shown for a conversation: the group's name, the other person in a
+ * direct chat, or the first few members of an unnamed group.
+ */
+export const getConversationTitle = (
+  conversation: Conversation,
+  currentUserId: string,
+  getMember: (userId: string) => User | null,
+): string => {
+  if (conversation.name?.trim()) return conversation.name.trim();
+
+  const others = conversation.participants
+    .filter((id) => id !== currentUserId)
+    .map(getMember)
+    .filter(Boolean);
+  if (others.length === 0) return "Just you";
+  if (!isGroupConversation(conversation)) return others[0].fullName;
+
+  const names = others.map((member) => member.fullName.split(" ")[0]);
+  if (names.length <= 3) {
+    return names.length === 1
+      ? names[0]
+      : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+  }
+  return `${names.slice(0, 2).join(", ")} and ${names.length - 2} others`;
+};
+
+const time = (timestamp: string) => new Date(timestamp).getTime();
+
+// Id for records kept per conversation and member, like read cursors
+export const getConversationMemberKey = (
+  conversationId: string,
+  userId: string,
+) => `${conversationId}_${userId}`;
+
+export const getReadCursor = (
+  cursors: ReadCursor[],
+  userId: string,
+): ReadCursor | null =>
+  cursors.find((cursor) => cursor.userId === userId) || null;
+
+// Whichever cursor is further along; cursors never move backwards
+export const advanceReadCursor = (
+  current: ReadCursor | null,
+  next: ReadCursor,
+): ReadCursor =>
+  current && time(current.lastReadAt) >= time(next.lastReadAt) ? current : next;
+
+// Whether a member's cursor stops short of the latest message. Their own
+// counts too: replying means they've read what came before it.
+export const isCursorBehind = (
+  latest: Message | null | undefined,
+  cursor: ReadCursor | null,
+): boolean =>
+  Boolean(latest) &&
+  (!cursor || time(latest.timestamp) > time(cursor.lastReadAt));
+
+export const isMessageReadBy = (
+  message: Message,
+  userId: string,
+  cursor: ReadCursor | null,
+): boolean => {
+  if (message.senderId === userId) return true;
+  if (cursor && time(message.timestamp) <= time(cursor.lastReadAt)) {
+    return true;
+  }
+  // Direct messages from before read cursors
+  return message.receiverId === userId && Boolean(message.read);
+};
+
+export const countUnreadMessages = (
+  messages: Message[],
+  userId: string,
+  cursor: ReadCursor | null,
+): number =>
+  messages.filter(
+    (message) => message && !isMessageReadBy(message, userId, cursor),
+  ).length;
+
+// Members other than the sender who have read up to a message
+export const getSeenBy = (message: Message, cursors: ReadCursor[]): string[] =>
+  cursors
+    .filter(
+      (cursor) =>
+        cursor.userId !== message.senderId &&
+        isMessageReadBy(message, cursor.userId, cursor),
+    )
+    .map((cursor) => cursor.userId);
+
+// Oldest first, with the id breaking ties so pages line up exactly
+export const compareMessages = (a: Message, b: Message): number =>
+  time(a.timestamp) - time(b.timestamp) || a.id.localeCompare(b.id);
+
+// Adds newly loaded or received messages, dropping ones we already have
+export const mergeMessages = (
+  existing: Message[],
+  incoming: Message[],
+): Message[] => {
+  const byId = new Map(existing.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+  return Array.from(byId.values()).sort(compareMessages);
+};
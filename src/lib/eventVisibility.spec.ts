@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { Event } from "@/types";
+import {
+  canSeeEventDetails,
+  filterEventsForViewer,
+  getDefaultEventVisibility,
+  mergeBusyBlocks,
+  needsBusyBlock,
+  toBusyBlock,
+} from "./eventVisibility";
+
+const event = (id: string, extra: Partial<Event> = {}): Event => ({
+  id,
+  userId: "alex",
+  title: `Dentist ${id}`,
+  description: "Root canal",
+  startTime: "2025-02-03T15:00:00.000Z",
+  endTime: "2025-02-03T16:00:00.000Z",
+  type: "personal",
+  timeZone: "America/New_York",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  ...extra,
+});
+
+describe("event visibility", () => {
+  it("should show friends details or busy time", () => {
+    const events = [
+      event("shared"),
+      event("busy", { visibility: "busy" }),
+      event("hidden", { visibility: "private" }),
+      event("picked", { visibility: "selected", sharedWith: ["sam"] }),
+    ];
+
+    const seenBySam = filterEventsForViewer(events, "sam");
+    expect(seenBySam.map((e) => [e.id, e.title])).toEqual([
+      ["shared", "Dentist shared"],
+      ["busy", "Busy"],
+      ["hidden", "Busy"],
+      ["picked", "Dentist picked"],
+    ]);
+
+    const seenByJo = filterEventsForViewer(events, "jo");
+    expect(seenByJo.map((e) => [e.id, e.title])).toEqual([
+      ["shared", "Dentist shared"],
+      ["busy", "Busy"],
+      ["hidden", "Busy"],
+      ["picked", "Busy"],
+    ]);
+
+    // The owner always sees their own
+    expect(filterEventsForViewer(events, "alex")).toEqual(events);
+    expect(canSeeEventDetails(events[2], undefined)).toBe(false);
+  });
+
+  it("should keep only the times in a busy block", () => {
+    const recurring = event("weekly", {
+      visibility: "busy",
+      recurrence: { frequency: "weekly", byDay: ["MO"] },
+      exceptions: ["2025-02-10T15:00:00.000Z"],
+    });
+
+    expect(toBusyBlock(recurring)).toEqual({
+      id: "weekly",
+      userId: "alex",
+      title: "Busy",
+      startTime: recurring.startTime,
+      endTime: recurring.endTime,
+      type: "personal",
+      visibility: "busy",
+      recurrence: recurring.recurrence,
+      exceptions: recurring.exceptions,
+      timeZone: "America/New_York",
+      createdAt: recurring.createdAt,
+    });
+    expect(needsBusyBlock(recurring)).toBe(true);
+    expect(needsBusyBlock(event("shared"))).toBe(false);
+    expect(needsBusyBlock(event("hidden", { visibility: "private" }))).toBe(
+      true,
+    );
+  });
+
+  it("should prefer details over busy blocks for the same event", () => {
+    const picked = event("picked", {
+      visibility: "selected",
+      sharedWith: ["sam"],
+    });
+    const busy = event("busy", { visibility: "busy" });
+
+    expect(
+      mergeBusyBlocks([picked], [toBusyBlock(picked), toBusyBlock(busy)]),
+    ).toEqual([picked, toBusyBlock(busy)]);
+  });
+
+  it("should default new events to friends", () => {
+    expect(getDefaultEventVisibility(null)).toBe("friends");
+    expect(getDefaultEventVisibility({ privacy: { showPresence: true } })).toBe(
+      "friends",
+    );
+    expect(
+      getDefaultEventVisibility({ privacy: { eventVisibility: "busy" } }),
+    ).toBe("busy");
+  });
+});
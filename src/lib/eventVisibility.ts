@@ -0,0 +1,114 @@
+import { Event, EventVisibility, User } from "@/types";
+
+// What friends see of someone's events: the event itself or a "Busy"
+// block with only its times. Firestore can't hide some fields of a
+// document, so busy blocks are documents of their own (busyBlocks/{eventId})
+// that a Cloud Function keeps in step with the events; see firestore.rules.
+// Invitees see hangouts they're invited to through their invitations, not
+// through this.
+
+export const EVENT_VISIBILITIES: EventVisibility[] = [
+  "friends",
+  "selected",
+  "busy",
+  "private",
+];
+
+export const EVENT_VISIBILITY_LABELS: Record<
+  EventVisibility,
+  { label: string; description: string }
+> = {
+  friends: {
+    label: "Friends",
+    description: "All your friends see the details",
+  },
+  selected: {
+    label: "Selected friends",
+    description: "Friends you pick see the details; the rest see you're busy",
+  },
+  busy: {
+    label: "Busy only",
+    description: "Friends see you're busy, but not what it is",
+  },
+  private: {
+    label: "Private",
+    description: "Only you see the details; friends see you're busy",
+  },
+};
+
+export const DEFAULT_EVENT_VISIBILITY: EventVisibility = "friends";
+
+export const BUSY_BLOCK_TITLE = "Busy";
+
+export const getEventVisibility = (
+  event: Pick<Event, "visibility">,
+): EventVisibility => event?.visibility || DEFAULT_EVENT_VISIBILITY;
+
+// What the user's new events start out as
+export const getDefaultEventVisibility = (
+  user: Pick<User, "privacy"> | null | undefined,
+): EventVisibility =>
+  user?.privacy?.eventVisibility || DEFAULT_EVENT_VISIBILITY;
+
+// Friends picked for a "selected" event as they should be stored
+export const normalizeSharedWith = (
+  ownerId: string,
+  sharedWith: string[] = [],
+): string[] =>
+  Array.from(new Set(sharedWith)).filter((id) => id && id !== ownerId);
+
+// Whether a friend of the owner sees the event in full
+export const canSeeEventDetails = (
+  event: Pick<Event, "userId" | "visibility" | "sharedWith">,
+  viewerId: string | undefined,
+) => {
+  if (viewerId && event.userId === viewerId) return true;
+
+  switch (getEventVisibility(event)) {
+    case "friends":
+      return true;
+    case "selected":
+      return Boolean(viewerId && event.sharedWith?.includes(viewerId));
+    default:
+      return false;
+  }
+};
+
+// Events some friends only see as busy time, which need a busy block
+export const needsBusyBlock = (event: Pick<Event, "visibility">) =>
+  getEventVisibility(event) !== "friends";
+
+/**
+ * The event with everything but its times left out. Blocks are personal
+ * events, so they count as busy time wherever friends' events are used
+ * (the meeting planner, for one) and never as free time for a match.
+ */
+export const toBusyBlock = (event: Event): Event => ({
+  id: event.id,
+  userId: event.userId,
+  title: BUSY_BLOCK_TITLE,
+  startTime: event.startTime,
+  endTime: event.endTime,
+  type: "personal",
+  visibility: "busy",
+  ...(event.recurrence ? { recurrence: event.recurrence } : {}),
+  ...(event.exceptions ? { exceptions: event.exceptions } : {}),
+  ...(event.timeZone ? { timeZone: event.timeZone } : {}),
+  createdAt: event.createdAt,
+});
+
+// The event as a friend sees it
+export const viewEventAs = (event: Event, viewerId: string | undefined) =>
+  canSeeEventDetails(event, viewerId) ? event : toBusyBlock(event);
+
+export const filterEventsForViewer = (
+  events: Event[],
+  viewerId: string | undefined,
+): Event[] => events.map((event) => viewEventAs(event, viewerId));
+
+// Events read in full plus the busy blocks of everything else, for when
+// the two are loaded separately
+export const mergeBusyBlocks = (events: Event[], busyBlocks: Event[]) => {
+  const shown = new Set(events.map((event) => event.id));
+  return [...events, ...busyBlocks.filter((block) => !shown.has(block.id))];
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { HangoutEvent } from "@/types";
+import {
+  buildEventCard,
+  buildOverlapCard,
+  describeHangoutCard,
+  hangoutCardToEvent,
+  isCardInCalendar,
+} from "./hangoutCards";
+
+const hangout = (
+  id: string,
+  activitySuggestions: string[],
+  budgetLimit?: number,
+  maxTravelDistance?: number,
+): HangoutEvent => ({
+  id,
+  userId: id,
+  title: "Hangout",
+  startTime: "2025-01-10T17:00:00.000Z",
+  endTime: "2025-01-10T21:00:00.000Z",
+  type: "hangout",
+  preferences: { activitySuggestions, budgetLimit, maxTravelDistance },
+  visibility: "friends",
+  createdAt: "2025-01-01T00:00:00.000Z",
+});
+
+const overlap = {
+  start: "2025-01-10T18:00:00.000Z",
+  end: "2025-01-10T20:00:00.000Z",
+};
+
+describe("hangout cards", () => {
+  it("should suggest shared activities and the tighter limits", () => {
+    const card = buildOverlapCard(
+      hangout("mine", ["Coffee", "Bowling"], 40, 10),
+      hangout("theirs", ["Bowling", "Movies"], 25),
+      overlap,
+      "UTC",
+    );
+
+    expect(card).toEqual({
+      kind: "overlap",
+      title: "Hangout",
+      startTime: overlap.start,
+      endTime: overlap.end,
+      timeZone: "UTC",
+      activitySuggestions: ["Bowling"],
+      budgetLimit: 25,
+      maxTravelDistance: 10,
+      sourceEventIds: ["mine", "theirs"],
+    });
+
+    // Nothing in common: offer everything either of them listed
+    expect(
+      buildOverlapCard(
+        hangout("a", ["Coffee"]),
+        hangout("b", ["Movies"]),
+        overlap,
+      ).activitySuggestions,
+    ).toEqual(["Coffee", "Movies"]);
+  });
+
+  it("should leave unknown limits off so the card can be stored", () => {
+    const card = buildEventCard(hangout("e1", ["Coffee"]));
+    expect(card).not.toHaveProperty("budgetLimit");
+    expect(card).not.toHaveProperty("maxTravelDistance");
+    expect(hangoutCardToEvent(card).preferences).toEqual({
+      activitySuggestions: ["Coffee"],
+    });
+  });
+
+  it("should describe the card and find it on a calendar", () => {
+    const card = buildOverlapCard(
+      hangout("a", []),
+      hangout("b", []),
+      overlap,
+      "UTC",
+    );
+    expect(describeHangoutCard(card)).toBe(
+      "We're both free Jan 10, 6:00 PM - 8:00 PM - want to hang out?",
+    );
+
+    const added = {
+      ...hangout("c", []),
+      startTime: overlap.start,
+      endTime: overlap.end,
+    };
+    expect(isCardInCalendar(card, [hangout("a", [])])).toBe(false);
+    expect(isCardInCalendar(card, [added])).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+import { CreateEventInput, Event, HangoutCard, HangoutEvent } from "@/types";
+import { getMatchSourceEvents } from "@/lib/hangoutMatch";
+import { formatRangeInTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+// Firestore rejects undefined, so optional limits are only set when known
+const withLimits = (
+  card: HangoutCard,
+  budgetLimit?: number,
+  maxTravelDistance?: number,
+): HangoutCard => ({
+  ...card,
+  ...(budgetLimit ? { budgetLimit } : {}),
+  ...(maxTravelDistance ? { maxTravelDistance } : {}),
+});
+
+const smallest = (...values: (number | undefined)[]) => {
+  const known = values.filter((value) => value > 0);
+  return known.length ? Math.min(...known) : undefined;
+};
+
+export const buildEventCard = (event: HangoutEvent): HangoutCard =>
+  withLimits(
+    {
+      kind: "event",
+      title: event.title,
+      ...(event.description ? { description: event.description } : {}),
+      startTime: event.startTime,
+      endTime: event.endTime,
+      ...(event.timeZone ? { timeZone: event.timeZone } : {}),
+      activitySuggestions: event.preferences?.activitySuggestions || [],
+      sourceEventIds: getMatchSourceEvents([event.id]),
+    },
+    event.preferences?.budgetLimit,
+    event.preferences?.maxTravelDistance,
+  );
+
+/**
+ * The window where two hangouts overlap. Suggests the activities both
+ * people listed (or everything either listed, if none are shared) and the
+ * tighter of their budget and travel limits.
+ */
+export const buildOverlapCard = (
+  userEvent: HangoutEvent,
+  friendEvent: HangoutEvent,
+  overlap: { start: string; end: string },
+  timeZone?: string,
+): HangoutCard => {
+  const mine = userEvent.preferences?.activitySuggestions || [];
+  const theirs = friendEvent.preferences?.activitySuggestions || [];
+  const common = mine.filter((activity) => theirs.includes(activity));
+
+  return withLimits(
+    {
+      kind: "overlap",
+      title:
+        userEvent.title === friendEvent.title ? userEvent.title : "Hangout",
+      startTime: overlap.start,
+      endTime: overlap.end,
+      ...(timeZone ? { timeZone } : {}),
+      activitySuggestions: common.length
+        ? common
+        : Array.from(new Set([...mine, ...theirs])),
+      sourceEventIds: getMatchSourceEvents([userEvent.id, friendEvent.id]),
+    },
+    smallest(
+      userEvent.preferences?.budgetLimit,
+      friendEvent.preferences?.budgetLimit,
+    ),
+    smallest(
+      userEvent.preferences?.maxTravelDistance,
+      friendEvent.preferences?.maxTravelDistance,
+    ),
+  );
+};
+
+// Plain text stored as the message content, shown in previews
+export const describeHangoutCard = (card: HangoutCard, timeZone?: string) => {
+  const zone = resolveTimeZone(timeZone || card.timeZone);
+  const when = formatRangeInTimeZone(card.startTime, card.endTime, zone);
+  return card.kind === "overlap"
+    ? `We're both free ${when} - want to hang out?`
+    : `${card.title}, ${when}`;
+};
+
+// A hangout on the viewer's own calendar for the card's time and plans
+export const hangoutCardToEvent = (card: HangoutCard): CreateEventInput => ({
+  title: card.title,
+  ...(card.description ? { description: card.description } : {}),
+  startTime: card.startTime,
+  endTime: card.endTime,
+  type: "hangout",
+  timeZone: card.timeZone,
+  preferences: {
+    activitySuggestions: card.activitySuggestions,
+    ...(card.budgetLimit ? { budgetLimit: card.budgetLimit } : {}),
+    ...(card.maxTravelDistance
+      ? { maxTravelDistance: card.maxTravelDistance }
+      : {}),
+  },
+});
+
+// Already on the calendar, whether added from this card or planned there
+export const isCardInCalendar = (card: HangoutCard, events: Event[]) =>
+  events.some(
+    (event) =>
+      event.type === "hangout" &&
+      new Date(event.startTime).getTime() ===
+        new Date(card.startTime).getTime() &&
+      new Date(event.endTime).getTime() === new Date(card.endTime).getTime(),
+  );
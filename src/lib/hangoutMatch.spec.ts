@@ -0,0 +1,211 @@
+import { describe, it, expect } from "vitest";
+import { Event } from "@/types";
+import {
+  applyHangoutMatchResponse,
+  createHangoutMatchRecord,
+  getHangoutMatchId,
+  planHangoutMatches,
+  resolveHangoutMatchStatus,
+} from "./hangoutMatch";
+
+const overlap = {
+  start: "2025-01-10T18:00:00.000Z",
+  end: "2025-01-10T20:00:00.000Z",
+};
+const before = new Date("2025-01-09T12:00:00.000Z");
+const after = new Date("2025-01-11T12:00:00.000Z");
+
+describe("hangout match lifecycle", () => {
+  it("should derive the same id regardless of event order", () => {
+    expect(getHangoutMatchId(["e2", "e1"])).toBe(
+      getHangoutMatchId(["e1", "e2"]),
+    );
+  });
+
+  it("should start proposed with pending responses", () => {
+    const match = createHangoutMatchRecord(
+      ["a", "b"],
+      ["e1", "e2"],
+      overlap,
+      before,
+    );
+
+    expect(match.status).toBe("proposed");
+    expect(match.responses).toEqual({ a: "pending", b: "pending" });
+  });
+
+  it("should become accepted once everyone accepts", () => {
+    let match = createHangoutMatchRecord(
+      ["a", "b"],
+      ["e1", "e2"],
+      overlap,
+      before,
+    );
+
+    match = applyHangoutMatchResponse(match, "a", "accepted", before);
+    expect(match.status).toBe("proposed");
+
+    match = applyHangoutMatchResponse(match, "b", "accepted", before);
+    expect(match.status).toBe("accepted");
+  });
+
+  it("should be declined by a single decline and then stay closed", () => {
+    const match = applyHangoutMatchResponse(
+      createHangoutMatchRecord(["a", "b"], ["e1", "e2"], overlap, before),
+      "b",
+      "declined",
+      before,
+    );
+
+    expect(match.status).toBe("declined");
+    expect(() =>
+      applyHangoutMatchResponse(match, "a", "accepted", before),
+    ).toThrow("already declined");
+  });
+
+  it("should expire pending matches after the window ends", () => {
+    const match = createHangoutMatchRecord(
+      ["a", "b"],
+      ["e1", "e2"],
+      overlap,
+      before,
+    );
+
+    expect(resolveHangoutMatchStatus(match, after)).toBe("expired");
+    expect(() =>
+      applyHangoutMatchResponse(match, "a", "accepted", after),
+    ).toThrow();
+  });
+
+  it("should reject responses from non-participants", () => {
+    const match = createHangoutMatchRecord(
+      ["a", "b"],
+      ["e1", "e2"],
+      overlap,
+      before,
+    );
+    expect(() =>
+      applyHangoutMatchResponse(match, "c", "accepted", before),
+    ).toThrow("not part");
+  });
+});
+
+describe("hangout match planning", () => {
+  const hangout = (
+    id: string,
+    userId: string,
+    start: string,
+    end: string,
+  ): Event => ({
+    id,
+    userId,
+    title: id,
+    startTime: start,
+    endTime: end,
+    type: "hangout",
+    createdAt: "2025-01-01T00:00:00.000Z",
+  });
+  const friendEvent = hangout(
+    "f1",
+    "b",
+    "2025-01-10T17:00:00.000Z",
+    "2025-01-10T19:00:00.000Z",
+  );
+
+  it("should create matches for new overlaps", () => {
+    const event = hangout("e1", "a", overlap.start, overlap.end);
+    const plan = planHangoutMatches(event, [friendEvent], [], before);
+
+    expect(plan.create).toHaveLength(1);
+    expect(plan.create[0].overlappingTime).toEqual({
+      start: "2025-01-10T18:00:00.000Z",
+      end: "2025-01-10T19:00:00.000Z",
+    });
+    expect(plan.create[0].sourceEvents).toEqual(["e1", "f1"]);
+  });
+
+  it("should move or remove matches when the event changes", () => {
+    const event = hangout("e1", "a", overlap.start, overlap.end);
+    const [existing] = planHangoutMatches(
+      event,
+      [friendEvent],
+      [],
+      before,
+    ).create;
+    const accepted = applyHangoutMatchResponse(
+      existing,
+      "a",
+      "accepted",
+      before,
+    );
+
+    const moved = planHangoutMatches(
+      { ...event, startTime: "2025-01-10T16:00:00.000Z" },
+      [friendEvent],
+      [accepted],
+      before,
+    );
+    expect(moved.create).toEqual([]);
+    expect(moved.update[0].overlappingTime.start).toBe(
+      "2025-01-10T17:00:00.000Z",
+    );
+    expect(moved.update[0].responses.a).toBe("accepted");
+
+    expect(
+      planHangoutMatches(
+        { ...event, type: "personal" },
+        [friendEvent],
+        [existing],
+        before,
+      ).remove,
+    ).toEqual([existing]);
+    expect(planHangoutMatches(null, [], [existing], before).remove).toEqual([
+      existing,
+    ]);
+    // Ended matches are kept as history
+    expect(planHangoutMatches(null, [], [existing], after).remove).toEqual([]);
+  });
+
+  it("should not match hangouts too far apart to travel", () => {
+    const boston = { label: "Boston", latitude: 42.3601, longitude: -71.0589 };
+    const event = {
+      ...hangout("e1", "a", overlap.start, overlap.end),
+      preferences: { activitySuggestions: [], maxTravelDistance: 20 },
+      location: { label: "New York", latitude: 40.7128, longitude: -74.006 },
+    };
+    const nearby = { ...friendEvent, location: boston };
+
+    // About 190 miles, and Sam has no limit of their own
+    expect(planHangoutMatches(event, [nearby], [], before).create).toHaveLength(
+      1,
+    );
+    const limited = {
+      ...nearby,
+      preferences: { activitySuggestions: [], maxTravelDistance: 50 },
+    };
+    expect(planHangoutMatches(event, [limited], [], before).create).toEqual([]);
+  });
+
+  it("should not match hangouts hidden from the other person", () => {
+    const event = hangout("e1", "a", overlap.start, overlap.end);
+    const busy = { ...friendEvent, visibility: "busy" as const };
+    expect(planHangoutMatches(event, [busy], [], before).create).toEqual([]);
+
+    const sharedWithA = {
+      ...friendEvent,
+      visibility: "selected" as const,
+      sharedWith: ["a"],
+    };
+    expect(
+      planHangoutMatches(event, [sharedWithA], [], before).create,
+    ).toHaveLength(1);
+    expect(
+      planHangoutMatches(
+        { ...event, visibility: "selected", sharedWith: ["c"] },
+        [sharedWithA],
+        [],
+        before,
+      ).create,
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  Event,
+  HangoutEvent,
+  HangoutMatch,
+  HangoutMatchResponse,
+  HangoutMatchStatus,
+  Notification,
+} from "@/types";
+import { intersectRanges } from "@/lib/overlap";
+import { expandEvent, getEventSpan, parseOccurrenceId } from "@/lib/recurrence";
+import { isWithinTravelRange } from "@/lib/location";
+import { canSeeEventDetails } from "@/lib/eventVisibility";
+
+// Matches are keyed by the hangout events they join, so the same pair of
+// events can never produce two records no matter who computes the match
+export const getHangoutMatchId = (hangoutEvents: string[]): string =>
+  [...hangoutEvents].sort().join("_");
+
+// Stored events behind a match's hangouts; occurrences resolve to their series
+export const getMatchSourceEvents = (hangoutEvents: string[]): string[] =>
+  Array.from(
+    new Set(hangoutEvents.map((id) => parseOccurrenceId(id)?.seriesId || id)),
+  ).sort();
+
+export const createHangoutMatchRecord = (
+  users: string[],
+  hangoutEvents: string[],
+  overlappingTime: { start: string; end: string },
+  now: Date = new Date(),
+): HangoutMatch => {
+  const timestamp = now.toISOString();
+  const uniqueUsers = Array.from(new Set(users));
+
+  return {
+    id: getHangoutMatchId(hangoutEvents),
+    users: uniqueUsers,
+    overlappingTime,
+    hangoutEvents: [...hangoutEvents].sort(),
+    sourceEvents: getMatchSourceEvents(hangoutEvents),
+    responses: Object.fromEntries(
+      uniqueUsers.map((userId) => [userId, "pending" as HangoutMatchResponse]),
+    ),
+    status: "proposed",
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+};
+
+/**
+ * Derive the lifecycle status from the participants' responses:
+ * a single decline ends the match, everyone accepting confirms it, and a
+ * match still waiting on someone once its window has ended has expired.
+ */
+export const resolveHangoutMatchStatus = (
+  match: HangoutMatch,
+  now: Date = new Date(),
+): HangoutMatchStatus => {
+  const responses = match.users.map(
+    (userId) => match.responses?.[userId] || "pending",
+  );
+
+  if (responses.includes("declined")) return "declined";
+  if (responses.every((response) => response === "accepted")) {
+    return "accepted";
+  }
+  if (new Date(match.overlappingTime.end).getTime() <= now.getTime()) {
+    return "expired";
+  }
+  return "proposed";
+};
+
+export const applyHangoutMatchResponse = (
+  match: HangoutMatch,
+  userId: string,
+  response: Exclude<HangoutMatchResponse, "pending">,
+  now: Date = new Date(),
+): HangoutMatch => {
+  if (!match.users.includes(userId)) {
+    throw new Error("User is not part of this hangout match");
+  }
+
+  const current = resolveHangoutMatchStatus(match, now);
+  if (current !== "proposed") {
+    throw new Error(`Hangout match is already ${current}`);
+  }
+
+  const updated: HangoutMatch = {
+    ...match,
+    responses: { ...match.responses, [userId]: response },
+    updatedAt: now.toISOString(),
+  };
+
+  return { ...updated, status: resolveHangoutMatchStatus(updated, now) };
+};
+
+export interface HangoutMatchPlan {
+  create: HangoutMatch[];
+  // Still matching, but the overlapping window moved
+  update: HangoutMatch[];
+  remove: HangoutMatch[];
+}
+
+/**
+ * Every match between a hangout and its owner's friends' hangouts, occurrence
+ * by occurrence for recurring series. Hangouts too far apart for either
+ * person's travel limit never match, and neither do hangouts either person
+ * has hidden from the other, since a match shows both of them.
+ */
+export const findHangoutMatches = (
+  event: Event,
+  friendEvents: Event[],
+  now: Date = new Date(),
+): HangoutMatch[] => {
+  if (event.type !== "hangout") return [];
+
+  const matches = new Map<string, HangoutMatch>();
+  const span = getEventSpan(event, now);
+
+  expandEvent(event, span.start, span.end).forEach((occurrence) => {
+    friendEvents.forEach((friendEvent) => {
+      if (
+        friendEvent.type !== "hangout" ||
+        friendEvent.userId === event.userId ||
+        !canSeeEventDetails(event, friendEvent.userId) ||
+        !canSeeEventDetails(friendEvent, event.userId) ||
+        !isWithinTravelRange(event as HangoutEvent, friendEvent as HangoutEvent)
+      ) {
+        return;
+      }
+
+      expandEvent(
+        friendEvent,
+        new Date(occurrence.startTime),
+        new Date(occurrence.endTime),
+      ).forEach((friendOccurrence) => {
+        const overlap = intersectRanges(
+          { start: occurrence.startTime, end: occurrence.endTime },
+          { start: friendOccurrence.startTime, end: friendOccurrence.endTime },
+        );
+        if (!overlap) return;
+
+        const match = createHangoutMatchRecord(
+          [event.userId, friendEvent.userId],
+          [occurrence.id, friendOccurrence.id],
+          overlap,
+          now,
+        );
+        matches.set(match.id, match);
+      });
+    });
+  });
+
+  return Array.from(matches.values());
+};
+
+/**
+ * Work out how the matches recorded for an event change after it is written.
+ * `event` is the saved event (null once deleted), `friendEvents` the events
+ * of its owner's friends and `existing` the matches whose `sourceEvents`
+ * include it. Matches that have already ended are history and left alone.
+ */
+export const planHangoutMatches = (
+  event: Event | null,
+  friendEvents: Event[],
+  existing: HangoutMatch[],
+  now: Date = new Date(),
+): HangoutMatchPlan => {
+  const wanted = event ? findHangoutMatches(event, friendEvents, now) : [];
+  const wantedById = new Map(wanted.map((match) => [match.id, match]));
+  const existingById = new Map(existing.map((match) => [match.id, match]));
+  const plan: HangoutMatchPlan = { create: [], update: [], remove: [] };
+
+  wanted.forEach((match) => {
+    const current = existingById.get(match.id);
+    if (!current) {
+      plan.create.push(match);
+    } else if (
+      current.overlappingTime.start !== match.overlappingTime.start ||
+      current.overlappingTime.end !== match.overlappingTime.end
+    ) {
+      // Keep everyone's responses; only the window changed
+      plan.update.push({
+        ...current,
+        overlappingTime: match.overlappingTime,
+        updatedAt: now.toISOString(),
+      });
+    }
+  });
+
+  existing.forEach((match) => {
+    const ended =
+      new Date(match.overlappingTime.end).getTime() <= now.getTime();
+    if (!wantedById.has(match.id) && !ended) plan.remove.push(match);
+  });
+
+  return plan;
+};
+
+// The "match found" notification each participant gets for a new match
+export const createHangoutMatchNotifications = (
+  match: HangoutMatch,
+  now: Date = new Date(),
+): Omit<Notification, "id">[] =>
+  match.users.map((userId) => ({
+    userId,
+    type: "hangout_match",
+    title: "Hangout Match Found!",
+    message: "You have an overlapping hangout time with a friend",
+    data: {
+      matchId: match.id,
+      matchedUserId: match.users.find((id) => id !== userId),
+      overlappingTime: match.overlappingTime,
+      hangoutEvents: match.hangoutEvents,
+    },
+    read: false,
+    createdAt: now.toISOString(),
+  }));
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import { Event, HangoutEvent } from "@/types";
+import { exportEventsToICS, getEventUid, parseICS } from "./ical";
+
+const hangout: HangoutEvent = {
+  id: "evt1",
+  userId: "u1",
+  title: "Board games, snacks; chill",
+  description: "Bring a game\nor two",
+  startTime: "2025-01-10T18:00:00.000Z",
+  endTime: "2025-01-10T21:00:00.000Z",
+  type: "hangout",
+  recurrence: { frequency: "weekly", byDay: ["FR"], count: 6 },
+  exceptions: ["2025-01-17T18:00:00.000Z"],
+  preferences: {
+    activitySuggestions: ["catan", "pizza, maybe"],
+    budgetLimit: 20,
+    maxTravelDistance: 5.5,
+  },
+  location: { label: "Portland, OR", latitude: 45.5152, longitude: -122.6784 },
+  visibility: "friends",
+  createdAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("exportEventsToICS", () => {
+  it("should write a valid calendar with CRLF line endings", () => {
+    const ics = exportEventsToICS([hangout], new Date("2025-01-02T00:00:00Z"));
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics).toContain("UID:evt1@socialnet\r\n");
+    expect(ics).toContain("DTSTART:20250110T180000Z\r\n");
+    expect(ics).not.toContain("VTIMEZONE");
+    expect(ics).toContain("RRULE:FREQ=WEEKLY;BYDAY=FR;COUNT=6\r\n");
+    expect(ics).toContain("SUMMARY:Board games\\, snacks\\; chill\r\n");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("should fold long lines at 75 octets", () => {
+    const ics = exportEventsToICS([
+      { ...hangout, description: "é".repeat(100) },
+    ]);
+
+    ics.split("\r\n").forEach((line) => {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    });
+  });
+});
+
+describe("parseICS", () => {
+  it("should round-trip exported events", () => {
+    const {
+      events: [parsed],
+    } = parseICS(exportEventsToICS([hangout]));
+
+    expect(parsed).toEqual({
+      uid: getEventUid(hangout),
+      title: hangout.title,
+      description: hangout.description,
+      startTime: hangout.startTime,
+      endTime: hangout.endTime,
+      type: "hangout",
+      recurrence: hangout.recurrence,
+      exceptions: hangout.exceptions,
+      preferences: hangout.preferences,
+      location: hangout.location,
+    });
+  });
+
+  it("should write and read zoned times with TZID", () => {
+    const zoned = { ...hangout, timeZone: "America/New_York" };
+    const ics = exportEventsToICS([zoned]);
+
+    expect(ics).toContain("DTSTART;TZID=America/New_York:20250110T130000\r\n");
+    expect(ics).toContain("EXDATE;TZID=America/New_York:20250117T130000\r\n");
+
+    // Each TZID used is defined, with the clocks changing in March and
+    // November
+    const timeZones = ics.match(/BEGIN:VTIMEZONE[\s\S]*?END:VTIMEZONE/g);
+    expect(timeZones).toHaveLength(1);
+    expect(timeZones[0]).toContain("TZID:America/New_York\r\n");
+    expect(timeZones[0]).toContain(
+      [
+        "BEGIN:DAYLIGHT",
+        "DTSTART:20250309T020000",
+        "TZOFFSETFROM:-0500",
+        "TZOFFSETTO:-0400",
+        "END:DAYLIGHT",
+        "BEGIN:STANDARD",
+        "DTSTART:20251102T020000",
+        "TZOFFSETFROM:-0400",
+        "TZOFFSETTO:-0500",
+        "END:STANDARD",
+      ].join("\r\n"),
+    );
+    expect(ics.indexOf("END:VTIMEZONE")).toBeLessThan(
+      ics.indexOf("BEGIN:VEVENT"),
+    );
+    expect(parseICS(ics).events[0]).toMatchObject({
+      startTime: zoned.startTime,
+      exceptions: zoned.exceptions,
+      timeZone: "America/New_York",
+    });
+  });
+
+  it("should read events from other calendar tools", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:abc-123@example.com",
+      "DTSTART;TZID=Europe/Berlin:20250301T090000",
+      "DURATION:PT1H30M",
+      "SUMMARY:Stand-up with a really long summary that some tools fold over",
+      "  two lines",
+      "BEGIN:VALARM",
+      "DESCRIPTION:Reminder",
+      "END:VALARM",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:all-day@example.com",
+      "DTSTART;VALUE=DATE:20250305",
+      "SUMMARY:Trip",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:abc-123@example.com",
+      "RECURRENCE-ID:20250308T090000",
+      "DTSTART:20250308T100000",
+      "SUMMARY:Moved",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "SUMMARY:No UID",
+      "DTSTART:20250301T090000Z",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\n");
+
+    const { events, skipped } = parseICS(ics);
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      uid: "abc-123@example.com",
+      title:
+        "Stand-up with a really long summary that some tools fold over two lines",
+      startTime: "2025-03-01T08:00:00.000Z",
+      endTime: "2025-03-01T09:30:00.000Z",
+      type: "personal",
+      timeZone: "Europe/Berlin",
+    });
+    expect(events[0].description).toBeUndefined();
+    expect(skipped).toEqual([]);
+    expect(events[1]).toMatchObject({
+      uid: "all-day@example.com",
+      startTime: new Date(2025, 2, 5).toISOString(),
+      endTime: new Date(2025, 2, 6).toISOString(),
+    });
+  });
+
+  it("should skip events that end before they start", () => {
+    const event: Event = {
+      ...hangout,
+      type: "personal",
+      endTime: "2025-01-10T17:00:00.000Z",
+    };
+
+    expect(parseICS(exportEventsToICS([event])).events).toEqual([]);
+  });
+
+  it("should skip series repeating by rules we can't expand", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:birthday@example.com",
+      "DTSTART;VALUE=DATE:20250412",
+      "RRULE:FREQ=YEARLY",
+      "SUMMARY:Birthday",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:book-club@example.com",
+      "DTSTART:20250113T180000Z",
+      "DTEND:20250113T200000Z",
+      "RRULE:FREQ=MONTHLY;BYDAY=2MO",
+      "SUMMARY:Book club",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:gym@example.com",
+      "DTSTART:20250113T070000Z",
+      "DTEND:20250113T080000Z",
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,TH",
+      "SUMMARY:Gym",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    const { events, skipped } = parseICS(ics);
+
+    expect(events.map((event) => event.uid)).toEqual(["gym@example.com"]);
+    expect(skipped).toEqual([
+      {
+        uid: "birthday@example.com",
+        title: "Birthday",
+        reason: "Unsupported repeat rule (FREQ=YEARLY)",
+      },
+      {
+        uid: "book-club@example.com",
+        title: "Book club",
+        reason: "Unsupported repeat rule (FREQ=MONTHLY;BYDAY=2MO)",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,548 @@
+import { CreateEventInput, Event, HangoutEvent } from "@/types";
+import { formatRRule, parseRRule } from "@/lib/recurrence";
+import { createCustomLocation } from "@/lib/location";
+import {
+  formatInTimeZone,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "@/lib/timezone";
+
+// iCalendar (RFC 5545) import/export for calendar events. Hangout details
+// that have no standard property travel in X-SOCIALNET-* properties so a
+// round trip through another calendar tool keeps them.
+
+const PRODID = "-//SocialNet//Calendar//EN";
+const UID_DOMAIN = "socialnet";
+const MAX_LINE_OCTETS = 75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Zone offsets are sampled this often to find DST changes; zones never
+// change twice in less
+const OFFSET_SAMPLE_MS = 7 * DAY_MS;
+// Open-ended series keep repeating, so their zone's changes are written
+// this far past the last date the calendar mentions
+const OPEN_ENDED_YEARS = 10;
+
+const X_EVENT_TYPE = "X-SOCIALNET-EVENT-TYPE";
+const X_ACTIVITIES = "X-SOCIALNET-ACTIVITIES";
+const X_BUDGET_LIMIT = "X-SOCIALNET-BUDGET-LIMIT";
+const X_MAX_TRAVEL_DISTANCE = "X-SOCIALNET-MAX-TRAVEL-DISTANCE";
+
+// An event read from an .ics file, ready to hand to createEvent
+export interface ParsedICalEvent extends CreateEventInput {
+  uid: string;
+}
+
+// An event left out of an import because we can't show it faithfully, such
+// as a series repeating by a rule we can't expand
+export interface SkippedICalEvent {
+  uid?: string;
+  title: string;
+  reason: string;
+}
+
+export interface ParsedICalendar {
+  events: ParsedICalEvent[];
+  skipped: SkippedICalEvent[];
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// UID written for events that weren't imported with one of their own
+export const getEventUid = (event: Pick<Event, "id" | "uid">): string =>
+  event.uid || `${event.id}@${UID_DOMAIN}`;
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+
+// Split on commas that aren't escaped
+const splitList = (value: string) =>
+  value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter(Boolean);
+
+const formatDateTime = (iso: string) =>
+  new Date(iso)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+// A DATE-TIME property, written with a TZID when the event has a zone so
+// other tools repeat the series on that zone's wall clock
+const formatDateTimeProperty = (name: string, iso: string, event: Event) =>
+  isValidTimeZone(event.timeZone)
+    ? `${name};TZID=${event.timeZone}:${formatInTimeZone(
+        iso,
+        event.timeZone,
+        "yyyyMMdd'T'HHmmss",
+      )}`
+    : `${name}:${formatDateTime(iso)}`;
+
+const formatOffset = (minutes: number) => {
+  const abs = Math.abs(minutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, "0");
+  const mins = String(abs % 60).padStart(2, "0");
+  return `${minutes < 0 ? "-" : "+"}${hours}${mins}`;
+};
+
+// Wall-clock time at `instant` for a fixed offset, as a local DATE-TIME
+const formatLocalDateTime = (instant: number, offset: number) =>
+  formatDateTime(new Date(instant + offset * 60000).toISOString()).replace(
+    "Z",
+    "",
+  );
+
+/**
+ * The zone's offset changes between two instants, each as the instant it
+ * happens (to the minute) and the offsets either side of it.
+ */
+const findOffsetChanges = (timeZone: string, from: number, to: number) => {
+  const changes: { at: number; from: number; to: number }[] = [];
+  // Whole minutes, so the search below ends on one
+  from = Math.floor(from / 60000) * 60000;
+  to = Math.ceil(to / 60000) * 60000;
+  let previous = getTimeZoneOffset(new Date(from), timeZone);
+
+  for (let sample = from; sample < to; sample += OFFSET_SAMPLE_MS) {
+    const next = Math.min(sample + OFFSET_SAMPLE_MS, to);
+    const offset = getTimeZoneOffset(new Date(next), timeZone);
+    if (offset === previous) continue;
+
+    // Narrow down to the minute the clocks changed
+    let before = sample;
+    let after = next;
+    while (after - before > 60000) {
+      const middle = before + Math.floor((after - before) / 120000) * 60000;
+      if (getTimeZoneOffset(new Date(middle), timeZone) === previous) {
+        before = middle;
+      } else {
+        after = middle;
+      }
+    }
+
+    changes.push({ at: after, from: previous, to: offset });
+    previous = offset;
+  }
+
+  return changes;
+};
+
+/**
+ * A VTIMEZONE for a TZID the calendar uses (RFC 5545 §3.6.5), needed by
+ * stricter clients to read zoned times. Each change of offset between
+ * `from` and `to` is written out as it happens rather than as a yearly rule,
+ * which would be wrong for years the zone's rules differ.
+ */
+const serializeTimeZone = (
+  timeZone: string,
+  from: number,
+  to: number,
+): string[] => {
+  const initial = getTimeZoneOffset(new Date(from), timeZone);
+  const periods = [
+    { at: from, from: initial, to: initial },
+    ...findOffsetChanges(timeZone, from, to),
+  ];
+  const standardOffset = Math.min(...periods.map((period) => period.to));
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...periods.flatMap((period) => {
+      const kind = period.to > standardOffset ? "DAYLIGHT" : "STANDARD";
+      return [
+        `BEGIN:${kind}`,
+        `DTSTART:${formatLocalDateTime(period.at, period.from)}`,
+        `TZOFFSETFROM:${formatOffset(period.from)}`,
+        `TZOFFSETTO:${formatOffset(period.to)}`,
+        `END:${kind}`,
+      ];
+    }),
+    "END:VTIMEZONE",
+  ];
+};
+
+// The zones the events' times are written in, each with the span of time
+// its definition has to cover
+const getTimeZoneSpans = (events: Event[], now: Date) => {
+  const spans = new Map<string, { from: number; to: number }>();
+
+  events
+    .filter((event) => isValidTimeZone(event.timeZone))
+    .forEach((event) => {
+      const times = [
+        event.startTime,
+        event.endTime,
+        ...(event.recurrence ? event.exceptions || [] : []),
+      ].map((time) => new Date(time).getTime());
+      let to = Math.max(...times);
+      if (event.recurrence) {
+        to = event.recurrence.until
+          ? Math.max(to, new Date(event.recurrence.until).getTime())
+          : Math.max(to, now.getTime()) + OPEN_ENDED_YEARS * 365 * DAY_MS;
+      }
+
+      // A day either side covers local times near the ends
+      const span = spans.get(event.timeZone);
+      spans.set(event.timeZone, {
+        from: Math.min(span?.from ?? Infinity, Math.min(...times) - DAY_MS),
+        to: Math.max(span?.to ?? -Infinity, to + DAY_MS),
+      });
+    });
+
+  return spans;
+};
+
+// Fold content lines longer than 75 octets (RFC 5545 §3.1)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+      // Continuation lines start with a space, which counts towards the limit
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const serializeEvent = (event: Event, stamp: string): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${getEventUid(event)}`,
+    `DTSTAMP:${stamp}`,
+    formatDateTimeProperty("DTSTART", event.startTime, event),
+    formatDateTimeProperty("DTEND", event.endTime, event),
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.recurrence) {
+    lines.push(`RRULE:${formatRRule(event.recurrence)}`);
+    (event.exceptions || []).forEach((exception) =>
+      lines.push(formatDateTimeProperty("EXDATE", exception, event)),
+    );
+  }
+  if (event.createdAt) {
+    lines.push(`CREATED:${formatDateTime(event.createdAt)}`);
+  }
+
+  lines.push(`${X_EVENT_TYPE}:${event.type}`);
+
+  const preferences = (event as HangoutEvent).preferences;
+  if (event.type === "hangout" && preferences) {
+    if (preferences.activitySuggestions?.length > 0) {
+      lines.push(
+        `${X_ACTIVITIES}:${preferences.activitySuggestions
+          .map(escapeText)
+          .join(",")}`,
+      );
+    }
+    if (preferences.budgetLimit !== undefined) {
+      lines.push(`${X_BUDGET_LIMIT}:${preferences.budgetLimit}`);
+    }
+    if (preferences.maxTravelDistance !== undefined) {
+      lines.push(`${X_MAX_TRAVEL_DISTANCE}:${preferences.maxTravelDistance}`);
+    }
+  }
+
+  const location = (event as HangoutEvent).location;
+  if (event.type === "hangout" && location) {
+    lines.push(`LOCATION:${escapeText(location.label)}`);
+    lines.push(`GEO:${location.latitude};${location.longitude}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+/**
+ * Serialize events as an iCalendar document. Recurring series are written
+ * once with their RRULE and EXDATEs rather than expanded, and each zone
+ * used in a TZID gets its VTIMEZONE.
+ */
+export const exportEventsToICS = (
+  events: Event[],
+  now: Date = new Date(),
+): string => {
+  const stamp = formatDateTime(now.toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...Array.from(getTimeZoneSpans(events, now)).flatMap(([timeZone, span]) =>
+      serializeTimeZone(timeZone, span.from, span.to),
+    ),
+    ...events.flatMap((event) => serializeEvent(event, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+
+const parseProperty = (line: string): ICalProperty | null => {
+  // The value starts at the first colon that isn't inside a quoted param
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Parse a DATE or DATE-TIME value. UTC times ("Z") are exact, TZID times are
+ * read in that zone when it's a known IANA zone, and floating times (or
+ * unknown zones) as local time. All-day dates are local midnight.
+ */
+const parseDateValue = (
+  property: ICalProperty,
+): { date: Date; allDay: boolean } | null => {
+  const match = property.value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  }
+
+  const timeZone = property.params.TZID;
+  let date: Date;
+  if (utc) {
+    date = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  } else if (isValidTimeZone(timeZone)) {
+    date = zonedTimeToUtc(
+      { year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +s },
+      timeZone,
+    );
+  } else {
+    date = new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  }
+  return { date, allDay: false };
+};
+
+// ISO 8601 durations as used by DURATION, e.g. "PT1H30M" or "P1D"
+const parseDuration = (value: string): number | null => {
+  const match = value
+    .trim()
+    .match(
+      /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+    );
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    (+(weeks || 0) * 7 * 24 * 3600 +
+      +(days || 0) * 24 * 3600 +
+      +(hours || 0) * 3600 +
+      +(minutes || 0) * 60 +
+      +(seconds || 0)) *
+    1000;
+  return sign === "-" ? -total : total;
+};
+
+const toEventInput = (properties: ICalProperty[]): ParsedICalEvent | null => {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const getAll = (name: string) => properties.filter((p) => p.name === name);
+
+  const uid = get("UID")?.value.trim();
+  const start = get("DTSTART") && parseDateValue(get("DTSTART"));
+  if (!uid || !start) return null;
+
+  let end = get("DTEND") && parseDateValue(get("DTEND"))?.date;
+  if (!end && get("DURATION")) {
+    const duration = parseDuration(get("DURATION").value);
+    if (duration !== null) end = new Date(start.date.getTime() + duration);
+  }
+  if (!end) {
+    // RFC 5545: a missing end means one day for dates, otherwise an instant;
+    // give instants an hour so they show up on the calendar
+    end = new Date(start.date);
+    if (start.allDay) end.setDate(end.getDate() + 1);
+    else end.setHours(end.getHours() + 1);
+  }
+  if (end.getTime() <= start.date.getTime()) return null;
+
+  const type =
+    get(X_EVENT_TYPE)?.value.trim() === "hangout" ? "hangout" : "personal";
+  const event: ParsedICalEvent = {
+    uid,
+    title: getTitle(properties),
+    startTime: start.date.toISOString(),
+    endTime: end.toISOString(),
+    type,
+  };
+
+  const timeZone = get("DTSTART").params.TZID;
+  if (!start.allDay && isValidTimeZone(timeZone)) {
+    event.timeZone = timeZone;
+  }
+
+  const description = get("DESCRIPTION");
+  if (description) {
+    event.description = unescapeText(description.value);
+  }
+
+  const rrule = get("RRULE");
+  const recurrence = rrule && parseRRule(rrule.value);
+  if (recurrence) {
+    event.recurrence = recurrence;
+
+    const exceptions = getAll("EXDATE").flatMap((property) =>
+      property.value
+        .split(",")
+        .map((value) => parseDateValue({ ...property, value }))
+        .filter(Boolean)
+        .map((parsed) => parsed.date.toISOString()),
+    );
+    if (exceptions.length > 0) {
+      event.exceptions = exceptions;
+    }
+  }
+
+  if (type === "hangout") {
+    const budget = parseFloat(get(X_BUDGET_LIMIT)?.value);
+    const distance = parseFloat(get(X_MAX_TRAVEL_DISTANCE)?.value);
+
+    event.preferences = {
+      activitySuggestions: get(X_ACTIVITIES)
+        ? splitList(get(X_ACTIVITIES).value)
+        : [],
+    };
+    if (!isNaN(budget)) event.preferences.budgetLimit = budget;
+    if (!isNaN(distance)) event.preferences.maxTravelDistance = distance;
+
+    // Only places with coordinates are any use for travel distances
+    const [latitude, longitude] = (get("GEO")?.value || "")
+      .split(";")
+      .map((part) => parseFloat(part));
+    const location =
+      !isNaN(latitude) &&
+      !isNaN(longitude) &&
+      createCustomLocation(
+        latitude,
+        longitude,
+        get("LOCATION") && unescapeText(get("LOCATION").value),
+      );
+    if (location) event.location = location;
+  }
+
+  return event;
+};
+
+const getTitle = (properties: ICalProperty[]) =>
+  unescapeText(
+    properties.find((p) => p.name === "SUMMARY")?.value || "",
+  ).trim() || "Untitled event";
+
+// Why an event can't be imported as it is, or null when it can
+const getSkipReason = (properties: ICalProperty[]): string | null => {
+  const rrule = properties.find((p) => p.name === "RRULE");
+  if (rrule && !parseRRule(rrule.value)) {
+    return `Unsupported repeat rule (${rrule.value.trim()})`;
+  }
+  return null;
+};
+
+/**
+ * Parse the VEVENTs of an iCalendar document. Events without a UID or a
+ * usable start time are dropped, as are recurrence overrides
+ * (RECURRENCE-ID), which we don't model. Series repeating by a rule we
+ * can't expand are listed in `skipped` rather than imported with the wrong
+ * dates or as one-off events.
+ */
+export const parseICS = (text: string): ParsedICalendar => {
+  const events: ParsedICalEvent[] = [];
+  const skipped: SkippedICalEvent[] = [];
+  let current: ICalProperty[] | null = null;
+  // Depth of components nested inside the VEVENT (e.g. VALARM)
+  let nested = 0;
+
+  unfoldLines(text).forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === "BEGIN") {
+      if (property.value.toUpperCase() === "VEVENT") current = [];
+      else if (current) nested++;
+      return;
+    }
+
+    if (property.name === "END") {
+      if (current && nested > 0) {
+        nested--;
+      } else if (property.value.toUpperCase() === "VEVENT" && current) {
+        const isOverride = current.some((p) => p.name === "RECURRENCE-ID");
+        const reason = isOverride ? null : getSkipReason(current);
+        if (reason) {
+          const uid = current.find((p) => p.name === "UID")?.value.trim();
+          skipped.push({
+            ...(uid ? { uid } : {}),
+            title: getTitle(current),
+            reason,
+          });
+        } else {
+          const event = isOverride ? null : toEventInput(current);
+          if (event) events.push(event);
+        }
+        current = null;
+      }
+      return;
+    }
+
+    if (current && nested === 0) current.push(property);
+  });
+
+  return { events, skipped };
+};
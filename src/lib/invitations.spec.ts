@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { HangoutEvent } from "@/types";
+import {
+  applyRsvp,
+  createRsvp,
+  getRsvpStatus,
+  normalizeInvitees,
+  planInvitationNotifications,
+  summarizeRsvps,
+} from "./invitations";
+
+const now = new Date("2025-01-01T12:00:00.000Z");
+
+const hangout = (extra: Partial<HangoutEvent> = {}): HangoutEvent => ({
+  id: "e1",
+  userId: "host",
+  title: "Board games",
+  startTime: "2025-01-10T18:00:00.000Z",
+  endTime: "2025-01-10T21:00:00.000Z",
+  type: "hangout",
+  preferences: { activitySuggestions: [] },
+  visibility: "friends",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  ...extra,
+});
+
+const names: Record<string, string> = { host: "Alex Kim", sam: "Sam Lee" };
+
+describe("invitations", () => {
+  it("should record answers only from invitees", () => {
+    expect(normalizeInvitees("host", ["sam", "host", "jo", "sam"])).toEqual([
+      "sam",
+      "jo",
+    ]);
+
+    const event = hangout({ invitees: ["sam", "jo", "max"] });
+    const answered = applyRsvp(
+      event,
+      "sam",
+      createRsvp("maybe", "  Might be late  ", now),
+    );
+    expect(answered.rsvps).toEqual({
+      sam: {
+        status: "maybe",
+        note: "Might be late",
+        respondedAt: now.toISOString(),
+      },
+    });
+    expect(getRsvpStatus(answered, "sam")).toBe("maybe");
+    expect(getRsvpStatus(answered, "jo")).toBe("pending");
+    expect(getRsvpStatus(answered, "host")).toBeNull();
+
+    expect(() => applyRsvp(event, "stranger", createRsvp("yes"))).toThrow();
+    expect(() => applyRsvp(event, "host", createRsvp("yes"))).toThrow();
+  });
+
+  it("should ignore answers from people no longer invited", () => {
+    const event = hangout({
+      invitees: ["sam", "jo"],
+      rsvps: {
+        sam: createRsvp("yes", undefined, now),
+        max: createRsvp("no", undefined, now),
+      },
+    });
+
+    expect(summarizeRsvps(event)).toEqual({
+      yes: 1,
+      maybe: 0,
+      no: 0,
+      pending: 1,
+    });
+    expect(getRsvpStatus(event, "max")).toBeNull();
+  });
+
+  it("should notify new invitees, hosts of answers and withdraw invites", () => {
+    const getName = (userId: string) => names[userId];
+    const invited = hangout({ invitees: ["sam"] });
+
+    const created = planInvitationNotifications(null, invited, getName, now);
+    expect(created.withdraw).toEqual([]);
+    expect(created.create).toEqual([
+      {
+        userId: "sam",
+        type: "event_invite",
+        title: "Hangout Invitation",
+        message: 'Alex Kim invited you to "Board games"',
+        data: {
+          eventId: "e1",
+          inviterId: "host",
+          startTime: invited.startTime,
+          endTime: invited.endTime,
+        },
+        read: false,
+        createdAt: now.toISOString(),
+      },
+    ]);
+
+    const answered = applyRsvp(
+      invited,
+      "sam",
+      createRsvp("yes", "Bringing snacks", now),
+    );
+    const rsvp = planInvitationNotifications(invited, answered, getName, now);
+    expect(rsvp.create).toHaveLength(1);
+    expect(rsvp.create[0]).toMatchObject({
+      userId: "host",
+      type: "event_rsvp",
+      title: "RSVP: Going",
+      message: 'Sam Lee replied to "Board games": Bringing snacks',
+      data: { eventId: "e1", inviteeId: "sam", status: "yes" },
+    });
+
+    // Editing the hangout doesn't repeat anything
+    expect(
+      planInvitationNotifications(
+        answered,
+        { ...answered, title: "Games night" },
+        getName,
+        now,
+      ).create,
+    ).toEqual([]);
+
+    const uninvited: HangoutEvent = { ...answered, invitees: [] };
+    expect(
+      planInvitationNotifications(answered, uninvited, getName, now),
+    ).toEqual({ create: [], withdraw: ["sam"] });
+    expect(
+      planInvitationNotifications(answered, null, getName, now).withdraw,
+    ).toEqual(["sam"]);
+  });
+});
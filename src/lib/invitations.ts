@@ -0,0 +1,168 @@
+import {
+  Event,
+  EventRsvp,
+  HangoutEvent,
+  Notification,
+  RsvpStatus,
+} from "@/types";
+
+// Invitations live on the hangout itself: the owner lists invitees and each
+// invitee writes only their own answer into `rsvps`. Answers from people no
+// longer invited are ignored rather than deleted, so the owner never has to
+// rewrite anyone else's answer. A series is one invitation for every
+// occurrence.
+
+export const RSVP_STATUSES: RsvpStatus[] = ["yes", "maybe", "no"];
+
+export const RSVP_LABELS: Record<RsvpStatus | "pending", string> = {
+  yes: "Going",
+  maybe: "Maybe",
+  no: "Not going",
+  pending: "No answer yet",
+};
+
+export const MAX_RSVP_NOTE_LENGTH = 280;
+
+type Invitable = Pick<HangoutEvent, "userId" | "invitees" | "rsvps">;
+
+// Invitees as they should be stored: no duplicates and never the owner
+export const normalizeInvitees = (
+  ownerId: string,
+  invitees: string[] = [],
+): string[] =>
+  Array.from(new Set(invitees)).filter((id) => id && id !== ownerId);
+
+export const getInvitees = (event: Partial<Invitable>): string[] =>
+  event?.userId ? normalizeInvitees(event.userId, event.invitees) : [];
+
+export const isInvitedTo = (event: Partial<Invitable>, userId: string) =>
+  getInvitees(event).includes(userId);
+
+// The user's answer, "pending" before they give one, or null if they
+// aren't invited
+export const getRsvpStatus = (
+  event: Partial<Invitable>,
+  userId: string,
+): RsvpStatus | "pending" | null => {
+  if (!isInvitedTo(event, userId)) return null;
+  return event.rsvps?.[userId]?.status || "pending";
+};
+
+export const summarizeRsvps = (
+  event: Partial<Invitable>,
+): Record<RsvpStatus | "pending", number> => {
+  const summary = { yes: 0, maybe: 0, no: 0, pending: 0 };
+  getInvitees(event).forEach((userId) => {
+    summary[getRsvpStatus(event, userId)] += 1;
+  });
+  return summary;
+};
+
+export const createRsvp = (
+  status: RsvpStatus,
+  note?: string,
+  now: Date = new Date(),
+): EventRsvp => {
+  if (!RSVP_STATUSES.includes(status)) {
+    throw new Error("Unknown RSVP");
+  }
+
+  const trimmed = note?.trim().slice(0, MAX_RSVP_NOTE_LENGTH);
+  return {
+    status,
+    ...(trimmed ? { note: trimmed } : {}),
+    respondedAt: now.toISOString(),
+  };
+};
+
+// The invitee's answer recorded on the event
+export const applyRsvp = <T extends Invitable>(
+  event: T,
+  userId: string,
+  rsvp: EventRsvp,
+): T => {
+  if (!isInvitedTo(event, userId)) {
+    throw new Error("User isn't invited to this hangout");
+  }
+  return { ...event, rsvps: { ...event.rsvps, [userId]: rsvp } };
+};
+
+export interface InvitationNotificationPlan {
+  create: Omit<Notification, "id">[];
+  // Invitees whose invite notifications should go, because they were
+  // uninvited or the hangout was deleted
+  withdraw: string[];
+}
+
+const asHangout = (event: Event | null) =>
+  event?.type === "hangout" ? (event as HangoutEvent) : null;
+
+/**
+ * What an event write means for invitation notifications: new invitees are
+ * told they're invited and the owner hears about each new or changed
+ * answer. `getName` fills in who answered, when the caller can look it up.
+ */
+export const planInvitationNotifications = (
+  before: Event | null,
+  after: Event | null,
+  getName: (userId: string) => string | undefined = () => undefined,
+  now: Date = new Date(),
+): InvitationNotificationPlan => {
+  const previous = asHangout(before);
+  const current = asHangout(after);
+  const eventId = current?.id || previous?.id;
+  const plan: InvitationNotificationPlan = { create: [], withdraw: [] };
+
+  const wasInvited = previous ? getInvitees(previous) : [];
+  const invited = current ? getInvitees(current) : [];
+  plan.withdraw = wasInvited.filter((userId) => !invited.includes(userId));
+  if (!current) return plan;
+
+  invited
+    .filter((userId) => !wasInvited.includes(userId))
+    .forEach((userId) => {
+      const inviter = getName(current.userId);
+      plan.create.push({
+        userId,
+        type: "event_invite",
+        title: "Hangout Invitation",
+        message: `${inviter || "A friend"} invited you to "${current.title}"`,
+        data: {
+          eventId,
+          inviterId: current.userId,
+          startTime: current.startTime,
+          endTime: current.endTime,
+        },
+        read: false,
+        createdAt: now.toISOString(),
+      });
+    });
+
+  invited.forEach((userId) => {
+    const answer = current.rsvps?.[userId];
+    const earlier = wasInvited.includes(userId)
+      ? previous?.rsvps?.[userId]
+      : undefined;
+    if (
+      !answer ||
+      (earlier?.status === answer.status && earlier?.note === answer.note)
+    ) {
+      return;
+    }
+
+    const name = getName(userId) || "A friend";
+    plan.create.push({
+      userId: current.userId,
+      type: "event_rsvp",
+      title: `RSVP: ${RSVP_LABELS[answer.status]}`,
+      message: answer.note
+        ? `${name} replied to "${current.title}": ${answer.note}`
+        : `${name} replied to "${current.title}"`,
+      data: { eventId, inviteeId: userId, status: answer.status },
+      read: false,
+      createdAt: now.toISOString(),
+    });
+  });
+
+  return plan;
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { HangoutEvent } from "@/types";
+import { CITIES } from "./cities";
+import {
+  createCustomLocation,
+  formatDistance,
+  getDistanceMiles,
+  isWithinTravelRange,
+} from "./location";
+
+const city = (label: string) =>
+  CITIES.find((candidate) => candidate.label === label)!;
+
+const hangout = (
+  label: string | null,
+  maxTravelDistance?: number,
+): Pick<HangoutEvent, "location" | "preferences"> => ({
+  ...(label ? { location: city(label) } : {}),
+  preferences: { activitySuggestions: [], maxTravelDistance },
+});
+
+describe("location", () => {
+  it("should measure great-circle distances in miles", () => {
+    expect(
+      getDistanceMiles(city("New York, NY"), city("Los Angeles, CA")),
+    ).toBeCloseTo(2445, -1);
+    expect(
+      getDistanceMiles(city("London, UK"), city("Paris, France")),
+    ).toBeCloseTo(214, -1);
+    expect(getDistanceMiles(city("Boston, MA"), city("Boston, MA"))).toBe(0);
+
+    expect(formatDistance(0.4)).toBe("under a mile");
+    expect(formatDistance(1.2)).toBe("1 mile");
+    expect(formatDistance(2445.3)).toBe("2,445 miles");
+  });
+
+  it("should only accept coordinates on the globe", () => {
+    expect(createCustomLocation(45.5, -122.6)).toEqual({
+      label: "45.5000, -122.6000",
+      latitude: 45.5,
+      longitude: -122.6,
+    });
+    expect(createCustomLocation(45.5, -122.6, " Cabin ")?.label).toBe("Cabin");
+    expect(createCustomLocation(91, 0)).toBeNull();
+    expect(createCustomLocation(NaN, 0)).toBeNull();
+  });
+
+  it("should check travel limits only when both places are known", () => {
+    // Oakland to San Jose is about 35 miles
+    expect(
+      isWithinTravelRange(
+        hangout("Oakland, CA", 20),
+        hangout("San Jose, CA", 20),
+      ),
+    ).toBe(true);
+    expect(
+      isWithinTravelRange(
+        hangout("Oakland, CA", 10),
+        hangout("San Jose, CA", 10),
+      ),
+    ).toBe(false);
+    expect(
+      isWithinTravelRange(hangout("Oakland, CA", 10), hangout("San Jose, CA")),
+    ).toBe(true);
+    expect(
+      isWithinTravelRange(hangout("Oakland, CA", 1), hangout(null, 1)),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { GeoLocation, HangoutEvent } from "@/types";
+
+// Locations are only ever picked from the bundled city list (lib/cities)
+// or typed in as coordinates; nothing is geocoded online. Distances are
+// straight-line (great-circle) miles, which travel limits are compared to.
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Haversine distance between two points
+export const getDistanceMiles = (a: GeoLocation, b: GeoLocation): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(Math.sqrt(h), 1));
+};
+
+export const isValidLocation = (
+  location: GeoLocation | null | undefined,
+): location is GeoLocation =>
+  Boolean(location) &&
+  Number.isFinite(location.latitude) &&
+  Number.isFinite(location.longitude) &&
+  Math.abs(location.latitude) <= 90 &&
+  Math.abs(location.longitude) <= 180;
+
+/**
+ * A location from typed-in coordinates, or null if they're out of range.
+ * Without a label it's named after the coordinates.
+ */
+export const createCustomLocation = (
+  latitude: number,
+  longitude: number,
+  label?: string,
+): GeoLocation | null => {
+  const location = {
+    label: label?.trim() || `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+    latitude,
+    longitude,
+  };
+  return isValidLocation(location) ? location : null;
+};
+
+export const formatDistance = (miles: number): string => {
+  if (miles < 1) return "under a mile";
+  const rounded = Math.round(miles);
+  return `${rounded.toLocaleString("en-US")} mile${rounded === 1 ? "" : "s"}`;
+};
+
+// Miles between two hangouts, when both have a location
+export const getHangoutDistance = (
+  a: Pick<HangoutEvent, "location">,
+  b: Pick<HangoutEvent, "location">,
+): number | undefined =>
+  isValidLocation(a.location) && isValidLocation(b.location)
+    ? getDistanceMiles(a.location, b.location)
+    : undefined;
+
+/**
+ * Whether two people could meet, each travelling no further than their own
+ * limit (a missing limit means no limit). Hangouts without a location can't
+ * be ruled out, so they count as in range.
+ */
+export const isWithinTravelRange = (
+  a: Pick<HangoutEvent, "location" | "preferences">,
+  b: Pick<HangoutEvent, "location" | "preferences">,
+): boolean => {
+  const distance = getHangoutDistance(a, b);
+  if (distance === undefined) return true;
+
+  const reach =
+    (a.preferences?.maxTravelDistance || Infinity) +
+    (b.preferences?.maxTravelDistance || Infinity);
+  return distance <= reach;
+};
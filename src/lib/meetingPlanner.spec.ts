@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { Event } from "@/types";
+import {
+  findMeetingSlots,
+  MeetingSearch,
+  subtractBusyTime,
+} from "./meetingPlanner";
+
+const event = (
+  id: string,
+  userId: string,
+  type: Event["type"],
+  start: string,
+  end: string,
+): Event => ({
+  id,
+  userId,
+  title: id,
+  startTime: `2025-03-${start}:00.000Z`,
+  endTime: `2025-03-${end}:00.000Z`,
+  type,
+  createdAt: "2025-03-01T00:00:00.000Z",
+});
+
+const search = (overrides: Partial<MeetingSearch> = {}): MeetingSearch => ({
+  userIds: ["me", "alex", "sam"],
+  rangeStart: new Date("2025-03-10T00:00:00.000Z"),
+  rangeEnd: new Date("2025-03-17T00:00:00.000Z"),
+  durationMinutes: 120,
+  dayStartHour: 9,
+  dayEndHour: 22,
+  timeZone: "UTC",
+  ...overrides,
+});
+
+describe("meeting planner", () => {
+  it("should cut busy time out of free windows", () => {
+    const free = [
+      {
+        userId: "me",
+        start: "2025-03-10T10:00:00.000Z",
+        end: "2025-03-10T18:00:00.000Z",
+      },
+    ];
+    const busy = [
+      { start: "2025-03-10T12:00:00.000Z", end: "2025-03-10T13:00:00.000Z" },
+      { start: "2025-03-10T17:00:00.000Z", end: "2025-03-10T19:00:00.000Z" },
+    ];
+
+    expect(subtractBusyTime(free, busy)).toEqual([
+      {
+        userId: "me",
+        start: "2025-03-10T10:00:00.000Z",
+        end: "2025-03-10T12:00:00.000Z",
+      },
+      {
+        userId: "me",
+        start: "2025-03-10T13:00:00.000Z",
+        end: "2025-03-10T17:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("should find times everyone is free, longest stretch first", () => {
+    const events = [
+      event("m1", "me", "hangout", "11T10:00", "11T20:00"),
+      event("m2", "me", "hangout", "13T12:00", "13T18:00"),
+      // Dentist in the middle of my Tuesday
+      event("busy", "me", "personal", "11T14:00", "11T15:00"),
+      event("a1", "alex", "hangout", "11T08:00", "11T18:00"),
+      event("a2", "alex", "hangout", "13T12:00", "13T17:00"),
+      event("s1", "sam", "hangout", "11T11:00", "11T23:00"),
+      event("s2", "sam", "hangout", "13T11:00", "13T17:00"),
+    ];
+
+    const slots = findMeetingSlots(events, search());
+    expect(
+      slots.map((slot) => [
+        slot.start,
+        slot.end,
+        slot.windowStart,
+        slot.windowEnd,
+      ]),
+    ).toEqual([
+      [
+        "2025-03-13T12:00:00.000Z",
+        "2025-03-13T14:00:00.000Z",
+        "2025-03-13T12:00:00.000Z",
+        "2025-03-13T17:00:00.000Z",
+      ],
+      // Equally long, so the sooner one first
+      [
+        "2025-03-11T11:00:00.000Z",
+        "2025-03-11T13:00:00.000Z",
+        "2025-03-11T11:00:00.000Z",
+        "2025-03-11T14:00:00.000Z",
+      ],
+      [
+        "2025-03-11T15:00:00.000Z",
+        "2025-03-11T17:00:00.000Z",
+        "2025-03-11T15:00:00.000Z",
+        "2025-03-11T18:00:00.000Z",
+      ],
+    ]);
+    expect(slots[0].userIds).toEqual(["alex", "me", "sam"]);
+    expect(slots[0].eventIds.sort()).toEqual(["a2", "m2", "s2"]);
+
+    // Nobody else's free time stands in for a missing friend's
+    expect(
+      findMeetingSlots(events, search({ userIds: ["me", "alex", "jo"] })),
+    ).toEqual([]);
+    expect(findMeetingSlots(events, search({ durationMinutes: 360 }))).toEqual(
+      [],
+    );
+  });
+
+  it("should keep to the daily hours in the planner's zone", () => {
+    // 6pm to 2am in New York, both free the whole time
+    const events = [
+      event("m1", "me", "hangout", "11T22:00", "12T06:00"),
+      event("a1", "alex", "hangout", "11T22:00", "12T06:00"),
+    ];
+
+    const slots = findMeetingSlots(
+      events,
+      search({
+        userIds: ["me", "alex"],
+        durationMinutes: 60,
+        dayStartHour: 9,
+        dayEndHour: 22,
+        timeZone: "America/New_York",
+      }),
+    );
+    // Only 6-10pm is inside the day's hours
+    expect(slots).toHaveLength(1);
+    expect(slots[0].windowStart).toBe("2025-03-11T22:00:00.000Z");
+    expect(slots[0].windowEnd).toBe("2025-03-12T02:00:00.000Z");
+  });
+});
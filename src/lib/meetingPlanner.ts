@@ -0,0 +1,171 @@
+import { Event } from "@/types";
+import {
+  AvailabilityWindow,
+  findOverlapWindows,
+  intersectRanges,
+} from "@/lib/overlap";
+import { getZonedParts, zonedTimeToUtc } from "@/lib/timezone";
+
+// "When can Alex, Sam and I meet this week for 2 hours?" Hangouts are the
+// times people said they're free; personal events are busy time and are cut
+// out of them. What's left, within the chosen hours of each day, is where
+// everyone has to overlap.
+
+export interface MeetingSearch {
+  // Everyone who has to be there, usually the viewer and the friends picked
+  userIds: string[];
+  rangeStart: Date;
+  rangeEnd: Date;
+  durationMinutes: number;
+  // Hours of the day to look within, on the wall clock of `timeZone`
+  dayStartHour: number;
+  dayEndHour: number;
+  timeZone: string;
+  // Defaults to DEFAULT_MAX_MEETING_SLOTS
+  maxResults?: number;
+}
+
+export interface MeetingSlot {
+  start: string;
+  end: string;
+  // The whole stretch everyone is free, which the slot could slide within
+  windowStart: string;
+  windowEnd: string;
+  userIds: string[];
+  // Hangouts that make up the free time, across everyone
+  eventIds: string[];
+}
+
+export const DEFAULT_MAX_MEETING_SLOTS = 10;
+
+type Range = { start: string; end: string };
+
+// The chosen hours of every day the range touches, clipped to the range
+const getDailyWindows = (
+  rangeStart: Date,
+  rangeEnd: Date,
+  dayStartHour: number,
+  dayEndHour: number,
+  timeZone: string,
+): Range[] => {
+  const range = {
+    start: rangeStart.toISOString(),
+    end: rangeEnd.toISOString(),
+  };
+  const first = getZonedParts(rangeStart, timeZone);
+  const windows: Range[] = [];
+
+  for (let offset = 0; ; offset++) {
+    // Date.UTC rolls over months and years for us
+    const day = new Date(
+      Date.UTC(first.year, first.month - 1, first.day + offset),
+    );
+    const date = {
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+    };
+    const start = zonedTimeToUtc({ ...date, hour: dayStartHour }, timeZone);
+    if (start >= rangeEnd) break;
+
+    const end = zonedTimeToUtc({ ...date, hour: dayEndHour }, timeZone);
+    const window = intersectRanges(
+      { start: start.toISOString(), end: end.toISOString() },
+      range,
+    );
+    if (window) windows.push(window);
+  }
+
+  return windows;
+};
+
+// What's left of each free window once the busy ranges are cut out of it
+export const subtractBusyTime = (
+  free: AvailabilityWindow[],
+  busy: Range[],
+): AvailabilityWindow[] =>
+  busy.reduce(
+    (remaining, taken) =>
+      remaining.flatMap((window) => {
+        if (!intersectRanges(window, taken)) return [window];
+
+        const pieces: AvailabilityWindow[] = [];
+        if (new Date(taken.start) > new Date(window.start)) {
+          pieces.push({ ...window, end: new Date(taken.start).toISOString() });
+        }
+        if (new Date(taken.end) < new Date(window.end)) {
+          pieces.push({ ...window, start: new Date(taken.end).toISOString() });
+        }
+        return pieces;
+      }),
+    free,
+  );
+
+/**
+ * Times when everyone in the search is free for at least the duration,
+ * within the daily hours. `events` are occurrences (recurring series already
+ * expanded) and may include other people's. Each slot starts as early as its
+ * shared stretch allows; the longest stretches come first, since they leave
+ * the most room, then the soonest.
+ */
+export const findMeetingSlots = (
+  events: Event[],
+  search: MeetingSearch,
+): MeetingSlot[] => {
+  const userIds = Array.from(new Set(search.userIds));
+  if (
+    userIds.length === 0 ||
+    !(search.durationMinutes > 0) ||
+    search.dayEndHour <= search.dayStartHour ||
+    search.rangeEnd <= search.rangeStart
+  ) {
+    return [];
+  }
+
+  const days = getDailyWindows(
+    search.rangeStart,
+    search.rangeEnd,
+    search.dayStartHour,
+    search.dayEndHour,
+    search.timeZone,
+  );
+
+  const available = userIds.flatMap((userId) => {
+    const own = events.filter((event) => event.userId === userId);
+    const free = own
+      .filter((event) => event.type === "hangout")
+      .flatMap((event) =>
+        days
+          .map((day) =>
+            intersectRanges(day, {
+              start: event.startTime,
+              end: event.endTime,
+            }),
+          )
+          .filter(Boolean)
+          .map((window) => ({ userId, eventId: event.id, ...window })),
+      );
+    const busy = own
+      .filter((event) => event.type === "personal")
+      .map((event) => ({ start: event.startTime, end: event.endTime }));
+
+    return subtractBusyTime(free, busy);
+  });
+
+  return findOverlapWindows(available, {
+    minDurationMinutes: search.durationMinutes,
+    minParticipants: userIds.length,
+    requiredUserIds: userIds,
+  })
+    .slice(0, search.maxResults ?? DEFAULT_MAX_MEETING_SLOTS)
+    .map((window) => ({
+      start: window.start,
+      end: new Date(
+        new Date(window.start).getTime() + search.durationMinutes * 60000,
+      ).toISOString(),
+      windowStart: window.start,
+      windowEnd: window.end,
+      userIds: window.userIds,
+      eventIds: window.eventIds,
+    }));
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { Message } from "@/types";
+import {
+  applyHangoutAccept,
+  applyMessageDelete,
+  applyMessageEdit,
+  applyReactionToggle,
+  getReactionTallies,
+  isMessageVisibleTo,
+} from "./messages";
+
+const now = new Date("2025-01-01T12:00:00.000Z");
+const message: Message = {
+  id: "m1",
+  conversationId: "c1",
+  senderId: "alex",
+  content: "See you at 7",
+  timestamp: "2025-01-01T11:00:00.000Z",
+};
+
+describe("messages", () => {
+  it("should keep earlier versions when the sender edits", () => {
+    const edited = applyMessageEdit(message, "alex", " See you at 8 ", now);
+    expect(edited.content).toBe("See you at 8");
+    expect(edited.editedAt).toBe(now.toISOString());
+    expect(edited.edits).toEqual([
+      { content: "See you at 7", editedAt: now.toISOString() },
+    ]);
+
+    expect(applyMessageEdit(edited, "alex", "See you at 8", now)).toBe(edited);
+    expect(() => applyMessageEdit(message, "sam", "Hacked", now)).toThrow();
+    expect(() => applyMessageEdit(message, "alex", "  ", now)).toThrow();
+  });
+
+  it("should delete for one member or for everyone", () => {
+    const hidden = applyMessageDelete(message, "sam", "me", now);
+    expect(isMessageVisibleTo(hidden, "sam")).toBe(false);
+    expect(isMessageVisibleTo(hidden, "alex")).toBe(true);
+
+    expect(() => applyMessageDelete(message, "sam", "everyone", now)).toThrow();
+    const reacted = applyReactionToggle(message, "sam", "👍", now);
+    const deleted = applyMessageDelete(reacted, "alex", "everyone", now);
+    expect(deleted.content).toBe("");
+    expect(deleted.reactions).toEqual({});
+    expect(deleted.deletedAt).toBe(now.toISOString());
+    // Nothing left to edit or react to
+    expect(() => applyMessageEdit(deleted, "alex", "Oops", now)).toThrow();
+    expect(() => applyReactionToggle(deleted, "sam", "👍", now)).toThrow();
+  });
+
+  it("should toggle reactions and tally them per emoji", () => {
+    let reacted = applyReactionToggle(message, "sam", "🎉", now);
+    reacted = applyReactionToggle(reacted, "sam", "👍", now);
+    reacted = applyReactionToggle(reacted, "jo", "👍", now);
+
+    expect(getReactionTallies(reacted, "jo")).toEqual([
+      { emoji: "👍", count: 2, userIds: ["sam", "jo"], reactedByMe: true },
+      { emoji: "🎉", count: 1, userIds: ["sam"], reactedByMe: false },
+    ]);
+
+    const undone = applyReactionToggle(reacted, "sam", "🎉", now);
+    expect(undone.reactions).toEqual({ "👍": ["sam", "jo"] });
+  });
+
+  it("should let other members accept a shared hangout once", () => {
+    const shared: Message = {
+      ...message,
+      card: {
+        kind: "overlap",
+        title: "Hangout",
+        startTime: "2025-01-10T18:00:00.000Z",
+        endTime: "2025-01-10T20:00:00.000Z",
+        activitySuggestions: [],
+        sourceEventIds: ["e1", "e2"],
+      },
+    };
+
+    const accepted = applyHangoutAccept(shared, "sam", now);
+    expect(accepted.card.acceptedBy).toEqual(["sam"]);
+    expect(applyHangoutAccept(accepted, "sam", now)).toBe(accepted);
+    expect(() => applyHangoutAccept(shared, "alex", now)).toThrow();
+    expect(() => applyHangoutAccept(message, "sam", now)).toThrow();
+    expect(() => applyMessageEdit(shared, "alex", "Changed", now)).toThrow();
+  });
+});
@@ -0,0 +1,145 @@
+import { Message, MessageDeleteScope } from "@/types";
+
+// Offered in the message menu; any emoji is accepted
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+export interface ReactionTally {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  reactedByMe: boolean;
+}
+
+const assertCanChange = (message: Message) => {
+  if (message.deletedAt) {
+    throw new Error("Message has been deleted");
+  }
+};
+
+export const applyMessageEdit = (
+  message: Message,
+  userId: string,
+  content: string,
+  now: Date = new Date(),
+): Message => {
+  assertCanChange(message);
+  if (message.senderId !== userId) {
+    throw new Error("Only the sender can edit a message");
+  }
+  if (message.card) throw new Error("Shared hangouts can't be edited");
+
+  const trimmed = content.trim();
+  if (!trimmed) throw new Error("Message content is required");
+  if (trimmed === message.content) return message;
+
+  return {
+    ...message,
+    content: trimmed,
+    edits: [
+      ...(message.edits || []),
+      { content: message.content, editedAt: now.toISOString() },
+    ],
+    editedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+};
+
+/**
+ * "me" hides the message from one member; "everyone" (sender only) clears
+ * its content, edit history, reactions and attachments for the whole
+ * conversation.
+ */
+export const applyMessageDelete = (
+  message: Message,
+  userId: string,
+  scope: MessageDeleteScope,
+  now: Date = new Date(),
+): Message => {
+  if (scope === "me") {
+    const hiddenFor = message.hiddenFor || [];
+    return hiddenFor.includes(userId)
+      ? message
+      : {
+          ...message,
+          hiddenFor: [...hiddenFor, userId],
+          updatedAt: now.toISOString(),
+        };
+  }
+
+  assertCanChange(message);
+  if (message.senderId !== userId) {
+    throw new Error("Only the sender can delete a message for everyone");
+  }
+
+  return {
+    ...message,
+    content: "",
+    edits: [],
+    reactions: {},
+    attachments: [],
+    deletedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+};
+
+// Adds the member's reaction, or takes it back if they already reacted
+export const applyReactionToggle = (
+  message: Message,
+  userId: string,
+  emoji: string,
+  now: Date = new Date(),
+): Message => {
+  assertCanChange(message);
+  if (!emoji.trim()) throw new Error("Reaction is required");
+
+  const reactions = { ...(message.reactions || {}) };
+  const userIds = reactions[emoji] || [];
+  if (userIds.includes(userId)) {
+    reactions[emoji] = userIds.filter((id) => id !== userId);
+    if (reactions[emoji].length === 0) delete reactions[emoji];
+  } else {
+    reactions[emoji] = [...userIds, userId];
+  }
+
+  return { ...message, reactions, updatedAt: now.toISOString() };
+};
+
+// Other members can accept a shared hangout; accepting twice changes nothing
+export const applyHangoutAccept = (
+  message: Message,
+  userId: string,
+  now: Date = new Date(),
+): Message => {
+  assertCanChange(message);
+  if (!message.card) throw new Error("Message has no hangout to accept");
+  if (message.senderId === userId) {
+    throw new Error("The sender can't accept their own hangout");
+  }
+
+  const acceptedBy = message.card.acceptedBy || [];
+  if (acceptedBy.includes(userId)) return message;
+
+  return {
+    ...message,
+    card: { ...message.card, acceptedBy: [...acceptedBy, userId] },
+    updatedAt: now.toISOString(),
+  };
+};
+
+export const isMessageVisibleTo = (message: Message, userId: string) =>
+  !message.hiddenFor?.includes(userId);
+
+// Most popular first, ties in the order they were first used
+export const getReactionTallies = (
+  message: Message,
+  userId: string,
+): ReactionTally[] =>
+  Object.entries(message.reactions || {})
+    .filter(([, userIds]) => userIds.length > 0)
+    .map(([emoji, userIds]) => ({
+      emoji,
+      count: userIds.length,
+      userIds,
+      reactedByMe: userIds.includes(userId),
+    }))
+    .sort((a, b) => b.count - a.count);
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { Notification, User } from "@/types";
+import {
+  applyBlock,
+  applyUnblock,
+  isBlockedBetween,
+  isConversationBlocked,
+  shouldDeliverNotification,
+} from "./moderation";
+
+const user = (id: string, overrides: Partial<User> = {}): User => ({
+  id,
+  email: `${id}@example.com`,
+  username: id,
+  fullName: id,
+  friends: [],
+  friendRequests: { sent: [], received: [] },
+  createdAt: "2025-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("moderation", () => {
+  it("should drop the friendship and requests when blocking", () => {
+    const alex = user("alex", {
+      friends: ["sam", "jo"],
+      friendRequests: { sent: ["kim"], received: ["sam"] },
+    });
+
+    const blocked = applyBlock(applyBlock(alex, "sam"), "sam");
+    expect(blocked.friends).toEqual(["jo"]);
+    expect(blocked.friendRequests).toEqual({ sent: ["kim"], received: [] });
+    expect(blocked.blockedUsers).toEqual(["sam"]);
+    expect(isBlockedBetween(user("sam"), blocked)).toBe(true);
+
+    expect(applyUnblock(blocked, "sam").blockedUsers).toEqual([]);
+  });
+
+  it("should only block groups over their creator", () => {
+    const alex = user("alex", { blockedUsers: ["sam"] });
+    const members = [alex, user("sam"), user("jo")];
+
+    expect(isConversationBlocked({ type: "direct" }, [alex, user("sam")])).toBe(
+      true,
+    );
+    expect(isConversationBlocked({ type: "direct" }, [alex, user("jo")])).toBe(
+      false,
+    );
+    expect(
+      isConversationBlocked({ type: "group", createdBy: "alex" }, members),
+    ).toBe(true);
+    // Two members who blocked each other can still share someone else's group
+    expect(
+      isConversationBlocked({ type: "group", createdBy: "jo" }, members),
+    ).toBe(false);
+  });
+
+  it("should hold back message notifications when muted or blocked", () => {
+    const notification: Omit<Notification, "id"> = {
+      userId: "alex",
+      type: "message",
+      title: "New message",
+      message: "hi",
+      data: { conversationId: "c1", senderId: "sam" },
+      read: false,
+      createdAt: "2025-01-01T10:00:00.000Z",
+    };
+    const alex = user("alex");
+
+    expect(shouldDeliverNotification(notification, alex, {})).toBe(true);
+    expect(
+      shouldDeliverNotification(notification, alex, { mutedBy: ["alex"] }),
+    ).toBe(false);
+    expect(
+      shouldDeliverNotification(
+        notification,
+        user("alex", { blockedUsers: ["sam"] }),
+        {},
+      ),
+    ).toBe(false);
+    // Only message notifications are muted
+    expect(
+      shouldDeliverNotification(
+        { ...notification, type: "friend_request" },
+        alex,
+        { mutedBy: ["alex"] },
+      ),
+    ).toBe(true);
+  });
+});
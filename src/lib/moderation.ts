@@ -0,0 +1,110 @@
+import {
+  Conversation,
+  HangoutMatch,
+  Notification,
+  ReportReason,
+  User,
+} from "@/types";
+
+// Blocking works both ways: once either person blocks the other, neither
+// finds the other in search, can send them a friend request, chat with
+// them directly or gets hangout matches with them. In group conversations
+// the blocker just stops seeing (and being notified about) their messages.
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  spam: "Spam",
+  harassment: "Harassment or bullying",
+  inappropriate: "Inappropriate content",
+  other: "Something else",
+};
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+export const hasBlocked = (
+  user: Pick<User, "blockedUsers"> | null | undefined,
+  otherUserId: string,
+) => Boolean(user?.blockedUsers?.includes(otherUserId));
+
+export const isBlockedBetween = (
+  user: Pick<User, "id" | "blockedUsers"> | null | undefined,
+  otherUser: Pick<User, "id" | "blockedUsers"> | null | undefined,
+) =>
+  Boolean(user && otherUser) &&
+  (hasBlocked(user, otherUser.id) || hasBlocked(otherUser, user.id));
+
+/**
+ * The user after blocking someone: added to their block list, and no
+ * longer a friend or a pending request in either direction. Apply the
+ * same with `unlinkUser` to the person blocked.
+ */
+export const applyBlock = (user: User, blockedUserId: string): User => ({
+  ...unlinkUser(user, blockedUserId),
+  blockedUsers: Array.from(
+    new Set([...(user.blockedUsers || []), blockedUserId]),
+  ),
+});
+
+export const applyUnblock = (user: User, blockedUserId: string): User => ({
+  ...user,
+  blockedUsers: (user.blockedUsers || []).filter((id) => id !== blockedUserId),
+});
+
+// Drops a friendship and any pending requests with another user
+export const unlinkUser = (user: User, otherUserId: string): User => ({
+  ...user,
+  friends: user.friends.filter((id) => id !== otherUserId),
+  friendRequests: {
+    sent: user.friendRequests.sent.filter((id) => id !== otherUserId),
+    received: user.friendRequests.received.filter((id) => id !== otherUserId),
+  },
+});
+
+/**
+ * Whether a conversation can't be started: a direct chat between people
+ * who blocked each other, or a group whose creator blocked (or was blocked
+ * by) someone in it. `members` are the participants' profiles.
+ */
+export const isConversationBlocked = (
+  conversation: Pick<Conversation, "type" | "createdBy">,
+  members: Pick<User, "id" | "blockedUsers">[],
+) => {
+  const creatorId =
+    conversation.type === "group" ? conversation.createdBy : null;
+  return members.some((member) =>
+    members.some(
+      (other) =>
+        member.id !== other.id &&
+        (!creatorId || member.id === creatorId) &&
+        isBlockedBetween(member, other),
+    ),
+  );
+};
+
+export const isConversationMuted = (
+  conversation: Pick<Conversation, "mutedBy"> | null | undefined,
+  userId: string,
+) => Boolean(conversation?.mutedBy?.includes(userId));
+
+// Matches between the two users, which go once either blocks the other
+export const isMatchBetween = (
+  match: HangoutMatch,
+  userId: string,
+  otherUserId: string,
+) => match.users.includes(userId) && match.users.includes(otherUserId);
+
+/**
+ * Whether a notification should reach its recipient. Message notifications
+ * are dropped when they muted the conversation or blocked the sender;
+ * everything else goes through.
+ */
+export const shouldDeliverNotification = (
+  notification: Omit<Notification, "id">,
+  recipient: Pick<User, "blockedUsers"> | null,
+  conversation: Pick<Conversation, "mutedBy"> | null,
+) => {
+  if (notification.type !== "message") return true;
+  return (
+    !isConversationMuted(conversation, notification.userId) &&
+    !hasBlocked(recipient, notification.data?.senderId)
+  );
+};
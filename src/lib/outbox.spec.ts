@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { Event, Message } from "@/types";
+import {
+  MAX_OUTBOX_ATTEMPTS,
+  OUTBOX_MAX_DELAY_MS,
+  OutboxOperation,
+  applyPendingEventChanges,
+  createOutboxEntry,
+  getDueEntries,
+  getNextAttemptAt,
+  getPendingMessages,
+  getRetryDelay,
+  recordOutboxFailure,
+} from "./outbox";
+
+const event = (id: string, title: string): Event => ({
+  id,
+  userId: "u1",
+  title,
+  startTime: "2025-01-01T10:00:00.000Z",
+  endTime: "2025-01-01T11:00:00.000Z",
+  type: "personal",
+  createdAt: "2025-01-01T09:00:00.000Z",
+});
+
+const message = (id: string, conversationId = "c1"): Message => ({
+  id,
+  conversationId,
+  senderId: "u1",
+  content: id,
+  timestamp: "2025-01-01T10:00:00.000Z",
+});
+
+// Entries queued a minute apart, in order
+const queue = (...operations: OutboxOperation[]) =>
+  operations.map((operation, index) =>
+    createOutboxEntry(
+      `e${index}`,
+      "u1",
+      operation,
+      new Date(Date.UTC(2025, 0, 1, 10, index)),
+    ),
+  );
+
+describe("outbox", () => {
+  it("should back off exponentially and give up after the last attempt", () => {
+    expect([1, 2, 3].map(getRetryDelay)).toEqual([2000, 4000, 8000]);
+    expect(getRetryDelay(20)).toBe(OUTBOX_MAX_DELAY_MS);
+
+    const now = new Date("2025-01-01T10:00:00.000Z");
+    let [entry] = queue({ kind: "deleteEvent", eventId: "ev1" });
+    entry = recordOutboxFailure(entry, "offline", now);
+    expect(entry).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "offline",
+      nextAttemptAt: "2025-01-01T10:00:02.000Z",
+    });
+
+    for (let attempt = 1; attempt < MAX_OUTBOX_ATTEMPTS; attempt++) {
+      entry = recordOutboxFailure(entry, "offline", now);
+    }
+    expect(entry.status).toBe("failed");
+  });
+
+  it("should keep later entries behind one that is backing off", () => {
+    const now = new Date("2025-01-01T11:00:00.000Z");
+    const [first, second, third] = queue(
+      { kind: "deleteEvent", eventId: "ev1" },
+      { kind: "deleteEvent", eventId: "ev2" },
+      { kind: "deleteEvent", eventId: "ev3" },
+    );
+    const waiting = recordOutboxFailure(second, "offline", now);
+
+    expect(
+      getDueEntries([third, waiting, first], now).map((entry) => entry.id),
+    ).toEqual(["e0"]);
+    expect(
+      getDueEntries([third, waiting, first], now, true).map(
+        (entry) => entry.id,
+      ),
+    ).toEqual(["e0", "e1", "e2"]);
+    // Failed entries no longer hold up other events
+    expect(
+      getDueEntries([{ ...waiting, status: "failed" }, third], now).map(
+        (entry) => entry.id,
+      ),
+    ).toEqual(["e2"]);
+  });
+
+  it("should hold an event's later changes behind its failed ones", () => {
+    const now = new Date("2025-01-01T11:00:00.000Z");
+    const [create, update, other, remove] = queue(
+      { kind: "createEvent", event: event("ev1", "Tea") },
+      { kind: "updateEvent", eventId: "ev1", updates: { title: "Coffee" } },
+      { kind: "deleteEvent", eventId: "ev2" },
+      { kind: "deleteEvent", eventId: "ev1" },
+    );
+    const failed = { ...create, status: "failed" as const };
+
+    expect(
+      getDueEntries([failed, update, other, remove], now).map(
+        (entry) => entry.id,
+      ),
+    ).toEqual(["e2"]);
+    expect(
+      getDueEntries([failed, update, other, remove], now, true).map(
+        (entry) => entry.id,
+      ),
+    ).toEqual(["e2"]);
+    expect(getNextAttemptAt([failed, update, remove])).toBeNull();
+  });
+
+  it("should hold changes to both halves of a failed split", () => {
+    const now = new Date("2025-01-01T11:00:00.000Z");
+    const [split, series, created, other] = queue(
+      {
+        kind: "splitEvent",
+        event: event("ev2", "Tea"),
+        eventId: "ev1",
+        updates: { exceptions: ["2025-01-08T10:00:00.000Z"] },
+      },
+      { kind: "updateEvent", eventId: "ev1", updates: { title: "Lunch" } },
+      { kind: "deleteEvent", eventId: "ev2" },
+      { kind: "deleteEvent", eventId: "ev3" },
+    );
+    const failed = { ...split, status: "failed" as const };
+
+    expect(
+      getDueEntries([failed, series, created, other], now).map(
+        (entry) => entry.id,
+      ),
+    ).toEqual(["e3"]);
+    expect(applyPendingEventChanges([event("ev1", "Lunch")], [split])).toEqual([
+      { ...event("ev1", "Lunch"), exceptions: ["2025-01-08T10:00:00.000Z"] },
+      event("ev2", "Tea"),
+    ]);
+  });
+
+  it("should show queued event changes in the order they were made", () => {
+    const saved = [event("ev1", "Lunch"), event("ev2", "Gym")];
+    const entries = queue(
+      { kind: "createEvent", event: event("ev3", "Tea") },
+      { kind: "updateEvent", eventId: "ev3", updates: { title: "Coffee" } },
+      { kind: "updateEvent", eventId: "ev1", updates: { title: "Brunch" } },
+      { kind: "deleteEvent", eventId: "ev2" },
+    );
+
+    expect(
+      applyPendingEventChanges(saved, entries).map((e) => e.title),
+    ).toEqual(["Brunch", "Coffee"]);
+    // Changes that already landed apply again without doubling up
+    const landed = [event("ev1", "Brunch"), event("ev3", "Tea")];
+    expect(
+      applyPendingEventChanges(landed, entries).map((e) => e.title),
+    ).toEqual(["Brunch", "Coffee"]);
+  });
+
+  it("should list a conversation's queued messages", () => {
+    const entries = queue(
+      { kind: "sendMessage", message: message("m1"), notifications: [] },
+      { kind: "deleteEvent", eventId: "ev1" },
+      { kind: "sendMessage", message: message("m2", "c2"), notifications: [] },
+      { kind: "sendMessage", message: message("m3"), notifications: [] },
+    );
+
+    expect(
+      getPendingMessages(entries, "c1").map((pending) => [
+        pending.entryId,
+        pending.message.id,
+      ]),
+    ).toEqual([
+      ["e0", "m1"],
+      ["e3", "m3"],
+    ]);
+  });
+});
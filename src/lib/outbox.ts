@@ -0,0 +1,223 @@
+import { Event, Message, Notification } from "@/types";
+
+// Writes made while offline (or while the backend is failing) wait in the
+// outbox and are retried in order. Every entry carries the ids its write
+// creates, so a retry after a write that did land changes nothing.
+
+export const OUTBOX_BASE_DELAY_MS = 2 * 1000;
+export const OUTBOX_MAX_DELAY_MS = 5 * 60 * 1000;
+// Attempts (made while online) before an entry is marked failed and left
+// for the user to retry or discard
+export const MAX_OUTBOX_ATTEMPTS = 6;
+
+export type OutboxOperation =
+  | {
+      kind: "sendMessage";
+      message: Message;
+      // Sent once the message is, so queued messages still notify
+      notifications: Notification[];
+    }
+  | { kind: "createEvent"; event: Event }
+  // Saves `event`, split off a series, and only then takes its occurrences
+  // out of the series with `updates`. One entry, so the series never gives
+  // them up while the new event fails to save.
+  | {
+      kind: "splitEvent";
+      event: Event;
+      eventId: string;
+      updates: Partial<Event>;
+    }
+  | { kind: "updateEvent"; eventId: string; updates: Partial<Event> }
+  | { kind: "deleteEvent"; eventId: string };
+
+export type OutboxStatus = "pending" | "failed";
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  operation: OutboxOperation;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export const createOutboxEntry = (
+  id: string,
+  userId: string,
+  operation: OutboxOperation,
+  now: Date = new Date(),
+): OutboxEntry => ({
+  id,
+  userId,
+  operation,
+  status: "pending",
+  attempts: 0,
+  createdAt: now.toISOString(),
+  nextAttemptAt: now.toISOString(),
+});
+
+// 2s, 4s, 8s... capped at five minutes
+export const getRetryDelay = (attempts: number) =>
+  Math.min(
+    OUTBOX_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    OUTBOX_MAX_DELAY_MS,
+  );
+
+export const recordOutboxFailure = (
+  entry: OutboxEntry,
+  error: string,
+  now: Date = new Date(),
+): OutboxEntry => {
+  const attempts = entry.attempts + 1;
+  return {
+    ...entry,
+    attempts,
+    status: attempts >= MAX_OUTBOX_ATTEMPTS ? "failed" : "pending",
+    nextAttemptAt: new Date(
+      now.getTime() + getRetryDelay(attempts),
+    ).toISOString(),
+    lastError: error,
+  };
+};
+
+// A failed entry gets a fresh set of attempts when the user retries it
+export const resetOutboxEntry = (
+  entry: OutboxEntry,
+  now: Date = new Date(),
+): OutboxEntry => ({
+  ...entry,
+  status: "pending",
+  attempts: 0,
+  nextAttemptAt: now.toISOString(),
+});
+
+export const compareOutboxEntries = (a: OutboxEntry, b: OutboxEntry) =>
+  a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+
+// What an entry writes to: the message it sends or the events it changes
+const getOutboxEntityIds = (entry: OutboxEntry): string[] =>
+  entry.operation.kind === "sendMessage"
+    ? [`message:${entry.operation.message.id}`]
+    : getOutboxEventIds(entry).map((eventId) => `event:${eventId}`);
+
+// Pending entries that can be sent, oldest first. A failed entry holds back
+// everything queued after it for the same message or event until it's
+// retried or discarded; other changes carry on without it.
+const getSendableEntries = (entries: OutboxEntry[]): OutboxEntry[] => {
+  const held = new Set<string>();
+  return [...entries].sort(compareOutboxEntries).filter((entry) => {
+    const entityIds = getOutboxEntityIds(entry);
+    if (entry.status === "failed") entityIds.forEach((id) => held.add(id));
+    return entry.status === "pending" && !entityIds.some((id) => held.has(id));
+  });
+};
+
+// Entries to attempt now, oldest first. Stops at the first one still
+// backing off so later changes never overtake earlier ones; `force`
+// ignores the backoff, as when the connection comes back.
+export const getDueEntries = (
+  entries: OutboxEntry[],
+  now: Date = new Date(),
+  force = false,
+): OutboxEntry[] => {
+  const due: OutboxEntry[] = [];
+
+  for (const entry of getSendableEntries(entries)) {
+    if (!force && new Date(entry.nextAttemptAt).getTime() > now.getTime()) {
+      break;
+    }
+    due.push(entry);
+  }
+  return due;
+};
+
+// When the oldest sendable entry, which the rest wait behind, is next due
+export const getNextAttemptAt = (entries: OutboxEntry[]): Date | null => {
+  const [next] = getSendableEntries(entries);
+  return next ? new Date(next.nextAttemptAt) : null;
+};
+
+/**
+ * The user's events as they'll be once queued changes land: new events
+ * added, edits applied and deleted events removed, in the order they were
+ * made.
+ */
+export const applyPendingEventChanges = (
+  events: Event[],
+  entries: OutboxEntry[],
+): Event[] =>
+  [...entries].sort(compareOutboxEntries).reduce((current, entry) => {
+    const { operation } = entry;
+    switch (operation.kind) {
+      case "createEvent":
+        return [
+          ...current.filter((event) => event.id !== operation.event.id),
+          operation.event,
+        ];
+      case "splitEvent":
+        return [
+          ...current
+            .filter((event) => event.id !== operation.event.id)
+            .map((event) =>
+              event.id === operation.eventId
+                ? { ...event, ...operation.updates }
+                : event,
+            ),
+          operation.event,
+        ];
+      case "updateEvent":
+        return current.map((event) =>
+          event.id === operation.eventId
+            ? { ...event, ...operation.updates }
+            : event,
+        );
+      case "deleteEvent":
+        return current.filter((event) => event.id !== operation.eventId);
+      default:
+        return current;
+    }
+  }, events);
+
+// The events (or series) each queued calendar change touches
+export const getOutboxEventIds = (entry: OutboxEntry): string[] => {
+  const { operation } = entry;
+  switch (operation.kind) {
+    case "createEvent":
+      return [operation.event.id];
+    case "splitEvent":
+      return [operation.eventId, operation.event.id];
+    case "updateEvent":
+    case "deleteEvent":
+      return [operation.eventId];
+    default:
+      return [];
+  }
+};
+
+export interface PendingMessage {
+  entryId: string;
+  message: Message;
+  status: OutboxStatus;
+  lastError?: string;
+}
+
+// Messages still waiting to be sent to a conversation, oldest first
+export const getPendingMessages = (
+  entries: OutboxEntry[],
+  conversationId: string,
+): PendingMessage[] =>
+  [...entries].sort(compareOutboxEntries).flatMap((entry) =>
+    entry.operation.kind === "sendMessage" &&
+    entry.operation.message.conversationId === conversationId
+      ? [
+          {
+            entryId: entry.id,
+            message: entry.operation.message,
+            status: entry.status,
+            lastError: entry.lastError,
+          },
+        ]
+      : [],
+  );
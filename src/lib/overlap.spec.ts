@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { findOverlapWindows, intersectRanges } from "./overlap";
+
+const at = (hour: number) =>
+  new Date(Date.UTC(2025, 0, 10, hour)).toISOString();
+
+describe("findOverlapWindows", () => {
+  it("should find a simple two-person overlap", () => {
+    const windows = findOverlapWindows([
+      { userId: "a", start: at(10), end: at(14), eventId: "e1" },
+      { userId: "b", start: at(12), end: at(16), eventId: "e2" },
+    ]);
+
+    expect(windows).toEqual([
+      {
+        start: at(12),
+        end: at(14),
+        userIds: ["a", "b"],
+        eventIds: ["e1", "e2"],
+        durationMinutes: 120,
+      },
+    ]);
+  });
+
+  it("should report maximal windows for each group, largest group first", () => {
+    const windows = findOverlapWindows([
+      { userId: "a", start: at(13), end: at(17) },
+      { userId: "c", start: at(13), end: at(17) },
+      { userId: "b", start: at(14), end: at(16) },
+    ]);
+
+    expect(windows.map((w) => [w.userIds, w.start, w.end])).toEqual([
+      [["a", "b", "c"], at(14), at(16)],
+      [["a", "c"], at(13), at(17)],
+    ]);
+  });
+
+  it("should merge back-to-back windows of the same user", () => {
+    const windows = findOverlapWindows([
+      { userId: "a", start: at(10), end: at(12) },
+      { userId: "a", start: at(12), end: at(14) },
+      { userId: "b", start: at(11), end: at(13) },
+    ]);
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0].start).toBe(at(11));
+    expect(windows[0].end).toBe(at(13));
+  });
+
+  it("should apply the minimum duration and required users", () => {
+    const input = [
+      { userId: "me", start: at(10), end: at(11) },
+      { userId: "a", start: at(10), end: at(18) },
+      { userId: "b", start: at(12), end: at(18) },
+    ];
+
+    expect(findOverlapWindows(input, { minDurationMinutes: 90 })).toEqual([
+      expect.objectContaining({ userIds: ["a", "b"], durationMinutes: 360 }),
+    ]);
+    expect(
+      findOverlapWindows(input, { requiredUserIds: ["me"] }).map(
+        (w) => w.userIds,
+      ),
+    ).toEqual([["a", "me"]]);
+  });
+
+  it("should ignore touching and invalid windows", () => {
+    expect(
+      findOverlapWindows([
+        { userId: "a", start: at(10), end: at(12) },
+        { userId: "b", start: at(12), end: at(14) },
+        { userId: "c", start: "not a date", end: at(14) },
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe("intersectRanges", () => {
+  it("should return the shared range or null", () => {
+    expect(
+      intersectRanges(
+        { start: at(10), end: at(12) },
+        { start: at(11), end: at(15) },
+      ),
+    ).toEqual({ start: at(11), end: at(12) });
+    expect(
+      intersectRanges(
+        { start: at(10), end: at(11) },
+        { start: at(11), end: at(12) },
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import { Event } from "@/types";
+
+// A span of time during which one user is free (e.g. one hangout event)
+export interface AvailabilityWindow {
+  userId: string;
+  start: string;
+  end: string;
+  eventId?: string;
+}
+
+// A maximal span of time during which every user in `userIds` is free
+export interface OverlapWindow {
+  start: string;
+  end: string;
+  userIds: string[];
+  eventIds: string[];
+  durationMinutes: number;
+}
+
+export interface FindOverlapOptions {
+  // Windows shorter than this are dropped (default 0)
+  minDurationMinutes?: number;
+  // Minimum number of users free at the same time (default 2)
+  minParticipants?: number;
+  // Users that must be part of every returned window (e.g. the viewer)
+  requiredUserIds?: string[];
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const MINUTE = 60 * 1000;
+
+const toInterval = (window: AvailabilityWindow): Interval | null => {
+  const start = new Date(window.start).getTime();
+  const end = new Date(window.end).getTime();
+  if (isNaN(start) || isNaN(end) || end <= start) return null;
+  return { start, end };
+};
+
+// Union of a single user's windows, so back-to-back hangouts count as one
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+
+  sorted.forEach((interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  });
+
+  return merged;
+};
+
+// Pairwise intersection of two time ranges, or null if they don't overlap
+export const intersectRanges = (
+  a: { start: string; end: string },
+  b: { start: string; end: string },
+): { start: string; end: string } | null => {
+  const start = Math.max(
+    new Date(a.start).getTime(),
+    new Date(b.start).getTime(),
+  );
+  const end = Math.min(new Date(a.end).getTime(), new Date(b.end).getTime());
+  if (isNaN(start) || isNaN(end) || end <= start) return null;
+
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+  };
+};
+
+export const eventsToAvailability = (events: Event[]): AvailabilityWindow[] =>
+  events.map((event) => ({
+    userId: event.userId,
+    start: event.startTime,
+    end: event.endTime,
+    eventId: event.id,
+  }));
+
+/**
+ * Find every maximal time window in which at least `minParticipants` users
+ * are free together. For each distinct group of users the window is as long
+ * as possible, so a pair that is free 1-5pm is reported as 1-5pm even if a
+ * third friend only joins 2-4pm (which is reported separately).
+ *
+ * Results are ranked by group size, then duration, then start time.
+ */
+export const findOverlapWindows = (
+  windows: AvailabilityWindow[],
+  options: FindOverlapOptions = {},
+): OverlapWindow[] => {
+  const minDuration = (options.minDurationMinutes ?? 0) * MINUTE;
+  const minParticipants = Math.max(options.minParticipants ?? 2, 1);
+  const required = options.requiredUserIds ?? [];
+
+  // Merge each user's windows
+  const byUser = new Map<string, Interval[]>();
+  windows.forEach((window) => {
+    const interval = toInterval(window);
+    if (!interval) return;
+    byUser.set(window.userId, [...(byUser.get(window.userId) ?? []), interval]);
+  });
+
+  const merged = new Map<string, Interval[]>();
+  byUser.forEach((intervals, userId) =>
+    merged.set(userId, mergeIntervals(intervals)),
+  );
+
+  // Elementary segments between consecutive boundaries, with who is free
+  const boundaries = Array.from(
+    new Set(
+      Array.from(merged.values()).flatMap((intervals) =>
+        intervals.flatMap((interval) => [interval.start, interval.end]),
+      ),
+    ),
+  ).sort((a, b) => a - b);
+
+  const segments: Array<Interval & { userIds: Set<string> }> = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const userIds = new Set<string>();
+
+    merged.forEach((intervals, userId) => {
+      if (intervals.some((iv) => iv.start <= start && iv.end >= end)) {
+        userIds.add(userId);
+      }
+    });
+
+    if (userIds.size > 0) {
+      segments.push({ start, end, userIds });
+    }
+  }
+
+  // Every distinct group seen in a segment is a candidate
+  const groups = new Map<string, string[]>();
+  segments.forEach((segment) => {
+    const userIds = Array.from(segment.userIds).sort();
+    if (
+      userIds.length >= minParticipants &&
+      required.every((id) => segment.userIds.has(id))
+    ) {
+      groups.set(userIds.join("|"), userIds);
+    }
+  });
+
+  // Grow each group's window over contiguous segments where all are free
+  const results: OverlapWindow[] = [];
+  groups.forEach((userIds) => {
+    let run: Interval | null = null;
+
+    const flush = () => {
+      if (run && run.end - run.start >= minDuration) {
+        results.push(buildWindow(run, userIds, windows));
+      }
+      run = null;
+    };
+
+    segments.forEach((segment) => {
+      const covers = userIds.every((id) => segment.userIds.has(id));
+      if (covers && run && run.end === segment.start) {
+        run.end = segment.end;
+      } else {
+        flush();
+        if (covers) run = { start: segment.start, end: segment.end };
+      }
+    });
+    flush();
+  });
+
+  return results.sort(
+    (a, b) =>
+      b.userIds.length - a.userIds.length ||
+      b.durationMinutes - a.durationMinutes ||
+      new Date(a.start).getTime() - new Date(b.start).getTime(),
+  );
+};
+
+const buildWindow = (
+  interval: Interval,
+  userIds: string[],
+  windows: AvailabilityWindow[],
+): OverlapWindow => {
+  const eventIds = windows
+    .filter((window) => {
+      const own = toInterval(window);
+      return (
+        own &&
+        window.eventId &&
+        userIds.includes(window.userId) &&
+        own.start < interval.end &&
+        own.end > interval.start
+      );
+    })
+    .map((window) => window.eventId as string);
+
+  return {
+    start: new Date(interval.start).toISOString(),
+    end: new Date(interval.end).toISOString(),
+    userIds,
+    eventIds: Array.from(new Set(eventIds)),
+    durationMinutes: Math.round((interval.end - interval.start) / MINUTE),
+  };
+};
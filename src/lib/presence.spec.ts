@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { Presence } from "@/types";
+import {
+  describePresence,
+  describeTyping,
+  getActiveTypers,
+  getPresenceState,
+  isPresenceHidden,
+} from "./presence";
+
+const now = new Date("2025-01-01T12:00:00.000Z");
+const minutesAgo = (minutes: number) =>
+  new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+
+const presence = (
+  state: Presence["state"],
+  updatedMinutesAgo: number,
+  activeMinutesAgo = updatedMinutesAgo,
+): Presence => ({
+  userId: "sam",
+  state,
+  lastActiveAt: minutesAgo(activeMinutesAgo),
+  updatedAt: minutesAgo(updatedMinutesAgo),
+});
+
+describe("presence", () => {
+  it("should go offline once heartbeats stop", () => {
+    expect(getPresenceState(presence("online", 1), now)).toBe("online");
+    expect(getPresenceState(presence("idle", 1, 20), now)).toBe("idle");
+    expect(getPresenceState(presence("online", 10), now)).toBe("offline");
+    // Hidden or never seen
+    expect(getPresenceState(null, now)).toBeNull();
+  });
+
+  it("should describe presence for people", () => {
+    expect(describePresence(presence("online", 0), now)).toBe("Online");
+    expect(describePresence(presence("offline", 0, 0.5), now)).toBe(
+      "Last seen just now",
+    );
+    expect(describePresence(presence("online", 30, 45), now)).toBe(
+      "Last seen 45 minutes ago",
+    );
+    expect(describePresence(undefined, now)).toBe("");
+  });
+
+  it("should only show recent typers other than yourself", () => {
+    const typing = (userId: string, secondsAgo: number) => ({
+      conversationId: "c1",
+      userId,
+      updatedAt: new Date(now.getTime() - secondsAgo * 1000).toISOString(),
+    });
+
+    expect(
+      getActiveTypers(
+        [typing("jo", 1), typing("me", 1), typing("sam", 3), typing("max", 30)],
+        "me",
+        now,
+      ),
+    ).toEqual(["sam", "jo"]);
+    expect(describeTyping(["Sam"])).toBe("Sam is typing...");
+    expect(describeTyping(["Sam", "Jo"])).toBe("Sam and Jo are typing...");
+    expect(describeTyping(["Sam", "Jo", "Max"])).toBe(
+      "Several people are typing...",
+    );
+  });
+
+  it("should treat presence as shown unless turned off", () => {
+    expect(isPresenceHidden({ privacy: {} } as never)).toBe(false);
+    expect(
+      isPresenceHidden({ privacy: { showPresence: false } } as never),
+    ).toBe(true);
+  });
+});
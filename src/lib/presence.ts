@@ -0,0 +1,66 @@
+import { formatDistanceStrict } from "date-fns";
+import { Presence, PresenceState, TypingStatus, User } from "@/types";
+
+// How often an open app refreshes its presence
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+// No mouse, keyboard or focus for this long and you show as idle
+export const IDLE_AFTER_MS = 5 * 60 * 1000;
+// Closed tabs can't say goodbye, so a missed heartbeat or two means offline
+export const PRESENCE_STALE_MS = 2.5 * PRESENCE_HEARTBEAT_MS;
+// A keystroke keeps you "typing" for this long
+export const TYPING_TIMEOUT_MS = 6 * 1000;
+
+const age = (timestamp: string, now: Date) =>
+  now.getTime() - new Date(timestamp).getTime();
+
+export const isPresenceHidden = (user: User | null | undefined): boolean =>
+  user?.privacy?.showPresence === false;
+
+// Null when there's nothing to show: the user hides presence or has never
+// been online
+export const getPresenceState = (
+  presence: Presence | null | undefined,
+  now: Date = new Date(),
+): PresenceState | null => {
+  if (!presence) return null;
+  if (age(presence.updatedAt, now) > PRESENCE_STALE_MS) return "offline";
+  return presence.state;
+};
+
+export const describePresence = (
+  presence: Presence | null | undefined,
+  now: Date = new Date(),
+): string => {
+  const state = getPresenceState(presence, now);
+  if (state === "online") return "Online";
+  if (state === "idle") return "Idle";
+  if (state === "offline") {
+    const lastActive = new Date(presence.lastActiveAt);
+    return age(presence.lastActiveAt, now) < 60 * 1000
+      ? "Last seen just now"
+      : `Last seen ${formatDistanceStrict(lastActive, now)} ago`;
+  }
+  return "";
+};
+
+// Everyone else still typing in a conversation, oldest first
+export const getActiveTypers = (
+  statuses: TypingStatus[],
+  currentUserId: string,
+  now: Date = new Date(),
+): string[] =>
+  statuses
+    .filter(
+      (status) =>
+        status.userId !== currentUserId &&
+        age(status.updatedAt, now) <= TYPING_TIMEOUT_MS,
+    )
+    .sort((a, b) => age(b.updatedAt, now) - age(a.updatedAt, now))
+    .map((status) => status.userId);
+
+export const describeTyping = (names: string[]): string => {
+  if (names.length === 0) return "";
+  if (names.length === 1) return `${names[0]} is typing...`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+  return "Several people are typing...";
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { User } from "@/types";
+import { splitPrivateProfile, toPublicProfile } from "./profiles";
+
+const sam: User = {
+  id: "sam",
+  email: "sam@example.com",
+  username: "sam",
+  fullName: "Sam Lee",
+  friends: ["alex"],
+  friendRequests: { sent: [], received: [] },
+  homeArea: { label: "Lisbon", latitude: 38.72, longitude: -9.14 },
+  blockedUsers: ["jo"],
+  createdAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("profiles", () => {
+  it("should keep the home area and block list out of the public profile", () => {
+    const { homeArea, blockedUsers, ...profile } = sam;
+
+    expect(toPublicProfile(sam)).toEqual(profile);
+    expect(splitPrivateProfile(sam)).toEqual({
+      profile,
+      privateProfile: { homeArea, blockedUsers },
+    });
+  });
+
+  it("should only split out the private fields being changed", () => {
+    expect(splitPrivateProfile({ fullName: "Sam" })).toEqual({
+      profile: { fullName: "Sam" },
+      privateProfile: {},
+    });
+    // Clearing the home area still writes it
+    expect(splitPrivateProfile({ homeArea: null })).toEqual({
+      profile: {},
+      privateProfile: { homeArea: null },
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { User } from "@/types";
+
+// Parts of a profile only its owner reads: where they usually set out from
+// and whom they blocked. Firestore keeps them in privateProfiles/{userId},
+// which the rules keep to the owner; everyone signed in reads the rest.
+export type PrivateProfile = Pick<User, "homeArea" | "blockedUsers">;
+
+// Updates split into what goes to each document
+export const splitPrivateProfile = ({
+  homeArea,
+  blockedUsers,
+  ...profile
+}: Partial<User>): {
+  profile: Partial<User>;
+  privateProfile: PrivateProfile;
+} => ({
+  profile,
+  privateProfile: Object.fromEntries(
+    Object.entries({ homeArea, blockedUsers }).filter(
+      ([, value]) => value !== undefined,
+    ),
+  ),
+});
+
+// The user as anyone else sees them
+export const toPublicProfile = (user: User): User =>
+  splitPrivateProfile(user).profile as User;
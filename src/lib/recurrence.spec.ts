@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import { Event } from "@/types";
+import {
+  expandEvent,
+  formatRRule,
+  getOccurrence,
+  parseOccurrenceId,
+  parseRRule,
+  splitSeries,
+} from "./recurrence";
+
+// Monday 6 January 2025, 7-9pm local time
+const local = (day: number, hour = 19) =>
+  new Date(2025, 0, day, hour).toISOString();
+
+const series = (recurrence: Event["recurrence"], extra = {}): Event => ({
+  id: "s1",
+  userId: "u1",
+  title: "Free evening",
+  startTime: local(6),
+  endTime: local(6, 21),
+  type: "hangout",
+  recurrence,
+  createdAt: local(1),
+  ...extra,
+});
+
+const starts = (event: Event, from = local(1, 0), to = local(31, 0)) =>
+  expandEvent(event, new Date(from), new Date(to)).map((o) => o.startTime);
+
+describe("RRULE parsing", () => {
+  it("should round-trip supported rules", () => {
+    const rule = parseRRule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO;COUNT=4");
+
+    expect(rule).toEqual({
+      frequency: "weekly",
+      interval: 2,
+      byDay: ["MO", "FR"],
+      count: 4,
+    });
+    expect(formatRRule(rule)).toBe(
+      "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=4",
+    );
+  });
+
+  it("should parse UNTIL and reject unsupported rules", () => {
+    expect(parseRRule("FREQ=DAILY;UNTIL=20250110T000000Z").until).toBe(
+      "2025-01-10T00:00:00.000Z",
+    );
+    expect(parseRRule("FREQ=YEARLY")).toBeNull();
+    expect(parseRRule("FREQ=WEEKLY;BYDAY=XX")).toBeNull();
+  });
+
+  it("should reject rules whose dates we can't reproduce", () => {
+    // The second Monday of each month, and every Monday of each month
+    expect(parseRRule("FREQ=MONTHLY;BYDAY=2MO")).toBeNull();
+    expect(parseRRule("FREQ=MONTHLY;BYDAY=MO")).toBeNull();
+    expect(parseRRule("FREQ=WEEKLY;BYDAY=1MO,-1FR")).toBeNull();
+    expect(parseRRule("FREQ=MONTHLY;BYMONTHDAY=13")).toBeNull();
+    expect(parseRRule("FREQ=WEEKLY;BYDAY=MO;WKST=SU")).toEqual({
+      frequency: "weekly",
+      byDay: ["MO"],
+    });
+  });
+});
+
+describe("expandEvent", () => {
+  it("should expand weekly rules on the chosen days", () => {
+    expect(
+      starts(series({ frequency: "weekly", byDay: ["MO", "FR"], count: 5 })),
+    ).toEqual([local(6), local(10), local(13), local(17), local(20)]);
+  });
+
+  it("should honour interval and until", () => {
+    expect(
+      starts(series({ frequency: "daily", interval: 3, until: local(15, 23) })),
+    ).toEqual([local(6), local(9), local(12), local(15)]);
+  });
+
+  it("should skip months without the start day", () => {
+    const event = series(
+      { frequency: "monthly", count: 3 },
+      { startTime: new Date(2025, 0, 31, 19).toISOString() },
+    );
+    event.endTime = new Date(2025, 0, 31, 21).toISOString();
+
+    expect(
+      starts(event, local(1, 0), new Date(2025, 5, 1).toISOString()),
+    ).toEqual([
+      new Date(2025, 0, 31, 19).toISOString(),
+      new Date(2025, 2, 31, 19).toISOString(),
+      new Date(2025, 4, 31, 19).toISOString(),
+    ]);
+  });
+
+  it("should keep the wall-clock time in the series' time zone across DST", () => {
+    // Friday 7pm in New York, before and after clocks spring forward
+    const event = series(
+      { frequency: "weekly", count: 3 },
+      {
+        startTime: "2025-03-01T00:00:00.000Z",
+        endTime: "2025-03-01T02:00:00.000Z",
+        timeZone: "America/New_York",
+      },
+    );
+
+    expect(
+      starts(event, "2025-02-01T00:00:00.000Z", "2025-04-01T00:00:00.000Z"),
+    ).toEqual([
+      "2025-03-01T00:00:00.000Z",
+      "2025-03-08T00:00:00.000Z",
+      "2025-03-14T23:00:00.000Z",
+    ]);
+  });
+
+  it("should expand series that started long ago", () => {
+    const event = series(
+      { frequency: "daily" },
+      {
+        startTime: "2000-01-01T18:00:00.000Z",
+        endTime: "2000-01-01T20:00:00.000Z",
+        timeZone: "UTC",
+      },
+    );
+
+    expect(
+      starts(event, "2025-01-06T00:00:00.000Z", "2025-01-10T00:00:00.000Z"),
+    ).toEqual([
+      "2025-01-06T18:00:00.000Z",
+      "2025-01-07T18:00:00.000Z",
+      "2025-01-08T18:00:00.000Z",
+      "2025-01-09T18:00:00.000Z",
+    ]);
+
+    const weekly = series(
+      { frequency: "weekly", byDay: ["MO", "FR"] },
+      {
+        startTime: "1990-01-01T18:00:00.000Z",
+        endTime: "1990-01-01T20:00:00.000Z",
+        timeZone: "UTC",
+      },
+    );
+    expect(
+      starts(weekly, "2025-01-06T19:00:00.000Z", "2025-01-11T00:00:00.000Z"),
+    ).toEqual(["2025-01-06T18:00:00.000Z", "2025-01-10T18:00:00.000Z"]);
+  });
+
+  it("should drop exceptions but still count them", () => {
+    const event = series(
+      { frequency: "daily", count: 3 },
+      { exceptions: [local(7)] },
+    );
+
+    expect(starts(event)).toEqual([local(6), local(8)]);
+  });
+
+  it("should give occurrences ids that lead back to the series", () => {
+    const [, second] = expandEvent(
+      series({ frequency: "daily" }),
+      new Date(local(7, 0)),
+      new Date(local(8, 0)),
+    );
+
+    expect(second).toBeUndefined();
+    const occurrence = getOccurrence(series({ frequency: "daily" }), local(7));
+    expect(occurrence.endTime).toBe(local(7, 21));
+    expect(parseOccurrenceId(occurrence.id)).toEqual({
+      seriesId: "s1",
+      originalStartTime: local(7),
+    });
+  });
+});
+
+describe("splitSeries", () => {
+  it("should end the series before the split and carry the remaining count", () => {
+    const event = series(
+      { frequency: "daily", count: 5 },
+      { exceptions: [local(7), local(9)] },
+    );
+    const { head, tail } = splitSeries(event, local(8));
+
+    expect(starts({ ...event, ...head })).toEqual([local(6)]);
+    expect(head.exceptions).toEqual([local(7)]);
+    expect(tail).toEqual({ frequency: "daily", count: 3 });
+  });
+});
@@ -0,0 +1,467 @@
+import { addDays } from "date-fns";
+import {
+  Event,
+  EventOccurrence,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  Weekday,
+} from "@/types";
+import { getZonedParts, resolveTimeZone, zonedTimeToUtc } from "./timezone";
+
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: "Sun",
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+};
+
+// How far ahead open-ended series are expanded for matching
+export const RECURRENCE_HORIZON_DAYS = 90;
+
+// Guards against runaway expansion of malformed rules
+const MAX_ITERATIONS = 5000;
+
+const OCCURRENCE_SEPARATOR = "@";
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  MONTHLY: "monthly",
+};
+
+// RRULE parts we can expand; anything else (BYMONTHDAY, BYSETPOS, ...)
+// would change which dates occur, so such rules are rejected
+const SUPPORTED_RRULE_PARTS = [
+  "FREQ",
+  "INTERVAL",
+  "BYDAY",
+  "COUNT",
+  "UNTIL",
+  "WKST",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isRecurring = (event: Pick<Event, "recurrence">): boolean =>
+  Boolean(event.recurrence);
+
+export const getOccurrenceId = (
+  seriesId: string,
+  originalStartTime: string,
+): string => `${seriesId}${OCCURRENCE_SEPARATOR}${originalStartTime}`;
+
+export const parseOccurrenceId = (
+  occurrenceId: string,
+): { seriesId: string; originalStartTime: string } | null => {
+  const index = occurrenceId.lastIndexOf(OCCURRENCE_SEPARATOR);
+  if (index === -1) return null;
+
+  return {
+    seriesId: occurrenceId.slice(0, index),
+    originalStartTime: occurrenceId.slice(index + 1),
+  };
+};
+
+// Drop unset and default fields so the rule can be stored as-is (Firestore
+// rejects undefined values)
+export const normalizeRecurrenceRule = (
+  rule: RecurrenceRule,
+): RecurrenceRule => {
+  const normalized: RecurrenceRule = { frequency: rule.frequency };
+
+  if (rule.interval && rule.interval > 1) {
+    normalized.interval = Math.floor(rule.interval);
+  }
+  if (rule.byDay && rule.byDay.length > 0) {
+    normalized.byDay = WEEKDAYS.filter((day) => rule.byDay.includes(day));
+  }
+  if (rule.count && rule.count > 0) {
+    normalized.count = Math.floor(rule.count);
+  } else if (rule.until) {
+    normalized.until = new Date(rule.until).toISOString();
+  }
+
+  return normalized;
+};
+
+const toRRuleDate = (iso: string) =>
+  new Date(iso)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const fromRRuleDate = (value: string): string | null => {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/,
+  );
+  if (!match) return null;
+
+  const [, y, mo, d, h = "23", mi = "59", s = "59", utc] = match;
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return date.toISOString();
+};
+
+/**
+ * Serialize a rule as an RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR".
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const normalized = normalizeRecurrenceRule(rule);
+  const parts = [`FREQ=${normalized.frequency.toUpperCase()}`];
+
+  if (normalized.interval) parts.push(`INTERVAL=${normalized.interval}`);
+  if (normalized.byDay) parts.push(`BYDAY=${normalized.byDay.join(",")}`);
+  if (normalized.count) parts.push(`COUNT=${normalized.count}`);
+  if (normalized.until) parts.push(`UNTIL=${toRRuleDate(normalized.until)}`);
+
+  return parts.join(";");
+};
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix). Returns null
+ * for malformed input and for rules we can't expand faithfully: other
+ * frequencies, other BY* parts, ordinal days ("2MO") and monthly rules by
+ * weekday.
+ */
+export const parseRRule = (value: string): RecurrenceRule | null => {
+  const fields = Object.fromEntries(
+    value
+      .trim()
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .filter(Boolean)
+      .map((part) => {
+        const [key, ...rest] = part.split("=");
+        return [key.toUpperCase(), rest.join("=")];
+      }),
+  );
+
+  const frequency = FREQUENCIES[(fields.FREQ || "").toUpperCase()];
+  if (!frequency) return null;
+  if (Object.keys(fields).some((key) => !SUPPORTED_RRULE_PARTS.includes(key))) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { frequency };
+
+  if (fields.INTERVAL) {
+    const interval = parseInt(fields.INTERVAL, 10);
+    if (isNaN(interval) || interval < 1) return null;
+    rule.interval = interval;
+  }
+  if (fields.BYDAY) {
+    // Monthly series repeat on the start's day of the month, so "every
+    // Monday" or "the second Monday" of a month can't be kept
+    if (frequency === "monthly") return null;
+    const days = fields.BYDAY.split(",").map((day: string) =>
+      day.trim().toUpperCase(),
+    );
+    if (!days.every((day: string) => WEEKDAYS.includes(day as Weekday))) {
+      return null;
+    }
+    rule.byDay = days as Weekday[];
+  }
+  if (fields.COUNT) {
+    const count = parseInt(fields.COUNT, 10);
+    if (isNaN(count) || count < 1) return null;
+    rule.count = count;
+  }
+  if (fields.UNTIL) {
+    const until = fromRRuleDate(fields.UNTIL);
+    if (!until) return null;
+    rule.until = until;
+  }
+
+  return normalizeRecurrenceRule(rule);
+};
+
+/**
+ * Iterate a series' occurrence start times in order, before exceptions are
+ * removed (COUNT counts excluded occurrences too, as in RFC 5545). Times are
+ * stepped on the wall clock of the series' time zone so a weekly 7pm hangout
+ * stays at 7pm there across DST. Given `from`, series without a COUNT jump
+ * ahead to about then instead of stepping through every earlier occurrence;
+ * a few before it may still be yielded.
+ */
+function* iterateStarts(
+  startTime: string,
+  rule: RecurrenceRule,
+  timeZone: string,
+  from?: Date,
+): Generator<Date> {
+  const start = new Date(startTime);
+  if (isNaN(start.getTime())) return;
+
+  const wall = getZonedParts(start, timeZone);
+  const interval = Math.max(1, rule.interval || 1);
+  const until = rule.until ? new Date(rule.until).getTime() : Infinity;
+  const byDay = rule.byDay && rule.byDay.length > 0 ? rule.byDay : null;
+  let emitted = 0;
+
+  // The instant for a (possibly overflowing) calendar date at the start's
+  // time of day, plus that date's day of month and weekday
+  const at = (monthOffset: number, dayOffset: number) => {
+    const day = new Date(
+      Date.UTC(wall.year, wall.month - 1 + monthOffset, wall.day + dayOffset),
+    );
+    const date = zonedTimeToUtc(
+      {
+        year: day.getUTCFullYear(),
+        month: day.getUTCMonth() + 1,
+        day: day.getUTCDate(),
+        hour: wall.hour,
+        minute: wall.minute,
+        second: wall.second,
+      },
+      timeZone,
+    );
+    date.setTime(date.getTime() + start.getMilliseconds());
+    return { date, dayOfMonth: day.getUTCDate(), weekday: day.getUTCDay() };
+  };
+
+  const emit = (date: Date) => {
+    if (date.getTime() < start.getTime() || date.getTime() > until) {
+      return false;
+    }
+    emitted++;
+    return true;
+  };
+  const done = (date: Date) =>
+    date.getTime() > until || (rule.count && emitted >= rule.count);
+
+  // Whole intervals between the start and `from`, less one to be safe
+  // around DST and month lengths. COUNT needs every occurrence counted.
+  let firstStep = 0;
+  if (from && !rule.count && from.getTime() > start.getTime()) {
+    const target = getZonedParts(from, timeZone);
+    const days =
+      (Date.UTC(target.year, target.month - 1, target.day) -
+        Date.UTC(wall.year, wall.month - 1, wall.day)) /
+      DAY_MS;
+    const periods =
+      rule.frequency === "daily"
+        ? days
+        : rule.frequency === "weekly"
+          ? (days + wall.weekday) / 7
+          : (target.year - wall.year) * 12 + target.month - wall.month;
+    firstStep = Math.max(0, Math.floor(periods / interval) - 1);
+  }
+
+  for (let step = firstStep; step < firstStep + MAX_ITERATIONS; step++) {
+    if (rule.frequency === "weekly") {
+      const weekStart = step * interval * 7 - wall.weekday;
+      const days = byDay || [WEEKDAYS[wall.weekday]];
+
+      for (const day of WEEKDAYS) {
+        if (!days.includes(day)) continue;
+        const { date } = at(0, weekStart + WEEKDAYS.indexOf(day));
+        if (done(date)) return;
+        if (emit(date)) yield date;
+      }
+      if (done(at(0, weekStart).date)) return;
+      continue;
+    }
+
+    const { date, dayOfMonth, weekday } =
+      rule.frequency === "daily"
+        ? at(0, step * interval)
+        : at(step * interval, 0);
+    if (done(date)) return;
+
+    // Months without this day (e.g. the 31st) are skipped, not clamped
+    if (rule.frequency === "monthly" && dayOfMonth !== wall.day) {
+      continue;
+    }
+    if (
+      rule.frequency === "daily" &&
+      byDay &&
+      !byDay.includes(WEEKDAYS[weekday])
+    ) {
+      continue;
+    }
+    if (emit(date)) yield date;
+  }
+}
+
+// Series without a zone of their own follow the viewer's clock
+export const getEventTimeZone = (event: Pick<Event, "timeZone">): string =>
+  resolveTimeZone(event.timeZone);
+
+const isException = (event: Event, start: Date) =>
+  (event.exceptions || []).some(
+    (exception) => new Date(exception).getTime() === start.getTime(),
+  );
+
+const buildOccurrence = (event: Event, start: Date): EventOccurrence => {
+  const duration =
+    new Date(event.endTime).getTime() - new Date(event.startTime).getTime();
+  const originalStartTime = start.toISOString();
+
+  return {
+    ...event,
+    id: getOccurrenceId(event.id, originalStartTime),
+    startTime: originalStartTime,
+    endTime: new Date(start.getTime() + duration).toISOString(),
+    recurringEventId: event.id,
+    originalStartTime,
+  };
+};
+
+/**
+ * Expand an event into the occurrences that intersect [rangeStart, rangeEnd).
+ * One-off events are returned unchanged when they fall in the range.
+ */
+export const expandEvent = (
+  event: Event,
+  rangeStart: Date,
+  rangeEnd: Date,
+): EventOccurrence[] => {
+  const from = rangeStart.getTime();
+  const to = rangeEnd.getTime();
+
+  if (!event.recurrence) {
+    const start = new Date(event.startTime).getTime();
+    const end = new Date(event.endTime).getTime();
+    return start < to && end > from ? [event] : [];
+  }
+
+  const duration =
+    new Date(event.endTime).getTime() - new Date(event.startTime).getTime();
+  const occurrences: EventOccurrence[] = [];
+
+  for (const start of iterateStarts(
+    event.startTime,
+    event.recurrence,
+    getEventTimeZone(event),
+    // Occurrences starting this early can still reach into the range
+    new Date(from - duration),
+  )) {
+    if (start.getTime() >= to) break;
+    if (start.getTime() + duration <= from || isException(event, start)) {
+      continue;
+    }
+    occurrences.push(buildOccurrence(event, start));
+  }
+
+  return occurrences;
+};
+
+export const expandEvents = (
+  events: Event[],
+  rangeStart: Date,
+  rangeEnd: Date,
+): EventOccurrence[] =>
+  events
+    .flatMap((event) => expandEvent(event, rangeStart, rangeEnd))
+    .sort(
+      (a, b) =>
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+    );
+
+/**
+ * Look up a single occurrence of a series by its original start time, or
+ * null if the series doesn't produce one then (or it was removed).
+ */
+export const getOccurrence = (
+  event: Event,
+  originalStartTime: string,
+): EventOccurrence | null => {
+  const target = new Date(originalStartTime);
+  return (
+    expandEvent(event, target, new Date(target.getTime() + 1)).find(
+      (occurrence) =>
+        new Date(occurrence.startTime).getTime() === target.getTime(),
+    ) || null
+  );
+};
+
+/**
+ * The span worth scanning for an event when looking for overlaps: the event
+ * itself, or for a series its upcoming occurrences up to the horizon.
+ */
+export const getEventSpan = (
+  event: Event,
+  now: Date = new Date(),
+): { start: Date; end: Date } => {
+  const start = new Date(event.startTime);
+  if (!event.recurrence) {
+    return { start, end: new Date(event.endTime) };
+  }
+
+  const from = start > now ? start : now;
+  return { start: from, end: addDays(from, RECURRENCE_HORIZON_DAYS) };
+};
+
+const countStartsBefore = (event: Event, before: Date): number => {
+  let count = 0;
+  for (const start of iterateStarts(
+    event.startTime,
+    event.recurrence,
+    getEventTimeZone(event),
+  )) {
+    if (start.getTime() >= before.getTime()) break;
+    count++;
+  }
+  return count;
+};
+
+/**
+ * Split a series at one of its occurrences for "this and following" edits.
+ * `head` holds the updates that end the original series just before the
+ * occurrence; `tail` is the rule for a new series starting at it, with any
+ * COUNT reduced by the occurrences that stay in the original series.
+ */
+export const splitSeries = (
+  event: Event,
+  originalStartTime: string,
+): { head: Pick<Event, "recurrence" | "exceptions">; tail: RecurrenceRule } => {
+  const splitAt = new Date(originalStartTime);
+  const rule = event.recurrence;
+  const before = rule.count ? countStartsBefore(event, splitAt) : 0;
+
+  const head = normalizeRecurrenceRule({
+    ...rule,
+    count: undefined,
+    until: new Date(splitAt.getTime() - 1000).toISOString(),
+  });
+  const tail = normalizeRecurrenceRule({
+    ...rule,
+    count: rule.count ? Math.max(rule.count - before, 1) : undefined,
+  });
+
+  return {
+    head: {
+      recurrence: head,
+      exceptions: (event.exceptions || []).filter(
+        (exception) => new Date(exception).getTime() < splitAt.getTime(),
+      ),
+    },
+    tail,
+  };
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Fri, 10 times"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = rule.interval && rule.interval > 1 ? rule.interval : 1;
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[
+    rule.frequency
+  ];
+
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (rule.byDay && rule.byDay.length > 0) {
+    text += ` on ${rule.byDay.map((day) => WEEKDAY_LABELS[day]).join(", ")}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  } else if (rule.until) {
+    text += `, until ${new Date(rule.until).toLocaleDateString()}`;
+  }
+
+  return text;
+};
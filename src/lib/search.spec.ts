@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  MessageSearchIndex,
+  getHighlightSegments,
+  getSearchTokens,
+  matchesSearch,
+  parseSearchQuery,
+} from "./search";
+
+describe("message search", () => {
+  it("should match words by prefix, ignoring case and accents", () => {
+    const terms = parseSearchQuery("Cafe  TOM a");
+    expect(terms).toEqual(["cafe", "tom"]);
+    expect(matchesSearch("Tomorrow at the Café?", terms)).toBe(true);
+    expect(matchesSearch("Tomorrow at the bar", terms)).toBe(false);
+    expect(matchesSearch("anything", [])).toBe(false);
+  });
+
+  it("should index every word prefix once", () => {
+    expect(getSearchTokens("Go go gopher!")).toEqual([
+      "go",
+      "gop",
+      "goph",
+      "gophe",
+      "gopher",
+    ]);
+  });
+
+  it("should highlight the words that matched", () => {
+    expect(getHighlightSegments("See you at the Café!", ["caf", "se"])).toEqual(
+      [
+        { text: "See", match: true },
+        { text: " you at the ", match: false },
+        { text: "Café", match: true },
+        { text: "!", match: false },
+      ],
+    );
+  });
+
+  it("should keep the index in step with message content", () => {
+    const index = new MessageSearchIndex();
+    index.update("m1", "Bowling on Friday");
+    index.update("m2", "Bowling or movies?");
+
+    expect(index.search(["bowl"]).sort()).toEqual(["m1", "m2"]);
+    expect(index.search(["bowl", "fri"])).toEqual(["m1"]);
+
+    index.update("m1", "Movies on Friday");
+    expect(index.search(["bowl"])).toEqual(["m2"]);
+    index.remove("m2");
+    expect(index.search(["mov"])).toEqual(["m1"]);
+    expect(index.search([])).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+// Message search matches words by prefix, ignoring case and accents:
+// "cafe" finds "Café" and "caf" finds "cafeteria". Every word in the query
+// has to match.
+
+export const MIN_SEARCH_TERM_LENGTH = 2;
+// Longer words are indexed (and searched) by their first characters only
+export const MAX_SEARCH_TERM_LENGTH = 20;
+export const SEARCH_RESULT_LIMIT = 50;
+
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+/gu;
+
+const normalize = (word: string) =>
+  word
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .slice(0, MAX_SEARCH_TERM_LENGTH);
+
+const getWords = (text: string) =>
+  (text.match(WORD_PATTERN) || []).map(normalize).filter(Boolean);
+
+// The terms a query searches for; too-short words are ignored
+export const parseSearchQuery = (query: string): string[] =>
+  Array.from(
+    new Set(
+      getWords(query).filter((word) => word.length >= MIN_SEARCH_TERM_LENGTH),
+    ),
+  );
+
+/**
+ * Every prefix (of at least the minimum length) of every word in the text.
+ * A term matches the text exactly when it's one of these, which is what
+ * lets Firestore answer prefix searches with `array-contains`.
+ */
+export const getSearchTokens = (text: string): string[] => {
+  const tokens = new Set<string>();
+  getWords(text).forEach((word) => {
+    for (let end = MIN_SEARCH_TERM_LENGTH; end <= word.length; end++) {
+      tokens.add(word.slice(0, end));
+    }
+  });
+  return Array.from(tokens);
+};
+
+export const matchesSearch = (text: string, terms: string[]) => {
+  if (terms.length === 0) return false;
+  const words = getWords(text);
+  return terms.every((term) => words.some((word) => word.startsWith(term)));
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits text so the words that matched can be highlighted
+export const getHighlightSegments = (
+  text: string,
+  terms: string[],
+): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+
+  for (const found of text.matchAll(WORD_PATTERN)) {
+    const word = normalize(found[0]);
+    if (!terms.some((term) => word.startsWith(term))) continue;
+
+    if (found.index > last) {
+      segments.push({ text: text.slice(last, found.index), match: false });
+    }
+    segments.push({ text: found[0], match: true });
+    last = found.index + found[0].length;
+  }
+
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+  return segments;
+};
+
+/**
+ * Inverted index from search tokens to the messages that contain them,
+ * for backends that search in memory. Re-index a message whenever its
+ * content changes.
+ */
+export class MessageSearchIndex {
+  private postings = new Map<string, Set<string>>();
+  private tokensByMessage = new Map<string, string[]>();
+
+  update(messageId: string, content: string) {
+    this.remove(messageId);
+
+    const tokens = getSearchTokens(content);
+    tokens.forEach((token) => {
+      if (!this.postings.has(token)) this.postings.set(token, new Set());
+      this.postings.get(token).add(messageId);
+    });
+    this.tokensByMessage.set(messageId, tokens);
+  }
+
+  remove(messageId: string) {
+    (this.tokensByMessage.get(messageId) || []).forEach((token) => {
+      const messageIds = this.postings.get(token);
+      messageIds?.delete(messageId);
+      if (messageIds?.size === 0) this.postings.delete(token);
+    });
+    this.tokensByMessage.delete(messageId);
+  }
+
+  // Ids of messages matching every term
+  search(terms: string[]): string[] {
+    if (terms.length === 0) return [];
+
+    // Start from the rarest term so the intersection stays small
+    const [first, ...rest] = terms
+      .map((term) => this.postings.get(term) || new Set<string>())
+      .sort((a, b) => a.size - b.size);
+
+    return Array.from(first).filter((messageId) =>
+      rest.every((messageIds) => messageIds.has(messageId)),
+    );
+  }
+}
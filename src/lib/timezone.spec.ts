@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatInTimeZone,
+  formatRangeInTimeZone,
+  getDayBoundsInTimeZone,
+  getDayKey,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  parseInTimeZone,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from "./timezone";
+
+describe("time zone conversion", () => {
+  it("should read offsets including daylight saving", () => {
+    expect(
+      getTimeZoneOffset(new Date("2025-01-15T12:00:00Z"), "America/New_York"),
+    ).toBe(-300);
+    expect(
+      getTimeZoneOffset(new Date("2025-07-15T12:00:00Z"), "America/New_York"),
+    ).toBe(-240);
+    expect(
+      getTimeZoneOffset(new Date("2025-07-15T12:00:00Z"), "Asia/Kolkata"),
+    ).toBe(330);
+  });
+
+  it("should convert wall-clock times to instants", () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2025, month: 3, day: 1, hour: 9 },
+        "Europe/Berlin",
+      ).toISOString(),
+    ).toBe("2025-03-01T08:00:00.000Z");
+    // 2:30am doesn't exist on the day clocks spring forward
+    expect(
+      zonedTimeToUtc(
+        { year: 2025, month: 3, day: 9, hour: 2, minute: 30 },
+        "America/New_York",
+      ).toISOString(),
+    ).toMatch(/^2025-03-09T0[67]:30:00.000Z$/);
+    expect(
+      parseInTimeZone("2025-07-04T19:30", "Asia/Tokyo").toISOString(),
+    ).toBe("2025-07-04T10:30:00.000Z");
+    expect(parseInTimeZone("July 4", "Asia/Tokyo")).toBeNull();
+  });
+
+  it("should format and bucket instants by the zone's calendar day", () => {
+    const instant = "2025-01-10T03:00:00.000Z";
+
+    expect(getDayKey(instant, "America/Los_Angeles")).toBe("2025-01-09");
+    expect(getDayKey(instant, "Asia/Tokyo")).toBe("2025-01-10");
+    expect(formatInTimeZone(instant, "Asia/Tokyo", "h:mm a")).toBe("12:00 PM");
+    expect(
+      formatRangeInTimeZone(
+        instant,
+        "2025-01-10T09:00:00.000Z",
+        "America/Los_Angeles",
+      ),
+    ).toBe("Jan 9, 7:00 PM - Jan 10, 1:00 AM");
+  });
+
+  it("should compute day bounds in a zone", () => {
+    const { start, end } = getDayBoundsInTimeZone(
+      new Date(2025, 2, 9),
+      "America/New_York",
+    );
+
+    expect(start.toISOString()).toBe("2025-03-09T05:00:00.000Z");
+    // Clocks spring forward, so the day is 23 hours long
+    expect(end.toISOString()).toBe("2025-03-10T04:00:00.000Z");
+  });
+
+  it("should validate and resolve zones", () => {
+    expect(isValidTimeZone("Europe/London")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+    expect(resolveTimeZone(undefined, "Mars/Olympus", "Asia/Tokyo")).toBe(
+      "Asia/Tokyo",
+    );
+  });
+});
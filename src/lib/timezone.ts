@@ -0,0 +1,292 @@
+import { format } from "date-fns";
+
+// Helpers for IANA time zones on top of Intl, so calendar math can be done
+// in a user's home zone instead of whatever zone the browser happens to be in.
+
+export interface WallClockTime {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+export interface ZonedParts extends Required<WallClockTime> {
+  // 0 (Sunday) - 6 (Saturday)
+  weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+// Used when Intl.supportedValuesOf isn't available
+const FALLBACK_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export const isValidTimeZone = (timeZone?: string | null): boolean => {
+  if (!timeZone) return false;
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// First valid zone among the candidates, falling back to the browser's
+export const resolveTimeZone = (
+  ...candidates: Array<string | null | undefined>
+): string => candidates.find(isValidTimeZone) || getBrowserTimeZone();
+
+export const getTimeZoneOptions = (): string[] => {
+  const supportedValuesOf = (
+    Intl as unknown as { supportedValuesOf?: (key: string) => string[] }
+  ).supportedValuesOf;
+  const zones = supportedValuesOf
+    ? supportedValuesOf("timeZone")
+    : FALLBACK_TIME_ZONES;
+
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+};
+
+// The wall-clock reading in a zone at the given instant
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  getPartsFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => (parts[part.type] = part.value));
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  };
+};
+
+// Minutes the zone is ahead of UTC at the given instant (e.g. -480 for PST)
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+};
+
+/**
+ * The instant at which the wall clock in `timeZone` shows the given time.
+ * Ambiguous times (when clocks go back) resolve to the earlier instant and
+ * times skipped by a DST jump resolve to a nearby valid instant.
+ */
+export const zonedTimeToUtc = (
+  wallClock: WallClockTime,
+  timeZone: string,
+): Date => {
+  const asUtc = Date.UTC(
+    wallClock.year,
+    wallClock.month - 1,
+    wallClock.day,
+    wallClock.hour || 0,
+    wallClock.minute || 0,
+    wallClock.second || 0,
+  );
+
+  const firstOffset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const guess = asUtc - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffset(new Date(guess), timeZone);
+
+  return new Date(
+    secondOffset === firstOffset ? guess : asUtc - secondOffset * 60000,
+  );
+};
+
+// Read a wall-clock value from a date or datetime-local input
+// ("yyyy-MM-dd" or "yyyy-MM-ddTHH:mm[:ss]") as a time in the zone
+export const parseInTimeZone = (
+  value: string,
+  timeZone: string,
+): Date | null => {
+  const match = value
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h = "0", mi = "0", s = "0"] = match;
+  return zonedTimeToUtc(
+    { year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +s },
+    timeZone,
+  );
+};
+
+/**
+ * A Date whose local fields read like the wall clock in `timeZone`, for
+ * handing to date-fns formatting. Don't use it as an instant.
+ */
+export const toZonedDate = (date: Date | string, timeZone: string): Date => {
+  const parts = getZonedParts(new Date(date), timeZone);
+  return new Date(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+};
+
+// Inverse of toZonedDate: the instant a wall-clock Date stands for in a zone
+export const fromZonedDate = (date: Date, timeZone: string): Date => {
+  const instant = zonedTimeToUtc(
+    {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    },
+    timeZone,
+  );
+  instant.setTime(instant.getTime() + date.getMilliseconds());
+  return instant;
+};
+
+export const formatInTimeZone = (
+  date: Date | string,
+  timeZone: string,
+  pattern: string,
+): string => format(toZonedDate(date, timeZone), pattern);
+
+// Calendar date ("yyyy-MM-dd") of an instant in a zone, for same-day checks
+export const getDayKey = (date: Date | string, timeZone: string): string =>
+  formatInTimeZone(date, timeZone, "yyyy-MM-dd");
+
+// Calendar date of a Date built from local fields (e.g. a grid cell)
+export const getLocalDayKey = (date: Date): string =>
+  format(date, "yyyy-MM-dd");
+
+/**
+ * Start and end instants of a calendar date in a zone. The date is read
+ * from the local fields of `day`, as produced by date-fns grid helpers.
+ */
+export const getDayBoundsInTimeZone = (
+  day: Date,
+  timeZone: string,
+): { start: Date; end: Date } => {
+  const start = zonedTimeToUtc(
+    { year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate() },
+    timeZone,
+  );
+  const next = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+  const end = zonedTimeToUtc(
+    {
+      year: next.getFullYear(),
+      month: next.getMonth() + 1,
+      day: next.getDate(),
+    },
+    timeZone,
+  );
+  return { start, end };
+};
+
+// Short zone name at the given instant, e.g. "PST" or "GMT+9"
+export const getTimeZoneAbbreviation = (
+  date: Date | string,
+  timeZone: string,
+): string => {
+  const part = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    timeZoneName: "short",
+  })
+    .formatToParts(new Date(date))
+    .find((p) => p.type === "timeZoneName");
+  return part?.value || timeZone;
+};
+
+// Whether two zones show the same wall-clock time at the given instant
+export const isSameOffset = (
+  date: Date | string,
+  timeZoneA: string,
+  timeZoneB: string,
+): boolean =>
+  getTimeZoneOffset(new Date(date), timeZoneA) ===
+  getTimeZoneOffset(new Date(date), timeZoneB);
+
+/**
+ * Format a time range in a zone, e.g. "Jan 10, 7:00 PM - 9:00 PM". The end
+ * gets its own date when it falls on a different day in that zone.
+ */
+export const formatRangeInTimeZone = (
+  start: Date | string,
+  end: Date | string,
+  timeZone: string,
+  startPattern = "MMM d, h:mm a",
+): string => {
+  const endPattern =
+    getDayKey(start, timeZone) === getDayKey(end, timeZone)
+      ? "h:mm a"
+      : "MMM d, h:mm a";
+  return `${formatInTimeZone(start, timeZone, startPattern)} - ${formatInTimeZone(
+    end,
+    timeZone,
+    endPattern,
+  )}`;
+};
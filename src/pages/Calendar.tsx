@@ -1,7 +1,9 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { CalendarView } from "@/components/calendar/CalendarView";
 import { EventModal } from "@/components/calendar/EventModal";
+import { AttendeeList } from "@/components/calendar/AttendeeList";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -12,6 +14,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import {
   Plus,
@@ -20,40 +24,214 @@ import {
   Clock,
   DollarSign,
   Navigation,
+  Repeat,
+  Download,
+  Upload,
+  CircleAlert,
+  CalendarSearch,
+  Users,
+  Eye,
 } from "lucide-react";
 import { useAuth } from "@/store/authStore";
 import { useCalendarStore } from "@/store/calendarStore";
-import { Event, HangoutEvent, CreateEventInput } from "@/types";
+import {
+  Event,
+  EventOccurrence,
+  HangoutEvent,
+  CreateEventInput,
+  RecurrenceEditScope,
+  RsvpStatus,
+} from "@/types";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getMinMatchScore } from "@/lib/compatibility";
+import {
+  MAX_RSVP_NOTE_LENGTH,
+  RSVP_LABELS,
+  RSVP_STATUSES,
+  getInvitees,
+  getRsvpStatus,
+} from "@/lib/invitations";
+import {
+  EVENT_VISIBILITY_LABELS,
+  getDefaultEventVisibility,
+  getEventVisibility,
+} from "@/lib/eventVisibility";
+import {
+  formatRangeInTimeZone,
+  getTimeZoneAbbreviation,
+  resolveTimeZone,
+  toZonedDate,
+} from "@/lib/timezone";
+import {
+  CALENDAR_DATE_PARAM_FORMAT,
+  CalendarViewMode,
+  parseCalendarDateParam,
+  parseCalendarViewMode,
+} from "@/lib/calendarView";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
 const Calendar = () => {
   const { user } = useAuth();
+  // Everything on this page is shown in the user's home zone
+  const timeZone = resolveTimeZone(user?.timeZone);
   const {
     events,
+    friendEvents,
+    invitedEvents,
     createEvent,
-    deleteEvent,
+    updateOccurrence,
+    deleteOccurrence,
+    rescheduleEvent,
+    inviteToEvent,
+    respondToInvitation,
+    importEvents,
+    exportEvents,
     getOverlappingHangouts,
     checkEventOverlap,
-  } = useCalendarStore(user?.id);
+    findGroupHangoutWindows,
+    getFriendHangoutsInRange,
+    getEventSyncStatus,
+    failedChanges,
+    retryFailedChanges,
+    discardFailedChanges,
+  } = useCalendarStore(user?.id, timeZone);
+  // View and focused date live in the query string (?view=week&date=2025-01-31)
+  // so a calendar position can be linked to
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = parseCalendarViewMode(searchParams.get("view"));
+  const focusDate =
+    parseCalendarDateParam(searchParams.get("date")) ||
+    toZonedDate(new Date(), timeZone);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  // End of a range dragged out on the time grid
+  const [selectedEndDate, setSelectedEndDate] = useState<Date | undefined>();
   const [showEventModal, setShowEventModal] = useState(false);
-  const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<EventOccurrence | null>(
+    null,
+  );
   const [showEventDetails, setShowEventDetails] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<EventOccurrence | null>(
+    null,
+  );
+  const [rsvpNote, setRsvpNote] = useState("");
+  const [isResponding, setIsResponding] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Someone else's hangout the user was invited to, kept current as
+  // answers come in
+  const invitation = selectedEvent
+    ? invitedEvents.find(
+        (event) =>
+          event.id === (selectedEvent.recurringEventId || selectedEvent.id),
+      )
+    : undefined;
+
+  const updateCalendarParams = (next: {
+    view?: CalendarViewMode;
+    date?: Date;
+  }) => {
+    const params = new URLSearchParams(searchParams);
+    if (next.view) params.set("view", next.view);
+    if (next.date) {
+      params.set("date", format(next.date, CALENDAR_DATE_PARAM_FORMAT));
+    }
+    setSearchParams(params, { replace: true });
+  };
 
   const handleDateSelect = (date: Date) => {
     setSelectedDate(date);
+    setSelectedEndDate(undefined);
+    setEditingEvent(null);
     setShowEventModal(true);
   };
 
-  const handleEventClick = (event: Event) => {
+  const handleRangeSelect = (start: Date, end: Date) => {
+    setSelectedDate(start);
+    setSelectedEndDate(end);
+    setEditingEvent(null);
+    setShowEventModal(true);
+  };
+
+  // The calendar already shows the new times; a failed save puts them back
+  const handleRescheduleEvent = async (
+    event: EventOccurrence,
+    times: { startTime: string; endTime: string },
+  ) => {
+    const success = await rescheduleEvent(
+      event.id,
+      times.startTime,
+      times.endTime,
+    );
+    if (!success) {
+      toast.error("Couldn't move the event, so it was put back");
+    } else if (event.recurringEventId) {
+      toast.success("Moved this occurrence only");
+    }
+  };
+
+  const handleEventClick = (event: EventOccurrence) => {
     setSelectedEvent(event);
+    setRsvpNote((event as HangoutEvent).rsvps?.[user?.id]?.note || "");
     setShowEventDetails(true);
   };
 
-  const handleCreateEvent = (eventData: CreateEventInput) => {
+  const handleRespond = async (status: RsvpStatus) => {
+    if (!selectedEvent) return;
+
+    setIsResponding(true);
+    try {
+      if (await respondToInvitation(selectedEvent.id, status, rsvpNote)) {
+        toast.success(`Answered "${RSVP_LABELS[status]}"`);
+      } else {
+        toast.error("Couldn't send your answer");
+      }
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  const handleEditEvent = () => {
+    if (!selectedEvent) return;
+    setEditingEvent(selectedEvent);
+    setShowEventDetails(false);
+    setShowEventModal(true);
+  };
+
+  const handleSubmitEvent = (
+    eventData: CreateEventInput,
+    scope?: RecurrenceEditScope,
+  ) => {
+    if (editingEvent) {
+      handleUpdateEvent(editingEvent, eventData, scope || "following");
+    } else {
+      handleCreateEvent(eventData);
+    }
+  };
+
+  const handleUpdateEvent = async (
+    event: EventOccurrence,
+    eventData: CreateEventInput,
+    scope: RecurrenceEditScope,
+  ) => {
+    const success = await updateOccurrence(event.id, eventData, scope);
+    if (success) {
+      toast.success("Event updated successfully");
+      setEditingEvent(null);
+      setSelectedEvent(null);
+    } else {
+      toast.error("Failed to update event");
+    }
+  };
+
+  const handleCreateEvent = async (eventData: CreateEventInput) => {
     try {
-      const newEvent = createEvent(eventData);
+      const newEvent = await createEvent(eventData);
+      if (!newEvent) {
+        toast.error("Failed to create event");
+        return;
+      }
+
       toast.success(
         `${eventData.type === "hangout" ? "Hangout" : "Event"} created successfully!`,
       );
@@ -69,9 +247,9 @@ const Calendar = () => {
     }
   };
 
-  const handleDeleteEvent = () => {
+  const handleDeleteEvent = async (scope: RecurrenceEditScope = "this") => {
     if (selectedEvent) {
-      const success = deleteEvent(selectedEvent.id);
+      const success = await deleteOccurrence(selectedEvent.id, scope);
       if (success) {
         toast.success("Event deleted successfully");
         setShowEventDetails(false);
@@ -82,9 +260,70 @@ const Calendar = () => {
     }
   };
 
+  const handleExportEvents = () => {
+    if (events.length === 0) {
+      toast.info("No events to export");
+      return;
+    }
+
+    const blob = new Blob([exportEvents()], {
+      type: "text/calendar;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `calendar-${format(new Date(), "yyyy-MM-dd")}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const { imported, duplicates, failed, skipped } = await importEvents(
+        await file.text(),
+      );
+
+      if (
+        imported === 0 &&
+        duplicates === 0 &&
+        failed === 0 &&
+        skipped.length === 0
+      ) {
+        toast.error("No events found in this file");
+        return;
+      }
+
+      const skippedTitles = skipped.map((event) => event.title).join(", ");
+      const description = [
+        duplicates > 0 && `${duplicates} already on your calendar`,
+        failed > 0 && `${failed} could not be imported`,
+        skipped.length > 0 &&
+          `${skipped.length} skipped because they repeat in a way we can't show (${skippedTitles})`,
+      ]
+        .filter(Boolean)
+        .join(", ");
+
+      // Anything left out means the calendar isn't complete
+      if (failed > 0 || skipped.length > 0) {
+        toast.warning(`Imported ${imported} event(s)`, { description });
+      } else {
+        toast.success(`Imported ${imported} event(s)`, { description });
+      }
+    } catch (error) {
+      console.error("Error importing calendar file:", error);
+      toast.error("Failed to import calendar file");
+    }
+  };
+
   const renderEventDetails = (event: Event) => {
     const isHangout = event.type === "hangout";
     const hangoutEvent = isHangout ? (event as HangoutEvent) : null;
+    const attendees = invitation || hangoutEvent;
 
     return (
       <div className="space-y-4">
@@ -104,11 +343,34 @@ const Calendar = () => {
           <div className="flex items-center space-x-2 text-sm text-muted-foreground">
             <Clock className="h-4 w-4" />
             <span>
-              {format(new Date(event.startTime), "MMM d, yyyy h:mm a")} -{" "}
-              {format(new Date(event.endTime), "h:mm a")}
+              {formatRangeInTimeZone(
+                event.startTime,
+                event.endTime,
+                timeZone,
+                "MMM d, yyyy h:mm a",
+              )}{" "}
+              {getTimeZoneAbbreviation(event.startTime, timeZone)}
             </span>
           </div>
 
+          {event.recurrence && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <Repeat className="h-4 w-4" />
+              <span>{describeRecurrence(event.recurrence)}</span>
+            </div>
+          )}
+
+          {!invitation && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <Eye className="h-4 w-4" />
+              <span>
+                {EVENT_VISIBILITY_LABELS[getEventVisibility(event)].label}
+                {getEventVisibility(event) === "selected" &&
+                  ` (${event.sharedWith?.length || 0})`}
+              </span>
+            </div>
+          )}
+
           {event.description && (
             <div className="text-sm">
               <p className="font-medium mb-1">Description:</p>
@@ -159,6 +421,62 @@ const Calendar = () => {
                   </span>
                 </div>
               )}
+
+              {hangoutEvent.location && (
+                <div className="flex items-center space-x-2 text-sm">
+                  <MapPin className="h-4 w-4" />
+                  <span>Starting from {hangoutEvent.location.label}</span>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {attendees && getInvitees(attendees).length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <h4 className="font-medium flex items-center space-x-2">
+                <Users className="h-4 w-4" />
+                <span>Who's Coming</span>
+              </h4>
+              <AttendeeList event={attendees} />
+            </div>
+          </>
+        )}
+
+        {invitation && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <h4 className="font-medium">
+                Your answer:{" "}
+                {RSVP_LABELS[getRsvpStatus(invitation, user?.id) || "pending"]}
+              </h4>
+              <Textarea
+                placeholder="Add a note for the host (optional)"
+                value={rsvpNote}
+                maxLength={MAX_RSVP_NOTE_LENGTH}
+                onChange={(e) => setRsvpNote(e.target.value)}
+                rows={2}
+              />
+              <div className="flex flex-wrap gap-2">
+                {RSVP_STATUSES.map((status) => (
+                  <Button
+                    key={status}
+                    size="sm"
+                    variant={
+                      getRsvpStatus(invitation, user?.id) === status
+                        ? "default"
+                        : "outline"
+                    }
+                    disabled={isResponding}
+                    onClick={() => handleRespond(status)}
+                  >
+                    {RSVP_LABELS[status]}
+                  </Button>
+                ))}
+              </div>
             </div>
           </>
         )}
@@ -177,12 +495,72 @@ const Calendar = () => {
               Manage your events and hangouts
             </p>
           </div>
-          <Button onClick={() => setShowEventModal(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            New Event
-          </Button>
+          <div className="flex items-center space-x-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import .ics
+            </Button>
+            <Button variant="outline" onClick={handleExportEvents}>
+              <Download className="mr-2 h-4 w-4" />
+              Export .ics
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/planner">
+                <CalendarSearch className="mr-2 h-4 w-4" />
+                Find a Time
+              </Link>
+            </Button>
+            <Button
+              onClick={() => {
+                setEditingEvent(null);
+                setShowEventModal(true);
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              New Event
+            </Button>
+          </div>
         </div>
 
+        {failedChanges.length > 0 && (
+          <Alert variant="destructive">
+            <CircleAlert className="h-4 w-4" />
+            <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                {failedChanges.length === 1
+                  ? "1 change to your calendar couldn't be saved."
+                  : `${failedChanges.length} changes to your calendar couldn't be saved.`}
+              </span>
+              <span className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={retryFailedChanges}
+                >
+                  Retry
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={discardFailedChanges}
+                >
+                  Discard
+                </Button>
+              </span>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Calendar Component */}
         <CalendarView
           events={events}
@@ -190,15 +568,34 @@ const Calendar = () => {
           onEventClick={handleEventClick}
           getOverlappingHangouts={getOverlappingHangouts}
           checkEventOverlap={checkEventOverlap}
+          findGroupHangoutWindows={findGroupHangoutWindows}
+          getFriendHangoutsInRange={getFriendHangoutsInRange}
+          friendEvents={friendEvents}
           selectedDate={selectedDate}
+          view={view}
+          onViewChange={(next) => updateCalendarParams({ view: next })}
+          focusDate={focusDate}
+          onFocusDateChange={(date) => updateCalendarParams({ date })}
+          timeZone={timeZone}
+          onRangeSelect={handleRangeSelect}
+          onEventReschedule={handleRescheduleEvent}
+          getEventSyncStatus={getEventSyncStatus}
+          minMatchScore={getMinMatchScore(user)}
+          invitedEvents={invitedEvents}
+          onInvite={(event, friendIds) => inviteToEvent(event.id, friendIds)}
         />
 
         {/* Event Creation Modal */}
         <EventModal
           open={showEventModal}
           onOpenChange={setShowEventModal}
-          onSubmit={handleCreateEvent}
+          onSubmit={handleSubmitEvent}
           defaultDate={selectedDate}
+          defaultEndDate={selectedEndDate}
+          event={editingEvent}
+          timeZone={timeZone}
+          defaultLocation={user?.homeArea}
+          defaultVisibility={getDefaultEventVisibility(user)}
         />
 
         {/* Event Details Modal */}
@@ -206,15 +603,44 @@ const Calendar = () => {
           <DialogContent className="sm:max-w-[500px]">
             <DialogHeader>
               <DialogTitle>Event Details</DialogTitle>
-              <DialogDescription>View and manage your event</DialogDescription>
+              <DialogDescription>
+                {invitation
+                  ? "You're invited to this hangout"
+                  : "View and manage your event"}
+              </DialogDescription>
             </DialogHeader>
 
             {selectedEvent && renderEventDetails(selectedEvent)}
 
             <DialogFooter className="flex justify-between">
-              <Button variant="destructive" onClick={handleDeleteEvent}>
-                Delete Event
-              </Button>
+              {invitation ? null : selectedEvent?.recurringEventId ? (
+                <>
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleDeleteEvent("this")}
+                  >
+                    Delete This Event
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleDeleteEvent("following")}
+                  >
+                    Delete This & Following
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="destructive"
+                  onClick={() => handleDeleteEvent()}
+                >
+                  Delete Event
+                </Button>
+              )}
+              {!invitation && (
+                <Button variant="outline" onClick={handleEditEvent}>
+                  Edit
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={() => setShowEventDetails(false)}
@@ -21,27 +21,74 @@ import {
   MapPin,
 } from "lucide-react";
 import { useAuth } from "@/store/authStore";
-import { useCalendarStore } from "@/store/calendarStore";
+import { useCalendarStore, GroupHangoutWindow } from "@/store/calendarStore";
 import { useMessageStore } from "@/store/messageStore";
 import { useNotificationStore } from "@/store/notificationStore";
 import { userStorage } from "@/utils/storage";
-import { Link } from "react-router-dom";
-import { format } from "date-fns";
+import { Link, useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { addDays, format } from "date-fns";
+import { RECURRENCE_HORIZON_DAYS, expandEvents } from "@/lib/recurrence";
+import {
+  describeCompatibility,
+  getMinMatchScore,
+  sortByCompatibility,
+} from "@/lib/compatibility";
 
 const Dashboard = () => {
   const { user } = useAuth();
-  const { events, getHangoutMatches, getAllFriendHangouts } = useCalendarStore(
-    user?.id,
-  );
-  const { conversations, getTotalUnreadCount } = useMessageStore(user?.id);
+  const {
+    events,
+    getHangoutMatches,
+    getMatchParticipant,
+    getMatchCompatibility,
+    acceptHangoutMatch,
+    declineHangoutMatch,
+    getAllFriendHangouts,
+    findGroupHangoutWindows,
+    friendEvents,
+  } = useCalendarStore(user?.id, user?.timeZone);
+  const { conversations, getTotalUnreadCount, createGroupConversation } =
+    useMessageStore(user?.id);
+  const navigate = useNavigate();
   const { notifications, getUnreadCount } = useNotificationStore(user?.id);
 
   // Initialize as empty array to prevent slice errors
   const [friendRequests, setFriendRequests] = useState<any[]>([]);
   
+  const [groupWindows, setGroupWindows] = useState<GroupHangoutWindow[]>([]);
+
+  // A matched group hangout gets its own chat with everyone who's free
+  const startGroupChat = async (window: GroupHangoutWindow) => {
+    try {
+      const conversation = await createGroupConversation(
+        window.friends.map((friend) => friend.id),
+        `Hangout ${format(new Date(window.start), "MMM d")}`,
+      );
+      navigate(`/messages?conversation=${conversation.id}`);
+    } catch (error) {
+      toast.error("Couldn't start the group chat");
+    }
+  };
+
   // Safely get friend hangouts
   const friendHangouts = getAllFriendHangouts() || [];
 
+  // Propose group hangouts where at least an hour is free for everyone
+  useEffect(() => {
+    let cancelled = false;
+
+    findGroupHangoutWindows({ minDurationMinutes: 60 }).then((windows) => {
+      if (!cancelled) {
+        setGroupWindows(Array.isArray(windows) ? windows.slice(0, 3) : []);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, events, friendEvents]);
+
   useEffect(() => {
     if (user && user.friendRequests && Array.isArray(user.friendRequests.received)) {
       try {
@@ -59,8 +106,14 @@ const Dashboard = () => {
     }
   }, [user]);
 
-  // Safely handle events array
-  const upcomingEvents = (Array.isArray(events) ? events : [])
+  // Safely handle events array; recurring series count by their next
+  // occurrences
+  const now = new Date();
+  const upcomingEvents = expandEvents(
+    Array.isArray(events) ? events : [],
+    now,
+    addDays(now, RECURRENCE_HORIZON_DAYS),
+  )
     .filter(
       (event) =>
         event && event.startTime && new Date(event.startTime) > new Date(),
@@ -78,7 +131,24 @@ const Dashboard = () => {
   const hangoutMatches = (() => {
     try {
       const matches = getHangoutMatches();
-      return Array.isArray(matches) ? matches.slice(0, 2) : [];
+      if (!Array.isArray(matches)) return [];
+
+      // Declined and expired matches are no longer actionable. The rest go
+      // best fit first, leaving out any below the user's bar; matches whose
+      // hangouts haven't loaded yet can't be scored, so they're kept.
+      const minScore = getMinMatchScore(user);
+      return sortByCompatibility(
+        matches
+          .filter(
+            (match) =>
+              match.status === "proposed" || match.status === "accepted",
+          )
+          .map((match) => ({ match, compatibility: getMatchCompatibility(match) })),
+      )
+        .filter(
+          ({ compatibility }) => !compatibility || compatibility.score >= minScore,
+        )
+        .slice(0, 3);
     } catch (error) {
       console.error("Error getting hangout matches:", error);
       return [];
@@ -324,8 +394,76 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        {/* Group Hangout Windows */}
+        {groupWindows.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Users className="h-5 w-5" />
+                <span>Group Hangout Windows</span>
+              </CardTitle>
+              <CardDescription>
+                Times when you and several friends are all free
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {groupWindows.map((window) => (
+                <div
+                  key={`${window.start}-${window.userIds.join("-")}`}
+                  className="flex items-center justify-between"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-1 text-sm font-medium">
+                      <Clock className="h-3 w-3" />
+                      <span>
+                        {format(new Date(window.start), "MMM d, h:mm a")} -{" "}
+                        {format(new Date(window.end), "h:mm a")}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {window.friends.map((f) => f.fullName).join(", ")}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <div className="flex -space-x-2">
+                      {window.friends.slice(0, 4).map((friend) => (
+                        <Avatar
+                          key={friend.id}
+                          className="h-8 w-8 border-2 border-background"
+                        >
+                          <AvatarImage
+                            src={friend.avatar}
+                            alt={friend.fullName}
+                          />
+                          <AvatarFallback className="text-xs">
+                            {getInitials(friend.fullName)}
+                          </AvatarFallback>
+                        </Avatar>
+                      ))}
+                    </div>
+                    <Badge variant="secondary" className="text-xs">
+                      {window.userIds.length} free
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startGroupChat(window)}
+                      aria-label="Start a group chat"
+                    >
+                      <MessageCircle className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Friends' Hangouts - Always visible */}
-        <FriendHangouts friendHangouts={friendHangouts} />
+        <FriendHangouts
+          friendHangouts={friendHangouts}
+          timeZone={user?.timeZone}
+        />
 
         {/* Friend Requests & Hangout Matches */}
         {(friendRequests.length > 0 || hangoutMatches.length > 0) && (
@@ -401,18 +539,21 @@ const Dashboard = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {hangoutMatches.map((match) => {
+                  {hangoutMatches.map(({ match, compatibility }) => {
                     const otherUserId = Array.isArray(match.users) ? match.users.find(
                       (id) => id !== user?.id,
                     ) : null;
                     
                     if (!otherUserId) return null;
                     
-                    const users = userStorage.getUsers();
-                    const otherUser = Array.isArray(users) ? users.find((u) => u.id === otherUserId) : null;
+                    const otherUser = getMatchParticipant(otherUserId);
                     
                     if (!otherUser) return null;
 
+                    const myResponse = user
+                      ? match.responses?.[user.id] || "pending"
+                      : "pending";
+
                     return (
                       <div
                         key={match.id}
@@ -440,13 +581,46 @@ const Dashboard = () => {
                             </p>
                           </div>
                         </div>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="h-8 px-2 text-xs"
-                        >
-                          View Details
-                        </Button>
+                        {compatibility && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs"
+                            title={compatibility.factors
+                              .map((factor) => factor.detail)
+                              .join("\n")}
+                          >
+                            {compatibility.score}% ·{" "}
+                            {describeCompatibility(compatibility.score)}
+                          </Badge>
+                        )}
+                        {match.status === "accepted" ? (
+                          <Badge className="text-xs bg-green-600">
+                            Confirmed
+                          </Badge>
+                        ) : myResponse === "accepted" ? (
+                          <Badge variant="secondary" className="text-xs">
+                            Waiting for {otherUser.fullName.split(" ")[0]}
+                          </Badge>
+                        ) : (
+                          <div className="flex space-x-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8 px-2 text-xs"
+                              onClick={() => acceptHangoutMatch(match.id)}
+                            >
+                              Accept
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 px-2 text-xs"
+                              onClick={() => declineHangoutMatch(match.id)}
+                            >
+                              Decline
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -1,13 +1,36 @@
+import { useEffect, useState } from "react";
+import { addDays } from "date-fns";
 import { Layout } from "@/components/layout/Layout";
 import { FriendHangouts } from "@/components/friends/FriendHangouts";
 import { useAuth } from "@/store/authStore";
-import { useCalendarStore } from "@/store/calendarStore";
+import { FriendHangout, useCalendarStore } from "@/store/calendarStore";
+import { RECURRENCE_HORIZON_DAYS } from "@/lib/recurrence";
+import { resolveTimeZone } from "@/lib/timezone";
 
 const FriendHangoutsPage = () => {
   const { user } = useAuth();
-  const { getAllFriendHangouts } = useCalendarStore(user?.id);
+  const timeZone = resolveTimeZone(user?.timeZone);
+  const { friendEvents, getFriendHangoutsInRange } = useCalendarStore(
+    user?.id,
+    timeZone,
+  );
+  const [friendHangouts, setFriendHangouts] = useState<FriendHangout[]>([]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    let cancelled = false;
+
+    const now = new Date();
+    getFriendHangoutsInRange(now, addDays(now, RECURRENCE_HORIZON_DAYS)).then(
+      (hangouts) => {
+        if (!cancelled) setFriendHangouts(hangouts);
+      },
+    );
 
-  const friendHangouts = getAllFriendHangouts() || [];
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, friendEvents]);
 
   return (
     <Layout>
@@ -22,7 +45,7 @@ const FriendHangoutsPage = () => {
           </p>
         </div>
 
-        <FriendHangouts friendHangouts={friendHangouts} />
+        <FriendHangouts friendHangouts={friendHangouts} timeZone={timeZone} />
       </div>
     </Layout>
   );
@@ -1,54 +1,83 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useSearchParams } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { MessagesList } from "@/components/messages/MessagesList";
 import { ChatWindow } from "@/components/messages/ChatWindow";
-import { MessageCircle } from "lucide-react";
+import { NewGroupDialog } from "@/components/messages/NewGroupDialog";
+import { Button } from "@/components/ui/button";
+import { Users } from "lucide-react";
+import { toast } from "sonner";
 import { useAuth } from "@/store/authStore";
 import { useMessageStore } from "@/store/messageStore";
-import { userStorage } from "@/utils/storage";
-import { Conversation, User } from "@/types";
+import { Conversation, Message } from "@/types";
 
 const Messages = () => {
   const { user } = useAuth();
-  const { conversations, createConversation, getConversationWithUser } =
-    useMessageStore(user?.id);
+  const {
+    conversations,
+    isLoading,
+    createConversation,
+    createGroupConversation,
+    loadConversations,
+  } = useMessageStore(user?.id);
   const [searchParams] = useSearchParams();
-  const [selectedConversation, setSelectedConversation] =
-    useState<Conversation | null>(null);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [selectedConversationId, setSelectedConversationId] = useState<
+    string | null
+  >(null);
+  // A search result to jump to in the open conversation
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
   const [showMobileChat, setShowMobileChat] = useState(false);
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const handledLink = useRef<string | null>(null);
 
-  // Handle deep linking to a specific user conversation
+  // Follow the live list so renames, new members and new messages show up
+  const selectedConversation =
+    conversations.find((conv) => conv.id === selectedConversationId) || null;
+
+  const openConversation = (conversationId: string, messageId?: string) => {
+    setSelectedConversationId(conversationId);
+    setFocusMessageId(messageId || null);
+    setShowMobileChat(true);
+  };
+
+  // Deep links: ?user=<friendId> opens (or starts) a direct chat and
+  // ?conversation=<id> opens an existing one. Each link is handled once,
+  // after conversations load so an existing chat is reused.
   useEffect(() => {
+    const link = searchParams.toString();
+    if (!user || isLoading || handledLink.current === link) return;
+    handledLink.current = link;
+
+    const conversationId = searchParams.get("conversation");
+    if (conversationId) {
+      openConversation(conversationId);
+      return;
+    }
+
     const userId = searchParams.get("user");
-    if (userId && user) {
-      const users = userStorage.getUsers();
-      const targetUser = users.find((u) => u.id === userId);
+    if (userId && user.friends.includes(userId)) {
+      createConversation(userId)
+        .then((conversation) => openConversation(conversation.id))
+        .catch(() => toast.error("Couldn't open the conversation"));
+    }
+  }, [searchParams, user?.id, isLoading]);
 
-      if (targetUser && user.friends.includes(userId)) {
-        // Check if conversation exists
-        let conversation = getConversationWithUser(userId);
+  const handleConversationSelect = (conversation: Conversation) => {
+    openConversation(conversation.id);
+  };
 
-        // Create conversation if it doesn't exist
-        if (!conversation) {
-          conversation = createConversation(userId);
-        }
+  const handleMessageSelect = (message: Message) => {
+    openConversation(message.conversationId, message.id);
+  };
 
-        setSelectedConversation(conversation);
-        setSelectedUser(targetUser);
-        setShowMobileChat(true);
-      }
+  const handleCreateGroup = async (memberIds: string[], name: string) => {
+    try {
+      const conversation = await createGroupConversation(memberIds, name);
+      openConversation(conversation.id);
+    } catch (error) {
+      toast.error("Couldn't create the group");
+      throw error;
     }
-  }, [searchParams, user, getConversationWithUser, createConversation]);
-
-  const handleConversationSelect = (
-    conversation: Conversation,
-    otherUser: User,
-  ) => {
-    setSelectedConversation(conversation);
-    setSelectedUser(otherUser);
-    setShowMobileChat(true);
   };
 
   const handleBackToList = () => {
@@ -64,6 +93,10 @@ const Messages = () => {
             <h1 className="text-3xl font-bold tracking-tight">Messages</h1>
             <p className="text-muted-foreground">Chat with your friends</p>
           </div>
+          <Button variant="outline" onClick={() => setShowNewGroup(true)}>
+            <Users className="h-4 w-4 mr-2" />
+            New group
+          </Button>
         </div>
 
         {/* Messages Interface */}
@@ -76,6 +109,7 @@ const Messages = () => {
               conversations={conversations}
               selectedConversation={selectedConversation}
               onConversationSelect={handleConversationSelect}
+              onMessageSelect={handleMessageSelect}
             />
           </div>
 
@@ -85,12 +119,20 @@ const Messages = () => {
           >
             <ChatWindow
               conversation={selectedConversation}
-              otherUser={selectedUser}
               onBack={handleBackToList}
+              onConversationChange={loadConversations}
+              focusMessageId={focusMessageId}
+              onJumpToLatest={() => setFocusMessageId(null)}
             />
           </div>
         </div>
       </div>
+
+      <NewGroupDialog
+        open={showNewGroup}
+        onOpenChange={setShowNewGroup}
+        onCreate={handleCreateGroup}
+      />
     </Layout>
   );
 };
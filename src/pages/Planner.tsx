@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, format, parseISO } from "date-fns";
+import { Layout } from "@/components/layout/Layout";
+import { FriendPicker } from "@/components/messages/NewGroupDialog";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarSearch, Clock, Send, Users } from "lucide-react";
+import { toast } from "sonner";
+import { HangoutEvent } from "@/types";
+import { useAuth } from "@/store/authStore";
+import { useCalendarStore } from "@/store/calendarStore";
+import { useMessageStore } from "@/store/messageStore";
+import { useFriends } from "@/hooks/use-friends";
+import { MeetingSlot } from "@/lib/meetingPlanner";
+import { buildEventCard, describeHangoutCard } from "@/lib/hangoutCards";
+import { findGroupConversation } from "@/lib/conversations";
+import { RECURRENCE_HORIZON_DAYS } from "@/lib/recurrence";
+import {
+  formatInTimeZone,
+  formatRangeInTimeZone,
+  getDayBoundsInTimeZone,
+  getDayKey,
+  resolveTimeZone,
+} from "@/lib/timezone";
+
+const DURATION_OPTIONS = [30, 60, 90, 120, 180, 240];
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
+
+const formatDuration = (minutes: number) =>
+  minutes < 60
+    ? `${minutes} minutes`
+    : `${minutes / 60} hour${minutes === 60 ? "" : "s"}`;
+
+const formatHour = (hour: number) =>
+  hour % 24 === 0
+    ? "Midnight"
+    : hour === 12
+      ? "Noon"
+      : format(new Date(2000, 0, 1, hour), "h a");
+
+const PlannerPage = () => {
+  const { user } = useAuth();
+  const timeZone = resolveTimeZone(user?.timeZone);
+  const { createEvent, findMeetingTimes } = useCalendarStore(
+    user?.id,
+    timeZone,
+  );
+  const {
+    conversations,
+    createConversation,
+    createGroupConversation,
+    sendMessage,
+  } = useMessageStore(user?.id);
+  const friends = useFriends(true);
+  const navigate = useNavigate();
+
+  const today = getDayKey(new Date(), timeZone);
+  const [friendIds, setFriendIds] = useState<string[]>([]);
+  const [title, setTitle] = useState("Hangout");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(
+    getDayKey(addDays(new Date(), 6), timeZone),
+  );
+  const [durationMinutes, setDurationMinutes] = useState(120);
+  const [dayStartHour, setDayStartHour] = useState(9);
+  const [dayEndHour, setDayEndHour] = useState(22);
+  // Null until the first search
+  const [slots, setSlots] = useState<MeetingSlot[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [invitingSlot, setInvitingSlot] = useState<string | null>(null);
+
+  const lastDate = getDayKey(
+    addDays(new Date(), RECURRENCE_HORIZON_DAYS),
+    timeZone,
+  );
+
+  const handleSearch = async () => {
+    if (!startDate || !endDate || endDate < startDate) {
+      toast.error("Pick an end date on or after the start date");
+      return;
+    }
+    if (dayEndHour <= dayStartHour) {
+      toast.error("The day has to end after it starts");
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      setSlots(
+        await findMeetingTimes(friendIds, {
+          rangeStart: getDayBoundsInTimeZone(parseISO(startDate), timeZone)
+            .start,
+          rangeEnd: getDayBoundsInTimeZone(parseISO(endDate), timeZone).end,
+          durationMinutes,
+          dayStartHour,
+          dayEndHour,
+        }),
+      );
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // Puts the hangout on the user's calendar with everyone invited, and sends
+  // it to them as a card in the chat too
+  const handleInvite = async (slot: MeetingSlot) => {
+    const invitees = slot.userIds.filter((id) => id !== user?.id);
+    setInvitingSlot(slot.start);
+
+    try {
+      const event = await createEvent({
+        title: title.trim() || "Hangout",
+        startTime: slot.start,
+        endTime: slot.end,
+        type: "hangout",
+        timeZone,
+        preferences: { activitySuggestions: [] },
+        invitees,
+      });
+      if (!event) throw new Error("Failed to create event");
+
+      const conversation =
+        invitees.length === 1
+          ? await createConversation(invitees[0])
+          : findGroupConversation(conversations, [user.id, ...invitees]) ||
+            (await createGroupConversation(
+              invitees,
+              `Hangout ${formatInTimeZone(slot.start, timeZone, "MMM d")}`,
+            ));
+
+      const card = buildEventCard(event as HangoutEvent);
+      await sendMessage(conversation.id, describeHangoutCard(card, timeZone), {
+        card,
+      });
+      toast.success("Invite sent");
+      navigate(`/messages?conversation=${conversation.id}`);
+    } catch (error) {
+      console.error("Failed to send invite:", error);
+      toast.error("Couldn't send the invite");
+    } finally {
+      setInvitingSlot(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Find a Time</h1>
+          <p className="text-muted-foreground">
+            See when you and your friends are all free, then invite them in one
+            click
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Users className="h-5 w-5" />
+                <span>Who and When</span>
+              </CardTitle>
+              <CardDescription>
+                Free time comes from everyone's hangouts, less their other plans
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Friends</Label>
+                <FriendPicker
+                  friends={friends}
+                  selected={friendIds}
+                  onChange={setFriendIds}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="planner-title">Title</Label>
+                <Input
+                  id="planner-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Hangout"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="planner-from">From</Label>
+                  <Input
+                    id="planner-from"
+                    type="date"
+                    value={startDate}
+                    min={today}
+                    max={lastDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="planner-to">To</Label>
+                  <Input
+                    id="planner-to"
+                    type="date"
+                    value={endDate}
+                    min={startDate || today}
+                    max={lastDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="planner-duration">How long</Label>
+                <Select
+                  value={durationMinutes.toString()}
+                  onValueChange={(value) => setDurationMinutes(Number(value))}
+                >
+                  <SelectTrigger id="planner-duration">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={minutes.toString()}>
+                        {formatDuration(minutes)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="planner-day-start">Not before</Label>
+                  <Select
+                    value={dayStartHour.toString()}
+                    onValueChange={(value) => setDayStartHour(Number(value))}
+                  >
+                    <SelectTrigger id="planner-day-start">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-72">
+                      {HOURS.slice(0, -1).map((hour) => (
+                        <SelectItem key={hour} value={hour.toString()}>
+                          {formatHour(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="planner-day-end">Done by</Label>
+                  <Select
+                    value={dayEndHour.toString()}
+                    onValueChange={(value) => setDayEndHour(Number(value))}
+                  >
+                    <SelectTrigger id="planner-day-end">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-72">
+                      {HOURS.slice(1).map((hour) => (
+                        <SelectItem key={hour} value={hour.toString()}>
+                          {formatHour(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <Button
+                className="w-full"
+                onClick={handleSearch}
+                disabled={friendIds.length === 0 || isSearching}
+              >
+                <CalendarSearch className="mr-2 h-4 w-4" />
+                {isSearching ? "Searching..." : "Find times"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Clock className="h-5 w-5" />
+                <span>Suggested Times</span>
+              </CardTitle>
+              <CardDescription>
+                Longest stretches of shared free time first
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {slots === null ? (
+                <p className="text-sm text-muted-foreground">
+                  Pick some friends and a date range to see when you're all free
+                </p>
+              ) : slots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No time works for everyone. Try a wider date range, a shorter
+                  hangout or fewer friends.
+                </p>
+              ) : (
+                slots.map((slot) => (
+                  <div
+                    key={slot.start}
+                    className="flex items-center justify-between rounded-lg border p-3"
+                  >
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">
+                        {formatRangeInTimeZone(slot.start, slot.end, timeZone)}
+                      </p>
+                      {slot.windowEnd !== slot.end && (
+                        <p className="text-xs text-muted-foreground">
+                          Everyone's free{" "}
+                          {formatRangeInTimeZone(
+                            slot.windowStart,
+                            slot.windowEnd,
+                            timeZone,
+                          )}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        With{" "}
+                        {friends
+                          .filter((friend) => slot.userIds.includes(friend.id))
+                          .map((friend) => friend.fullName)
+                          .join(", ")}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="secondary" className="text-xs">
+                        {slot.userIds.length} free
+                      </Badge>
+                      <Button
+                        size="sm"
+                        onClick={() => handleInvite(slot)}
+                        disabled={invitingSlot !== null}
+                      >
+                        <Send className="mr-2 h-4 w-4" />
+                        {invitingSlot === slot.start ? "Sending..." : "Invite"}
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default PlannerPage;
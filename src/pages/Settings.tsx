@@ -1,5 +1,7 @@
 import { useState } from "react";
 import { Layout } from "@/components/layout/Layout";
+import { BlockedUsersCard } from "@/components/friends/BlockedUsersCard";
+import { LocationPicker } from "@/components/calendar/LocationPicker";
 import {
   Card,
   CardContent,
@@ -14,7 +16,15 @@ import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -34,13 +44,30 @@ import {
   Trash2,
   Save,
   Camera,
+  Eye,
+  Sparkles,
 } from "lucide-react";
+import { EventVisibility, GeoLocation } from "@/types";
 import { useAuth } from "@/store/authStore";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { toast } from "sonner";
 import { storage } from "@/utils/storage";
+import { dataProvider } from "@/services/dataProvider";
+import {
+  getTimeZoneAbbreviation,
+  getTimeZoneOptions,
+  resolveTimeZone,
+} from "@/lib/timezone";
+import { describeCompatibility, getMinMatchScore } from "@/lib/compatibility";
+import {
+  EVENT_VISIBILITIES,
+  EVENT_VISIBILITY_LABELS,
+  getDefaultEventVisibility,
+} from "@/lib/eventVisibility";
+
+const TIME_ZONE_OPTIONS = getTimeZoneOptions();
 
 const profileSchema = z.object({
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
@@ -66,6 +93,11 @@ const Settings = () => {
     messages: true,
     emailNotifications: false,
   });
+  const [timeZone, setTimeZone] = useState(resolveTimeZone(user?.timeZone));
+  const [minMatchScore, setMinMatchScore] = useState(getMinMatchScore(user));
+  const [homeArea, setHomeArea] = useState<GeoLocation | null>(
+    user?.homeArea || null,
+  );
 
   const {
     register,
@@ -102,8 +134,23 @@ const Settings = () => {
         fullName: data.fullName,
         username: data.username.toLowerCase(),
         email: data.email.toLowerCase(),
+        timeZone,
+        homeArea,
       };
 
+      // An explicit null clears a home area that was removed
+      const saved = await dataProvider.updateUser(user.id, {
+        fullName: updatedUser.fullName,
+        username: updatedUser.username,
+        email: updatedUser.email,
+        timeZone,
+        homeArea: homeArea || null,
+      });
+      if (!saved) {
+        toast.error("Failed to update profile");
+        return;
+      }
+
       updateUser(updatedUser);
       toast.success("Profile updated successfully!");
     } catch (error) {
@@ -111,6 +158,62 @@ const Settings = () => {
     }
   };
 
+  const handlePresenceChange = async (showPresence: boolean) => {
+    if (!user) return;
+
+    const privacy = { ...user.privacy, showPresence };
+    const saved = await dataProvider.updateUser(user.id, { privacy });
+    if (!saved) {
+      toast.error("Failed to update privacy settings");
+      return;
+    }
+
+    updateUser({ ...user, privacy });
+    toast.success(
+      showPresence
+        ? "Friends can see when you're online"
+        : "Your online status is now hidden",
+    );
+  };
+
+  const handleEventVisibilityChange = async (
+    eventVisibility: EventVisibility,
+  ) => {
+    if (!user) return;
+
+    const privacy = { ...user.privacy, eventVisibility };
+    const saved = await dataProvider.updateUser(user.id, { privacy });
+    if (!saved) {
+      toast.error("Failed to update privacy settings");
+      return;
+    }
+
+    updateUser({ ...user, privacy });
+    toast.success(
+      `New events are now ${EVENT_VISIBILITY_LABELS[eventVisibility].label.toLowerCase()}`,
+    );
+  };
+
+  const handleMinMatchScoreChange = async (score: number) => {
+    if (!user) return;
+
+    const saved = await dataProvider.updateUser(user.id, {
+      minMatchScore: score,
+    });
+    if (!saved) {
+      toast.error("Failed to update match settings");
+      setMinMatchScore(getMinMatchScore(user));
+      return;
+    }
+
+    updateUser({ ...user, minMatchScore: score });
+    toast.success(
+      score > 0
+        ? `Only showing matches scoring ${score}% or more`
+        : "Showing every hangout match",
+    );
+  };
+
   const handleDeleteAccount = () => {
     if (!user) return;
 
@@ -231,6 +334,40 @@ const Settings = () => {
                   )}
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="timeZone">Home Time Zone</Label>
+                  <Select value={timeZone} onValueChange={setTimeZone}>
+                    <SelectTrigger id="timeZone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-72">
+                      {TIME_ZONE_OPTIONS.map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone.replace(/_/g, " ")} (
+                          {getTimeZoneAbbreviation(new Date(), zone)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Your calendar is shown in this zone, and friends see your
+                    local times next to theirs.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="homeArea">Home Area (Optional)</Label>
+                  <LocationPicker
+                    id="homeArea"
+                    value={homeArea}
+                    onChange={setHomeArea}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    New hangouts start from here, so matches respect how far you
+                    and your friends will travel.
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="bio">Bio (Optional)</Label>
                   <Textarea
@@ -352,6 +489,98 @@ const Settings = () => {
           </Card>
         </div>
 
+        {/* Hangout Matching */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Sparkles className="h-5 w-5" />
+              <span>Hangout Matching</span>
+            </CardTitle>
+            <CardDescription>
+              Matches are scored on how long you overlap and how well your
+              activities, budgets and travel plans fit
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="min-match-score">Minimum Match Score</Label>
+              <span className="text-sm text-muted-foreground">
+                {minMatchScore > 0
+                  ? `${minMatchScore}% (${describeCompatibility(minMatchScore)})`
+                  : "Show all matches"}
+              </span>
+            </div>
+            <Slider
+              id="min-match-score"
+              min={0}
+              max={100}
+              step={5}
+              value={[minMatchScore]}
+              onValueChange={([score]) => setMinMatchScore(score)}
+              onValueCommit={([score]) => handleMinMatchScoreChange(score)}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Privacy Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Eye className="h-5 w-5" />
+              <span>Privacy</span>
+            </CardTitle>
+            <CardDescription>
+              Choose what friends can see about you
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="show-presence">Show Online Status</Label>
+                <p className="text-sm text-muted-foreground">
+                  Let friends see when you're online, when you were last seen
+                  and when you're typing
+                </p>
+              </div>
+              <Switch
+                id="show-presence"
+                checked={user.privacy?.showPresence !== false}
+                onCheckedChange={handlePresenceChange}
+              />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="event-visibility">Default Event Visibility</Label>
+              <Select
+                value={getDefaultEventVisibility(user)}
+                onValueChange={(value) =>
+                  handleEventVisibilityChange(value as EventVisibility)
+                }
+              >
+                <SelectTrigger id="event-visibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_VISIBILITIES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {EVENT_VISIBILITY_LABELS[option].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Who sees new events you create; you can change it for each
+                event. Friends who can't see an event's details see only that
+                you're busy.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <BlockedUsersCard />
+
         {/* Account Information */}
         <Card>
           <CardHeader>
@@ -0,0 +1,790 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { BackendService } from "./backend";
+import { Event, HangoutEvent, Presence } from "@/types";
+
+describe("BackendService", () => {
+  let backend: BackendService;
+
+  beforeEach(() => {
+    backend = new BackendService();
+  });
+
+  const register = async (username: string) => {
+    const result = await backend.createUserAccount(
+      `${username}@example.com`,
+      "Password1",
+      username,
+      username.toUpperCase(),
+    );
+    return result.user!;
+  };
+
+  it("should create, sign out and sign in users", async () => {
+    const user = await register("alex");
+    expect(backend.getCurrentUser()?.id).toBe(user.id);
+
+    await backend.signOutUser();
+    expect(backend.getCurrentUser()).toBeNull();
+
+    const failed = await backend.signInUser("alex@example.com", "wrong");
+    expect(failed.success).toBe(false);
+
+    const signedIn = await backend.signInUser("ALEX@example.com", "Password1");
+    expect(signedIn.success).toBe(true);
+    expect(signedIn.user?.id).toBe(user.id);
+  });
+
+  it("should notify auth listeners until unsubscribed", async () => {
+    const seen: (string | null)[] = [];
+    const unsubscribe = backend.onAuthStateChange((user) =>
+      seen.push(user?.username ?? null),
+    );
+
+    await register("sam");
+    unsubscribe();
+    await backend.signOutUser();
+
+    expect(seen).toEqual([null, "sam"]);
+  });
+
+  it("should run the friend request flow", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+
+    expect(await backend.sendFriendRequest(alex.id, sam.id)).toBe(true);
+    const [request] = await backend.getUserNotifications(sam.id);
+    expect(request.type).toBe("friend_request");
+
+    expect(await backend.acceptFriendRequest(sam.id, alex.id)).toBe(true);
+    const friends = await backend.getUserFriends(alex.id);
+    expect(friends.map((f) => f.id)).toEqual([sam.id]);
+  });
+
+  it("should update profile fields but not friend lists", async () => {
+    const alex = await register("alex");
+
+    expect(
+      await backend.updateUser(alex.id, {
+        timeZone: "Asia/Tokyo",
+        friends: ["someone"],
+      }),
+    ).toBe(true);
+    const [updated] = await backend.getAllUsers();
+    expect(updated.timeZone).toBe("Asia/Tokyo");
+    expect(updated.friends).toEqual([]);
+    expect(backend.getCurrentUser()?.timeZone).toBe("Asia/Tokyo");
+    expect(await backend.updateUser("missing", { fullName: "X" })).toBe(false);
+  });
+
+  it("should not leak internal state by reference", async () => {
+    const alex = await register("alex");
+    const [copy] = await backend.getAllUsers();
+    copy.friends.push("someone");
+
+    const [fresh] = await backend.getAllUsers();
+    expect(fresh.id).toBe(alex.id);
+    expect(fresh.friends).toEqual([]);
+  });
+
+  it("should look up users by id in the order asked for", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.blockUser(sam.id, alex.id);
+
+    const users = await backend.getUsersByIds([alex.id, "missing", sam.id]);
+    expect(users.map((u) => u.id)).toEqual([alex.id, sam.id]);
+    // Only the signed-in user's own profile carries their block list
+    expect(users[0].blockedUsers).toBeUndefined();
+    expect(users[1].blockedUsers).toEqual([alex.id]);
+  });
+
+  it("should create, update and delete events", async () => {
+    const alex = await register("alex");
+    const eventId = await backend.createEvent({
+      userId: alex.id,
+      title: "Coffee",
+      startTime: "2025-01-01T10:00:00.000Z",
+      endTime: "2025-01-01T11:00:00.000Z",
+      type: "personal",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+
+    expect(await backend.updateEvent(eventId!, { title: "Tea" })).toBe(true);
+    const [event] = await backend.getEventsByUserIds([alex.id]);
+    expect(event.title).toBe("Tea");
+
+    expect(await backend.deleteEvent(eventId!)).toBe(true);
+    expect(await backend.getUserEvents(alex.id)).toEqual([]);
+    expect(await backend.updateEvent(eventId!, { title: "Gone" })).toBe(false);
+  });
+
+  it("should push event changes to user and friends listeners", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    const own: string[][] = [];
+    const friends: string[][] = [];
+    const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+    const unsubscribeOwn = backend.subscribeToUserEvents(sam.id, (events) =>
+      own.push(events.map((e) => e.title)),
+    );
+    const unsubscribeFriends = backend.subscribeToFriendsEvents(
+      alex.id,
+      (events) => friends.push(events.map((e) => e.title)),
+    );
+    await flush();
+
+    const eventId = await backend.createEvent({
+      userId: sam.id,
+      title: "Coffee",
+      startTime: "2025-01-01T10:00:00.000Z",
+      endTime: "2025-01-01T11:00:00.000Z",
+      type: "hangout",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+    await flush();
+    expect(own.at(-1)).toEqual(["Coffee"]);
+    // Not friends yet, so alex can't see it
+    expect(friends.at(-1)).toEqual([]);
+
+    await backend.sendFriendRequest(alex.id, sam.id);
+    await backend.acceptFriendRequest(sam.id, alex.id);
+    await flush();
+    expect(friends.at(-1)).toEqual(["Coffee"]);
+
+    unsubscribeOwn();
+    unsubscribeFriends();
+    const seen = [own.length, friends.length];
+    await backend.deleteEvent(eventId!);
+    await flush();
+    expect([own.length, friends.length]).toEqual(seen);
+  });
+
+  it("should only show friends what each event's visibility allows", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.sendFriendRequest(alex.id, sam.id);
+    await backend.acceptFriendRequest(sam.id, alex.id);
+
+    const createFor = (title: string, extra: Partial<Event> = {}) =>
+      backend.createEvent({
+        userId: sam.id,
+        title,
+        startTime: "2025-01-01T10:00:00.000Z",
+        endTime: "2025-01-01T11:00:00.000Z",
+        type: "personal",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        ...extra,
+      });
+    await createFor("Lunch");
+    await createFor("Dentist", { visibility: "busy" });
+    await createFor("Diary", { visibility: "private" });
+    await createFor("Surprise party", {
+      visibility: "selected",
+      sharedWith: [alex.id],
+    });
+
+    const seen: string[][] = [];
+    const unsubscribe = backend.subscribeToFriendsEvents(alex.id, (events) =>
+      seen.push(events.map((e) => e.title)),
+    );
+    await new Promise((resolve) => setTimeout(resolve));
+    unsubscribe();
+    expect(seen.at(-1)).toEqual(["Lunch", "Busy", "Busy", "Surprise party"]);
+
+    // Signed in as sam, who sees all of their own
+    expect((await backend.getUserEvents(sam.id)).map((e) => e.title)).toEqual([
+      "Lunch",
+      "Dentist",
+      "Diary",
+      "Surprise party",
+    ]);
+    await backend.signInUser("alex@example.com", "Password1");
+    expect(
+      (await backend.getEventsByUserIds([sam.id])).map((e) => e.title),
+    ).toEqual(["Lunch", "Busy", "Busy", "Surprise party"]);
+  });
+
+  it("should only return friends' events, newest first", async () => {
+    const alex = await register("alex");
+    const jo = await register("jo");
+    const sam = await register("sam");
+    await backend.sendFriendRequest(sam.id, alex.id);
+    await backend.acceptFriendRequest(alex.id, sam.id);
+
+    const createFor = (userId: string, title: string, day: number) =>
+      backend.createEvent({
+        userId,
+        title,
+        startTime: `2025-01-0${day}T10:00:00.000Z`,
+        endTime: `2025-01-0${day}T11:00:00.000Z`,
+        type: "personal",
+        createdAt: "2025-01-01T00:00:00.000Z",
+      });
+    await createFor(sam.id, "Lunch", 1);
+    await createFor(sam.id, "Dinner", 3);
+    await createFor(alex.id, "Gym", 2);
+    await createFor(jo.id, "Party", 4);
+
+    // Signed in as sam
+    expect(
+      (await backend.getEventsByUserIds([alex.id, jo.id, sam.id])).map(
+        (e) => e.title,
+      ),
+    ).toEqual(["Dinner", "Gym", "Lunch"]);
+    expect(await backend.getUserEvents(jo.id)).toEqual([]);
+    expect((await backend.getUserEvents(sam.id)).map((e) => e.title)).toEqual([
+      "Dinner",
+      "Lunch",
+    ]);
+  });
+
+  it("should match hangouts against occurrences of a recurring series", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.sendFriendRequest(alex.id, sam.id);
+    await backend.acceptFriendRequest(sam.id, alex.id);
+
+    const firstWeek = new Date();
+    firstWeek.setDate(firstWeek.getDate() + 7);
+    firstWeek.setHours(18, 0, 0, 0);
+    const thirdWeek = new Date(firstWeek);
+    thirdWeek.setDate(thirdWeek.getDate() + 14);
+    const hours = (date: Date, count: number) =>
+      new Date(date.getTime() + count * 60 * 60 * 1000).toISOString();
+
+    const seriesId = await backend.createEvent({
+      userId: sam.id,
+      title: "Weekly free evening",
+      startTime: firstWeek.toISOString(),
+      endTime: hours(firstWeek, 3),
+      type: "hangout",
+      recurrence: { frequency: "weekly" },
+      createdAt: new Date().toISOString(),
+    });
+    const oneOffId = await backend.createEvent({
+      userId: alex.id,
+      title: "Dinner?",
+      startTime: hours(thirdWeek, 1),
+      endTime: hours(thirdWeek, 5),
+      type: "hangout",
+      createdAt: new Date().toISOString(),
+    });
+
+    const [match] = await backend.getUserHangoutMatches(alex.id);
+    expect(match.overlappingTime).toEqual({
+      start: hours(thirdWeek, 1),
+      end: hours(thirdWeek, 3),
+    });
+    expect(match.hangoutEvents).toContain(oneOffId);
+    expect(match.hangoutEvents).toContain(
+      `${seriesId}@${thirdWeek.toISOString()}`,
+    );
+  });
+
+  it("should keep matches in step with event edits and deletes", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.sendFriendRequest(alex.id, sam.id);
+    await backend.acceptFriendRequest(sam.id, alex.id);
+
+    const start = new Date();
+    start.setDate(start.getDate() + 3);
+    const hours = (count: number) =>
+      new Date(start.getTime() + count * 60 * 60 * 1000).toISOString();
+    const hangout = (userId: string, from: number, to: number) =>
+      backend.createEvent({
+        userId,
+        title: "Free",
+        startTime: hours(from),
+        endTime: hours(to),
+        type: "hangout",
+        createdAt: new Date().toISOString(),
+      });
+
+    await hangout(alex.id, 0, 2);
+    // Sam's hangout only overlaps once it's moved
+    const samEventId = await hangout(sam.id, 4, 6);
+    expect(await backend.getUserHangoutMatches(alex.id)).toEqual([]);
+
+    await backend.updateEvent(samEventId!, { startTime: hours(1) });
+    const [match] = await backend.getUserHangoutMatches(alex.id);
+    expect(match.overlappingTime).toEqual({ start: hours(1), end: hours(2) });
+    const notifications = await backend.getUserNotifications(alex.id);
+    expect(
+      notifications.filter((n) => n.data?.matchId === match.id),
+    ).toHaveLength(1);
+
+    await backend.deleteEvent(samEventId!);
+    expect(await backend.getUserHangoutMatches(sam.id)).toEqual([]);
+    expect(
+      (await backend.getUserNotifications(alex.id)).filter(
+        (n) => n.data?.matchId === match.id,
+      ),
+    ).toEqual([]);
+  });
+
+  it("should group messages into conversations", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.createConversation({
+      id: "c1",
+      type: "direct",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+
+    const message = (senderId: string, content: string, timestamp: string) =>
+      backend.sendMessage({
+        conversationId: "c1",
+        senderId,
+        content,
+        timestamp,
+      });
+    expect(await message(alex.id, "hi", "2025-01-01T10:00:00.000Z")).toBe(true);
+    expect(await message(sam.id, "hey", "2025-01-01T10:01:00.000Z")).toBe(true);
+    expect(await message("stranger", "psst", "2025-01-01T10:02:00.000Z")).toBe(
+      false,
+    );
+
+    const [conversation] = await backend.getUserConversations(sam.id);
+    expect(conversation.participants).toContain(alex.id);
+    expect(conversation.lastMessage?.content).toBe("hey");
+
+    const messages = await backend.getConversationMessages(conversation.id);
+    expect(messages.map((m) => m.content)).toEqual(["hi", "hey"]);
+
+    // Direct chats have fixed members
+    expect(await backend.addConversationMembers("c1", ["someone"])).toBe(false);
+
+    expect(await backend.deleteConversation(conversation.id)).toBe(true);
+    expect(await backend.getUserConversations(alex.id)).toEqual([]);
+  });
+
+  it("should page back through history and stream newer messages", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.createConversation({
+      id: "c1",
+      type: "direct",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+    for (let minute = 0; minute < 5; minute++) {
+      await backend.sendMessage({
+        conversationId: "c1",
+        senderId: alex.id,
+        content: `m${minute}`,
+        timestamp: `2025-01-01T10:0${minute}:00.000Z`,
+      });
+    }
+    const contents = (messages: { content: string }[]) =>
+      messages.map((m) => m.content);
+
+    const latest = await backend.getMessagesPage("c1", 2);
+    expect(contents(latest.messages)).toEqual(["m3", "m4"]);
+    expect(latest.hasMore).toBe(true);
+
+    const older = await backend.getMessagesPage("c1", 2, latest.messages[0]);
+    expect(contents(older.messages)).toEqual(["m1", "m2"]);
+    const oldest = await backend.getMessagesPage("c1", 2, older.messages[0]);
+    expect(contents(oldest.messages)).toEqual(["m0"]);
+    expect(oldest.hasMore).toBe(false);
+
+    const received: string[][] = [];
+    const unsubscribe = backend.subscribeToConversationMessages(
+      "c1",
+      latest.messages[1],
+      (messages) => received.push(contents(messages)),
+    );
+    await backend.sendMessage({
+      conversationId: "c1",
+      senderId: sam.id,
+      content: "new",
+      timestamp: "2025-01-01T11:00:00.000Z",
+    });
+    await new Promise((resolve) => setTimeout(resolve));
+    unsubscribe();
+    expect(received).toEqual([[], ["new"]]);
+  });
+
+  it("should search members' messages and open history around a hit", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.createConversation({
+      id: "c1",
+      type: "direct",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+    const contents = ["Dinner at the café?", "m1", "Café is closed", "m3"];
+    for (const [minute, content] of contents.entries()) {
+      await backend.sendMessage({
+        conversationId: "c1",
+        senderId: alex.id,
+        content,
+        timestamp: `2025-01-01T10:0${minute}:00.000Z`,
+      });
+    }
+    const search = async (userId: string, query: string) =>
+      (await backend.searchMessages(userId, query)).map((m) => m.content);
+
+    expect(await search(sam.id, "cafe")).toEqual([
+      "Café is closed",
+      "Dinner at the café?",
+    ]);
+    expect(await search(sam.id, "din caf")).toEqual(["Dinner at the café?"]);
+    expect(await search("stranger", "cafe")).toEqual([]);
+
+    const [first] = await backend.getConversationMessages("c1");
+    await backend.editMessage(first.id, alex.id, "Lunch instead?");
+    expect(await search(sam.id, "dinner")).toEqual([]);
+    expect(await search(sam.id, "lunch")).toEqual(["Lunch instead?"]);
+
+    const [closed] = await backend.searchMessages(sam.id, "closed");
+    const around = await backend.getMessagesAround("c1", closed.id, 1);
+    expect(around?.messages.map((m) => m.content)).toEqual([
+      "m1",
+      "Café is closed",
+      "m3",
+    ]);
+    expect(around?.hasMore).toBe(true);
+    expect(around?.hasNewer).toBe(false);
+    expect(await backend.getMessagesAround("c2", closed.id, 1)).toBeNull();
+  });
+
+  it("should edit, delete and react to messages", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.createConversation({
+      id: "c1",
+      type: "direct",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+    await backend.sendMessage({
+      conversationId: "c1",
+      senderId: alex.id,
+      content: "See you at 7",
+      timestamp: "2025-01-01T10:00:00.000Z",
+    });
+    const [sent] = await backend.getConversationMessages("c1");
+    const updates: string[][] = [];
+    const unsubscribe = backend.subscribeToMessageUpdates(
+      "c1",
+      "2025-01-01T00:00:00.000Z",
+      (messages) => updates.push(messages.map((m) => m.content)),
+    );
+
+    expect(await backend.editMessage(sent.id, sam.id, "Nope")).toBeNull();
+    const edited = await backend.editMessage(sent.id, alex.id, "See you at 8");
+    expect(edited?.edits?.[0].content).toBe("See you at 7");
+    expect(updates.at(-1)).toEqual(["See you at 8"]);
+
+    expect(await backend.toggleReaction(sent.id, "stranger", "👍")).toBeNull();
+    const reacted = await backend.toggleReaction(sent.id, sam.id, "👍");
+    expect(reacted?.reactions).toEqual({ "👍": [sam.id] });
+
+    await backend.deleteMessage(sent.id, sam.id, "me");
+    const deleted = await backend.deleteMessage(sent.id, alex.id, "everyone");
+    expect(deleted?.content).toBe("");
+    expect(deleted?.hiddenFor).toEqual([sam.id]);
+    // The conversation preview follows its last message
+    const [conversation] = await backend.getUserConversations(alex.id);
+    expect(conversation.lastMessage?.deletedAt).toBe(deleted?.deletedAt);
+    unsubscribe();
+  });
+
+  it("should store attachments and remove them with the message", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.createConversation({
+      id: "c1",
+      type: "direct",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+    const path = "attachments/c1/a1/plan.pdf";
+    const url = await backend.uploadFile(
+      path,
+      new Blob(["plan"]),
+      "application/pdf",
+    );
+    expect(url).toMatch(/^blob:/);
+
+    await backend.sendMessage({
+      conversationId: "c1",
+      senderId: alex.id,
+      content: "",
+      timestamp: "2025-01-01T10:00:00.000Z",
+      attachments: [
+        {
+          id: "a1",
+          kind: "file",
+          name: "plan.pdf",
+          contentType: "application/pdf",
+          size: 4,
+          url,
+          path,
+        },
+      ],
+    });
+    const [sent] = await backend.getConversationMessages("c1");
+
+    const hidden = await backend.deleteMessage(sent.id, sam.id, "me");
+    expect(hidden?.attachments).toHaveLength(1);
+    const deleted = await backend.deleteMessage(sent.id, alex.id, "everyone");
+    expect(deleted?.attachments).toEqual([]);
+    // Already gone along with the message
+    expect(await backend.deleteFile(path)).toBe(false);
+  });
+
+  it("should keep read cursors per member and only move them forward", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.createConversation({
+      id: "c1",
+      type: "group",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+    const cursor = (userId: string, messageId: string, minute: number) => ({
+      conversationId: "c1",
+      userId,
+      lastReadMessageId: messageId,
+      lastReadAt: `2025-01-01T10:0${minute}:00.000Z`,
+    });
+
+    expect(await backend.updateReadCursor(cursor(sam.id, "m2", 2))).toBe(true);
+    expect(await backend.updateReadCursor(cursor(sam.id, "m1", 1))).toBe(true);
+    expect(await backend.updateReadCursor(cursor("stranger", "m1", 1))).toBe(
+      false,
+    );
+
+    const [samCursor] = await backend.getReadCursors(["c1"]);
+    expect(samCursor.lastReadMessageId).toBe("m2");
+    // Reading never touches the conversation itself
+    const [conversation] = await backend.getUserConversations(sam.id);
+    expect(conversation.updatedAt).toBe("2025-01-01T09:00:00.000Z");
+
+    await backend.removeConversationMember("c1", sam.id);
+    expect(await backend.getReadCursors(["c1"])).toEqual([]);
+  });
+
+  it("should share presence and typing until cleared", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.createConversation({
+      id: "c1",
+      type: "direct",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+    const seen: string[][] = [];
+    const typing: string[][] = [];
+    const unsubscribePresence = backend.subscribeToPresence(
+      [sam.id],
+      (presence) => seen.push(presence.map((p) => p.state)),
+    );
+    const unsubscribeTyping = backend.subscribeToTyping("c1", (statuses) =>
+      typing.push(statuses.map((s) => s.userId)),
+    );
+
+    const now = new Date().toISOString();
+    await backend.updatePresence({
+      userId: sam.id,
+      state: "online",
+      lastActiveAt: now,
+      updatedAt: now,
+    });
+    // Only people in the conversation can type in it
+    expect(await backend.setTyping("c1", "stranger", true)).toBe(false);
+    expect(await backend.setTyping("c1", sam.id, true)).toBe(true);
+    expect(typing.at(-1)).toEqual([sam.id]);
+    await backend.setTyping("c1", sam.id, false);
+    expect(typing.at(-1)).toEqual([]);
+
+    // Hiding presence removes the record altogether
+    await backend.clearPresence(sam.id);
+    unsubscribePresence();
+    unsubscribeTyping();
+    expect(seen).toContainEqual(["online"]);
+    expect(seen.at(-1)).toEqual([]);
+
+    // Only friends see it
+    await backend.updatePresence({
+      userId: sam.id,
+      state: "online",
+      lastActiveAt: now,
+      updatedAt: now,
+    });
+    await backend.signInUser("alex@example.com", "Password1");
+    const seenByStranger: Presence[][] = [];
+    backend.subscribeToPresence([sam.id], (presence) =>
+      seenByStranger.push(presence),
+    )();
+    expect(seenByStranger).toEqual([[]]);
+  });
+
+  it("should manage group members and names", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    const jo = await register("jo");
+    await backend.createConversation({
+      id: "g1",
+      type: "group",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+
+    expect(await backend.addConversationMembers("g1", [jo.id, sam.id])).toBe(
+      true,
+    );
+    expect(await backend.renameConversation("g1", "  Dinner  ")).toBe(true);
+    const [group] = await backend.getUserConversations(jo.id);
+    expect(group.participants).toEqual([alex.id, sam.id, jo.id]);
+    expect(group.name).toBe("Dinner");
+
+    expect(await backend.removeConversationMember("g1", sam.id)).toBe(true);
+    expect(await backend.getUserConversations(sam.id)).toEqual([]);
+
+    await backend.sendMessage({
+      conversationId: "g1",
+      senderId: jo.id,
+      content: "Anyone?",
+      timestamp: "2025-01-01T10:00:00.000Z",
+    });
+    await backend.removeConversationMember("g1", alex.id);
+    // The last member leaving (jo, who's signed in) deletes the group
+    expect(await backend.removeConversationMember("g1", jo.id)).toBe(true);
+    expect(await backend.renameConversation("g1", "Gone")).toBe(false);
+    expect(await backend.getConversationMessages("g1")).toEqual([]);
+  });
+
+  it("should keep blocked users apart and honour muted conversations", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    await backend.sendFriendRequest(alex.id, sam.id);
+    await backend.acceptFriendRequest(sam.id, alex.id);
+    await backend.createConversation({
+      id: "c1",
+      type: "direct",
+      participants: [alex.id, sam.id],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+
+    expect(await backend.muteConversation("c1", sam.id, true)).toBe(true);
+    const notification = {
+      userId: sam.id,
+      type: "message" as const,
+      title: "New message",
+      message: "hi",
+      data: { conversationId: "c1", senderId: alex.id },
+      read: false,
+      createdAt: "2025-01-01T10:00:00.000Z",
+    };
+    expect(await backend.createNotification(notification)).toBeNull();
+    await backend.muteConversation("c1", sam.id, false);
+    expect(await backend.createNotification(notification)).not.toBeNull();
+
+    expect(await backend.blockUser(sam.id, alex.id)).toBe(true);
+    expect(await backend.getUserFriends(alex.id)).toEqual([]);
+    // Neither side can find or reach the other
+    expect(await backend.searchUsers("sam", alex.id)).toEqual([]);
+    expect(await backend.searchUsers("alex", sam.id)).toEqual([]);
+    expect(await backend.sendFriendRequest(alex.id, sam.id)).toBe(false);
+    expect(
+      await backend.sendMessage({
+        conversationId: "c1",
+        senderId: alex.id,
+        content: "hello?",
+        timestamp: "2025-01-01T10:05:00.000Z",
+      }),
+    ).toBe(false);
+    // Nobody else sees whom sam blocked
+    await backend.signInUser("alex@example.com", "Password1");
+    const profiles = await backend.getAllUsers();
+    expect(profiles.find((user) => user.id === sam.id).blockedUsers).toBe(
+      undefined,
+    );
+
+    const reportId = await backend.createReport({
+      reporterId: sam.id,
+      reportedUserId: alex.id,
+      reason: "harassment",
+      conversationId: "c1",
+    });
+    expect(reportId).toBeTruthy();
+
+    expect(await backend.unblockUser(sam.id, alex.id)).toBe(true);
+    expect(await backend.sendFriendRequest(alex.id, sam.id)).toBe(true);
+  });
+
+  it("should invite friends to hangouts and collect their answers", async () => {
+    const alex = await register("alex");
+    const sam = await register("sam");
+    const invitedLists: Event[][] = [];
+    const unsubscribe = backend.subscribeToInvitedEvents(sam.id, (events) =>
+      invitedLists.push(events),
+    );
+
+    const eventId = await backend.createEvent({
+      userId: alex.id,
+      title: "Board games",
+      startTime: "2025-01-10T18:00:00.000Z",
+      endTime: "2025-01-10T21:00:00.000Z",
+      type: "hangout",
+      preferences: { activitySuggestions: [] },
+      visibility: "friends",
+      invitees: [sam.id],
+      createdAt: "2025-01-01T09:00:00.000Z",
+    } as Omit<HangoutEvent, "id">);
+
+    const invites = (await backend.getUserNotifications(sam.id)).filter(
+      (notification) => notification.type === "event_invite",
+    );
+    expect(invites).toHaveLength(1);
+    expect(invites[0].message).toBe('ALEX invited you to "Board games"');
+    expect(invitedLists[invitedLists.length - 1].map((e) => e.id)).toEqual([
+      eventId,
+    ]);
+
+    // Only invitees answer, and only for themselves
+    const rsvp = {
+      status: "yes" as const,
+      respondedAt: "2025-01-02T09:00:00.000Z",
+    };
+    expect(
+      await backend.respondToInvitation(eventId, alex.id, rsvp),
+    ).toBeNull();
+    const answered = await backend.respondToInvitation(eventId, sam.id, rsvp);
+    expect(answered?.rsvps).toEqual({ [sam.id]: rsvp });
+    const replies = (await backend.getUserNotifications(alex.id)).filter(
+      (notification) => notification.type === "event_rsvp",
+    );
+    expect(replies.map((notification) => notification.title)).toEqual([
+      "RSVP: Going",
+    ]);
+
+    // Uninviting takes the invitation back
+    await backend.updateEvent(eventId, {
+      invitees: [],
+    } as Partial<HangoutEvent>);
+    expect(
+      (await backend.getUserNotifications(sam.id)).filter(
+        (notification) => notification.type === "event_invite",
+      ),
+    ).toEqual([]);
+    expect(invitedLists[invitedLists.length - 1]).toEqual([]);
+    unsubscribe();
+  });
+});
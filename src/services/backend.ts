@@ -1,26 +1,138 @@
-import { User, Event, Message, Notification } from "@/types";
+import {
+  User,
+  Event,
+  EventRsvp,
+  HangoutEvent,
+  Message,
+  MessageDeleteScope,
+  Conversation,
+  ReadCursor,
+  Presence,
+  TypingStatus,
+  Notification,
+  HangoutMatch,
+  HangoutMatchResponse,
+  Report,
+} from "@/types";
+import {
+  AuthResult,
+  DataProvider,
+  MessagePage,
+  MessageWindow,
+  Unsubscribe,
+} from "@/services/types";
+import { getBrowserTimeZone } from "@/lib/timezone";
+import {
+  applyHangoutAccept,
+  applyMessageDelete,
+  applyMessageEdit,
+  applyReactionToggle,
+} from "@/lib/messages";
+import {
+  advanceReadCursor,
+  compareMessages,
+  getConversationMemberKey,
+} from "@/lib/conversations";
+import { getAttachmentPaths } from "@/lib/attachments";
+import {
+  MessageSearchIndex,
+  SEARCH_RESULT_LIMIT,
+  parseSearchQuery,
+} from "@/lib/search";
+import {
+  applyHangoutMatchResponse,
+  createHangoutMatchNotifications,
+  planHangoutMatches,
+  resolveHangoutMatchStatus,
+} from "@/lib/hangoutMatch";
+import { filterEventsForViewer } from "@/lib/eventVisibility";
+import { toPublicProfile } from "@/lib/profiles";
+import {
+  applyRsvp,
+  isInvitedTo,
+  planInvitationNotifications,
+} from "@/lib/invitations";
+import {
+  applyBlock,
+  applyUnblock,
+  isBlockedBetween,
+  isConversationBlocked,
+  isMatchBetween,
+  shouldDeliverNotification,
+  unlinkUser,
+} from "@/lib/moderation";
+
+const compareNewestFirst = (a: Event, b: Event) =>
+  new Date(b.startTime).getTime() - new Date(a.startTime).getTime();
 
 // In-memory storage that simulates a real database
-class BackendService {
+export class BackendService implements DataProvider {
   private users: Map<string, User> = new Map();
   private auth: Map<string, { password: string; userId: string }> = new Map();
   private events: Map<string, Event> = new Map();
   private messages: Map<string, Message> = new Map();
+  private messageIndex = new MessageSearchIndex();
+  // Uploaded attachments by storage path, served from object URLs
+  private files: Map<string, { data: Blob; url: string }> = new Map();
+  private conversations: Map<string, Conversation> = new Map();
+  // Keyed by conversation and member, as in Firestore
+  private readCursors: Map<string, ReadCursor> = new Map();
+  private presence: Map<string, Presence> = new Map();
+  // Also keyed by conversation and member
+  private typing: Map<string, TypingStatus> = new Map();
+  private hangoutMatches: Map<string, HangoutMatch> = new Map();
   private notifications: Map<string, Notification> = new Map();
+  private reports: Map<string, Report> = new Map();
   private currentUser: User | null = null;
+  private authListeners: Set<(user: User | null) => void> = new Set();
+  private eventListeners: Set<() => void> = new Set();
+  private messageListeners: Set<() => void> = new Set();
+  private presenceListeners: Set<() => void> = new Set();
 
   // Generate unique IDs
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 
+  // Hand out copies so callers can't mutate the "database" by reference
+  private clone<T>(value: T): T {
+    return structuredClone(value);
+  }
+
+  // Like the security rules, other people's profiles come back without
+  // their private fields
+  private viewUser(user: User): User {
+    return this.clone(
+      user.id === this.currentUser?.id ? user : toPublicProfile(user),
+    );
+  }
+
+  private setCurrentUser(user: User | null) {
+    this.currentUser = user;
+    this.authListeners.forEach((listener) => listener(this.clone(user)));
+  }
+
+  // Event listeners re-query on every change, like a Firestore snapshot
+  private notifyEventListeners() {
+    this.eventListeners.forEach((listener) => listener());
+  }
+
+  private listenForEventChanges(listener: () => void): Unsubscribe {
+    this.eventListeners.add(listener);
+    listener();
+
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
   // User Management
-  async createUser(
+  async createUserAccount(
     email: string,
     password: string,
     username: string,
     fullName: string,
-  ): Promise<{ success: boolean; error?: string; user?: User }> {
+  ): Promise<AuthResult> {
     try {
       console.log("Creating user account...", { email, username, fullName });
 
@@ -49,6 +161,7 @@ class BackendService {
           sent: [],
           received: [],
         },
+        timeZone: getBrowserTimeZone(),
         createdAt: new Date().toISOString(),
       };
 
@@ -56,8 +169,11 @@ class BackendService {
       this.users.set(userId, userData);
       this.auth.set(email.toLowerCase(), { password, userId });
 
+      // Like Firebase Auth, a new account is signed in straight away
+      this.setCurrentUser(userData);
+
       console.log("User created successfully:", userData);
-      return { success: true, user: userData };
+      return { success: true, user: this.clone(userData) };
     } catch (error: any) {
       console.error("Error creating user:", error);
       return {
@@ -67,10 +183,7 @@ class BackendService {
     }
   }
 
-  async signIn(
-    email: string,
-    password: string,
-  ): Promise<{ success: boolean; error?: string; user?: User }> {
+  async signInUser(email: string, password: string): Promise<AuthResult> {
     try {
       console.log("Signing in user...", email);
 
@@ -84,51 +197,102 @@ class BackendService {
         return { success: false, error: "User data not found" };
       }
 
-      this.currentUser = user;
+      this.setCurrentUser(user);
       console.log("User signed in successfully:", user);
-      return { success: true, user };
+      return { success: true, user: this.clone(user) };
     } catch (error: any) {
       console.error("Error signing in:", error);
       return { success: false, error: error.message || "Failed to sign in" };
     }
   }
 
-  async signOut(): Promise<void> {
-    this.currentUser = null;
+  async signOutUser(): Promise<void> {
+    this.setCurrentUser(null);
     console.log("User signed out");
   }
 
   getCurrentUser(): User | null {
-    return this.currentUser;
+    return this.clone(this.currentUser);
   }
 
   // Auth state listener simulation
-  onAuthStateChange(callback: (user: User | null) => void) {
+  onAuthStateChange(callback: (user: User | null) => void): Unsubscribe {
+    this.authListeners.add(callback);
+
     // Immediately call with current user
-    callback(this.currentUser);
+    callback(this.clone(this.currentUser));
 
     // Return unsubscribe function
-    return () => {};
+    return () => {
+      this.authListeners.delete(callback);
+    };
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).map((user) => this.viewUser(user));
+  }
+
+  async getUsersByIds(userIds: string[]): Promise<User[]> {
+    return userIds
+      .filter((userId) => this.users.has(userId))
+      .map((userId) => this.viewUser(this.users.get(userId)));
+  }
+
+  // Profile fields only; friend lists go through the friend request flow
+  // and block lists through blockUser
+  async updateUser(userId: string, updates: Partial<User>): Promise<boolean> {
+    try {
+      const user = this.users.get(userId);
+      if (!user) return false;
+
+      const { id, friends, friendRequests, blockedUsers, ...fields } =
+        this.clone(updates);
+      const updatedUser = { ...user, ...fields };
+      this.users.set(userId, updatedUser);
+
+      if (this.currentUser?.id === userId) {
+        this.setCurrentUser(updatedUser);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error updating user:", error);
+      return false;
+    }
   }
 
   // Search users
   async searchUsers(query: string, currentUserId: string): Promise<User[]> {
+    const searchTerm = query.toLowerCase().trim();
+    if (!searchTerm) return [];
+
     const results: User[] = [];
+    const currentUser = this.users.get(currentUserId);
 
     this.users.forEach((user) => {
       if (
         user.id !== currentUserId &&
-        (user.username.toLowerCase().includes(query.toLowerCase()) ||
-          user.fullName.toLowerCase().includes(query.toLowerCase()) ||
-          user.email.toLowerCase().includes(query.toLowerCase()))
+        !isBlockedBetween(currentUser, user) &&
+        (user.username.toLowerCase().includes(searchTerm) ||
+          user.fullName.toLowerCase().includes(searchTerm) ||
+          user.email.toLowerCase().includes(searchTerm))
       ) {
-        results.push(user);
+        results.push(this.viewUser(user));
       }
     });
 
     return results;
   }
 
+  async getUserFriends(userId: string): Promise<User[]> {
+    const user = this.users.get(userId);
+    if (!user) return [];
+
+    return user.friends
+      .map((friendId) => this.users.get(friendId))
+      .filter(Boolean)
+      .map((friend) => this.viewUser(friend));
+  }
+
   // Friend requests
   async sendFriendRequest(
     fromUserId: string,
@@ -138,14 +302,20 @@ class BackendService {
       const fromUser = this.users.get(fromUserId);
       const toUser = this.users.get(toUserId);
 
-      if (!fromUser || !toUser) return false;
+      if (!fromUser || !toUser || isBlockedBetween(fromUser, toUser)) {
+        return false;
+      }
 
       // Update sender's sent requests
-      fromUser.friendRequests.sent.push(toUserId);
+      if (!fromUser.friendRequests.sent.includes(toUserId)) {
+        fromUser.friendRequests.sent.push(toUserId);
+      }
       this.users.set(fromUserId, fromUser);
 
       // Update receiver's received requests
-      toUser.friendRequests.received.push(fromUserId);
+      if (!toUser.friendRequests.received.includes(fromUserId)) {
+        toUser.friendRequests.received.push(fromUserId);
+      }
       this.users.set(toUserId, toUser);
 
       // Create notification
@@ -155,8 +325,8 @@ class BackendService {
         userId: toUserId,
         type: "friend_request",
         title: "New Friend Request",
-        message: "Someone sent you a friend request",
-        data: { senderId: fromUserId },
+        message: "You have a new friend request",
+        data: { fromUserId },
         read: false,
         createdAt: new Date().toISOString(),
       };
@@ -183,15 +353,22 @@ class BackendService {
       user.friendRequests.received = user.friendRequests.received.filter(
         (id) => id !== requesterId,
       );
-      user.friends.push(requesterId);
+      if (!user.friends.includes(requesterId)) {
+        user.friends.push(requesterId);
+      }
       this.users.set(userId, user);
 
       requester.friendRequests.sent = requester.friendRequests.sent.filter(
         (id) => id !== userId,
       );
-      requester.friends.push(userId);
+      if (!requester.friends.includes(userId)) {
+        requester.friends.push(userId);
+      }
       this.users.set(requesterId, requester);
 
+      // Each side can now see the other's events
+      this.notifyEventListeners();
+
       return true;
     } catch (error) {
       console.error("Error accepting friend request:", error);
@@ -226,22 +403,80 @@ class BackendService {
     }
   }
 
+  async blockUser(userId: string, blockedUserId: string): Promise<boolean> {
+    try {
+      const user = this.users.get(userId);
+      const blocked = this.users.get(blockedUserId);
+      if (!user || !blocked || userId === blockedUserId) return false;
+
+      this.users.set(userId, applyBlock(user, blockedUserId));
+      this.users.set(blockedUserId, unlinkUser(blocked, userId));
+      this.removeHangoutMatchesBetween(userId, blockedUserId);
+
+      if (this.currentUser?.id === userId) {
+        this.setCurrentUser(this.users.get(userId));
+      }
+      // Neither side sees the other's events any more
+      this.notifyEventListeners();
+      return true;
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      return false;
+    }
+  }
+
+  async unblockUser(userId: string, blockedUserId: string): Promise<boolean> {
+    try {
+      const user = this.users.get(userId);
+      if (!user) return false;
+
+      this.users.set(userId, applyUnblock(user, blockedUserId));
+      if (this.currentUser?.id === userId) {
+        this.setCurrentUser(this.users.get(userId));
+      }
+      return true;
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      return false;
+    }
+  }
+
+  async createReport(
+    report: Omit<Report, "id" | "status" | "createdAt">,
+  ): Promise<string | null> {
+    try {
+      const reportId = this.generateId();
+      this.reports.set(reportId, {
+        ...this.clone(report),
+        id: reportId,
+        status: "open",
+        createdAt: new Date().toISOString(),
+      });
+      return reportId;
+    } catch (error) {
+      console.error("Error creating report:", error);
+      return null;
+    }
+  }
+
   // Events
-  async createEvent(event: Omit<Event, "id">): Promise<string | null> {
+  async createEvent(
+    event: Omit<Event, "id"> & { id?: string },
+  ): Promise<string | null> {
     try {
-      const eventId = this.generateId();
+      const eventId = event.id || this.generateId();
+      if (this.events.has(eventId)) return eventId;
+
       const eventData: Event = {
-        ...event,
+        ...this.clone(event),
         id: eventId,
-        createdAt: new Date().toISOString(),
+        createdAt: event.createdAt || new Date().toISOString(),
       };
 
       this.events.set(eventId, eventData);
-
-      // Check for hangout overlaps
-      if (event.type === "hangout") {
-        this.checkForHangoutOverlaps(eventId, event);
-      }
+      this.syncHangoutMatches(eventId);
+      this.syncInvitations(null, eventData);
+      this.notifyEventListeners();
 
       return eventId;
     } catch (error) {
@@ -250,19 +485,105 @@ class BackendService {
     }
   }
 
+  // Like the security rules, other people's events come back as the signed-in
+  // user may see them, and only if they're friends. Newest first, as the
+  // Firestore queries return them.
   async getUserEvents(userId: string): Promise<Event[]> {
-    const userEvents: Event[] = [];
+    if (userId !== this.currentUser?.id) {
+      return this.getEventsByUserIds([userId]);
+    }
 
+    const userEvents: Event[] = [];
     this.events.forEach((event) => {
       if (event.userId === userId) {
-        userEvents.push(event);
+        userEvents.push(this.clone(event));
       }
     });
 
-    return userEvents.sort(
-      (a, b) =>
-        new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+    return userEvents.sort(compareNewestFirst);
+  }
+
+  async getEventsByUserIds(userIds: string[]): Promise<Event[]> {
+    const viewerId = this.currentUser?.id;
+    if (userIds.length === 0 || !viewerId) return [];
+
+    const friends = this.users.get(viewerId)?.friends || [];
+    const visible = userIds.filter(
+      (id) => id === viewerId || friends.includes(id),
     );
+    const events: Event[] = [];
+    this.events.forEach((event) => {
+      if (visible.includes(event.userId)) {
+        events.push(this.clone(event));
+      }
+    });
+
+    return filterEventsForViewer(events, viewerId).sort(compareNewestFirst);
+  }
+
+  subscribeToUserEvents(
+    userId: string,
+    callback: (events: Event[]) => void,
+  ): Unsubscribe {
+    return this.listenForEventChanges(async () => {
+      callback(await this.getUserEvents(userId));
+    });
+  }
+
+  subscribeToFriendsEvents(
+    userId: string,
+    callback: (events: Event[]) => void,
+  ): Unsubscribe {
+    return this.listenForEventChanges(async () => {
+      // Read the friend list on every change so new friends are picked up
+      const user = this.users.get(userId);
+      const events: Event[] = [];
+      this.events.forEach((event) => {
+        if (user?.friends.includes(event.userId)) {
+          events.push(this.clone(event));
+        }
+      });
+      callback(filterEventsForViewer(events, userId));
+    });
+  }
+
+  subscribeToInvitedEvents(
+    userId: string,
+    callback: (events: HangoutEvent[]) => void,
+  ): Unsubscribe {
+    return this.listenForEventChanges(async () => {
+      const invited: HangoutEvent[] = [];
+      this.events.forEach((event) => {
+        if (event.type === "hangout" && isInvitedTo(event, userId)) {
+          invited.push(this.clone(event) as HangoutEvent);
+        }
+      });
+      callback(invited);
+    });
+  }
+
+  async respondToInvitation(
+    eventId: string,
+    userId: string,
+    rsvp: EventRsvp,
+  ): Promise<HangoutEvent | null> {
+    try {
+      const event = this.events.get(eventId);
+      if (event?.type !== "hangout") return null;
+
+      const updated = applyRsvp(
+        event as HangoutEvent,
+        userId,
+        this.clone(rsvp),
+      );
+      this.events.set(eventId, updated);
+      this.syncInvitations(event, updated);
+      this.notifyEventListeners();
+      return this.clone(updated);
+    } catch (error) {
+      console.error("Error responding to invitation:", error);
+      return null;
+    }
   }
 
   async updateEvent(
@@ -271,10 +592,13 @@ class BackendService {
   ): Promise<boolean> {
     try {
       const event = this.events.get(eventId);
-      if (event) {
-        const updatedEvent = { ...event, ...updates };
-        this.events.set(eventId, updatedEvent);
-      }
+      if (!event) return false;
+
+      const updatedEvent = { ...event, ...this.clone(updates), id: eventId };
+      this.events.set(eventId, updatedEvent);
+      this.syncHangoutMatches(eventId);
+      this.syncInvitations(event, updatedEvent);
+      this.notifyEventListeners();
       return true;
     } catch (error) {
       console.error("Error updating event:", error);
@@ -282,9 +606,15 @@ class BackendService {
     }
   }
 
+  // Like Firestore, deleting an event that's already gone succeeds
   async deleteEvent(eventId: string): Promise<boolean> {
     try {
-      this.events.delete(eventId);
+      const event = this.events.get(eventId);
+      if (this.events.delete(eventId)) {
+        this.syncHangoutMatches(eventId);
+        this.syncInvitations(event, null);
+        this.notifyEventListeners();
+      }
       return true;
     } catch (error) {
       console.error("Error deleting event:", error);
@@ -292,120 +622,172 @@ class BackendService {
     }
   }
 
-  // Check for hangout overlaps
-  private checkForHangoutOverlaps(eventId: string, event: Omit<Event, "id">) {
-    try {
-      const userData = this.users.get(event.userId);
-      if (!userData) return;
-
-      const friends = userData.friends;
-
-      // Get all friend hangouts
-      friends.forEach((friendId) => {
-        this.events.forEach((friendEvent) => {
-          if (
-            friendEvent.userId === friendId &&
-            friendEvent.type === "hangout"
-          ) {
-            // Check for time overlap
-            const eventStart = new Date(event.startTime);
-            const eventEnd = new Date(event.endTime);
-            const friendStart = new Date(friendEvent.startTime);
-            const friendEnd = new Date(friendEvent.endTime);
-
-            const overlapStart = new Date(
-              Math.max(eventStart.getTime(), friendStart.getTime()),
-            );
-            const overlapEnd = new Date(
-              Math.min(eventEnd.getTime(), friendEnd.getTime()),
-            );
-
-            if (overlapStart <= overlapEnd) {
-              // Create hangout match notifications
-              const overlap = {
-                start: overlapStart.toISOString(),
-                end: overlapEnd.toISOString(),
-              };
-
-              // Notify both users
-              const notification1Id = this.generateId();
-              const notification1: Notification = {
-                id: notification1Id,
-                userId: event.userId,
-                type: "hangout_match",
-                title: "Hangout Match Found!",
-                message: "You have an overlapping hangout time with a friend",
-                data: {
-                  matchedUserId: friendId,
-                  overlappingTime: overlap,
-                  hangoutEvents: [eventId, friendEvent.id],
-                },
-                read: false,
-                createdAt: new Date().toISOString(),
-              };
-
-              const notification2Id = this.generateId();
-              const notification2: Notification = {
-                id: notification2Id,
-                userId: friendId,
-                type: "hangout_match",
-                title: "Hangout Match Found!",
-                message: "You have an overlapping hangout time with a friend",
-                data: {
-                  matchedUserId: event.userId,
-                  overlappingTime: overlap,
-                  hangoutEvents: [eventId, friendEvent.id],
-                },
-                read: false,
-                createdAt: new Date().toISOString(),
-              };
-
-              this.notifications.set(notification1Id, notification1);
-              this.notifications.set(notification2Id, notification2);
-            }
+  // Mirrors the Cloud Function that runs on every write to an event
+  private syncHangoutMatches(eventId: string) {
+    try {
+      const event = this.events.get(eventId) || null;
+      const owner = event ? this.users.get(event.userId) : null;
+      const friendEvents = Array.from(this.events.values()).filter(
+        (friendEvent) =>
+          owner?.friends.includes(friendEvent.userId) &&
+          !isBlockedBetween(owner, this.users.get(friendEvent.userId)),
+      );
+      const existing = Array.from(this.hangoutMatches.values()).filter(
+        (match) => match.sourceEvents?.includes(eventId),
+      );
+      const plan = planHangoutMatches(event, friendEvents, existing);
+
+      plan.create.forEach((match) => {
+        // Already recorded, so both users were already notified
+        if (this.hangoutMatches.has(match.id)) return;
+        this.hangoutMatches.set(match.id, match);
+
+        createHangoutMatchNotifications(match).forEach((notification) => {
+          const notificationId = this.generateId();
+          this.notifications.set(notificationId, {
+            ...notification,
+            id: notificationId,
+          });
+        });
+      });
+
+      plan.update.forEach((match) => this.hangoutMatches.set(match.id, match));
+
+      plan.remove.forEach((match) => {
+        this.hangoutMatches.delete(match.id);
+        this.notifications.forEach((notification, notificationId) => {
+          if (notification.data?.matchId === match.id) {
+            this.notifications.delete(notificationId);
           }
         });
       });
     } catch (error) {
-      console.error("Error checking hangout overlaps:", error);
+      console.error("Error syncing hangout matches:", error);
+    }
+  }
+
+  // Mirrors the Cloud Function that notifies invitees and hosts
+  private syncInvitations(before: Event | null, after: Event | null) {
+    try {
+      const plan = planInvitationNotifications(
+        before,
+        after,
+        (userId) => this.users.get(userId)?.fullName,
+      );
+      const eventId = after?.id || before?.id;
+
+      plan.create.forEach((notification) => {
+        const otherId =
+          notification.data.inviterId || notification.data.inviteeId;
+        if (
+          isBlockedBetween(
+            this.users.get(notification.userId),
+            this.users.get(otherId),
+          )
+        ) {
+          return;
+        }
+
+        const notificationId = this.generateId();
+        this.notifications.set(notificationId, {
+          ...notification,
+          id: notificationId,
+        });
+      });
+
+      this.notifications.forEach((notification, notificationId) => {
+        if (
+          notification.type === "event_invite" &&
+          notification.data?.eventId === eventId &&
+          plan.withdraw.includes(notification.userId)
+        ) {
+          this.notifications.delete(notificationId);
+        }
+      });
+    } catch (error) {
+      console.error("Error syncing invitations:", error);
+    }
+  }
+
+  private removeHangoutMatchesBetween(userId: string, otherUserId: string) {
+    this.hangoutMatches.forEach((match, matchId) => {
+      if (!isMatchBetween(match, userId, otherUserId)) return;
+
+      this.hangoutMatches.delete(matchId);
+      this.notifications.forEach((notification, notificationId) => {
+        if (notification.data?.matchId === matchId) {
+          this.notifications.delete(notificationId);
+        }
+      });
+    });
+  }
+
+  // Hangout matches
+  async getUserHangoutMatches(userId: string): Promise<HangoutMatch[]> {
+    return Array.from(this.hangoutMatches.values())
+      .filter((match) => match.users.includes(userId))
+      .map((match) => ({
+        ...this.clone(match),
+        status: resolveHangoutMatchStatus(match),
+      }))
+      .sort(
+        (a, b) =>
+          new Date(a.overlappingTime.start).getTime() -
+          new Date(b.overlappingTime.start).getTime(),
+      );
+  }
+
+  async respondToHangoutMatch(
+    matchId: string,
+    userId: string,
+    response: Exclude<HangoutMatchResponse, "pending">,
+  ): Promise<HangoutMatch | null> {
+    try {
+      const match = this.hangoutMatches.get(matchId);
+      if (!match) return null;
+
+      const updated = applyHangoutMatchResponse(match, userId, response);
+      this.hangoutMatches.set(matchId, updated);
+      return this.clone(updated);
+    } catch (error) {
+      console.error("Error responding to hangout match:", error);
+      return null;
     }
   }
 
   // Messages
+
+  // Every write goes through here so search stays in step with content
+  private saveMessage(message: Message) {
+    this.messages.set(message.id, message);
+    this.messageIndex.update(
+      message.id,
+      message.deletedAt ? "" : message.content,
+    );
+  }
+
   async sendMessage(
-    senderId: string,
-    receiverId: string,
-    content: string,
+    message: Omit<Message, "id"> & { id?: string },
   ): Promise<boolean> {
     try {
-      const messageId = this.generateId();
-      const conversationId = [senderId, receiverId].sort().join("-");
-
-      const message: Message = {
-        id: messageId,
-        senderId,
-        receiverId,
-        content,
-        timestamp: new Date().toISOString(),
-        read: false,
-      };
+      const conversation = this.conversations.get(message.conversationId);
+      if (
+        !conversation?.participants.includes(message.senderId) ||
+        (conversation.type !== "group" &&
+          isConversationBlocked(conversation, this.getMembers(conversation)))
+      ) {
+        return false;
+      }
 
-      this.messages.set(messageId, message);
+      const messageId = message.id || this.generateId();
+      if (this.messages.has(messageId)) return true;
 
-      // Create notification
-      const notificationId = this.generateId();
-      const notification: Notification = {
-        id: notificationId,
-        userId: receiverId,
-        type: "message",
-        title: "New Message",
-        message: "You received a new message",
-        data: { senderId },
-        read: false,
-        createdAt: new Date().toISOString(),
-      };
-      this.notifications.set(notificationId, notification);
+      const messageData: Message = { ...this.clone(message), id: messageId };
+      this.saveMessage(messageData);
 
+      conversation.lastMessage = this.clone(messageData);
+      conversation.updatedAt = message.timestamp;
+      this.messageListeners.forEach((listener) => listener());
       return true;
     } catch (error) {
       console.error("Error sending message:", error);
@@ -413,58 +795,548 @@ class BackendService {
     }
   }
 
-  getConversationMessages(
+  async getUserConversations(userId: string): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((conversation) => conversation.participants.includes(userId))
+      .sort(
+        (a, b) =>
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+      )
+      .map((conversation) => this.clone(conversation));
+  }
+
+  async getConversationMessages(conversationId: string): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter((message) => message.conversationId === conversationId)
+      .sort(compareMessages)
+      .map((message) => this.clone(message));
+  }
+
+  async getMessagesPage(
+    conversationId: string,
+    pageSize: number,
+    before?: Message,
+  ): Promise<MessagePage> {
+    const older = (await this.getConversationMessages(conversationId)).filter(
+      (message) => !before || compareMessages(message, before) < 0,
+    );
+
+    return {
+      messages: older.slice(Math.max(older.length - pageSize, 0)),
+      hasMore: older.length > pageSize,
+    };
+  }
+
+  async getNewerMessagesPage(
+    conversationId: string,
+    pageSize: number,
+    after: Message,
+  ): Promise<MessagePage> {
+    const newer = (await this.getConversationMessages(conversationId)).filter(
+      (message) => compareMessages(message, after) > 0,
+    );
+
+    return {
+      messages: newer.slice(0, pageSize),
+      hasMore: newer.length > pageSize,
+    };
+  }
+
+  async getMessagesAround(
+    conversationId: string,
+    messageId: string,
+    pageSize: number,
+  ): Promise<MessageWindow | null> {
+    const message = this.messages.get(messageId);
+    if (message?.conversationId !== conversationId) return null;
+
+    const [older, newer] = await Promise.all([
+      this.getMessagesPage(conversationId, pageSize, message),
+      this.getNewerMessagesPage(conversationId, pageSize, message),
+    ]);
+    return {
+      messages: [...older.messages, this.clone(message), ...newer.messages],
+      hasMore: older.hasMore,
+      hasNewer: newer.hasMore,
+    };
+  }
+
+  async searchMessages(userId: string, query: string): Promise<Message[]> {
+    return this.messageIndex
+      .search(parseSearchQuery(query))
+      .map((messageId) => this.messages.get(messageId))
+      .filter(
+        (message) =>
+          message &&
+          !message.deletedAt &&
+          !message.hiddenFor?.includes(userId) &&
+          this.conversations
+            .get(message.conversationId)
+            ?.participants.includes(userId),
+      )
+      .sort((a, b) => compareMessages(b, a))
+      .slice(0, SEARCH_RESULT_LIMIT)
+      .map((message) => this.clone(message));
+  }
+
+  subscribeToConversationMessages(
     conversationId: string,
+    after: Message | null,
     callback: (messages: Message[]) => void,
-  ) {
-    const getMessages = () => {
-      const conversationMessages: Message[] = [];
-
-      this.messages.forEach((message) => {
-        const msgConversationId = [message.senderId, message.receiverId]
-          .sort()
-          .join("-");
-        if (msgConversationId === conversationId) {
-          conversationMessages.push(message);
-        }
-      });
+  ): Unsubscribe {
+    // Re-query on every send, like a Firestore snapshot
+    const listener = async () => {
+      const messages = await this.getConversationMessages(conversationId);
+      callback(
+        messages.filter(
+          (message) => !after || compareMessages(message, after) > 0,
+        ),
+      );
+    };
+    this.messageListeners.add(listener);
+    listener();
 
-      conversationMessages.sort(
-        (a, b) =>
-          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  subscribeToMessageUpdates(
+    conversationId: string,
+    since: string,
+    callback: (messages: Message[]) => void,
+  ): Unsubscribe {
+    const listener = async () => {
+      const messages = await this.getConversationMessages(conversationId);
+      callback(
+        messages.filter(
+          (message) =>
+            message.updatedAt &&
+            new Date(message.updatedAt).getTime() > new Date(since).getTime(),
+        ),
       );
-      callback(conversationMessages);
     };
+    this.messageListeners.add(listener);
+    listener();
 
-    // Initial load
-    getMessages();
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
 
-    // Simulate real-time updates
-    const interval = setInterval(getMessages, 1000);
+  // Shared by edits, deletes and reactions: members only, and the
+  // conversation preview follows its last message
+  private changeMessage(
+    messageId: string,
+    userId: string,
+    change: (message: Message) => Message,
+  ): Message {
+    const message = this.messages.get(messageId);
+    const conversation = this.conversations.get(message?.conversationId);
+    if (!conversation?.participants.includes(userId)) {
+      throw new Error("Only conversation members can change messages");
+    }
 
-    // Return unsubscribe function
-    return () => clearInterval(interval);
+    const updated = change(this.clone(message));
+    this.saveMessage(updated);
+    if (conversation.lastMessage?.id === messageId) {
+      conversation.lastMessage = this.clone(updated);
+    }
+    this.messageListeners.forEach((listener) => listener());
+    return this.clone(updated);
   }
 
-  // Notifications
-  getUserNotifications(
+  async editMessage(
+    messageId: string,
     userId: string,
-    callback: (notifications: Notification[]) => void,
-  ) {
-    const getNotifications = () => {
-      const userNotifications: Notification[] = [];
+    content: string,
+  ): Promise<Message | null> {
+    try {
+      return this.changeMessage(messageId, userId, (message) =>
+        applyMessageEdit(message, userId, content),
+      );
+    } catch (error) {
+      console.error("Error editing message:", error);
+      return null;
+    }
+  }
 
-      this.notifications.forEach((notification) => {
-        if (notification.userId === userId) {
-          userNotifications.push(notification);
+  async deleteMessage(
+    messageId: string,
+    userId: string,
+    scope: MessageDeleteScope,
+  ): Promise<Message | null> {
+    try {
+      let removed: string[] = [];
+      const deleted = this.changeMessage(messageId, userId, (message) => {
+        removed = getAttachmentPaths(message.attachments);
+        return applyMessageDelete(message, userId, scope);
+      });
+      if (scope === "everyone") {
+        await Promise.all(removed.map((path) => this.deleteFile(path)));
+      }
+      return deleted;
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      return null;
+    }
+  }
+
+  async toggleReaction(
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ): Promise<Message | null> {
+    try {
+      return this.changeMessage(messageId, userId, (message) =>
+        applyReactionToggle(message, userId, emoji),
+      );
+    } catch (error) {
+      console.error("Error reacting to message:", error);
+      return null;
+    }
+  }
+
+  async acceptHangout(
+    messageId: string,
+    userId: string,
+  ): Promise<Message | null> {
+    try {
+      return this.changeMessage(messageId, userId, (message) =>
+        applyHangoutAccept(message, userId),
+      );
+    } catch (error) {
+      console.error("Error accepting hangout:", error);
+      return null;
+    }
+  }
+
+  async uploadFile(
+    path: string,
+    data: Blob,
+    contentType: string,
+  ): Promise<string | null> {
+    try {
+      await this.deleteFile(path);
+      const file = new Blob([data], { type: contentType });
+      const url = URL.createObjectURL(file);
+      this.files.set(path, { data: file, url });
+      return url;
+    } catch (error) {
+      console.error("Error uploading file:", error);
+      return null;
+    }
+  }
+
+  async deleteFile(path: string): Promise<boolean> {
+    const file = this.files.get(path);
+    if (!file) return false;
+
+    URL.revokeObjectURL(file.url);
+    this.files.delete(path);
+    return true;
+  }
+
+  async createConversation(conversation: Conversation): Promise<boolean> {
+    try {
+      if (isConversationBlocked(conversation, this.getMembers(conversation))) {
+        return false;
+      }
+
+      this.conversations.set(conversation.id, {
+        ...this.clone(conversation),
+        messages: [],
+      });
+      return true;
+    } catch (error) {
+      console.error("Error creating conversation:", error);
+      return false;
+    }
+  }
+
+  async updateConversation(
+    conversationId: string,
+    conversation: Conversation,
+  ): Promise<boolean> {
+    try {
+      const existing = this.conversations.get(conversationId);
+      if (!existing) return false;
+
+      existing.updatedAt = conversation.updatedAt;
+
+      // Upsert messages, mirroring the merge write in Firestore
+      conversation.messages.forEach((message) => {
+        const stored = this.messages.get(message.id);
+        this.saveMessage({
+          ...stored,
+          ...this.clone(message),
+          conversationId,
+        });
+      });
+
+      return true;
+    } catch (error) {
+      console.error("Error updating conversation:", error);
+      return false;
+    }
+  }
+
+  // Only group conversations can change membership or be renamed
+  private getMembers(conversation: Conversation): User[] {
+    return conversation.participants
+      .map((userId) => this.users.get(userId))
+      .filter(Boolean);
+  }
+
+  private getGroupConversation(conversationId: string): Conversation | null {
+    const conversation = this.conversations.get(conversationId);
+    return conversation?.type === "group" ? conversation : null;
+  }
+
+  async addConversationMembers(
+    conversationId: string,
+    userIds: string[],
+  ): Promise<boolean> {
+    try {
+      const conversation = this.getGroupConversation(conversationId);
+      if (!conversation) return false;
+
+      conversation.participants = Array.from(
+        new Set([...conversation.participants, ...userIds]),
+      );
+      return true;
+    } catch (error) {
+      console.error("Error adding conversation members:", error);
+      return false;
+    }
+  }
+
+  async removeConversationMember(
+    conversationId: string,
+    userId: string,
+  ): Promise<boolean> {
+    try {
+      const conversation = this.getGroupConversation(conversationId);
+      if (!conversation?.participants.includes(userId)) return false;
+
+      // Only members can delete it, so the last one left deletes it
+      // rather than leaving first
+      if (conversation.participants.length === 1) {
+        return this.deleteConversation(conversationId);
+      }
+      conversation.participants = conversation.participants.filter(
+        (id) => id !== userId,
+      );
+      this.readCursors.delete(getConversationMemberKey(conversationId, userId));
+      return true;
+    } catch (error) {
+      console.error("Error removing conversation member:", error);
+      return false;
+    }
+  }
+
+  async renameConversation(
+    conversationId: string,
+    name: string,
+  ): Promise<boolean> {
+    try {
+      const conversation = this.getGroupConversation(conversationId);
+      if (!conversation) return false;
+
+      conversation.name = name.trim();
+      return true;
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      return false;
+    }
+  }
+
+  async muteConversation(
+    conversationId: string,
+    userId: string,
+    muted: boolean,
+  ): Promise<boolean> {
+    try {
+      const conversation = this.conversations.get(conversationId);
+      if (!conversation?.participants.includes(userId)) return false;
+
+      const others = (conversation.mutedBy || []).filter((id) => id !== userId);
+      conversation.mutedBy = muted ? [...others, userId] : others;
+      this.messageListeners.forEach((listener) => listener());
+      return true;
+    } catch (error) {
+      console.error("Error muting conversation:", error);
+      return false;
+    }
+  }
+
+  async getReadCursors(conversationIds: string[]): Promise<ReadCursor[]> {
+    return Array.from(this.readCursors.values())
+      .filter((cursor) => conversationIds.includes(cursor.conversationId))
+      .map((cursor) => this.clone(cursor));
+  }
+
+  async updateReadCursor(cursor: ReadCursor): Promise<boolean> {
+    try {
+      const conversation = this.conversations.get(cursor.conversationId);
+      if (!conversation?.participants.includes(cursor.userId)) return false;
+
+      const id = getConversationMemberKey(cursor.conversationId, cursor.userId);
+      this.readCursors.set(
+        id,
+        advanceReadCursor(this.readCursors.get(id) || null, this.clone(cursor)),
+      );
+      return true;
+    } catch (error) {
+      console.error("Error updating read cursor:", error);
+      return false;
+    }
+  }
+
+  // Like the rules, only members can delete a conversation
+  async deleteConversation(conversationId: string): Promise<boolean> {
+    try {
+      const conversation = this.conversations.get(conversationId);
+      if (!conversation?.participants.includes(this.currentUser?.id)) {
+        return false;
+      }
+
+      this.messages.forEach((message, messageId) => {
+        if (message.conversationId === conversationId) {
+          getAttachmentPaths(message.attachments).forEach((path) =>
+            this.deleteFile(path),
+          );
+          this.messages.delete(messageId);
+          this.messageIndex.remove(messageId);
         }
       });
+      this.readCursors.forEach((cursor, cursorId) => {
+        if (cursor.conversationId === conversationId) {
+          this.readCursors.delete(cursorId);
+        }
+      });
+      this.conversations.delete(conversationId);
+      return true;
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      return false;
+    }
+  }
 
-      userNotifications.sort(
-        (a, b) =>
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  // Presence
+  async updatePresence(presence: Presence): Promise<boolean> {
+    try {
+      if (!this.users.has(presence.userId)) return false;
+
+      this.presence.set(presence.userId, this.clone(presence));
+      this.presenceListeners.forEach((listener) => listener());
+      return true;
+    } catch (error) {
+      console.error("Error updating presence:", error);
+      return false;
+    }
+  }
+
+  async clearPresence(userId: string): Promise<boolean> {
+    this.presence.delete(userId);
+    this.presenceListeners.forEach((listener) => listener());
+    return true;
+  }
+
+  // Like the security rules, only the signed-in user's own presence and
+  // their friends' come back
+  subscribeToPresence(
+    userIds: string[],
+    callback: (presence: Presence[]) => void,
+  ): Unsubscribe {
+    const listener = () => {
+      const viewer = this.users.get(this.currentUser?.id);
+      callback(
+        userIds
+          .filter(
+            (userId) =>
+              userId === viewer?.id || viewer?.friends.includes(userId),
+          )
+          .filter((userId) => this.presence.has(userId))
+          .map((userId) => this.clone(this.presence.get(userId))),
       );
-      callback(userNotifications.slice(0, 50));
+    };
+    this.presenceListeners.add(listener);
+    listener();
+
+    return () => {
+      this.presenceListeners.delete(listener);
+    };
+  }
+
+  async setTyping(
+    conversationId: string,
+    userId: string,
+    isTyping: boolean,
+  ): Promise<boolean> {
+    try {
+      const conversation = this.conversations.get(conversationId);
+      if (!conversation?.participants.includes(userId)) return false;
+
+      const id = getConversationMemberKey(conversationId, userId);
+      if (isTyping) {
+        this.typing.set(id, {
+          conversationId,
+          userId,
+          updatedAt: new Date().toISOString(),
+        });
+      } else {
+        this.typing.delete(id);
+      }
+      this.presenceListeners.forEach((listener) => listener());
+      return true;
+    } catch (error) {
+      console.error("Error updating typing status:", error);
+      return false;
+    }
+  }
+
+  subscribeToTyping(
+    conversationId: string,
+    callback: (typing: TypingStatus[]) => void,
+  ): Unsubscribe {
+    const listener = () =>
+      callback(
+        Array.from(this.typing.values())
+          .filter((status) => status.conversationId === conversationId)
+          .map((status) => this.clone(status)),
+      );
+    this.presenceListeners.add(listener);
+    listener();
+
+    return () => {
+      this.presenceListeners.delete(listener);
+    };
+  }
+
+  // Notifications
+  async getUserNotifications(userId: string): Promise<Notification[]> {
+    const userNotifications: Notification[] = [];
+
+    this.notifications.forEach((notification) => {
+      if (notification.userId === userId) {
+        userNotifications.push(this.clone(notification));
+      }
+    });
+
+    userNotifications.sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+    );
+    return userNotifications.slice(0, 50);
+  }
+
+  subscribeToUserNotifications(
+    userId: string,
+    callback: (notifications: Notification[]) => void,
+  ): Unsubscribe {
+    const getNotifications = async () => {
+      callback(await this.getUserNotifications(userId));
     };
 
     // Initial load
@@ -477,6 +1349,36 @@ class BackendService {
     return () => clearInterval(interval);
   }
 
+  async createNotification(
+    notification: Omit<Notification, "id">,
+  ): Promise<string | null> {
+    try {
+      const conversation = this.conversations.get(
+        notification.data?.conversationId,
+      );
+      if (
+        !shouldDeliverNotification(
+          notification,
+          this.users.get(notification.userId) || null,
+          conversation || null,
+        )
+      ) {
+        return null;
+      }
+
+      const notificationId = this.generateId();
+      this.notifications.set(notificationId, {
+        ...this.clone(notification),
+        id: notificationId,
+        createdAt: notification.createdAt || new Date().toISOString(),
+      });
+      return notificationId;
+    } catch (error) {
+      console.error("Error creating notification:", error);
+      return null;
+    }
+  }
+
   async markNotificationAsRead(notificationId: string): Promise<boolean> {
     try {
       const notification = this.notifications.get(notificationId);
@@ -490,6 +1392,30 @@ class BackendService {
       return false;
     }
   }
+
+  async deleteNotification(notificationId: string): Promise<boolean> {
+    try {
+      this.notifications.delete(notificationId);
+      return true;
+    } catch (error) {
+      console.error("Error deleting notification:", error);
+      return false;
+    }
+  }
+
+  async clearAllNotifications(userId: string): Promise<boolean> {
+    try {
+      this.notifications.forEach((notification, notificationId) => {
+        if (notification.userId === userId) {
+          this.notifications.delete(notificationId);
+        }
+      });
+      return true;
+    } catch (error) {
+      console.error("Error clearing notifications:", error);
+      return false;
+    }
+  }
 }
 
 // Create singleton instance
@@ -0,0 +1,28 @@
+import { DataProvider } from "@/services/types";
+import { firestoreProvider } from "@/services/firebase";
+import { backendService } from "@/services/backend";
+
+export type DataProviderKind = "firestore" | "memory";
+
+export const resolveDataProviderKind = (value?: string): DataProviderKind =>
+  value?.toLowerCase() === "memory" ? "memory" : "firestore";
+
+const providers: Record<DataProviderKind, DataProvider> = {
+  firestore: firestoreProvider,
+  memory: backendService,
+};
+
+// Chosen once at startup from VITE_DATA_PROVIDER ("firestore" by default,
+// "memory" to run the whole UI offline against the in-memory backend)
+export const dataProviderKind = resolveDataProviderKind(
+  import.meta.env.VITE_DATA_PROVIDER,
+);
+
+export const dataProvider: DataProvider = providers[dataProviderKind];
+
+export type {
+  DataProvider,
+  AuthResult,
+  MessagePage,
+  Unsubscribe,
+} from "@/services/types";
@@ -24,9 +24,71 @@ import {
   writeBatch,
   deleteDoc,
   documentId,
+  runTransaction,
+  startAfter,
+  Query,
+  QueryConstraint,
 } from 'firebase/firestore';
-import { auth, db } from '@/lib/firebase';
-import { User, Event, Message, Conversation, Notification } from '@/types';
+import {
+  deleteObject,
+  getDownloadURL,
+  ref,
+  uploadBytes,
+} from 'firebase/storage';
+import { auth, db, storage } from '@/lib/firebase';
+import {
+  User,
+  Event,
+  EventRsvp,
+  HangoutEvent,
+  Message,
+  MessageDeleteScope,
+  Conversation,
+  ReadCursor,
+  Presence,
+  TypingStatus,
+  Notification,
+  HangoutMatch,
+  HangoutMatchResponse,
+  Report,
+} from '@/types';
+import {
+  DataProvider,
+  MessagePage,
+  MessageWindow,
+  Unsubscribe,
+} from '@/services/types';
+import { getBrowserTimeZone } from '@/lib/timezone';
+import {
+  advanceReadCursor,
+  compareMessages,
+  getConversationMemberKey,
+} from '@/lib/conversations';
+import { getAttachmentPaths } from '@/lib/attachments';
+import {
+  SEARCH_RESULT_LIMIT,
+  getSearchTokens,
+  matchesSearch,
+  parseSearchQuery,
+} from '@/lib/search';
+import {
+  applyHangoutAccept,
+  applyMessageDelete,
+  applyMessageEdit,
+  applyReactionToggle,
+} from '@/lib/messages';
+import {
+  applyHangoutMatchResponse,
+  resolveHangoutMatchStatus,
+} from '@/lib/hangoutMatch';
+import { applyRsvp } from '@/lib/invitations';
+import { mergeBusyBlocks } from '@/lib/eventVisibility';
+import { splitPrivateProfile } from '@/lib/profiles';
+import {
+  isBlockedBetween,
+  isConversationBlocked,
+  shouldDeliverNotification,
+} from '@/lib/moderation';
 
 // Helper function to generate IDs
 const generateId = (): string => {
@@ -93,6 +155,7 @@ export const repairUserData = async (): Promise<boolean> => {
         sent: [],
         received: [],
       },
+      timeZone: getBrowserTimeZone(),
       createdAt: new Date().toISOString(),
     };
     
@@ -165,6 +228,7 @@ export const createUserAccount = async (
         sent: [],
         received: [],
       },
+      timeZone: getBrowserTimeZone(),
       createdAt: new Date().toISOString(),
     };
 
@@ -260,6 +324,7 @@ export const signInUser = async (
             sent: [],
             received: [],
           },
+          timeZone: getBrowserTimeZone(),
           createdAt: new Date().toISOString(),
         };
         
@@ -272,7 +337,7 @@ export const signInUser = async (
       }
     }
 
-    const userData = userDoc.data() as User;
+    const userData = await withPrivateProfile(userDoc.data() as User);
     console.log('✅ User signed in successfully:', userData);
     return { success: true, user: userData };
   } catch (error: any) {
@@ -299,7 +364,7 @@ export const onAuthStateChange = (callback: (user: User | null) => void) => {
         
         const userDoc = await getDoc(doc(db, 'users', firebaseUser.uid));
         if (userDoc.exists()) {
-          const userData = userDoc.data() as User;
+          const userData = await withPrivateProfile(userDoc.data() as User);
           callback(userData);
         } else {
           console.warn('User document not found for authenticated user');
@@ -315,10 +380,49 @@ export const onAuthStateChange = (callback: (user: User | null) => void) => {
   });
 };
 
+// The user with the fields only they can read (see lib/profiles)
+const withPrivateProfile = async (user: User): Promise<User> => {
+  const privateDoc = await getDoc(doc(db, 'privateProfiles', user.id));
+  return { ...user, ...privateDoc.data() };
+};
+
+// Profiles of whichever of the users exist, in the order asked for. Only
+// the signed-in user's own comes with its private fields, so block checks
+// here see just their blocks; the rules turn away people blocked by the
+// other side.
+export const getUsersByIds = async (userIds: string[]): Promise<User[]> => {
+  // Firestore 'in' queries are limited to 10 items, so we need to batch them
+  const ids = [...new Set(userIds)];
+  const batches = [];
+  for (let i = 0; i < ids.length; i += 10) {
+    const usersQuery = query(
+      collection(db, 'users'),
+      where(documentId(), 'in', ids.slice(i, i + 10))
+    );
+    batches.push(getDocs(usersQuery));
+  }
+
+  const snapshots = await Promise.all(batches);
+  const users = new Map<string, User>();
+  snapshots.forEach(snapshot => {
+    snapshot.docs.forEach(doc => users.set(doc.id, doc.data() as User));
+  });
+
+  return Promise.all(
+    userIds
+      .filter(userId => users.has(userId))
+      .map(userId =>
+        userId === auth.currentUser?.uid
+          ? withPrivateProfile(users.get(userId))
+          : users.get(userId)
+      )
+  );
+};
+
 // User Management Functions
-export const searchUsers = async (query: string, currentUserId: string): Promise<User[]> => {
+export const searchUsers = async (searchQuery: string, currentUserId: string): Promise<User[]> => {
   try {
-    const searchTerm = query.toLowerCase().trim();
+    const searchTerm = searchQuery.toLowerCase().trim();
     if (!searchTerm) return [];
 
     // Search by username
@@ -337,9 +441,10 @@ export const searchUsers = async (query: string, currentUserId: string): Promise
       limit(10)
     );
 
-    const [usernameSnapshot, nameSnapshot] = await Promise.all([
+    const [usernameSnapshot, nameSnapshot, [currentUser]] = await Promise.all([
       getDocs(usernameQuery),
-      getDocs(nameQuery)
+      getDocs(nameQuery),
+      getUsersByIds([currentUserId])
     ]);
 
     const users = new Map<string, User>();
@@ -347,7 +452,7 @@ export const searchUsers = async (query: string, currentUserId: string): Promise
     // Combine results and remove duplicates
     [...usernameSnapshot.docs, ...nameSnapshot.docs].forEach(doc => {
       const userData = doc.data() as User;
-      if (userData.id !== currentUserId) {
+      if (userData.id !== currentUserId && !isBlockedBetween(currentUser, userData)) {
         users.set(userData.id, userData);
       }
     });
@@ -361,6 +466,9 @@ export const searchUsers = async (query: string, currentUserId: string): Promise
 
 export const sendFriendRequest = async (fromUserId: string, toUserId: string): Promise<boolean> => {
   try {
+    const [fromUser, toUser] = await getUsersByIds([fromUserId, toUserId]);
+    if (!fromUser || !toUser || isBlockedBetween(fromUser, toUser)) return false;
+
     const batch = writeBatch(db);
 
     // Update sender's sent requests
@@ -446,10 +554,79 @@ export const rejectFriendRequest = async (userId: string, requesterId: string):
   }
 };
 
+// Each side drops the other as a friend and any pending requests; open
+// hangout matches are removed by the removeBlockedHangoutMatches function
+export const blockUser = async (userId: string, blockedUserId: string): Promise<boolean> => {
+  try {
+    if (userId === blockedUserId) return false;
+    const batch = writeBatch(db);
+
+    batch.set(
+      doc(db, 'privateProfiles', userId),
+      { blockedUsers: arrayUnion(blockedUserId) },
+      { merge: true }
+    );
+    batch.update(doc(db, 'users', userId), {
+      friends: arrayRemove(blockedUserId),
+      'friendRequests.sent': arrayRemove(blockedUserId),
+      'friendRequests.received': arrayRemove(blockedUserId)
+    });
+
+    batch.update(doc(db, 'users', blockedUserId), {
+      friends: arrayRemove(userId),
+      'friendRequests.sent': arrayRemove(userId),
+      'friendRequests.received': arrayRemove(userId)
+    });
+
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Block user error:', error);
+    return false;
+  }
+};
+
+export const unblockUser = async (userId: string, blockedUserId: string): Promise<boolean> => {
+  try {
+    await setDoc(
+      doc(db, 'privateProfiles', userId),
+      { blockedUsers: arrayRemove(blockedUserId) },
+      { merge: true }
+    );
+    return true;
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    return false;
+  }
+};
+
+export const createReport = async (
+  report: Omit<Report, 'id' | 'status' | 'createdAt'>
+): Promise<string | null> => {
+  try {
+    const reportRef = doc(collection(db, 'reports'));
+    const reportData: Report = {
+      ...report,
+      id: reportRef.id,
+      status: 'open',
+      createdAt: new Date().toISOString()
+    };
+    await setDoc(reportRef, reportData);
+    return reportRef.id;
+  } catch (error) {
+    console.error('Create report error:', error);
+    return null;
+  }
+};
+
 // Event Functions
-export const createEvent = async (event: Omit<Event, 'id'>): Promise<string | null> => {
+export const createEvent = async (
+  event: Omit<Event, 'id'> & { id?: string }
+): Promise<string | null> => {
   try {
-    const eventRef = doc(collection(db, 'events'));
+    const eventRef = event.id ? doc(db, 'events', event.id) : doc(collection(db, 'events'));
+    if (event.id && (await getDoc(eventRef)).exists()) return eventRef.id;
+
     const eventData = { ...event, id: eventRef.id };
     await setDoc(eventRef, eventData);
     return eventRef.id;
@@ -460,6 +637,9 @@ export const createEvent = async (event: Omit<Event, 'id'>): Promise<string | nu
 };
 
 export const getUserEvents = async (userId: string): Promise<Event[]> => {
+  // Someone else's events can only be read the way the rules allow
+  if (userId !== auth.currentUser?.uid) return getEventsByUserIds([userId]);
+
   try {
     const eventsQuery = query(
       collection(db, 'events'),
@@ -495,37 +675,133 @@ export const deleteEvent = async (eventId: string): Promise<boolean> => {
   }
 };
 
+// The rules only let friends read events shared with them, so friends'
+// events come from queries the rules can check: events shared with every
+// friend, events shared with the viewer by name and busy blocks for the rest
+// (see lib/eventVisibility). Events saved before visibility existed need it
+// set first; see functions/src/backfillEventVisibility.ts.
+const getFriendEventQueries = (viewerId: string, friendIds: string[]) => {
+  const events: Query[] = [];
+  const busyBlocks: Query[] = [];
+
+  // Firestore 'in' queries are limited to 10 items, so we need to batch them.
+  // Every query names the owners, so the rules can check they're friends.
+  for (let i = 0; i < friendIds.length; i += 10) {
+    const batch = friendIds.slice(i, i + 10);
+    events.push(
+      query(
+        collection(db, 'events'),
+        where('userId', 'in', batch),
+        where('visibility', '==', 'friends')
+      ),
+      query(
+        collection(db, 'events'),
+        where('userId', 'in', batch),
+        where('visibility', '==', 'selected'),
+        where('sharedWith', 'array-contains', viewerId)
+      )
+    );
+    busyBlocks.push(
+      query(collection(db, 'busyBlocks'), where('userId', 'in', batch))
+    );
+  }
+
+  return { events, busyBlocks };
+};
+
 export const getEventsByUserIds = async (userIds: string[]): Promise<Event[]> => {
   try {
-    if (userIds.length === 0) return [];
-    
-    // Firestore 'in' queries are limited to 10 items, so we need to batch them
-    const batches = [];
-    for (let i = 0; i < userIds.length; i += 10) {
-      const batch = userIds.slice(i, i + 10);
-      const eventsQuery = query(
-        collection(db, 'events'),
-        where('userId', 'in', batch)
+    const viewerId = auth.currentUser?.uid;
+    if (userIds.length === 0 || !viewerId) return [];
+
+    const friendIds = userIds.filter((id) => id !== viewerId);
+    const queries = friendIds.length > 0
+      ? getFriendEventQueries(viewerId, friendIds)
+      : { events: [], busyBlocks: [] };
+    if (userIds.includes(viewerId)) {
+      queries.events.push(
+        query(collection(db, 'events'), where('userId', '==', viewerId))
       );
-      batches.push(getDocs(eventsQuery));
     }
-    
-    const snapshots = await Promise.all(batches);
-    const events: Event[] = [];
-    
-    snapshots.forEach(snapshot => {
-      snapshot.docs.forEach(doc => {
-        events.push({ id: doc.id, ...doc.data() } as Event);
-      });
-    });
-    
-    return events;
+
+    const load = async (eventQueries: Query[]) => {
+      const snapshots = await Promise.all(eventQueries.map((q) => getDocs(q)));
+      return snapshots
+        .flatMap((snapshot) =>
+          snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Event)
+        )
+        .filter((event) => userIds.includes(event.userId));
+    };
+
+    const [events, busyBlocks] = await Promise.all([
+      load(queries.events),
+      load(queries.busyBlocks)
+    ]);
+    // Newest first, like the user's own events
+    return mergeBusyBlocks(events, busyBlocks).sort(
+      (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+    );
   } catch (error) {
     console.error('Get events by user IDs error:', error);
     return [];
   }
 };
 
+// Hangout Match Functions
+// Matches are created, moved and removed by the syncHangoutMatches Cloud
+// Function whenever an event is written; clients only read and respond
+export const getUserHangoutMatches = async (userId: string): Promise<HangoutMatch[]> => {
+  try {
+    const matchesQuery = query(
+      collection(db, 'hangoutMatches'),
+      where('users', 'array-contains', userId)
+    );
+
+    const snapshot = await getDocs(matchesQuery);
+    return snapshot.docs
+      .map(doc => doc.data() as HangoutMatch)
+      .map(match => ({ ...match, status: resolveHangoutMatchStatus(match) }))
+      .sort(
+        (a, b) =>
+          new Date(a.overlappingTime.start).getTime() -
+          new Date(b.overlappingTime.start).getTime()
+      );
+  } catch (error) {
+    console.error('Get hangout matches error:', error);
+    return [];
+  }
+};
+
+export const respondToHangoutMatch = async (
+  matchId: string,
+  userId: string,
+  response: Exclude<HangoutMatchResponse, 'pending'>
+): Promise<HangoutMatch | null> => {
+  try {
+    const matchRef = doc(db, 'hangoutMatches', matchId);
+
+    return await runTransaction(db, async (transaction) => {
+      const matchDoc = await transaction.get(matchRef);
+      if (!matchDoc.exists()) return null;
+
+      const updated = applyHangoutMatchResponse(
+        matchDoc.data() as HangoutMatch,
+        userId,
+        response
+      );
+      transaction.update(matchRef, {
+        responses: updated.responses,
+        status: updated.status,
+        updatedAt: updated.updatedAt,
+      });
+      return updated;
+    });
+  } catch (error) {
+    console.error('Respond to hangout match error:', error);
+    return null;
+  }
+};
+
 export const getUserFriends = async (userId: string): Promise<User[]> => {
   try {
     const userDoc = await getDoc(doc(db, 'users', userId));
@@ -583,35 +859,48 @@ export const getUserFriends = async (userId: string): Promise<User[]> => {
 };
 
 // Message Functions
-export const sendMessage = async (message: Omit<Message, 'id'>): Promise<boolean> => {
-  try {
-    const conversationId = [message.senderId, message.receiverId].sort().join('-');
-    
-    // Add message to messages collection
-    const messageRef = doc(collection(db, 'messages'));
-    const messageData = { ...message, id: messageRef.id, conversationId };
-    await setDoc(messageRef, messageData);
+// Message docs carry the prefixes of their words so search can use an
+// array-contains query (see lib/search). They never leave this module.
+type MessageDoc = Message & { searchTokens?: string[] };
+
+const toMessageDoc = (message: Message): MessageDoc => ({
+  ...message,
+  searchTokens: getSearchTokens(message.deletedAt ? '' : message.content),
+});
 
-    // Update or create conversation
-    const conversationRef = doc(db, 'conversations', conversationId);
+const fromMessageDoc = ({ searchTokens, ...message }: MessageDoc): Message =>
+  message;
+
+export const sendMessage = async (
+  message: Omit<Message, 'id'> & { id?: string }
+): Promise<boolean> => {
+  try {
+    const conversationRef = doc(db, 'conversations', message.conversationId);
     const conversationDoc = await getDoc(conversationRef);
+    const conversation = conversationDoc.data() as Conversation | undefined;
+    const participants: string[] = conversation?.participants || [];
+    if (!participants.includes(message.senderId)) return false;
+    if (
+      conversation.type !== 'group' &&
+      isConversationBlocked(conversation, await getUsersByIds(participants))
+    ) {
+      return false;
+    }
+
+    const messageRef = message.id
+      ? doc(db, 'messages', message.id)
+      : doc(collection(db, 'messages'));
+    if (message.id && (await getDoc(messageRef)).exists()) return true;
 
-    const conversationData: Conversation = {
-      id: conversationId,
-      participants: [message.senderId, message.receiverId],
-      messages: [], // We'll load messages separately for better performance
+    // Write the message and bump the conversation together
+    const messageData = { ...message, id: messageRef.id };
+    const batch = writeBatch(db);
+    batch.set(messageRef, toMessageDoc(messageData));
+    batch.update(conversationRef, {
       lastMessage: messageData,
       updatedAt: message.timestamp,
-    };
-
-    if (conversationDoc.exists()) {
-      await updateDoc(conversationRef, {
-        lastMessage: messageData,
-        updatedAt: message.timestamp,
-      });
-    } else {
-      await setDoc(conversationRef, conversationData);
-    }
+    });
+    await batch.commit();
 
     return true;
   } catch (error) {
@@ -645,13 +934,295 @@ export const getConversationMessages = async (conversationId: string): Promise<M
     );
 
     const snapshot = await getDocs(messagesQuery);
-    return snapshot.docs.map(doc => doc.data() as Message);
+    return snapshot.docs.map(doc => fromMessageDoc(doc.data() as MessageDoc));
   } catch (error) {
     console.error('Get messages error:', error);
     return [];
   }
 };
 
+// Pages walk back from the newest message. Ordering by id as well keeps
+// messages sent in the same millisecond from falling between pages.
+export const getMessagesPage = async (
+  conversationId: string,
+  pageSize: number,
+  before?: Message
+): Promise<MessagePage> => {
+  try {
+    const constraints: QueryConstraint[] = [
+      where('conversationId', '==', conversationId),
+      orderBy('timestamp', 'desc'),
+      orderBy('id', 'desc'),
+    ];
+    if (before) constraints.push(startAfter(before.timestamp, before.id));
+
+    // One extra tells us whether there's another page
+    const snapshot = await getDocs(
+      query(collection(db, 'messages'), ...constraints, limit(pageSize + 1))
+    );
+    const newestFirst = snapshot.docs.map(doc => fromMessageDoc(doc.data() as MessageDoc));
+
+    return {
+      messages: newestFirst.slice(0, pageSize).reverse(),
+      hasMore: newestFirst.length > pageSize,
+    };
+  } catch (error) {
+    console.error('Get messages page error:', error);
+    return { messages: [], hasMore: false };
+  }
+};
+
+export const getNewerMessagesPage = async (
+  conversationId: string,
+  pageSize: number,
+  after: Message
+): Promise<MessagePage> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, 'messages'),
+        where('conversationId', '==', conversationId),
+        orderBy('timestamp', 'asc'),
+        orderBy('id', 'asc'),
+        startAfter(after.timestamp, after.id),
+        limit(pageSize + 1)
+      )
+    );
+    const oldestFirst = snapshot.docs.map(doc => fromMessageDoc(doc.data() as MessageDoc));
+
+    return {
+      messages: oldestFirst.slice(0, pageSize),
+      hasMore: oldestFirst.length > pageSize,
+    };
+  } catch (error) {
+    console.error('Get newer messages page error:', error);
+    return { messages: [], hasMore: false };
+  }
+};
+
+export const getMessagesAround = async (
+  conversationId: string,
+  messageId: string,
+  pageSize: number
+): Promise<MessageWindow | null> => {
+  try {
+    const messageDoc = await getDoc(doc(db, 'messages', messageId));
+    const message = messageDoc.exists()
+      ? fromMessageDoc(messageDoc.data() as MessageDoc)
+      : null;
+    if (message?.conversationId !== conversationId) return null;
+
+    const [older, newer] = await Promise.all([
+      getMessagesPage(conversationId, pageSize, message),
+      getNewerMessagesPage(conversationId, pageSize, message),
+    ]);
+    return {
+      messages: [...older.messages, message, ...newer.messages],
+      hasMore: older.hasMore,
+      hasNewer: newer.hasMore,
+    };
+  } catch (error) {
+    console.error('Get messages around error:', error);
+    return null;
+  }
+};
+
+// Firestore can only match one token per query, so the rarest-looking
+// (longest) term narrows it down and the rest are checked here
+export const searchMessages = async (
+  userId: string,
+  searchQuery: string
+): Promise<Message[]> => {
+  try {
+    const terms = parseSearchQuery(searchQuery);
+    if (terms.length === 0) return [];
+    const [longest] = [...terms].sort((a, b) => b.length - a.length);
+
+    const conversationIds = (await getUserConversations(userId)).map(
+      (conversation) => conversation.id
+    );
+    const batches: string[][] = [];
+    for (let i = 0; i < conversationIds.length; i += 10) {
+      batches.push(conversationIds.slice(i, i + 10));
+    }
+
+    const snapshots = await Promise.all(
+      batches.map((batch) =>
+        getDocs(
+          query(
+            collection(db, 'messages'),
+            where('conversationId', 'in', batch),
+            where('searchTokens', 'array-contains', longest),
+            orderBy('timestamp', 'desc'),
+            limit(SEARCH_RESULT_LIMIT)
+          )
+        )
+      )
+    );
+
+    return snapshots
+      .flatMap((snapshot) =>
+        snapshot.docs.map((doc) => fromMessageDoc(doc.data() as MessageDoc))
+      )
+      .filter(
+        (message) =>
+          !message.deletedAt &&
+          !message.hiddenFor?.includes(userId) &&
+          matchesSearch(message.content, terms)
+      )
+      .sort((a, b) => compareMessages(b, a))
+      .slice(0, SEARCH_RESULT_LIMIT);
+  } catch (error) {
+    console.error('Search messages error:', error);
+    return [];
+  }
+};
+
+export const subscribeToMessageUpdates = (
+  conversationId: string,
+  since: string,
+  callback: (messages: Message[]) => void
+): Unsubscribe => {
+  try {
+    const updatesQuery = query(
+      collection(db, 'messages'),
+      where('conversationId', '==', conversationId),
+      where('updatedAt', '>', since)
+    );
+
+    return onSnapshot(
+      updatesQuery,
+      (snapshot) => {
+        callback(snapshot.docs.map(doc => fromMessageDoc(doc.data() as MessageDoc)));
+      },
+      (error) => {
+        console.error('Message updates subscription error:', error);
+      }
+    );
+  } catch (error) {
+    console.error('Error setting up message updates subscription:', error);
+    return () => {};
+  }
+};
+
+// Shared by edits, deletes and reactions: members only, and the
+// conversation preview follows its last message
+const changeMessage = (
+  messageId: string,
+  userId: string,
+  change: (message: Message) => Message
+): Promise<Message | null> => {
+  const messageRef = doc(db, 'messages', messageId);
+
+  return runTransaction(db, async (transaction) => {
+    const messageDoc = await transaction.get(messageRef);
+    if (!messageDoc.exists()) return null;
+
+    const message = fromMessageDoc(messageDoc.data() as MessageDoc);
+    const conversationRef = doc(db, 'conversations', message.conversationId);
+    const conversationDoc = await transaction.get(conversationRef);
+    const conversation = conversationDoc.data() as Conversation | undefined;
+    if (!conversation?.participants.includes(userId)) return null;
+
+    const updated = change(message);
+    transaction.set(messageRef, toMessageDoc(updated));
+    if (conversation.lastMessage?.id === messageId) {
+      transaction.update(conversationRef, { lastMessage: updated });
+    }
+    return updated;
+  });
+};
+
+export const editMessage = async (
+  messageId: string,
+  userId: string,
+  content: string
+): Promise<Message | null> => {
+  try {
+    return await changeMessage(messageId, userId, (message) =>
+      applyMessageEdit(message, userId, content)
+    );
+  } catch (error) {
+    console.error('Edit message error:', error);
+    return null;
+  }
+};
+
+export const deleteMessage = async (
+  messageId: string,
+  userId: string,
+  scope: MessageDeleteScope
+): Promise<Message | null> => {
+  try {
+    let removed: string[] = [];
+    const deleted = await changeMessage(messageId, userId, (message) => {
+      removed = getAttachmentPaths(message.attachments);
+      return applyMessageDelete(message, userId, scope);
+    });
+    if (deleted && scope === 'everyone') {
+      await Promise.all(removed.map(deleteFile));
+    }
+    return deleted;
+  } catch (error) {
+    console.error('Delete message error:', error);
+    return null;
+  }
+};
+
+export const uploadFile = async (
+  path: string,
+  data: Blob,
+  contentType: string
+): Promise<string | null> => {
+  try {
+    const fileRef = ref(storage, path);
+    await uploadBytes(fileRef, data, { contentType });
+    return await getDownloadURL(fileRef);
+  } catch (error) {
+    console.error('Upload file error:', error);
+    return null;
+  }
+};
+
+export const deleteFile = async (path: string): Promise<boolean> => {
+  try {
+    await deleteObject(ref(storage, path));
+    return true;
+  } catch (error) {
+    console.error('Delete file error:', error);
+    return false;
+  }
+};
+
+export const toggleReaction = async (
+  messageId: string,
+  userId: string,
+  emoji: string
+): Promise<Message | null> => {
+  try {
+    return await changeMessage(messageId, userId, (message) =>
+      applyReactionToggle(message, userId, emoji)
+    );
+  } catch (error) {
+    console.error('Toggle reaction error:', error);
+    return null;
+  }
+};
+
+export const acceptHangout = async (
+  messageId: string,
+  userId: string
+): Promise<Message | null> => {
+  try {
+    return await changeMessage(messageId, userId, (message) =>
+      applyHangoutAccept(message, userId)
+    );
+  } catch (error) {
+    console.error('Accept hangout error:', error);
+    return null;
+  }
+};
+
 // Notification Functions
 export const getUserNotifications = async (userId: string): Promise<Notification[]> => {
   try {
@@ -743,18 +1314,303 @@ export const subscribeToUserNotifications = (
 
 export const subscribeToConversationMessages = (
   conversationId: string,
+  after: Message | null,
   callback: (messages: Message[]) => void
-) => {
-  const messagesQuery = query(
-    collection(db, 'messages'),
-    where('conversationId', '==', conversationId),
-    orderBy('timestamp', 'asc')
-  );
+): Unsubscribe => {
+  try {
+    // Only listen past what's already loaded, so history stays paginated
+    const constraints: QueryConstraint[] = [
+      where('conversationId', '==', conversationId),
+      orderBy('timestamp', 'asc'),
+      orderBy('id', 'asc'),
+    ];
+    if (after) constraints.push(startAfter(after.timestamp, after.id));
 
-  return onSnapshot(messagesQuery, (snapshot) => {
-    const messages = snapshot.docs.map(doc => doc.data() as Message);
-    callback(messages);
-  });
+    return onSnapshot(
+      query(collection(db, 'messages'), ...constraints),
+      (snapshot) => {
+        callback(snapshot.docs.map(doc => fromMessageDoc(doc.data() as MessageDoc)));
+      },
+      (error) => {
+        console.error('Conversation messages subscription error:', error);
+      }
+    );
+  } catch (error) {
+    console.error('Error setting up conversation messages subscription:', error);
+    return () => {};
+  }
+};
+
+export const subscribeToUserEvents = (
+  userId: string,
+  callback: (events: Event[]) => void
+): Unsubscribe => {
+  try {
+    const eventsQuery = query(
+      collection(db, 'events'),
+      where('userId', '==', userId),
+      orderBy('startTime', 'desc')
+    );
+
+    return onSnapshot(
+      eventsQuery,
+      (snapshot) => {
+        callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Event));
+      },
+      (error) => {
+        console.error('User events subscription error:', error);
+      }
+    );
+  } catch (error) {
+    console.error('Error setting up user events subscription:', error);
+    return () => {};
+  }
+};
+
+// Watches the user's friend list and keeps listeners on what friends share
+// with the user (see getFriendEventQueries), rebuilding them when the list
+// changes
+export const subscribeToFriendsEvents = (
+  userId: string,
+  callback: (events: Event[]) => void
+): Unsubscribe => {
+  let friendKey: string | null = null;
+  let batchUnsubscribes: Unsubscribe[] = [];
+
+  const stopBatches = () => {
+    batchUnsubscribes.forEach((unsubscribe) => unsubscribe());
+    batchUnsubscribes = [];
+  };
+
+  const listenToFriends = (friendIds: string[]) => {
+    stopBatches();
+    if (friendIds.length === 0) {
+      callback([]);
+      return;
+    }
+
+    const queries = getFriendEventQueries(userId, friendIds);
+    const fromFriends = (results: Event[][]) =>
+      results.flat().filter((event) => friendIds.includes(event.userId));
+
+    // Only report once every listener has delivered its first snapshot
+    const results: (Event[] | null)[] = [];
+    [...queries.events, ...queries.busyBlocks].forEach((friendQuery, index) => {
+      results.push(null);
+      batchUnsubscribes.push(
+        onSnapshot(
+          friendQuery,
+          (snapshot) => {
+            results[index] = snapshot.docs.map(
+              doc => ({ id: doc.id, ...doc.data() }) as Event
+            );
+            if (!results.every(Boolean)) return;
+
+            callback(
+              mergeBusyBlocks(
+                fromFriends(results.slice(0, queries.events.length)),
+                fromFriends(results.slice(queries.events.length))
+              )
+            );
+          },
+          (error) => {
+            console.error('Friends events subscription error:', error);
+          }
+        )
+      );
+    });
+  };
+
+  try {
+    const unsubscribeUser = onSnapshot(
+      doc(db, 'users', userId),
+      (snapshot) => {
+        const friendIds: string[] = snapshot.data()?.friends || [];
+        const key = [...friendIds].sort().join(',');
+        if (key === friendKey) return;
+
+        friendKey = key;
+        listenToFriends(friendIds);
+      },
+      (error) => {
+        console.error('Friend list subscription error:', error);
+      }
+    );
+
+    return () => {
+      unsubscribeUser();
+      stopBatches();
+    };
+  } catch (error) {
+    console.error('Error setting up friends events subscription:', error);
+    stopBatches();
+    return () => {};
+  }
+};
+
+export const subscribeToInvitedEvents = (
+  userId: string,
+  callback: (events: HangoutEvent[]) => void
+): Unsubscribe => {
+  try {
+    const invitedQuery = query(
+      collection(db, 'events'),
+      where('invitees', 'array-contains', userId)
+    );
+
+    return onSnapshot(
+      invitedQuery,
+      (snapshot) => {
+        callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as HangoutEvent));
+      },
+      (error) => {
+        console.error('Invited events subscription error:', error);
+      }
+    );
+  } catch (error) {
+    console.error('Error setting up invited events subscription:', error);
+    return () => {};
+  }
+};
+
+// Only the invitee's own entry is written, so answers never overwrite each
+// other or the host's edits
+export const respondToInvitation = async (
+  eventId: string,
+  userId: string,
+  rsvp: EventRsvp
+): Promise<HangoutEvent | null> => {
+  try {
+    const eventRef = doc(db, 'events', eventId);
+
+    return await runTransaction(db, async (transaction) => {
+      const eventDoc = await transaction.get(eventRef);
+      if (!eventDoc.exists() || eventDoc.data().type !== 'hangout') return null;
+
+      const updated = applyRsvp(
+        { ...eventDoc.data(), id: eventId } as HangoutEvent,
+        userId,
+        rsvp
+      );
+      transaction.update(eventRef, { [`rsvps.${userId}`]: rsvp });
+      return updated;
+    });
+  } catch (error) {
+    console.error('Respond to invitation error:', error);
+    return null;
+  }
+};
+
+// Presence Functions
+export const updatePresence = async (presence: Presence): Promise<boolean> => {
+  try {
+    await setDoc(doc(db, 'presence', presence.userId), presence);
+    return true;
+  } catch (error) {
+    console.error('Update presence error:', error);
+    return false;
+  }
+};
+
+export const clearPresence = async (userId: string): Promise<boolean> => {
+  try {
+    await deleteDoc(doc(db, 'presence', userId));
+    return true;
+  } catch (error) {
+    console.error('Clear presence error:', error);
+    return false;
+  }
+};
+
+export const subscribeToPresence = (
+  userIds: string[],
+  callback: (presence: Presence[]) => void
+): Unsubscribe => {
+  if (userIds.length === 0) {
+    callback([]);
+    return () => {};
+  }
+
+  const batchUnsubscribes: Unsubscribe[] = [];
+  try {
+    // Only report once every batch has delivered its first snapshot
+    const batches: (Presence[] | null)[] = [];
+    for (let i = 0; i < userIds.length; i += 10) {
+      const batchIndex = batches.length;
+      batches.push(null);
+
+      const presenceQuery = query(
+        collection(db, 'presence'),
+        where(documentId(), 'in', userIds.slice(i, i + 10))
+      );
+      batchUnsubscribes.push(
+        onSnapshot(
+          presenceQuery,
+          (snapshot) => {
+            batches[batchIndex] = snapshot.docs.map(doc => doc.data() as Presence);
+            if (batches.every(Boolean)) callback(batches.flat());
+          },
+          (error) => {
+            console.error('Presence subscription error:', error);
+          }
+        )
+      );
+    }
+
+    return () => batchUnsubscribes.forEach((unsubscribe) => unsubscribe());
+  } catch (error) {
+    console.error('Error setting up presence subscription:', error);
+    batchUnsubscribes.forEach((unsubscribe) => unsubscribe());
+    return () => {};
+  }
+};
+
+export const setTyping = async (
+  conversationId: string,
+  userId: string,
+  isTyping: boolean
+): Promise<boolean> => {
+  try {
+    const typingRef = doc(db, 'typing', getConversationMemberKey(conversationId, userId));
+    if (isTyping) {
+      await setDoc(typingRef, {
+        conversationId,
+        userId,
+        updatedAt: new Date().toISOString(),
+      });
+    } else {
+      await deleteDoc(typingRef);
+    }
+    return true;
+  } catch (error) {
+    console.error('Set typing error:', error);
+    return false;
+  }
+};
+
+export const subscribeToTyping = (
+  conversationId: string,
+  callback: (typing: TypingStatus[]) => void
+): Unsubscribe => {
+  try {
+    const typingQuery = query(
+      collection(db, 'typing'),
+      where('conversationId', '==', conversationId)
+    );
+
+    return onSnapshot(
+      typingQuery,
+      (snapshot) => {
+        callback(snapshot.docs.map(doc => doc.data() as TypingStatus));
+      },
+      (error) => {
+        console.error('Typing subscription error:', error);
+      }
+    );
+  } catch (error) {
+    console.error('Error setting up typing subscription:', error);
+    return () => {};
+  }
 };
 
 // Conversation Service Functions
@@ -782,33 +1638,10 @@ export const conversationService = {
 
   async addMessage(message: Message): Promise<boolean> {
     try {
-      const conversationId = [message.senderId, message.receiverId].sort().join('-');
-      
-      // Add conversationId to message
-      const messageWithConvId = { ...message, conversationId };
-      
-      // Add message to messages collection
-      const messageRef = doc(db, 'messages', message.id);
-      await setDoc(messageRef, messageWithConvId);
-
-      // Update or create conversation
-      const conversationRef = doc(db, 'conversations', conversationId);
-      const conversationDoc = await getDoc(conversationRef);
-
-      if (conversationDoc.exists()) {
-        await updateDoc(conversationRef, {
-          updatedAt: message.timestamp,
-        });
-      } else {
-        const conversationData: Conversation = {
-          id: conversationId,
-          participants: [message.senderId, message.receiverId],
-          messages: [],
-          updatedAt: message.timestamp,
-        };
-        await setDoc(conversationRef, conversationData);
-      }
-
+      await setDoc(doc(db, 'messages', message.id), message);
+      await updateDoc(doc(db, 'conversations', message.conversationId), {
+        updatedAt: message.timestamp,
+      });
       return true;
     } catch (error) {
       console.error('Add message error:', error);
@@ -816,7 +1649,7 @@ export const conversationService = {
     }
   },
 
-  async update(conversationId: string, conversation: Conversation): Promise<boolean> => {
+  async update(conversationId: string, conversation: Conversation): Promise<boolean> {
     try {
       // Update conversation document
       await updateDoc(doc(db, 'conversations', conversationId), {
@@ -838,7 +1671,7 @@ export const conversationService = {
     }
   },
 
-  async delete(conversationId: string): Promise<boolean> => {
+  async delete(conversationId: string): Promise<boolean> {
     try {
       const batch = writeBatch(db);
 
@@ -852,11 +1685,21 @@ export const conversationService = {
       messagesSnapshot.docs.forEach(doc => {
         batch.delete(doc.ref);
       });
+      const attachmentPaths = messagesSnapshot.docs.flatMap((doc) =>
+        getAttachmentPaths((doc.data() as Message).attachments)
+      );
+
+      // The others' read cursors go with it (removeStaleReadCursors)
+      const userId = auth.currentUser?.uid;
+      if (userId) {
+        batch.delete(doc(db, 'readCursors', getConversationMemberKey(conversationId, userId)));
+      }
 
       // Delete the conversation
       batch.delete(doc(db, 'conversations', conversationId));
 
       await batch.commit();
+      await Promise.all(attachmentPaths.map(deleteFile));
       return true;
     } catch (error) {
       console.error('Delete conversation error:', error);
@@ -864,14 +1707,140 @@ export const conversationService = {
     }
   },
 
-  async create(conversation: Conversation): Promise<boolean> => {
+  async create(conversation: Conversation): Promise<boolean> {
     try {
+      const members = await getUsersByIds(conversation.participants);
+      if (isConversationBlocked(conversation, members)) return false;
+
       await setDoc(doc(db, 'conversations', conversation.id), conversation);
       return true;
     } catch (error) {
       console.error('Create conversation error:', error);
       return false;
     }
+  },
+
+  // Only group conversations can change membership or be renamed
+  async isGroup(conversationId: string): Promise<boolean> {
+    const conversationDoc = await getDoc(doc(db, 'conversations', conversationId));
+    return conversationDoc.data()?.type === 'group';
+  },
+
+  async addMembers(conversationId: string, userIds: string[]): Promise<boolean> {
+    try {
+      if (!(await conversationService.isGroup(conversationId))) return false;
+
+      await updateDoc(doc(db, 'conversations', conversationId), {
+        participants: arrayUnion(...userIds),
+      });
+      return true;
+    } catch (error) {
+      console.error('Add conversation members error:', error);
+      return false;
+    }
+  },
+
+  async removeMember(conversationId: string, userId: string): Promise<boolean> {
+    try {
+      const conversationRef = doc(db, 'conversations', conversationId);
+      const remaining = await runTransaction(db, async (transaction) => {
+        const conversationDoc = await transaction.get(conversationRef);
+        const data = conversationDoc.data() as Conversation | undefined;
+        if (data?.type !== 'group' || !data.participants.includes(userId)) {
+          return null;
+        }
+
+        // The last member deletes it instead, while the rules still count
+        // them in; their read cursor goes too (removeStaleReadCursors)
+        const participants = data.participants.filter((id) => id !== userId);
+        if (participants.length > 0) {
+          transaction.update(conversationRef, { participants });
+        }
+        return participants;
+      });
+
+      if (!remaining) return false;
+      // Nobody left to read it
+      if (remaining.length === 0) return conversationService.delete(conversationId);
+      return true;
+    } catch (error) {
+      console.error('Remove conversation member error:', error);
+      return false;
+    }
+  },
+
+  async rename(conversationId: string, name: string): Promise<boolean> {
+    try {
+      if (!(await conversationService.isGroup(conversationId))) return false;
+
+      await updateDoc(doc(db, 'conversations', conversationId), {
+        name: name.trim(),
+      });
+      return true;
+    } catch (error) {
+      console.error('Rename conversation error:', error);
+      return false;
+    }
+  },
+
+  async mute(conversationId: string, userId: string, muted: boolean): Promise<boolean> {
+    try {
+      await updateDoc(doc(db, 'conversations', conversationId), {
+        mutedBy: muted ? arrayUnion(userId) : arrayRemove(userId),
+      });
+      return true;
+    } catch (error) {
+      console.error('Mute conversation error:', error);
+      return false;
+    }
+  },
+
+  async getReadCursors(conversationIds: string[]): Promise<ReadCursor[]> {
+    try {
+      // Firestore 'in' queries accept at most 10 values
+      const batches: string[][] = [];
+      for (let i = 0; i < conversationIds.length; i += 10) {
+        batches.push(conversationIds.slice(i, i + 10));
+      }
+
+      const snapshots = await Promise.all(
+        batches.map((batchIds) =>
+          getDocs(query(collection(db, 'readCursors'), where('conversationId', 'in', batchIds)))
+        )
+      );
+      return snapshots.flatMap((snapshot) =>
+        snapshot.docs.map((cursorDoc) => cursorDoc.data() as ReadCursor)
+      );
+    } catch (error) {
+      console.error('Get read cursors error:', error);
+      return [];
+    }
+  },
+
+  async updateReadCursor(cursor: ReadCursor): Promise<boolean> {
+    try {
+      const conversationRef = doc(db, 'conversations', cursor.conversationId);
+      const cursorRef = doc(
+        db,
+        'readCursors',
+        getConversationMemberKey(cursor.conversationId, cursor.userId)
+      );
+
+      return await runTransaction(db, async (transaction) => {
+        const conversationDoc = await transaction.get(conversationRef);
+        const participants: string[] = conversationDoc.data()?.participants || [];
+        if (!participants.includes(cursor.userId)) return false;
+
+        // Another device may already have read further
+        const cursorDoc = await transaction.get(cursorRef);
+        const current = cursorDoc.exists() ? (cursorDoc.data() as ReadCursor) : null;
+        transaction.set(cursorRef, advanceReadCursor(current, cursor));
+        return true;
+      });
+    } catch (error) {
+      console.error('Update read cursor error:', error);
+      return false;
+    }
   }
 };
 
@@ -885,6 +1854,24 @@ export const userService = {
       console.error('Get all users error:', error);
       return [];
     }
+  },
+
+  // Profile fields only; friend lists go through the friend request flow
+  // and block lists through blockUser
+  async update(userId: string, updates: Partial<User>): Promise<boolean> {
+    try {
+      const { id, friends, friendRequests, blockedUsers, ...fields } = updates;
+      const { profile, privateProfile } = splitPrivateProfile(fields);
+      await Promise.all([
+        Object.keys(profile).length > 0 && updateDoc(doc(db, 'users', userId), profile),
+        Object.keys(privateProfile).length > 0 &&
+          setDoc(doc(db, 'privateProfiles', userId), privateProfile, { merge: true })
+      ]);
+      return true;
+    } catch (error) {
+      console.error('Update user error:', error);
+      return false;
+    }
   }
 };
 
@@ -892,6 +1879,17 @@ export const userService = {
 export const notificationService = {
   async createNotification(notification: Omit<Notification, 'id'>): Promise<string | null> {
     try {
+      if (notification.type === 'message') {
+        const [[recipient], conversationDoc] = await Promise.all([
+          getUsersByIds([notification.userId]),
+          getDoc(doc(db, 'conversations', notification.data?.conversationId)),
+        ]);
+        const conversation = (conversationDoc.data() as Conversation) || null;
+        if (!shouldDeliverNotification(notification, recipient || null, conversation)) {
+          return null;
+        }
+      }
+
       const notificationRef = doc(collection(db, 'notifications'));
       const notificationData = {
         ...notification,
@@ -926,7 +1924,7 @@ export const notificationService = {
     }
   },
 
-  async markAsRead(notificationId: string): Promise<boolean> => {
+  async markAsRead(notificationId: string): Promise<boolean> {
     try {
       await updateDoc(doc(db, 'notifications', notificationId), { read: true });
       return true;
@@ -936,7 +1934,7 @@ export const notificationService = {
     }
   },
 
-  async deleteNotification(notificationId: string): Promise<boolean> => {
+  async deleteNotification(notificationId: string): Promise<boolean> {
     try {
       await deleteDoc(doc(db, 'notifications', notificationId));
       return true;
@@ -946,7 +1944,7 @@ export const notificationService = {
     }
   },
 
-  async clearAllNotifications(userId: string): Promise<boolean> => {
+  async clearAllNotifications(userId: string): Promise<boolean> {
     try {
       const notificationsQuery = query(collection(db, 'notifications'),
        where('userId', '==', userId)
@@ -972,3 +1970,83 @@ export const notificationService = {
    return this.createNotification(notification);
  }
 };
+
+// DataProvider backed by Firestore
+export const firestoreProvider: DataProvider = {
+  createUserAccount,
+  signInUser,
+  signOutUser,
+  onAuthStateChange,
+
+  getAllUsers: () => userService.getAll(),
+  getUsersByIds: (userIds) =>
+    getUsersByIds(userIds).catch((error) => {
+      console.error('Get users by IDs error:', error);
+      return [];
+    }),
+  updateUser: (userId, updates) => userService.update(userId, updates),
+  searchUsers,
+  getUserFriends,
+  sendFriendRequest,
+  acceptFriendRequest,
+  rejectFriendRequest,
+  blockUser,
+  unblockUser,
+  createReport,
+
+  createEvent,
+  getUserEvents,
+  getEventsByUserIds,
+  updateEvent,
+  deleteEvent,
+  subscribeToUserEvents,
+  subscribeToFriendsEvents,
+  subscribeToInvitedEvents,
+  respondToInvitation,
+
+  getUserHangoutMatches,
+  respondToHangoutMatch,
+
+  sendMessage,
+  getUserConversations,
+  getConversationMessages,
+  getMessagesPage,
+  getNewerMessagesPage,
+  getMessagesAround,
+  searchMessages,
+  subscribeToConversationMessages,
+  subscribeToMessageUpdates,
+  editMessage,
+  deleteMessage,
+  toggleReaction,
+  acceptHangout,
+  uploadFile,
+  deleteFile,
+  createConversation: (conversation) => conversationService.create(conversation),
+  updateConversation: (conversationId, conversation) =>
+    conversationService.update(conversationId, conversation),
+  deleteConversation: (conversationId) => conversationService.delete(conversationId),
+  addConversationMembers: (conversationId, userIds) =>
+    conversationService.addMembers(conversationId, userIds),
+  removeConversationMember: (conversationId, userId) =>
+    conversationService.removeMember(conversationId, userId),
+  renameConversation: (conversationId, name) =>
+    conversationService.rename(conversationId, name),
+  muteConversation: (conversationId, userId, muted) =>
+    conversationService.mute(conversationId, userId, muted),
+  getReadCursors: (conversationIds) => conversationService.getReadCursors(conversationIds),
+  updateReadCursor: (cursor) => conversationService.updateReadCursor(cursor),
+
+  updatePresence,
+  clearPresence,
+  subscribeToPresence,
+  setTyping,
+  subscribeToTyping,
+
+  getUserNotifications,
+  subscribeToUserNotifications,
+  createNotification: (notification) => notificationService.createNotification(notification),
+  markNotificationAsRead,
+  deleteNotification: (notificationId) => notificationService.deleteNotification(notificationId),
+  clearAllNotifications: (userId) => notificationService.clearAllNotifications(userId),
+};
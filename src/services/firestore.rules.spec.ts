@@ -0,0 +1,185 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  Firestore,
+  deleteDoc,
+  doc,
+  getDoc,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+
+// Runs against the Firestore emulator: npm run test:rules
+const emulator = process.env.FIRESTORE_EMULATOR_HOST;
+
+describe.skipIf(!emulator)("firestore.rules", () => {
+  let testEnv: RulesTestEnvironment;
+
+  const as = (userId: string) =>
+    testEnv.authenticatedContext(userId).firestore() as unknown as Firestore;
+
+  beforeAll(async () => {
+    const [host, port] = emulator.split(":");
+    testEnv = await initializeTestEnvironment({
+      projectId: "demo-hangout-rules",
+      firestore: {
+        host,
+        port: Number(port),
+        rules: readFileSync(
+          resolve(__dirname, "../../firestore.rules"),
+          "utf8",
+        ),
+      },
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore() as unknown as Firestore;
+      await setDoc(doc(db, "conversations", "c1"), {
+        id: "c1",
+        type: "direct",
+        participants: ["alex", "sam"],
+        updatedAt: "2025-01-01T09:00:00.000Z",
+      });
+    });
+  });
+
+  afterAll(() => testEnv?.cleanup());
+
+  describe("messages", () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore() as unknown as Firestore;
+        await setDoc(doc(db, "messages", "m1"), {
+          id: "m1",
+          conversationId: "c1",
+          senderId: "sam",
+          content: "Picnic?",
+          timestamp: "2025-01-01T10:00:00.000Z",
+          reactions: { "👍": ["sam"] },
+          card: {
+            kind: "event",
+            title: "Picnic",
+            startTime: "2025-01-04T12:00:00.000Z",
+            endTime: "2025-01-04T14:00:00.000Z",
+            activitySuggestions: [],
+            sourceEventIds: ["ev1"],
+            acceptedBy: [],
+          },
+        });
+      });
+    });
+
+    it("should let other members react, hide and accept for themselves", async () => {
+      const message = doc(as("alex"), "messages", "m1");
+
+      await assertSucceeds(
+        updateDoc(message, {
+          reactions: { "👍": ["sam", "alex"] },
+          updatedAt: "2025-01-01T11:00:00.000Z",
+        }),
+      );
+      await assertSucceeds(
+        updateDoc(message, { reactions: { "👍": ["sam"], "🎉": ["alex"] } }),
+      );
+      await assertSucceeds(updateDoc(message, { hiddenFor: ["alex"] }));
+      await assertSucceeds(updateDoc(message, { "card.acceptedBy": ["alex"] }));
+    });
+
+    it("should keep other members off the rest of the message", async () => {
+      const message = doc(as("alex"), "messages", "m1");
+
+      await assertFails(updateDoc(message, { content: "Movies?" }));
+      await assertFails(updateDoc(message, { read: true }));
+      await assertFails(updateDoc(message, { reactions: {} }));
+      await assertFails(
+        updateDoc(message, { reactions: { "👍": ["sam"], "🎉": ["sam"] } }),
+      );
+      await assertFails(updateDoc(message, { hiddenFor: ["sam"] }));
+      await assertFails(
+        updateDoc(message, {
+          "card.startTime": "2025-01-05T12:00:00.000Z",
+        }),
+      );
+      await assertFails(
+        updateDoc(message, { "card.acceptedBy": ["alex", "jo"] }),
+      );
+    });
+  });
+
+  describe("read cursors and typing", () => {
+    it("should let a member write their first read cursor", async () => {
+      const db = as("alex");
+      const cursorRef = doc(db, "readCursors", "c1_alex");
+
+      // As updateReadCursor does: look for one, then write it
+      await assertSucceeds(
+        runTransaction(db, async (transaction) => {
+          await transaction.get(doc(db, "conversations", "c1"));
+          await transaction.get(cursorRef);
+          transaction.set(cursorRef, {
+            conversationId: "c1",
+            userId: "alex",
+            lastReadMessageId: "m1",
+            lastReadAt: "2025-01-01T10:00:00.000Z",
+          });
+        }),
+      );
+    });
+
+    it("should let a member delete a conversation they never read", async () => {
+      const db = as("alex");
+      const batch = writeBatch(db);
+      batch.delete(doc(db, "readCursors", "c1_alex"));
+      batch.delete(doc(db, "conversations", "c1"));
+
+      await assertSucceeds(batch.commit());
+    });
+
+    it("should let a member clear a typing status that already went", async () => {
+      await assertSucceeds(deleteDoc(doc(as("alex"), "typing", "c1_alex")));
+    });
+
+    it("should keep members out of each other's cursors and typing", async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore() as unknown as Firestore;
+        await setDoc(doc(db, "readCursors", "c1_sam"), {
+          conversationId: "c1",
+          userId: "sam",
+          lastReadMessageId: "m1",
+          lastReadAt: "2025-01-01T10:00:00.000Z",
+        });
+      });
+      const db = as("alex");
+
+      await assertFails(
+        setDoc(doc(db, "readCursors", "c1_sam"), {
+          conversationId: "c1",
+          userId: "alex",
+          lastReadMessageId: "m2",
+          lastReadAt: "2025-01-01T11:00:00.000Z",
+        }),
+      );
+      await assertFails(
+        setDoc(doc(db, "typing", "c1_sam"), {
+          conversationId: "c1",
+          userId: "alex",
+          updatedAt: "2025-01-01T11:00:00.000Z",
+        }),
+      );
+      await assertFails(deleteDoc(doc(db, "readCursors", "c1_sam")));
+      await assertSucceeds(getDoc(doc(db, "readCursors", "c1_sam")));
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { BackendService } from "./backend";
+import { MemoryOutboxStorage, Outbox } from "./outbox";
+import { Event, Message } from "@/types";
+
+describe("Outbox", () => {
+  let backend: BackendService;
+  let storage: MemoryOutboxStorage;
+  let outbox: Outbox;
+  let alexId: string;
+
+  beforeEach(async () => {
+    backend = new BackendService();
+    storage = new MemoryOutboxStorage();
+    outbox = new Outbox(storage, backend);
+
+    const { user } = await backend.createUserAccount(
+      "alex@example.com",
+      "Password1",
+      "alex",
+      "Alex",
+    );
+    alexId = user!.id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const event = (id: string, title: string): Event => ({
+    id,
+    userId: alexId,
+    title,
+    startTime: "2025-01-01T10:00:00.000Z",
+    endTime: "2025-01-01T11:00:00.000Z",
+    type: "personal",
+    createdAt: "2025-01-01T09:00:00.000Z",
+  });
+
+  it("should send queued changes in order and only once", async () => {
+    await outbox.enqueue(alexId, {
+      kind: "createEvent",
+      event: event("ev1", "Tea"),
+    });
+    await outbox.enqueue(alexId, {
+      kind: "updateEvent",
+      eventId: "ev1",
+      updates: { title: "Coffee" },
+    });
+    await outbox.flush(alexId);
+
+    expect(await outbox.list(alexId)).toEqual([]);
+    expect(await storage.getAll()).toEqual([]);
+    const events = await backend.getUserEvents(alexId);
+    expect(events.map((e) => [e.id, e.title])).toEqual([["ev1", "Coffee"]]);
+
+    // A retry of a write that already landed changes nothing
+    expect(await backend.createEvent(event("ev1", "Tea"))).toBe("ev1");
+    expect(await backend.getUserEvents(alexId)).toEqual(events);
+  });
+
+  it("should keep entries queued in the same millisecond in order", async () => {
+    vi.useFakeTimers({
+      now: new Date("2025-01-01T10:00:00.000Z"),
+      toFake: ["Date"],
+    });
+    await outbox.enqueue(alexId, {
+      kind: "createEvent",
+      event: event("ev1", "Edit 0"),
+    });
+    for (let edit = 1; edit <= 40; edit++) {
+      await outbox.enqueue(alexId, {
+        kind: "updateEvent",
+        eventId: "ev1",
+        updates: { title: `Edit ${edit}` },
+      });
+    }
+
+    const entries = await outbox.list(alexId);
+    expect(new Set(entries.map((entry) => entry.createdAt)).size).toBe(1);
+    expect(
+      entries.map((entry) =>
+        entry.operation.kind === "createEvent"
+          ? entry.operation.event.title
+          : entry.operation.kind === "updateEvent" &&
+            entry.operation.updates.title,
+      ),
+    ).toEqual(Array.from({ length: 41 }, (_, edit) => `Edit ${edit}`));
+
+    await outbox.flush(alexId);
+    const [saved] = await backend.getUserEvents(alexId);
+    expect(saved.title).toBe("Edit 40");
+  });
+
+  it("should leave a series alone until the event split off it saves", async () => {
+    await backend.createEvent(event("ev1", "Lunch"));
+    const createEvent = vi
+      .spyOn(backend, "createEvent")
+      .mockResolvedValueOnce(null);
+
+    const entry = await outbox.enqueue(alexId, {
+      kind: "splitEvent",
+      event: event("ev2", "Tea"),
+      eventId: "ev1",
+      updates: { title: "Brunch" },
+    });
+    await outbox.flush(alexId);
+
+    expect(await outbox.list(alexId)).toMatchObject([
+      { id: entry.id, attempts: 1, lastError: "Failed to update event" },
+    ]);
+    let events = await backend.getUserEvents(alexId);
+    expect(events.map((e) => [e.id, e.title])).toEqual([["ev1", "Lunch"]]);
+
+    createEvent.mockRestore();
+    await outbox.flush(alexId, { force: true });
+    expect(await outbox.list(alexId)).toEqual([]);
+    events = await backend.getUserEvents(alexId);
+    expect(events.map((e) => [e.id, e.title]).sort()).toEqual([
+      ["ev1", "Brunch"],
+      ["ev2", "Tea"],
+    ]);
+  });
+
+  it("should keep failed writes queued until retried or discarded", async () => {
+    const message: Message = {
+      id: "m1",
+      conversationId: "c1",
+      senderId: alexId,
+      content: "hi",
+      timestamp: "2025-01-01T10:00:00.000Z",
+    };
+    const seen: number[] = [];
+    outbox.subscribe(alexId, (entries) => seen.push(entries.length));
+
+    // The conversation doesn't exist yet, so the send fails
+    const entry = await outbox.enqueue(alexId, {
+      kind: "sendMessage",
+      message,
+      notifications: [],
+    });
+    await outbox.flush(alexId);
+
+    const [failed] = await outbox.list(alexId);
+    expect(failed).toMatchObject({
+      id: entry.id,
+      status: "pending",
+      attempts: 1,
+      lastError: "Failed to send message",
+    });
+    // Still backing off, so another flush doesn't retry it yet
+    await outbox.flush(alexId);
+    expect((await outbox.list(alexId))[0].attempts).toBe(1);
+
+    await backend.createConversation({
+      id: "c1",
+      type: "direct",
+      participants: [alexId, "sam"],
+      messages: [],
+      updatedAt: "2025-01-01T09:00:00.000Z",
+    });
+    await outbox.retry(entry.id);
+    expect(await outbox.list(alexId)).toEqual([]);
+    const sent = await backend.getConversationMessages("c1");
+    expect(sent.map((m) => m.id)).toEqual(["m1"]);
+    expect(seen[seen.length - 1]).toBe(0);
+
+    await outbox.enqueue(alexId, {
+      kind: "deleteEvent",
+      eventId: "ev1",
+    });
+    const [queued] = await outbox.list(alexId);
+    await outbox.discard(queued.id);
+    expect(await outbox.list(alexId)).toEqual([]);
+  });
+});
@@ -0,0 +1,327 @@
+import { DataProvider, Unsubscribe } from "@/services/types";
+import {
+  OutboxEntry,
+  OutboxOperation,
+  compareOutboxEntries,
+  createOutboxEntry,
+  getDueEntries,
+  recordOutboxFailure,
+  resetOutboxEntry,
+} from "@/lib/outbox";
+import { getAttachmentPaths } from "@/lib/attachments";
+
+// A write that hasn't answered by now counts as failed. Firestore holds
+// writes until the server acknowledges them, which offline is never.
+export const OUTBOX_ATTEMPT_TIMEOUT_MS = 20 * 1000;
+
+const DB_NAME = "social_network_outbox";
+const STORE_NAME = "entries";
+
+const OPERATION_ERRORS: Record<OutboxOperation["kind"], string> = {
+  sendMessage: "Failed to send message",
+  createEvent: "Failed to create event",
+  splitEvent: "Failed to update event",
+  updateEvent: "Failed to update event",
+  deleteEvent: "Failed to delete event",
+};
+
+export interface OutboxStorage {
+  getAll(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(entryId: string): Promise<void>;
+}
+
+export class MemoryOutboxStorage implements OutboxStorage {
+  private entries: Map<string, OutboxEntry> = new Map();
+
+  async getAll(): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values()).map((entry) =>
+      structuredClone(entry),
+    );
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, structuredClone(entry));
+  }
+
+  async delete(entryId: string): Promise<void> {
+    this.entries.delete(entryId);
+  }
+}
+
+// Keeps the outbox across reloads and browser restarts
+export class IndexedDBOutboxStorage implements OutboxStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    use: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = use(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  getAll(): Promise<OutboxEntry[]> {
+    return this.run("readonly", (store) => store.getAll());
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    await this.run("readwrite", (store) => store.put(entry));
+  }
+
+  async delete(entryId: string): Promise<void> {
+    await this.run("readwrite", (store) => store.delete(entryId));
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new Error("The request timed out")),
+      ms,
+    );
+    promise.then(resolve, reject).finally(() => clearTimeout(timeout));
+  });
+
+/**
+ * Message sends and event edits waiting to reach the backend. Entries are
+ * saved before anything is sent and removed once the write lands; until
+ * then they're retried in order with backoff, and after too many failures
+ * left for the user to retry or discard. Storage failures are logged and
+ * the outbox carries on in memory.
+ */
+export class Outbox {
+  private loading: Promise<Map<string, OutboxEntry>> | null = null;
+  private listeners: Set<() => void> = new Set();
+  private flushing: Promise<void> | null = null;
+  private sequence = 0;
+
+  constructor(
+    private storage: OutboxStorage,
+    private provider: DataProvider,
+  ) {}
+
+  // Entries queued in the same millisecond tie on createdAt, so ids sort by
+  // when they were made and keep them in order
+  private generateId(): string {
+    const sequence = (this.sequence++ % 36 ** 4).toString(36).padStart(4, "0");
+    return (
+      Date.now().toString(36) + sequence + Math.random().toString(36).substr(2)
+    );
+  }
+
+  private load(): Promise<Map<string, OutboxEntry>> {
+    if (!this.loading) {
+      this.loading = this.storage
+        .getAll()
+        .catch((error) => {
+          console.error("Error loading outbox:", error);
+          return [] as OutboxEntry[];
+        })
+        .then((stored) => {
+          const entries = new Map(stored.map((entry) => [entry.id, entry]));
+          this.notify();
+          return entries;
+        });
+    }
+    return this.loading;
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async save(entry: OutboxEntry) {
+    const entries = await this.load();
+    entries.set(entry.id, entry);
+    this.notify();
+
+    try {
+      await this.storage.put(entry);
+    } catch (error) {
+      console.error("Error saving outbox entry:", error);
+    }
+  }
+
+  async remove(entryId: string): Promise<void> {
+    const entries = await this.load();
+    entries.delete(entryId);
+    this.notify();
+
+    try {
+      await this.storage.delete(entryId);
+    } catch (error) {
+      console.error("Error removing outbox entry:", error);
+    }
+  }
+
+  async list(userId: string): Promise<OutboxEntry[]> {
+    const entries = await this.load();
+    return Array.from(entries.values())
+      .filter((entry) => entry.userId === userId)
+      .sort(compareOutboxEntries);
+  }
+
+  // Fires with the user's entries once loaded, then on every change
+  subscribe(
+    userId: string,
+    callback: (entries: OutboxEntry[]) => void,
+  ): Unsubscribe {
+    let active = true;
+    const listener = () => {
+      this.list(userId).then((entries) => {
+        if (active) callback(entries);
+      });
+    };
+
+    this.listeners.add(listener);
+    listener();
+
+    return () => {
+      active = false;
+      this.listeners.delete(listener);
+    };
+  }
+
+  async enqueue(
+    userId: string,
+    operation: OutboxOperation,
+  ): Promise<OutboxEntry> {
+    const entry = createOutboxEntry(this.generateId(), userId, operation);
+    await this.save(entry);
+    return entry;
+  }
+
+  // Gives a failed entry another full round of attempts
+  async retry(entryId: string): Promise<void> {
+    const entries = await this.load();
+    const entry = entries.get(entryId);
+    if (!entry) return;
+
+    await this.save(resetOutboxEntry(entry));
+    await this.flush(entry.userId);
+  }
+
+  // Drops an entry for good, with any files a queued message uploaded
+  async discard(entryId: string): Promise<void> {
+    const entries = await this.load();
+    const operation = entries.get(entryId)?.operation;
+    await this.remove(entryId);
+
+    if (operation?.kind === "sendMessage") {
+      await Promise.all(
+        getAttachmentPaths(operation.message.attachments).map((path) =>
+          this.provider.deleteFile(path),
+        ),
+      );
+    }
+  }
+
+  /**
+   * Sends the user's due entries one at a time, oldest first, stopping at
+   * the first failure. Does nothing while the browser is offline; calls
+   * made while a flush is running wait for it instead of starting another.
+   */
+  flush(userId: string, { force = false } = {}): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain(userId, force).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async drain(userId: string, force: boolean) {
+    while (typeof navigator === "undefined" || navigator.onLine !== false) {
+      const [next] = getDueEntries(await this.list(userId), new Date(), force);
+      if (!next || !(await this.attempt(next))) return;
+    }
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<boolean> {
+    try {
+      const sent = await withTimeout(
+        this.dispatch(entry.operation),
+        OUTBOX_ATTEMPT_TIMEOUT_MS,
+      );
+      if (!sent) throw new Error(OPERATION_ERRORS[entry.operation.kind]);
+
+      await this.remove(entry.id);
+      return true;
+    } catch (error) {
+      console.error("Error sending outbox entry:", error);
+      // Unless it was discarded in the meantime
+      const entries = await this.load();
+      if (entries.has(entry.id)) {
+        await this.save(
+          recordOutboxFailure(
+            entries.get(entry.id),
+            error instanceof Error
+              ? error.message
+              : OPERATION_ERRORS[entry.operation.kind],
+          ),
+        );
+      }
+      return false;
+    }
+  }
+
+  private async dispatch(operation: OutboxOperation): Promise<boolean> {
+    switch (operation.kind) {
+      case "sendMessage": {
+        // Stamped when actually sent, so a message that waited still sorts
+        // after everything that arrived in the meantime
+        const sentAt = new Date().toISOString();
+        const sent = await this.provider.sendMessage({
+          ...operation.message,
+          timestamp: sentAt,
+        });
+        if (!sent) return false;
+
+        // Notifications don't hold the message back
+        for (const notification of operation.notifications) {
+          try {
+            await this.provider.createNotification({
+              ...notification,
+              createdAt: sentAt,
+            });
+          } catch (error) {
+            console.error("Error creating notification:", error);
+          }
+        }
+        return true;
+      }
+      case "createEvent":
+        return Boolean(await this.provider.createEvent(operation.event));
+      case "splitEvent":
+        if (!(await this.provider.createEvent(operation.event))) return false;
+        return this.provider.updateEvent(operation.eventId, operation.updates);
+      case "updateEvent":
+        return this.provider.updateEvent(operation.eventId, operation.updates);
+      case "deleteEvent":
+        return this.provider.deleteEvent(operation.eventId);
+      default:
+        return false;
+    }
+  }
+}
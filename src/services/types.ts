@@ -0,0 +1,251 @@
+import {
+  User,
+  Event,
+  EventRsvp,
+  HangoutEvent,
+  Message,
+  MessageDeleteScope,
+  Conversation,
+  ReadCursor,
+  Presence,
+  TypingStatus,
+  Notification,
+  HangoutMatch,
+  HangoutMatchResponse,
+  Report,
+} from "@/types";
+
+export type Unsubscribe = () => void;
+
+export interface AuthResult {
+  success: boolean;
+  error?: string;
+  user?: User;
+}
+
+// One page of a conversation's history, oldest first
+export interface MessagePage {
+  messages: Message[];
+  // Whether there are older messages still to load
+  hasMore: boolean;
+}
+
+// History around one message, for jumping to it from search. Newer
+// messages page in until the window reaches the latest one.
+export interface MessageWindow extends MessagePage {
+  hasNewer: boolean;
+}
+
+// Contract shared by every data backend (Firestore, in-memory). Stores and
+// utilities talk to this interface only, so the backend can be swapped at
+// startup without touching them.
+export interface DataProvider {
+  // Auth
+  createUserAccount(
+    email: string,
+    password: string,
+    username: string,
+    fullName: string,
+  ): Promise<AuthResult>;
+  signInUser(email: string, password: string): Promise<AuthResult>;
+  signOutUser(): Promise<void>;
+  onAuthStateChange(callback: (user: User | null) => void): Unsubscribe;
+
+  // Users & friends. Search leaves out anyone blocked either way, and
+  // friend requests between them resolve false.
+  getAllUsers(): Promise<User[]>;
+  // Whichever of them exist, in the order asked for
+  getUsersByIds(userIds: string[]): Promise<User[]>;
+  updateUser(userId: string, updates: Partial<User>): Promise<boolean>;
+  searchUsers(query: string, currentUserId: string): Promise<User[]>;
+  getUserFriends(userId: string): Promise<User[]>;
+  sendFriendRequest(fromUserId: string, toUserId: string): Promise<boolean>;
+  acceptFriendRequest(userId: string, requesterId: string): Promise<boolean>;
+  rejectFriendRequest(userId: string, requesterId: string): Promise<boolean>;
+
+  // Blocking also ends the friendship, pending requests and hangout matches
+  // between the two
+  blockUser(userId: string, blockedUserId: string): Promise<boolean>;
+  unblockUser(userId: string, blockedUserId: string): Promise<boolean>;
+  // Recorded for moderators; resolves the report's id
+  createReport(
+    report: Omit<Report, "id" | "status" | "createdAt">,
+  ): Promise<string | null>;
+
+  // Events. New events and messages may bring their own client-generated
+  // id; writing one that's already stored changes nothing, so queued
+  // writes can be retried safely.
+  createEvent(
+    event: Omit<Event, "id"> & { id?: string },
+  ): Promise<string | null>;
+  getUserEvents(userId: string): Promise<Event[]>;
+  getEventsByUserIds(userIds: string[]): Promise<Event[]>;
+  updateEvent(eventId: string, updates: Partial<Event>): Promise<boolean>;
+  deleteEvent(eventId: string): Promise<boolean>;
+  // Both listeners fire once with the current events, then again with the
+  // full list whenever one changes. The friends listener follows the user's
+  // friend list, so events of new friends show up without resubscribing.
+  subscribeToUserEvents(
+    userId: string,
+    callback: (events: Event[]) => void,
+  ): Unsubscribe;
+  subscribeToFriendsEvents(
+    userId: string,
+    callback: (events: Event[]) => void,
+  ): Unsubscribe;
+
+  // Hangout invitations. The listener works like the ones above, with the
+  // hangouts the user is invited to. Only an invitee can answer, and only
+  // for themselves; resolves the updated hangout, or null if they can't.
+  subscribeToInvitedEvents(
+    userId: string,
+    callback: (events: HangoutEvent[]) => void,
+  ): Unsubscribe;
+  respondToInvitation(
+    eventId: string,
+    userId: string,
+    rsvp: EventRsvp,
+  ): Promise<HangoutEvent | null>;
+
+  // Hangout matches. The backend keeps them in step with event writes, so
+  // clients never create them.
+  getUserHangoutMatches(userId: string): Promise<HangoutMatch[]>;
+  respondToHangoutMatch(
+    matchId: string,
+    userId: string,
+    response: Exclude<HangoutMatchResponse, "pending">,
+  ): Promise<HangoutMatch | null>;
+
+  // Messages. Every message is sent to an existing conversation, which
+  // resolves false if the sender isn't one of its members or it's a direct
+  // chat between people who blocked each other.
+  sendMessage(message: Omit<Message, "id"> & { id?: string }): Promise<boolean>;
+  getUserConversations(userId: string): Promise<Conversation[]>;
+  getConversationMessages(conversationId: string): Promise<Message[]>;
+  // The newest `pageSize` messages sent before `before` (or at all)
+  getMessagesPage(
+    conversationId: string,
+    pageSize: number,
+    before?: Message,
+  ): Promise<MessagePage>;
+  // The oldest `pageSize` messages sent after `after`; hasMore means there
+  // are newer ones still to load
+  getNewerMessagesPage(
+    conversationId: string,
+    pageSize: number,
+    after: Message,
+  ): Promise<MessagePage>;
+  // Up to `pageSize` messages either side of the given one, or null if it
+  // isn't in the conversation
+  getMessagesAround(
+    conversationId: string,
+    messageId: string,
+    pageSize: number,
+  ): Promise<MessageWindow | null>;
+  // Messages in the user's conversations matching every word of the query
+  // (see lib/search), newest first. Deleted and hidden ones are left out.
+  searchMessages(userId: string, query: string): Promise<Message[]>;
+  // Live updates for messages sent after `after`; pass null for all of them.
+  // The callback gets every such message, oldest first.
+  subscribeToConversationMessages(
+    conversationId: string,
+    after: Message | null,
+    callback: (messages: Message[]) => void,
+  ): Unsubscribe;
+  // Live updates for messages changed after `since` (an ISO time), so edits,
+  // deletes and reactions reach messages that are already on screen
+  subscribeToMessageUpdates(
+    conversationId: string,
+    since: string,
+    callback: (messages: Message[]) => void,
+  ): Unsubscribe;
+  // Each resolves to the updated message, or null if the user isn't a member
+  // or isn't allowed to make the change (see lib/messages)
+  editMessage(
+    messageId: string,
+    userId: string,
+    content: string,
+  ): Promise<Message | null>;
+  deleteMessage(
+    messageId: string,
+    userId: string,
+    scope: MessageDeleteScope,
+  ): Promise<Message | null>;
+  toggleReaction(
+    messageId: string,
+    userId: string,
+    emoji: string,
+  ): Promise<Message | null>;
+  acceptHangout(messageId: string, userId: string): Promise<Message | null>;
+  // Attachment files (paths from lib/attachments). Uploads resolve to a URL
+  // the file can be shown from, or null if they failed. Deleting a message
+  // for everyone removes its files too.
+  uploadFile(
+    path: string,
+    data: Blob,
+    contentType: string,
+  ): Promise<string | null>;
+  deleteFile(path: string): Promise<boolean>;
+  // Resolves false for a direct chat (or a group started by someone) with a
+  // blocked user
+  createConversation(conversation: Conversation): Promise<boolean>;
+  updateConversation(
+    conversationId: string,
+    conversation: Conversation,
+  ): Promise<boolean>;
+  deleteConversation(conversationId: string): Promise<boolean>;
+  // Membership and names can only change on group conversations. Removing
+  // the last member deletes the conversation.
+  addConversationMembers(
+    conversationId: string,
+    userIds: string[],
+  ): Promise<boolean>;
+  removeConversationMember(
+    conversationId: string,
+    userId: string,
+  ): Promise<boolean>;
+  renameConversation(conversationId: string, name: string): Promise<boolean>;
+  // Muted members get no message notifications from the conversation
+  muteConversation(
+    conversationId: string,
+    userId: string,
+    muted: boolean,
+  ): Promise<boolean>;
+  // Read cursors. Only members can move theirs, and only forwards.
+  getReadCursors(conversationIds: string[]): Promise<ReadCursor[]>;
+  updateReadCursor(cursor: ReadCursor): Promise<boolean>;
+
+  // Presence and typing. Both are best-effort signals that go stale on their
+  // own (see lib/presence), so a closed tab never leaves anyone "online".
+  // Clearing presence removes the record, for people who hide it.
+  updatePresence(presence: Presence): Promise<boolean>;
+  clearPresence(userId: string): Promise<boolean>;
+  subscribeToPresence(
+    userIds: string[],
+    callback: (presence: Presence[]) => void,
+  ): Unsubscribe;
+  setTyping(
+    conversationId: string,
+    userId: string,
+    isTyping: boolean,
+  ): Promise<boolean>;
+  subscribeToTyping(
+    conversationId: string,
+    callback: (typing: TypingStatus[]) => void,
+  ): Unsubscribe;
+
+  // Notifications
+  getUserNotifications(userId: string): Promise<Notification[]>;
+  subscribeToUserNotifications(
+    userId: string,
+    callback: (notifications: Notification[]) => void,
+  ): Unsubscribe;
+  // Resolves null for message notifications the recipient doesn't want
+  // (see shouldDeliverNotification)
+  createNotification(
+    notification: Omit<Notification, "id">,
+  ): Promise<string | null>;
+  markNotificationAsRead(notificationId: string): Promise<boolean>;
+  deleteNotification(notificationId: string): Promise<boolean>;
+  clearAllNotifications(userId: string): Promise<boolean>;
+}
@@ -6,12 +6,7 @@ import {
   ReactNode,
 } from "react";
 import { AuthState, User } from "@/types";
-import {
-  createUserAccount,
-  signInUser,
-  signOutUser,
-  onAuthStateChange,
-} from "@/services/firebase";
+import { dataProvider } from "@/services/dataProvider";
 
 interface AuthContextType extends AuthState {
   login: (
@@ -46,9 +41,9 @@ const useAuthStore = () => {
   });
 
   useEffect(() => {
-    console.log("Setting up Firebase auth state listener...");
-    // Listen to Firebase auth state changes
-    const unsubscribe = onAuthStateChange((user) => {
+    console.log("Setting up auth state listener...");
+    // Listen to auth state changes from the active data provider
+    const unsubscribe = dataProvider.onAuthStateChange((user) => {
       console.log("Auth state changed:", user?.id || "null");
       setState({
         user,
@@ -58,7 +53,7 @@ const useAuthStore = () => {
     });
 
     return () => {
-      console.log("Cleaning up Firebase auth state listener");
+      console.log("Cleaning up auth state listener");
       unsubscribe();
     };
   }, []);
@@ -67,12 +62,12 @@ const useAuthStore = () => {
     email: string,
     password: string,
   ): Promise<{ success: boolean; error?: string }> => {
-    console.log("Firebase login attempt:", email);
+    console.log("Login attempt:", email);
     setState((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      const result = await signInUser(email, password);
-      console.log("Firebase login result:", result);
+      const result = await dataProvider.signInUser(email, password);
+      console.log("Login result:", result);
 
       if (result.success && result.user) {
         setState({
@@ -86,7 +81,7 @@ const useAuthStore = () => {
         return { success: false, error: result.error || "Login failed" };
       }
     } catch (error: any) {
-      console.error("Firebase login error:", error);
+      console.error("Login error:", error);
       setState((prev) => ({ ...prev, isLoading: false }));
       return {
         success: false,
@@ -101,17 +96,17 @@ const useAuthStore = () => {
     username: string,
     fullName: string,
   ): Promise<{ success: boolean; error?: string }> => {
-    console.log("Firebase register attempt:", { email, username, fullName });
+    console.log("Register attempt:", { email, username, fullName });
     setState((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      const result = await createUserAccount(
+      const result = await dataProvider.createUserAccount(
         email,
         password,
         username,
         fullName,
       );
-      console.log("Firebase register result:", result);
+      console.log("Register result:", result);
 
       if (result.success && result.user) {
         setState({
@@ -125,7 +120,7 @@ const useAuthStore = () => {
         return { success: false, error: result.error || "Registration failed" };
       }
     } catch (error: any) {
-      console.error("Firebase register error:", error);
+      console.error("Register error:", error);
       setState((prev) => ({ ...prev, isLoading: false }));
       return {
         success: false,
@@ -135,22 +130,22 @@ const useAuthStore = () => {
   };
 
   const logout = async () => {
-    console.log("Firebase logout attempt");
+    console.log("Logout attempt");
     try {
-      await signOutUser();
+      await dataProvider.signOutUser();
       setState({
         user: null,
         isAuthenticated: false,
         isLoading: false,
       });
-      console.log("Firebase logout successful");
+      console.log("Logout successful");
     } catch (error) {
-      console.error("Firebase logout error:", error);
+      console.error("Logout error:", error);
     }
   };
 
   const updateUser = (user: User) => {
-    console.log("Updating user in Firebase context:", user);
+    console.log("Updating user in auth context:", user);
     setState((prev) => ({ ...prev, user: { ...user } }));
   };
 
@@ -1,31 +1,125 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import {
   Event,
   HangoutEvent,
   CreateEventInput,
+  EventOccurrence,
+  RecurrenceEditScope,
   User,
   HangoutMatch,
-  Notification,
+  HangoutMatchResponse,
+  RsvpStatus,
 } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { outbox, useOutbox } from "@/store/outboxStore";
 import {
-  createEvent as createEventService,
-  getUserEvents,
-  updateEvent as updateEventService,
-  deleteEvent as deleteEventService,
-  getUserNotifications,
-  createNotification,
-  getUserFriends,
-  getEventsByUserIds,
-} from "@/services/firebase";
-
-export const useCalendarStore = (userId?: string) => {
-  const [events, setEvents] = useState<Event[]>([]);
+  OutboxOperation,
+  OutboxStatus,
+  applyPendingEventChanges,
+  getOutboxEventIds,
+} from "@/lib/outbox";
+import {
+  FindOverlapOptions,
+  OverlapWindow,
+  eventsToAvailability,
+  findOverlapWindows,
+  intersectRanges,
+} from "@/lib/overlap";
+import {
+  RECURRENCE_HORIZON_DAYS,
+  expandEvent,
+  expandEvents,
+  getOccurrence,
+  normalizeRecurrenceRule,
+  parseOccurrenceId,
+  splitSeries,
+} from "@/lib/recurrence";
+import {
+  SkippedICalEvent,
+  exportEventsToICS,
+  getEventUid,
+  parseICS,
+} from "@/lib/ical";
+import {
+  HangoutCompatibility,
+  scoreHangoutCompatibility,
+  sortByCompatibility,
+} from "@/lib/compatibility";
+import { getHangoutDistance, isWithinTravelRange } from "@/lib/location";
+import { MeetingSearch, MeetingSlot, findMeetingSlots } from "@/lib/meetingPlanner";
+import { createRsvp, getInvitees, normalizeInvitees } from "@/lib/invitations";
+import { getDefaultEventVisibility, normalizeSharedWith } from "@/lib/eventVisibility";
+import { useAuth } from "@/store/authStore";
+import {
+  getDayBoundsInTimeZone,
+  getDayKey,
+  getLocalDayKey,
+  resolveTimeZone,
+} from "@/lib/timezone";
+import { addDays } from "date-fns";
+
+const generateId = (): string => {
+  return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+};
+
+// A window where the current user and one or more friends are all free
+export type GroupHangoutWindow = OverlapWindow & { friends: User[] };
+
+// An occurrence of a friend's hangout, i.e. a time they're free to meet
+export interface FriendHangout {
+  friend: User;
+  event: HangoutEvent;
+}
+
+export interface EventImportResult {
+  imported: number;
+  duplicates: number;
+  failed: number;
+  // Events the file has that can't be imported as they are (see parseICS)
+  skipped: SkippedICalEvent[];
+}
+
+// One of the user's hangouts overlapping one of a friend's
+export interface EventOverlap {
+  userEvent: HangoutEvent;
+  friendEvent: HangoutEvent;
+  friend: User;
+  overlap: { start: string; end: string };
+  compatibility: HangoutCompatibility;
+}
+
+// `timeZone` is the viewer's home zone: new events are planned in it and
+// "same day" checks use its calendar days
+export const useCalendarStore = (userId?: string, timeZone?: string) => {
+  const viewerTimeZone = resolveTimeZone(timeZone);
+  // Events as the backend has them; `events` adds changes still queued
+  const [savedEvents, setSavedEvents] = useState<Event[]>([]);
+  // Friends' events from the live subscription; null until the first snapshot
+  const [friendEvents, setFriendEvents] = useState<Event[] | null>(null);
+  // Other people's hangouts the user has been invited to
+  const [invitedEvents, setInvitedEvents] = useState<HangoutEvent[]>([]);
+  const [hangoutMatches, setHangoutMatches] = useState<HangoutMatch[]>([]);
+  // The user's friends, loaded once and again when the friend list changes;
+  // null until then
+  const [friends, setFriends] = useState<User[] | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { entries: outboxEntries } = useOutbox(userId);
+  const { user } = useAuth();
+  const friendIdsKey = (user?.friends || []).join(",");
+  const eventEntries = useMemo(
+    () =>
+      outboxEntries.filter((entry) => getOutboxEventIds(entry).length > 0),
+    [outboxEntries],
+  );
+  const events = useMemo(
+    () => applyPendingEventChanges(savedEvents, eventEntries),
+    [savedEvents, eventEntries],
+  );
 
   const loadEvents = useCallback(async () => {
     if (!userId) {
-      setEvents([]);
+      setSavedEvents([]);
       setIsLoading(false);
       return;
     }
@@ -34,60 +128,184 @@ export const useCalendarStore = (userId?: string) => {
     setError(null);
     
     try {
-      const userEvents = await getUserEvents(userId);
-      setEvents(Array.isArray(userEvents) ? userEvents : []);
+      const userEvents = await dataProvider.getUserEvents(userId);
+      setSavedEvents(Array.isArray(userEvents) ? userEvents : []);
     } catch (err) {
       console.error('Error loading events:', err);
       setError('Failed to load events');
-      setEvents([]);
+      setSavedEvents([]);
     } finally {
       setIsLoading(false);
     }
   }, [userId]);
 
-  useEffect(() => {
-    loadEvents();
-  }, [loadEvents]);
+  const matchParticipants = useMemo(
+    () => Object.fromEntries((friends || []).map((f) => [f.id, f])),
+    [friends],
+  );
 
-  const createEvent = async (eventData: CreateEventInput): Promise<Event | null> => {
+  const loadHangoutMatches = useCallback(async () => {
     if (!userId) {
-      setError("User ID is required");
-      throw new Error("User ID is required");
+      setHangoutMatches([]);
+      return;
     }
 
     try {
-      setError(null);
-      
-      const newEvent: Omit<Event, 'id'> = {
-        userId,
-        title: eventData.title,
-        description: eventData.description,
-        startTime: eventData.startTime,
-        endTime: eventData.endTime,
-        type: eventData.type,
-        createdAt: new Date().toISOString(),
-      };
-
-      // Add hangout-specific properties
-      if (eventData.type === "hangout" && eventData.preferences) {
-        (newEvent as Omit<HangoutEvent, 'id'>).preferences = eventData.preferences;
-        (newEvent as Omit<HangoutEvent, 'id'>).visibility = "friends";
-      }
+      const matches = await dataProvider.getUserHangoutMatches(userId);
+      setHangoutMatches(Array.isArray(matches) ? matches : []);
+    } catch (err) {
+      console.error('Error loading hangout matches:', err);
+      setHangoutMatches([]);
+    }
+  }, [userId]);
 
-      const eventId = await createEventService(newEvent);
-      if (!eventId) {
-        throw new Error('Failed to create event');
+  // Live listeners keep the user's and friends' events current, so a friend's
+  // new hangout shows up (and overlaps update) without a reload
+  useEffect(() => {
+    if (!userId) {
+      setSavedEvents([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    return dataProvider.subscribeToUserEvents(userId, (userEvents) => {
+      setSavedEvents(Array.isArray(userEvents) ? userEvents : []);
+      setIsLoading(false);
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    setFriends(null);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    dataProvider
+      .getUserFriends(userId)
+      .then((loaded) => {
+        if (!cancelled) setFriends(Array.isArray(loaded) ? loaded : []);
+      })
+      .catch((err) => {
+        console.error('Error loading friends:', err);
+        if (!cancelled) setFriends([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, friendIdsKey]);
+
+  useEffect(() => {
+    setFriendEvents(null);
+    if (!userId) return;
+
+    return dataProvider.subscribeToFriendsEvents(userId, (events) => {
+      setFriendEvents(Array.isArray(events) ? events : []);
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    setInvitedEvents([]);
+    if (!userId) return;
+
+    return dataProvider.subscribeToInvitedEvents(userId, (events) => {
+      setInvitedEvents(Array.isArray(events) ? events : []);
+    });
+  }, [userId]);
+
+  // Matches are kept up to date by the backend as events are written, so
+  // reload them whenever our own or a friend's events change
+  useEffect(() => {
+    loadHangoutMatches();
+  }, [loadHangoutMatches, events, friendEvents]);
+
+  const buildEvent = (eventData: CreateEventInput): Omit<Event, 'id'> => {
+    const newEvent: Omit<Event, 'id'> = {
+      userId,
+      title: eventData.title,
+      description: eventData.description,
+      startTime: eventData.startTime,
+      endTime: eventData.endTime,
+      type: eventData.type,
+      timeZone: resolveTimeZone(eventData.timeZone, viewerTimeZone),
+      visibility: eventData.visibility || getDefaultEventVisibility(user),
+      createdAt: new Date().toISOString(),
+    };
+
+    if (newEvent.visibility === "selected") {
+      newEvent.sharedWith = normalizeSharedWith(userId, eventData.sharedWith);
+    }
+
+    if (eventData.recurrence) {
+      newEvent.recurrence = normalizeRecurrenceRule(eventData.recurrence);
+      if (eventData.exceptions?.length > 0) {
+        newEvent.exceptions = eventData.exceptions;
       }
+    }
 
-      const createdEvent = { ...newEvent, id: eventId };
-      setEvents((prev) => [...(Array.isArray(prev) ? prev : []), createdEvent]);
+    if (eventData.uid) {
+      newEvent.uid = eventData.uid;
+    }
 
-      // Check for hangout matches if this is a hangout event
-      if (createdEvent.type === "hangout") {
-        checkForHangoutMatches(createdEvent as HangoutEvent);
+    // Add hangout-specific properties
+    if (eventData.type === "hangout" && eventData.preferences) {
+      (newEvent as Omit<HangoutEvent, 'id'>).preferences = eventData.preferences;
+      if (eventData.location) {
+        (newEvent as Omit<HangoutEvent, 'id'>).location = eventData.location;
+      }
+      const invitees = normalizeInvitees(userId, eventData.invitees);
+      if (invitees.length > 0) {
+        (newEvent as Omit<HangoutEvent, 'id'>).invitees = invitees;
       }
+    }
+
+    return newEvent;
+  };
+
+  // Queued and sent in the background; the event shows straight away and
+  // is marked as waiting to sync until the backend has it
+  const queueChange = async (operation: OutboxOperation) => {
+    await outbox.enqueue(userId, operation);
+    outbox.flush(userId);
+  };
+
+  const saveNewEvent = async (newEvent: Omit<Event, 'id'>): Promise<Event> => {
+    const createdEvent = { ...newEvent, id: generateId() } as Event;
+    await queueChange({ kind: "createEvent", event: createdEvent });
+    return createdEvent;
+  };
+
+  // Saves an event split off a series, then takes its occurrences out of
+  // the series. Queued as one change, so the series keeps them until the
+  // new event is saved.
+  const splitEvent = async (
+    seriesId: string,
+    newEvent: Omit<Event, 'id'>,
+    updates: Partial<Event>,
+  ) => {
+    const event = { ...newEvent, id: generateId() } as Event;
+    await queueChange({
+      kind: "splitEvent",
+      event,
+      eventId: seriesId,
+      updates,
+    });
+  };
+
+  const createEvent = async (eventData: CreateEventInput): Promise<Event | null> => {
+    if (!userId) {
+      setError("User ID is required");
+      throw new Error("User ID is required");
+    }
 
-      return createdEvent;
+    try {
+      setError(null);
+      return await saveNewEvent(buildEvent(eventData));
     } catch (err) {
       console.error('Error creating event:', err);
       setError('Failed to create event');
@@ -96,22 +314,14 @@ export const useCalendarStore = (userId?: string) => {
   };
 
   const updateEvent = async (eventId: string, updates: Partial<Event>): Promise<boolean> => {
+    const safeEvents = Array.isArray(events) ? events : [];
+    const event = safeEvents.find((e) => e.id === eventId);
+    if (!event || event.userId !== userId) return false;
+
     try {
       setError(null);
-      
-      const safeEvents = Array.isArray(events) ? events : [];
-      const event = safeEvents.find((e) => e.id === eventId);
-      if (!event || event.userId !== userId) return false;
-
-      const success = await updateEventService(eventId, updates);
-      if (success) {
-        const updatedEvent = { ...event, ...updates };
-        setEvents((prev) =>
-          Array.isArray(prev) ? prev.map((e) => (e.id === eventId ? updatedEvent : e)) : []
-        );
-      }
-
-      return success;
+      await queueChange({ kind: "updateEvent", eventId, updates });
+      return true;
     } catch (err) {
       console.error('Error updating event:', err);
       setError('Failed to update event');
@@ -127,12 +337,8 @@ export const useCalendarStore = (userId?: string) => {
       const event = safeEvents.find((e) => e.id === eventId);
       if (!event || event.userId !== userId) return false;
 
-      const success = await updateEventService(eventId, {});
-      if (success) {
-        setEvents((prev) => Array.isArray(prev) ? prev.filter((e) => e.id !== eventId) : []);
-      }
-
-      return success;
+      await queueChange({ kind: "deleteEvent", eventId });
+      return true;
     } catch (err) {
       console.error('Error deleting event:', err);
       setError('Failed to delete event');
@@ -140,9 +346,249 @@ export const useCalendarStore = (userId?: string) => {
     }
   };
 
+  // Whether an event (or the series an occurrence belongs to) has changes
+  // waiting to sync; failed wins over pending
+  const getEventSyncStatus = (eventId: string): OutboxStatus | null => {
+    const seriesId = parseOccurrenceId(eventId)?.seriesId || eventId;
+    const statuses = eventEntries
+      .filter((entry) => getOutboxEventIds(entry).includes(seriesId))
+      .map((entry) => entry.status);
+    if (statuses.includes("failed")) return "failed";
+    return statuses.length ? "pending" : null;
+  };
+
+  // Changes that ran out of retries wait for the user to retry or drop them
+  const failedChanges = eventEntries.filter(
+    (entry) => entry.status === "failed",
+  );
+
+  const retryFailedChanges = async () => {
+    await Promise.all(failedChanges.map((entry) => outbox.retry(entry.id)));
+  };
+
+  const discardFailedChanges = async () => {
+    await Promise.all(failedChanges.map((entry) => outbox.discard(entry.id)));
+  };
+
+  /**
+   * Import the events of an .ics file. Events whose UID is already on the
+   * calendar (including ones exported from here) are skipped.
+   */
+  const importEvents = async (icsText: string): Promise<EventImportResult> => {
+    const result: EventImportResult = {
+      imported: 0,
+      duplicates: 0,
+      failed: 0,
+      skipped: [],
+    };
+    if (!userId) return result;
+
+    const safeEvents = Array.isArray(events) ? events : [];
+    const knownUids = new Set(safeEvents.map(getEventUid));
+    const parsed = parseICS(icsText);
+    result.skipped = parsed.skipped;
+
+    for (const eventData of parsed.events) {
+      if (knownUids.has(eventData.uid)) {
+        result.duplicates++;
+        continue;
+      }
+      knownUids.add(eventData.uid);
+
+      const created = await createEvent(eventData);
+      if (created) result.imported++;
+      else result.failed++;
+    }
+
+    return result;
+  };
+
+  const exportEvents = (): string => {
+    return exportEventsToICS(Array.isArray(events) ? events : []);
+  };
+
+  // An event, or one occurrence of a series, by the id it's shown under
+  const findOccurrence = (
+    candidates: Event[],
+    eventId: string,
+  ): EventOccurrence | null => {
+    const event = candidates.find((e) => e.id === eventId);
+    if (event) return event;
+
+    const parsed = parseOccurrenceId(eventId);
+    if (!parsed) return null;
+
+    const series = candidates.find((e) => e.id === parsed.seriesId);
+    return series ? getOccurrence(series, parsed.originalStartTime) : null;
+  };
+
+  const resolveOccurrence = (eventId: string): EventOccurrence | null =>
+    findOccurrence(Array.isArray(events) ? events : [], eventId);
+
+  // True when nothing of the series is left before this occurrence, so
+  // "this and following" covers the whole series
+  const isFirstOccurrence = (series: Event, originalStartTime: string) =>
+    expandEvent(
+      series,
+      new Date(series.startTime),
+      new Date(originalStartTime),
+    ).length === 0;
+
+  /**
+   * Edit one occurrence of a recurring event. "this" detaches the occurrence
+   * into a one-off event; "following" ends the series before it and starts a
+   * new series with the changes (or edits the whole series when the
+   * occurrence is the first one). Plain event ids are updated directly.
+   */
+  const updateOccurrence = async (
+    occurrenceId: string,
+    eventData: CreateEventInput,
+    scope: RecurrenceEditScope,
+  ): Promise<boolean> => {
+    const parsed = parseOccurrenceId(occurrenceId);
+    const seriesId = parsed ? parsed.seriesId : occurrenceId;
+    const safeEvents = Array.isArray(events) ? events : [];
+    const series = safeEvents.find((e) => e.id === seriesId);
+    if (!series || series.userId !== userId) return false;
+
+    // Edits stay in the zone the event was planned in, and as visible as
+    // the series unless they say otherwise
+    const input: CreateEventInput = {
+      ...eventData,
+      timeZone: eventData.timeZone || series.timeZone,
+      visibility: eventData.visibility || series.visibility,
+      sharedWith: eventData.sharedWith || series.sharedWith,
+    };
+
+    try {
+      setError(null);
+
+      if (
+        !parsed ||
+        (scope === "following" &&
+          isFirstOccurrence(series, parsed.originalStartTime))
+      ) {
+        const fields = buildEvent(input);
+
+        // Clearing the rule or location needs an explicit null so it is
+        // removed on save, and clearing invitees or sharedWith an empty list
+        return await updateEvent(series.id, {
+          ...fields,
+          userId: series.userId,
+          createdAt: series.createdAt,
+          recurrence: fields.recurrence || null,
+          sharedWith: fields.sharedWith || [],
+          ...({
+            location: (fields as Partial<HangoutEvent>).location || null,
+            invitees: (fields as Partial<HangoutEvent>).invitees || [],
+          } as Partial<HangoutEvent>),
+        });
+      }
+
+      // The replacement is saved before the series gives anything up, so a
+      // failure leaves the occurrence where it was rather than losing it
+      if (scope === "this") {
+        await splitEvent(
+          series.id,
+          buildEvent({ ...input, recurrence: undefined }),
+          {
+            exceptions: [
+              ...(series.exceptions || []),
+              parsed.originalStartTime,
+            ],
+          },
+        );
+        return true;
+      }
+
+      const { head, tail } = splitSeries(series, parsed.originalStartTime);
+
+      // Keep the remaining count unless the user changed the rule itself
+      const sameRule =
+        eventData.recurrence &&
+        JSON.stringify(normalizeRecurrenceRule(eventData.recurrence)) ===
+          JSON.stringify(series.recurrence);
+      const newSeries = buildEvent({
+        ...input,
+        recurrence: sameRule ? tail : eventData.recurrence,
+      });
+
+      // Carry over removed occurrences, shifted along with the new start time
+      const shift =
+        new Date(eventData.startTime).getTime() -
+        new Date(parsed.originalStartTime).getTime();
+      const exceptions = (series.exceptions || [])
+        .filter(
+          (exception) =>
+            new Date(exception).getTime() >=
+            new Date(parsed.originalStartTime).getTime(),
+        )
+        .map((exception) =>
+          new Date(new Date(exception).getTime() + shift).toISOString(),
+        );
+      if (newSeries.recurrence && exceptions.length > 0) {
+        newSeries.exceptions = exceptions;
+      }
+
+      await splitEvent(series.id, newSeries, head);
+      return true;
+    } catch (err) {
+      console.error('Error updating recurring event:', err);
+      setError('Failed to update event');
+      return false;
+    }
+  };
+
+  /**
+   * Delete one occurrence ("this") or the rest of a series from it
+   * ("following"). Plain event ids are deleted directly.
+   */
+  const deleteOccurrence = async (
+    occurrenceId: string,
+    scope: RecurrenceEditScope,
+  ): Promise<boolean> => {
+    const parsed = parseOccurrenceId(occurrenceId);
+    if (!parsed) return deleteEvent(occurrenceId);
+
+    const safeEvents = Array.isArray(events) ? events : [];
+    const series = safeEvents.find((e) => e.id === parsed.seriesId);
+    if (!series || series.userId !== userId) return false;
+
+    if (scope === "this") {
+      return updateEvent(series.id, {
+        exceptions: [...(series.exceptions || []), parsed.originalStartTime],
+      });
+    }
+
+    if (isFirstOccurrence(series, parsed.originalStartTime)) {
+      return deleteEvent(series.id);
+    }
+
+    return updateEvent(
+      series.id,
+      splitSeries(series, parsed.originalStartTime).head,
+    );
+  };
+
+  // Friends as loaded above, or looked up when asked for before that
+  const getFriends = async (): Promise<User[]> => {
+    if (friends) return friends;
+    const loaded = await dataProvider.getUserFriends(userId);
+    return Array.isArray(loaded) ? loaded : [];
+  };
+
+  const getEventsOfFriends = async (friendIds: string[]): Promise<Event[]> => {
+    if (friendEvents) {
+      return friendEvents.filter((event) => friendIds.includes(event.userId));
+    }
+
+    const fetched = await dataProvider.getEventsByUserIds(friendIds);
+    return Array.isArray(fetched) ? fetched : [];
+  };
+
   const getFriendEvents = async (friendId: string): Promise<Event[]> => {
     try {
-      const friendEvents = await getUserEvents(friendId);
+      const friendEvents = await dataProvider.getUserEvents(friendId);
       const safeEvents = Array.isArray(friendEvents) ? friendEvents : [];
       return safeEvents.filter(
         (event) => event.type === "hangout" || event.type === "personal"
@@ -155,7 +601,7 @@ export const useCalendarStore = (userId?: string) => {
 
   const getFriendHangouts = async (friendId: string): Promise<HangoutEvent[]> => {
     try {
-      const friendEvents = await getUserEvents(friendId);
+      const friendEvents = await dataProvider.getUserEvents(friendId);
       const safeEvents = Array.isArray(friendEvents) ? friendEvents : [];
       return safeEvents.filter(
         (event) => event.type === "hangout"
@@ -166,166 +612,232 @@ export const useCalendarStore = (userId?: string) => {
     }
   };
 
-  const checkForHangoutMatches = async (hangoutEvent: HangoutEvent) => {
-    if (!userId) return;
+  /**
+   * Move or resize an event, as when it is dragged on the calendar. A
+   * single occurrence of a series is detached into a one-off event.
+   */
+  const rescheduleEvent = async (
+    eventId: string,
+    startTime: string,
+    endTime: string,
+  ): Promise<boolean> => {
+    const occurrence = resolveOccurrence(eventId);
+    if (!occurrence) return false;
+    if (!occurrence.recurringEventId) {
+      return updateEvent(eventId, { startTime, endTime });
+    }
 
-    try {
-      const friends = await getUserFriends(userId);
-      if (!Array.isArray(friends) || friends.length === 0) return;
+    const { preferences, location, invitees } = occurrence as HangoutEvent;
+    return updateOccurrence(
+      eventId,
+      {
+        title: occurrence.title,
+        description: occurrence.description,
+        type: occurrence.type,
+        timeZone: occurrence.timeZone,
+        startTime,
+        endTime,
+        ...(preferences ? { preferences } : {}),
+        ...(location ? { location } : {}),
+        ...(invitees ? { invitees } : {}),
+      },
+      "this",
+    );
+  };
 
-      const friendIds = friends.map(f => f.id);
-      const allEvents = await getEventsByUserIds(friendIds);
-      const safeAllEvents = Array.isArray(allEvents) ? allEvents : [];
-      const friendHangouts = safeAllEvents.filter(
-        (event) => event.type === "hangout"
-      ) as HangoutEvent[];
+  // Adds friends to one of the user's hangouts (the whole series, for a
+  // recurring one); they're notified by the backend
+  const inviteToEvent = async (
+    eventId: string,
+    inviteeIds: string[],
+  ): Promise<boolean> => {
+    const parsed = parseOccurrenceId(eventId);
+    const seriesId = parsed ? parsed.seriesId : eventId;
+    const event = events.find((e) => e.id === seriesId) as HangoutEvent;
+    if (!event || event.type !== "hangout" || event.userId !== userId) {
+      return false;
+    }
 
-      // Get existing notifications to avoid duplicates
-      const existingNotifications = await getUserNotifications(userId);
-      const safeNotifications = Array.isArray(existingNotifications) ? existingNotifications : [];
-
-      for (const friend of friends) {
-        const friendHangoutsForUser = Array.isArray(friendHangouts) ? friendHangouts.filter(
-          (event) => event.userId === friend.id
-        ) : [];
-
-        for (const friendHangout of friendHangoutsForUser) {
-          const overlap = getTimeOverlap(hangoutEvent, friendHangout);
-          if (overlap) {
-            // Check if notification already exists
-            const alreadyNotified = safeNotifications.some(
-              (notification) =>
-                notification.type === "hangout_match" &&
-                notification.data?.hangoutEvents?.includes(hangoutEvent.id) &&
-                notification.data?.hangoutEvents?.includes(friendHangout.id)
-            );
+    return updateEvent(seriesId, {
+      invitees: normalizeInvitees(userId, [
+        ...getInvitees(event),
+        ...inviteeIds,
+      ]),
+    } as Partial<HangoutEvent>);
+  };
 
-            if (!alreadyNotified) {
-              await createHangoutMatch(hangoutEvent, friendHangout, overlap, friend);
-            }
-          }
-        }
-      }
+  // Answers an invitation; a series is answered as a whole. Needs a
+  // connection, since the answer is written straight into the host's event.
+  const respondToInvitation = async (
+    eventId: string,
+    status: RsvpStatus,
+    note?: string,
+  ): Promise<boolean> => {
+    if (!userId) return false;
+    const parsed = parseOccurrenceId(eventId);
+
+    try {
+      const updated = await dataProvider.respondToInvitation(
+        parsed ? parsed.seriesId : eventId,
+        userId,
+        createRsvp(status, note),
+      );
+      return Boolean(updated);
     } catch (error) {
-      console.error('Error checking hangout matches:', error);
+      console.error('Error responding to invitation:', error);
+      return false;
     }
   };
 
+  // Occurrences of the given events that intersect one occurrence
+  const getOccurrencesDuring = (
+    candidates: Event[],
+    occurrence: Event,
+  ): HangoutEvent[] =>
+    expandEvents(
+      candidates,
+      new Date(occurrence.startTime),
+      new Date(occurrence.endTime),
+    ) as HangoutEvent[];
+
   const getTimeOverlap = (
     event1: Event,
     event2: Event,
   ): { start: string; end: string } | null => {
     try {
-      const start1 = new Date(event1.startTime);
-      const end1 = new Date(event1.endTime);
-      const start2 = new Date(event2.startTime);
-      const end2 = new Date(event2.endTime);
-
-      const overlapStart = new Date(Math.max(start1.getTime(), start2.getTime()));
-      const overlapEnd = new Date(Math.min(end1.getTime(), end2.getTime()));
-
-      if (overlapStart <= overlapEnd) {
-        return {
-          start: overlapStart.toISOString(),
-          end: overlapEnd.toISOString(),
-        };
-      }
-
-      return null;
+      return intersectRanges(
+        { start: event1.startTime, end: event1.endTime },
+        { start: event2.startTime, end: event2.endTime },
+      );
     } catch (error) {
       console.error('Error calculating time overlap:', error);
       return null;
     }
   };
 
-  const createHangoutMatch = async (
-    event1: HangoutEvent,
-    event2: HangoutEvent,
-    overlap: { start: string; end: string },
-    otherUser: User
-  ) => {
+  const getHangoutMatches = (): HangoutMatch[] => {
+    return Array.isArray(hangoutMatches) ? hangoutMatches : [];
+  };
+
+  const getMatchParticipant = (participantId: string): User | null => {
+    return matchParticipants[participantId] || null;
+  };
+
+  // How well a match's two hangouts fit, or null while either isn't loaded
+  const getMatchCompatibility = (
+    match: HangoutMatch,
+  ): HangoutCompatibility | null => {
+    const [first, second] = match.hangoutEvents.map((eventId) =>
+      findOccurrence([...events, ...(friendEvents || [])], eventId),
+    );
+    if (first?.type !== "hangout" || second?.type !== "hangout") return null;
+
+    return scoreHangoutCompatibility(
+      first as HangoutEvent,
+      second as HangoutEvent,
+      match.overlappingTime,
+      {
+        distanceMiles: getHangoutDistance(
+          first as HangoutEvent,
+          second as HangoutEvent,
+        ),
+      },
+    );
+  };
+
+  const respondToHangoutMatch = async (
+    matchId: string,
+    response: Exclude<HangoutMatchResponse, "pending">,
+  ): Promise<boolean> => {
+    if (!userId) return false;
+
     try {
-      const users = [event1.userId, event2.userId];
-
-      // Create notifications for both users
-      for (const notificationUserId of users) {
-        const otherUserId = users.find((id) => id !== notificationUserId);
-
-        const notification: Omit<Notification, 'id'> = {
-          userId: notificationUserId,
-          type: "hangout_match",
-          title: "Hangout Match Found!",
-          message: `You and ${otherUser.fullName} have overlapping hangout times`,
-          data: {
-            matchedUserId: otherUserId,
-            overlappingTime: overlap,
-            hangoutEvents: [event1.id, event2.id],
-          },
-          read: false,
-          createdAt: new Date().toISOString(),
-        };
+      setError(null);
 
-        await createNotification(notification);
+      const updated = await dataProvider.respondToHangoutMatch(
+        matchId,
+        userId,
+        response,
+      );
+      if (!updated) {
+        throw new Error('Failed to respond to hangout match');
       }
-    } catch (error) {
-      console.error('Error creating hangout match:', error);
+
+      setHangoutMatches((prev) =>
+        Array.isArray(prev)
+          ? prev.map((match) => (match.id === matchId ? updated : match))
+          : [],
+      );
+      return true;
+    } catch (err) {
+      console.error('Error responding to hangout match:', err);
+      setError('Failed to respond to hangout match');
+      return false;
     }
   };
 
-  const getHangoutMatches = (): HangoutMatch[] => {
-    // Return empty array for now - this should be cached data
-    return [];
-  };
+  const acceptHangoutMatch = (matchId: string) =>
+    respondToHangoutMatch(matchId, "accepted");
+
+  const declineHangoutMatch = (matchId: string) =>
+    respondToHangoutMatch(matchId, "declined");
 
   const getAllFriendHangouts = () => {
     // Return empty array for now - this should be cached data
     return [];
   };
 
-  const getOverlappingHangouts = async (targetDate: Date) => {
+  const getOverlappingHangouts = async (
+    targetDate: Date,
+  ): Promise<EventOverlap[]> => {
     if (!userId) return [];
 
     try {
-      const friends = await getUserFriends(userId);
-      if (!Array.isArray(friends) || friends.length === 0) return [];
+      const friends = await getFriends();
+      if (friends.length === 0) return [];
 
       const safeEvents = Array.isArray(events) ? events : [];
-      const userHangouts = safeEvents.filter(
-        (event) => event.type === "hangout"
+      const day = getDayBoundsInTimeZone(targetDate, viewerTimeZone);
+      const userHangouts = expandEvents(
+        safeEvents.filter((event) => event.type === "hangout"),
+        day.start,
+        day.end,
       ) as HangoutEvent[];
 
-      const friendIds = friends.map(f => f.id);
-      const allFriendEvents = await getEventsByUserIds(friendIds);
-      const safeAllFriendEvents = Array.isArray(allFriendEvents) ? allFriendEvents : [];
+      const safeAllFriendEvents = await getEventsOfFriends(
+        friends.map((f) => f.id),
+      );
 
-      const overlaps: Array<{
-        userEvent: HangoutEvent;
-        friendEvent: HangoutEvent;
-        friend: User;
-        overlap: { start: string; end: string };
-      }> = [];
+      const overlaps: EventOverlap[] = [];
 
       userHangouts.forEach((userEvent) => {
-        // Check if this event is on the target date
-        const eventDate = new Date(userEvent.startTime);
+        // Check if this event starts on the target date in the viewer's zone
         if (
-          eventDate.getDate() === targetDate.getDate() &&
-          eventDate.getMonth() === targetDate.getMonth() &&
-          eventDate.getFullYear() === targetDate.getFullYear()
+          getDayKey(userEvent.startTime, viewerTimeZone) ===
+          getLocalDayKey(targetDate)
         ) {
           friends.forEach((friend) => {
-            const friendHangouts = safeAllFriendEvents.filter(
-              (event) => event.userId === friend.id && event.type === "hangout"
-            ) as HangoutEvent[];
+            const friendHangouts = getOccurrencesDuring(
+              safeAllFriendEvents.filter(
+                (event) => event.userId === friend.id && event.type === "hangout"
+              ),
+              userEvent,
+            );
 
             friendHangouts.forEach((friendEvent) => {
               const overlap = getTimeOverlap(userEvent, friendEvent);
-              if (overlap) {
+              if (overlap && isWithinTravelRange(userEvent, friendEvent)) {
                 overlaps.push({
                   userEvent,
                   friendEvent,
                   friend,
                   overlap,
+                  compatibility: scoreHangoutCompatibility(
+                    userEvent,
+                    friendEvent,
+                    overlap,
+                    { distanceMiles: getHangoutDistance(userEvent, friendEvent) },
+                  ),
                 });
               }
             });
@@ -333,68 +845,203 @@ export const useCalendarStore = (userId?: string) => {
         }
       });
 
-      return overlaps;
+      return sortByCompatibility(overlaps);
     } catch (error) {
       console.error('Error getting overlapping hangouts:', error);
       return [];
     }
   };
 
-  const checkEventOverlap = async (eventId: string) => {
-    if (!userId) return null;
+  const findGroupHangoutWindows = async (
+    options: FindOverlapOptions = {},
+  ): Promise<GroupHangoutWindow[]> => {
+    if (!userId) return [];
+
+    try {
+      const friends = await getFriends();
+      if (friends.length === 0) return [];
+
+      const friendsEvents = await getEventsOfFriends(friends.map((f) => f.id));
+      const safeEvents = Array.isArray(events) ? events : [];
+      const now = new Date();
+
+      // Only hangouts that haven't finished yet are worth proposing
+      const hangouts = expandEvents(
+        [...safeEvents, ...friendsEvents].filter(
+          (event) => event.type === "hangout",
+        ),
+        now,
+        addDays(now, RECURRENCE_HORIZON_DAYS),
+      );
+
+      const windows = findOverlapWindows(eventsToAvailability(hangouts), {
+        minParticipants: 2,
+        ...options,
+        requiredUserIds: [userId, ...(options.requiredUserIds || [])],
+      });
+
+      return windows.map((window) => ({
+        ...window,
+        friends: friends.filter((friend) => window.userIds.includes(friend.id)),
+      }));
+    } catch (error) {
+      console.error('Error finding group hangout windows:', error);
+      return [];
+    }
+  };
+
+  const getFriendHangoutsInRange = async (
+    rangeStart: Date,
+    rangeEnd: Date,
+  ): Promise<FriendHangout[]> => {
+    if (!userId) return [];
+
+    try {
+      const friends = await getFriends();
+      if (friends.length === 0) return [];
+
+      const friendsEvents = await getEventsOfFriends(friends.map((f) => f.id));
+      const hangouts = expandEvents(
+        friendsEvents.filter((event) => event.type === "hangout"),
+        rangeStart,
+        rangeEnd,
+      ) as HangoutEvent[];
+
+      return hangouts
+        .map((event) => ({
+          friend: friends.find((f) => f.id === event.userId),
+          event,
+        }))
+        .filter((hangout) => hangout.friend);
+    } catch (error) {
+      console.error('Error getting friend hangouts in range:', error);
+      return [];
+    }
+  };
+
+  // Times the user and these friends could all meet, from everyone's
+  // hangouts less their personal events
+  const findMeetingTimes = async (
+    friendIds: string[],
+    search: Omit<MeetingSearch, 'userIds' | 'timeZone'>,
+  ): Promise<MeetingSlot[]> => {
+    if (!userId || friendIds.length === 0) return [];
 
     try {
+      const friendsEvents = await getEventsOfFriends(friendIds);
       const safeEvents = Array.isArray(events) ? events : [];
-      const targetEvent = safeEvents.find(
-        (e) => e.id === eventId && e.type === "hangout"
-      ) as HangoutEvent;
+      // Nothing that's already started
+      const rangeStart = new Date(
+        Math.max(search.rangeStart.getTime(), Date.now()),
+      );
 
-      if (!targetEvent || targetEvent.userId !== userId) return null;
+      return findMeetingSlots(
+        expandEvents([...safeEvents, ...friendsEvents], rangeStart, search.rangeEnd),
+        {
+          ...search,
+          rangeStart,
+          userIds: [userId, ...friendIds],
+          timeZone: viewerTimeZone,
+        },
+      );
+    } catch (error) {
+      console.error('Error finding meeting times:', error);
+      return [];
+    }
+  };
+
+  // Changes identity as friends and their events load, so callers can ask
+  // again then
+  const checkEventOverlap = useCallback(async (
+    eventId: string,
+  ): Promise<EventOverlap | null> => {
+    if (!userId) return null;
 
-      const friends = await getUserFriends(userId);
-      if (!Array.isArray(friends) || friends.length === 0) return null;
+    try {
+      const targetEvent = resolveOccurrence(eventId) as HangoutEvent;
 
-      const friendIds = friends.map(f => f.id);
-      const allFriendEvents = await getEventsByUserIds(friendIds);
-      const safeAllFriendEvents = Array.isArray(allFriendEvents) ? allFriendEvents : [];
+      if (
+        !targetEvent ||
+        targetEvent.type !== "hangout" ||
+        targetEvent.userId !== userId
+      ) {
+        return null;
+      }
 
-      for (const friend of friends) {
-        const friendHangouts = safeAllFriendEvents.filter(
-          (event) => event.userId === friend.id && event.type === "hangout"
-        ) as HangoutEvent[];
+      // Runs for every hangout on screen whenever events change, so it
+      // only uses what the subscriptions have already loaded; it's asked
+      // again once they have
+      if (!friends || !friendEvents || friends.length === 0) return null;
 
-        for (const friendEvent of friendHangouts) {
+      // The best fit among every friend's overlapping hangouts
+      const overlaps: EventOverlap[] = [];
+      friends.forEach((friend) => {
+        const friendHangouts = getOccurrencesDuring(
+          friendEvents.filter(
+            (event) => event.userId === friend.id && event.type === "hangout"
+          ),
+          targetEvent,
+        );
+
+        friendHangouts.forEach((friendEvent) => {
           const overlap = getTimeOverlap(targetEvent, friendEvent);
-          if (overlap) {
-            return {
+          if (overlap && isWithinTravelRange(targetEvent, friendEvent)) {
+            overlaps.push({
               userEvent: targetEvent,
               friendEvent,
               friend,
               overlap,
-            };
+              compatibility: scoreHangoutCompatibility(
+                targetEvent,
+                friendEvent,
+                overlap,
+                { distanceMiles: getHangoutDistance(targetEvent, friendEvent) },
+              ),
+            });
           }
-        }
-      }
+        });
+      });
 
-      return null;
+      return sortByCompatibility(overlaps)[0] || null;
     } catch (error) {
       console.error('Error checking event overlap:', error);
       return null;
     }
-  };
+  }, [userId, events, friends, friendEvents]);
 
   return {
     events: Array.isArray(events) ? events : [],
+    getEventSyncStatus,
+    failedChanges,
+    retryFailedChanges,
+    discardFailedChanges,
+    friendEvents: friendEvents || [],
+    invitedEvents,
     isLoading,
     error,
     createEvent,
     updateEvent,
     deleteEvent,
+    updateOccurrence,
+    deleteOccurrence,
+    rescheduleEvent,
+    inviteToEvent,
+    respondToInvitation,
+    importEvents,
+    exportEvents,
     getFriendEvents,
     getFriendHangouts,
     getHangoutMatches,
+    getMatchParticipant,
+    getMatchCompatibility,
+    acceptHangoutMatch,
+    declineHangoutMatch,
+    loadHangoutMatches,
     getAllFriendHangouts,
     getOverlappingHangouts,
+    findGroupHangoutWindows,
+    getFriendHangoutsInRange,
+    findMeetingTimes,
     checkEventOverlap,
     loadEvents,
   };
@@ -1,21 +1,56 @@
 import { useState, useEffect, useCallback } from "react";
-import { Message, Conversation, User, Notification } from "@/types";
 import {
-  conversationService,
-  userService,
-  notificationService,
-  getUserConversations,
-  getConversationMessages,
-  sendMessage as firebaseSendMessage,
-} from "@/services/firebase";
+  HangoutCard,
+  Message,
+  MessageAttachment,
+  MessageDeleteScope,
+  Conversation,
+  User,
+  Notification,
+  ReadCursor,
+} from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { outbox } from "@/store/outboxStore";
+import { isConversationMuted } from "@/lib/moderation";
+import {
+  MESSAGE_PAGE_SIZE,
+  countUnreadMessages,
+  findDirectConversation,
+  getConversationTitle,
+  getReadCursor,
+  getSeenBy as getMembersWhoSaw,
+  isCursorBehind,
+  isGroupConversation,
+} from "@/lib/conversations";
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  createImageThumbnail,
+  getAttachmentKind,
+  getAttachmentPath,
+  getThumbnailPath,
+  validateAttachment,
+} from "@/lib/attachments";
 
 // Helper function to generate IDs
 const generateId = (): string => {
   return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
 };
 
+const groupCursors = (cursors: ReadCursor[]): Record<string, ReadCursor[]> =>
+  cursors.reduce<Record<string, ReadCursor[]>>((grouped, cursor) => {
+    grouped[cursor.conversationId] = [
+      ...(grouped[cursor.conversationId] || []),
+      cursor,
+    ];
+    return grouped;
+  }, {});
+
 export const useMessageStore = (userId?: string) => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  // Profiles of everyone we share a conversation with
+  const [members, setMembers] = useState<Record<string, User>>({});
+  // Every member's read cursor, by conversation
+  const [readCursors, setReadCursors] = useState<Record<string, ReadCursor[]>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -32,7 +67,7 @@ export const useMessageStore = (userId?: string) => {
       setError(null);
       
       // Use the simpler getUserConversations function
-      const userConversations = await getUserConversations(userId);
+      const userConversations = await dataProvider.getUserConversations(userId);
       console.log("Retrieved user conversations:", userConversations.length);
       
       // Ensure we have valid data
@@ -43,14 +78,15 @@ export const useMessageStore = (userId?: string) => {
         return;
       }
 
-      // Load messages for each conversation
+      // Load the latest page of each conversation; ChatWindow pages in
+      // older history as you scroll
       const conversationsWithMessages = await Promise.all(
         userConversations.map(async (conv) => {
           try {
-            const messages = await getConversationMessages(conv.id);
+            const page = await dataProvider.getMessagesPage(conv.id, MESSAGE_PAGE_SIZE);
             return {
               ...conv,
-              messages: Array.isArray(messages) ? messages : []
+              messages: Array.isArray(page?.messages) ? page.messages : []
             };
           } catch (err) {
             console.error("Error loading messages for conversation:", conv.id, err);
@@ -80,7 +116,19 @@ export const useMessageStore = (userId?: string) => {
         }
       });
 
+      const cursors = await dataProvider.getReadCursors(
+        conversationsWithMessages.map((conv) => conv.id),
+      );
+      setReadCursors(groupCursors(Array.isArray(cursors) ? cursors : []));
+
       setConversations(conversationsWithMessages);
+
+      // Names and avatars for group members and direct chat partners
+      const memberIds = new Set(
+        conversationsWithMessages.flatMap((conv) => conv.participants || []),
+      );
+      const memberProfiles = await dataProvider.getUsersByIds([...memberIds]);
+      setMembers(Object.fromEntries(memberProfiles.map((u) => [u.id, u])));
       console.log("Successfully loaded conversations");
     } catch (err) {
       console.error("Error loading conversations:", err);
@@ -95,65 +143,132 @@ export const useMessageStore = (userId?: string) => {
     loadConversations();
   }, [loadConversations]);
 
-  const sendMessage = async (receiverId: string, content: string): Promise<Message> => {
+  // Uploads a file (and a preview, for images) under the conversation
+  const uploadAttachment = async (
+    conversationId: string,
+    file: File,
+  ): Promise<MessageAttachment> => {
+    const id = generateId();
+    const path = getAttachmentPath(conversationId, id, file.name);
+    const url = await dataProvider.uploadFile(path, file, file.type);
+    if (!url) throw new Error(`Failed to upload ${file.name}`);
+
+    const attachment: MessageAttachment = {
+      id,
+      kind: getAttachmentKind(file.type),
+      name: file.name,
+      contentType: file.type,
+      size: file.size,
+      url,
+      path,
+    };
+
+    const thumbnail =
+      attachment.kind === "image" ? await createImageThumbnail(file) : null;
+    const thumbnailPath = getThumbnailPath(path);
+    const thumbnailUrl =
+      thumbnail &&
+      (await dataProvider.uploadFile(thumbnailPath, thumbnail, "image/jpeg"));
+    // The full image still works as its own preview
+    return thumbnailUrl
+      ? { ...attachment, thumbnailUrl, thumbnailPath }
+      : attachment;
+  };
+
+  // Notifications for every other member, sent along with the message
+  const buildNotifications = async (
+    conversation: Conversation,
+    message: Message,
+  ): Promise<Notification[]> => {
+    try {
+      const sender =
+        members[userId] || (await dataProvider.getUsersByIds([userId]))[0];
+      if (!sender || !sender.fullName) return [];
+
+      const shared = Boolean(message.card);
+      return conversation.participants
+        .filter((id) => id !== userId)
+        .map((recipientId) => ({
+          id: generateId(),
+          userId: recipientId,
+          type: "message",
+          title: "New Message",
+          message: isGroupConversation(conversation)
+            ? `${sender.fullName} ${shared ? "shared a hangout" : "sent a message"} in ${getTitle(conversation, recipientId)}`
+            : `${sender.fullName} ${shared ? "shared a hangout with you" : "sent you a message"}`,
+          data: {
+            senderId: userId,
+            conversationId: conversation.id,
+            messageId: message.id,
+          },
+          read: false,
+          createdAt: message.timestamp,
+        }));
+    } catch (notifError) {
+      console.error("Error creating notification:", notifError);
+      // Don't throw here - the message still goes out
+      return [];
+    }
+  };
+
+  // A card shares a hangout, with content as its text summary. Files are
+  // validated and uploaded straight away, so they need a connection; the
+  // message itself goes through the outbox and is sent (or retried) in the
+  // background. Resolves with the message once it's queued.
+  const sendMessage = async (
+    conversationId: string,
+    content: string,
+    { card, files = [] }: { card?: HangoutCard; files?: File[] } = {},
+  ): Promise<Message> => {
     if (!userId) throw new Error("User ID is required");
-    if (!receiverId) throw new Error("Receiver ID is required");
-    if (!content || !content.trim()) throw new Error("Message content is required");
+    if (!conversationId) throw new Error("Conversation ID is required");
+    if (!content?.trim() && files.length === 0) throw new Error("Message content is required");
+    if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new Error(`Attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files at a time`);
+    }
+    const invalid = files.map(validateAttachment).find(Boolean);
+    if (invalid) throw new Error(invalid);
+    // Uploads can't wait in the outbox, so say so rather than fail halfway
+    if (files.length > 0 && typeof navigator !== "undefined" && !navigator.onLine) {
+      throw new Error("You're offline. Attachments can be sent once you're back online");
+    }
 
     try {
       setError(null);
 
+      // Another store instance may have just created it, so fall back to
+      // the backend before giving up
+      const conversation =
+        getConversation(conversationId) ||
+        (await dataProvider.getUserConversations(userId)).find(
+          (conv) => conv && conv.id === conversationId,
+        );
+      if (!conversation) {
+        throw new Error("Conversation not found");
+      }
+
+      const attachments = await Promise.all(
+        files.map((file) => uploadAttachment(conversationId, file)),
+      );
+
       const message: Message = {
         id: generateId(),
+        conversationId,
         senderId: userId,
-        receiverId,
-        content: content.trim(),
+        content: (content || "").trim(),
         timestamp: new Date().toISOString(),
-        read: false,
+        ...(card ? { card } : {}),
+        ...(attachments.length ? { attachments } : {}),
       };
 
-      console.log("Sending message:", message);
-
-      // Send message using Firebase service
-      const success = await firebaseSendMessage(message);
-      if (!success) {
-        throw new Error("Failed to send message");
-      }
-      
-      // Refresh conversations
-      await loadConversations();
-
-      // Create notification for receiver (non-blocking)
-      try {
-        const allUsers = await userService.getAll();
-        
-        if (Array.isArray(allUsers)) {
-          const sender = allUsers.find((u) => u && u.id === userId);
-          
-          if (sender && sender.fullName) {
-            const notification: Notification = {
-              id: generateId(),
-              userId: receiverId,
-              type: "message",
-              title: "New Message",
-              message: `${sender.fullName} sent you a message`,
-              data: {
-                senderId: userId,
-                messageId: message.id,
-              },
-              read: false,
-              createdAt: new Date().toISOString(),
-            };
-
-            await notificationService.create(notification);
-          }
-        }
-      } catch (notifError) {
-        console.error("Error creating notification:", notifError);
-        // Don't throw here - message was sent successfully
-      }
+      await outbox.enqueue(userId, {
+        kind: "sendMessage",
+        message,
+        notifications: await buildNotifications(conversation, message),
+      });
+      // Refresh conversations once it's sent, or now if it has to wait
+      outbox.flush(userId).then(loadConversations);
 
-      console.log("Message sent successfully");
       return message;
     } catch (err) {
       console.error("Error sending message:", err);
@@ -163,8 +278,8 @@ export const useMessageStore = (userId?: string) => {
     }
   };
 
-  const getConversation = (participantId: string): Conversation | null => {
-    if (!userId || !participantId) return null;
+  const getConversation = (conversationId: string): Conversation | null => {
+    if (!userId || !conversationId) return null;
 
     try {
       if (!Array.isArray(conversations)) {
@@ -172,75 +287,52 @@ export const useMessageStore = (userId?: string) => {
         return null;
       }
 
-      return (
-        conversations.find(
-          (conv) =>
-            conv &&
-            Array.isArray(conv.participants) &&
-            conv.participants.includes(participantId) &&
-            conv.participants.includes(userId),
-        ) || null
-      );
+      return conversations.find((conv) => conv && conv.id === conversationId) || null;
     } catch (err) {
       console.error("Error getting conversation:", err);
       return null;
     }
   };
 
-  const markMessagesAsRead = async (conversationId: string): Promise<void> => {
+  // Moves the current user's cursor to the latest message. Resolves true if
+  // there was anything new to mark.
+  const markMessagesAsRead = async (conversationId: string): Promise<boolean> => {
     if (!conversationId || !userId) {
       throw new Error("Conversation ID and User ID are required");
     }
 
     try {
       setError(null);
-      
-      if (!Array.isArray(conversations)) {
-        console.warn("Conversations is not an array in markMessagesAsRead");
-        return;
-      }
-      
-      const conversation = conversations.find(
-        (conv) => conv && conv.id === conversationId,
-      );
-      
-      if (!conversation) {
-        console.warn("Conversation not found:", conversationId);
-        return;
-      }
 
-      if (!Array.isArray(conversation.messages)) {
-        console.warn("Conversation messages is not an array:", conversation.id);
-        return;
-      }
-
-      let hasUnreadMessages = false;
-      const updatedMessages = conversation.messages.map((message) => {
-        if (!message || typeof message !== 'object') {
-          console.warn("Invalid message object:", message);
-          return message;
-        }
-
-        if (message.receiverId === userId && !message.read) {
-          hasUnreadMessages = true;
-          return { ...message, read: true };
-        }
-        return message;
-      });
-
-      if (hasUnreadMessages) {
-        const updatedConversation = {
-          ...conversation,
-          messages: updatedMessages,
-        };
-
-        const updateSuccess = await conversationService.update(conversationId, updatedConversation);
-        if (updateSuccess) {
-          await loadConversations();
-        } else {
-          throw new Error("Failed to update conversation");
+      // Read from the backend: the conversation on screen may come from
+      // another store instance with newer messages than ours
+      const { messages } = await dataProvider.getMessagesPage(conversationId, 1);
+      const latest = Array.isArray(messages) ? messages[0] : null;
+
+      const cursors = readCursors[conversationId] || [];
+      const current = getReadCursor(cursors, userId);
+      // The latest may be the user's own reply, which still reads
+      // everything before it
+      const hasUnread = isCursorBehind(latest, current);
+      if (hasUnread) {
+        const updateSuccess = await dataProvider.updateReadCursor({
+          conversationId,
+          userId,
+          lastReadMessageId: latest.id,
+          lastReadAt: latest.timestamp,
+        });
+        if (!updateSuccess) {
+          throw new Error("Failed to update read cursor");
         }
       }
+
+      // Pick up how far everyone else has read while we're here
+      const fresh = await dataProvider.getReadCursors([conversationId]);
+      setReadCursors((previous) => ({
+        ...previous,
+        [conversationId]: Array.isArray(fresh) ? fresh : [],
+      }));
+      return hasUnread;
     } catch (err) {
       console.error("Error marking messages as read:", err);
       const errorMessage = err instanceof Error ? err.message : "Failed to mark messages as read";
@@ -251,31 +343,36 @@ export const useMessageStore = (userId?: string) => {
 
   const getUnreadCount = (conversationId: string): number => {
     try {
-      if (!conversationId || !userId || !Array.isArray(conversations)) {
+      if (!conversationId || !userId) {
         return 0;
       }
 
-      const conversation = conversations.find(
-        (conv) => conv && conv.id === conversationId,
-      );
-      
+      const conversation = getConversation(conversationId);
       if (!conversation || !Array.isArray(conversation.messages)) {
         return 0;
       }
 
-      return conversation.messages.filter(
-        (message) =>
-          message &&
-          typeof message === 'object' &&
-          message.receiverId === userId &&
-          !message.read,
-      ).length;
+      return countUnreadMessages(
+        conversation.messages,
+        userId,
+        getReadCursor(readCursors[conversationId] || [], userId),
+      );
     } catch (err) {
       console.error("Error getting unread count:", err);
       return 0;
     }
   };
 
+  // Other members who have read up to a message, for "Seen" receipts
+  const getSeenBy = (message: Message): User[] => {
+    if (!message) return [];
+
+    return getMembersWhoSaw(message, readCursors[message.conversationId] || [])
+      .filter((memberId) => memberId !== userId)
+      .map(getMember)
+      .filter(Boolean);
+  };
+
   const getTotalUnreadCount = (): number => {
     try {
       if (!Array.isArray(conversations)) {
@@ -325,7 +422,7 @@ export const useMessageStore = (userId?: string) => {
         return false;
       }
 
-      const deleteSuccess = await conversationService.delete(conversationId);
+      const deleteSuccess = await dataProvider.deleteConversation(conversationId);
       if (deleteSuccess) {
         await loadConversations();
         return true;
@@ -348,8 +445,11 @@ export const useMessageStore = (userId?: string) => {
         return null;
       }
 
-      const conversationId = [userId, otherUserId].sort().join("-");
-      return conversations.find((conv) => conv && conv.id === conversationId) || null;
+      return findDirectConversation(
+        conversations.filter(Boolean),
+        userId,
+        otherUserId,
+      );
     } catch (err) {
       console.error("Error getting conversation with user:", err);
       return null;
@@ -364,39 +464,33 @@ export const useMessageStore = (userId?: string) => {
     try {
       setError(null);
       
-      const conversationId = [userId, otherUserId].sort().join("-");
-
       // Check if conversation already exists
       const existingConversation = getConversationWithUser(otherUserId);
       if (existingConversation) {
-        console.log("Conversation already exists:", conversationId);
+        console.log("Conversation already exists:", existingConversation.id);
         return existingConversation;
       }
 
       const newConversation: Conversation = {
-        id: conversationId,
+        id: generateId(),
+        type: "direct",
         participants: [userId, otherUserId],
+        createdBy: userId,
         messages: [],
         updatedAt: new Date().toISOString(),
       };
 
       console.log("Creating new conversation:", newConversation);
 
-      const createSuccess = await conversationService.create(newConversation);
+      const createSuccess = await dataProvider.createConversation(newConversation);
       if (!createSuccess) {
         throw new Error("Failed to create conversation in database");
       }
 
       await loadConversations();
-      
-      // Return the conversation from our local state after refresh
-      const createdConversation = getConversationWithUser(otherUserId);
-      if (!createdConversation) {
-        throw new Error("Failed to retrieve created conversation");
-      }
-      
-      console.log("Conversation created successfully:", createdConversation.id);
-      return createdConversation;
+
+      console.log("Conversation created successfully:", newConversation.id);
+      return newConversation;
     } catch (err) {
       console.error("Error creating conversation:", err);
       const errorMessage = err instanceof Error ? err.message : "Failed to create conversation";
@@ -405,6 +499,143 @@ export const useMessageStore = (userId?: string) => {
     }
   };
 
+  const createGroupConversation = async (
+    memberIds: string[],
+    name?: string,
+  ): Promise<Conversation> => {
+    if (!userId) throw new Error("User ID is required");
+
+    const participants = Array.from(new Set([userId, ...(memberIds || [])]));
+    if (participants.length < 2) throw new Error("Pick at least one other member");
+
+    try {
+      setError(null);
+
+      const newConversation: Conversation = {
+        id: generateId(),
+        type: "group",
+        name: name?.trim() || "",
+        participants,
+        createdBy: userId,
+        messages: [],
+        updatedAt: new Date().toISOString(),
+      };
+
+      const createSuccess = await dataProvider.createConversation(newConversation);
+      if (!createSuccess) {
+        throw new Error("Failed to create group conversation");
+      }
+
+      await loadConversations();
+      return newConversation;
+    } catch (err) {
+      console.error("Error creating group conversation:", err);
+      const errorMessage = err instanceof Error ? err.message : "Failed to create group conversation";
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    }
+  };
+
+  // Shared by the group management actions: run the change, then refresh
+  const updateGroup = async (
+    action: string,
+    change: () => Promise<boolean>,
+  ): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      setError(null);
+
+      const success = await change();
+      if (!success) {
+        throw new Error(`Failed to ${action}`);
+      }
+
+      await loadConversations();
+      return true;
+    } catch (err) {
+      console.error(`Error trying to ${action}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action}`);
+      return false;
+    }
+  };
+
+  const addMembers = (conversationId: string, memberIds: string[]) =>
+    updateGroup("add members", () =>
+      dataProvider.addConversationMembers(conversationId, memberIds),
+    );
+
+  const removeMember = (conversationId: string, memberId: string) =>
+    updateGroup("remove member", () =>
+      dataProvider.removeConversationMember(conversationId, memberId),
+    );
+
+  const leaveConversation = (conversationId: string) =>
+    removeMember(conversationId, userId);
+
+  const renameConversation = (conversationId: string, name: string) =>
+    updateGroup("rename conversation", () =>
+      dataProvider.renameConversation(conversationId, name),
+    );
+
+  // Any member can mute a direct chat or group for themselves
+  const muteConversation = (conversationId: string, muted: boolean) =>
+    updateGroup(muted ? "mute conversation" : "unmute conversation", () =>
+      dataProvider.muteConversation(conversationId, userId, muted),
+    );
+
+  const isMuted = (conversationId: string) =>
+    isConversationMuted(getConversation(conversationId), userId);
+
+  // Shared by edits, deletes and reactions. Resolves to the updated message,
+  // or null if the change was refused.
+  const changeMessage = async (
+    action: string,
+    change: () => Promise<Message | null>,
+  ): Promise<Message | null> => {
+    if (!userId) return null;
+
+    try {
+      setError(null);
+
+      const updated = await change();
+      if (!updated) {
+        throw new Error(`Failed to ${action}`);
+      }
+      return updated;
+    } catch (err) {
+      console.error(`Error trying to ${action}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action}`);
+      return null;
+    }
+  };
+
+  const editMessage = (messageId: string, content: string) =>
+    changeMessage("edit message", () =>
+      dataProvider.editMessage(messageId, userId, content),
+    );
+
+  const deleteMessage = (messageId: string, scope: MessageDeleteScope) =>
+    changeMessage("delete message", () =>
+      dataProvider.deleteMessage(messageId, userId, scope),
+    );
+
+  const toggleReaction = (messageId: string, emoji: string) =>
+    changeMessage("react to message", () =>
+      dataProvider.toggleReaction(messageId, userId, emoji),
+    );
+
+  const acceptHangout = (messageId: string) =>
+    changeMessage("accept hangout", () =>
+      dataProvider.acceptHangout(messageId, userId),
+    );
+
+  const getMember = (memberId: string): User | null =>
+    members[memberId] || null;
+
+  const getTitle = (conversation: Conversation, viewerId: string = userId) =>
+    getConversationTitle(conversation, viewerId, getMember);
+
   // Real-time conversation updates (optional enhancement)
   const subscribeToConversations = useCallback(() => {
     if (!userId) return;
@@ -423,9 +654,23 @@ export const useMessageStore = (userId?: string) => {
     markMessagesAsRead,
     getUnreadCount,
     getTotalUnreadCount,
+    getSeenBy,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    acceptHangout,
     deleteConversation,
     getConversationWithUser,
     createConversation,
+    createGroupConversation,
+    addMembers,
+    removeMember,
+    leaveConversation,
+    renameConversation,
+    muteConversation,
+    isMuted,
+    getMember,
+    getConversationTitle: getTitle,
     loadConversations,
     subscribeToConversations,
     clearError,
@@ -0,0 +1,77 @@
+import { ReportReason } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { useAuth } from "@/store/authStore";
+import { applyBlock, applyUnblock, hasBlocked } from "@/lib/moderation";
+
+export interface ReportInput {
+  reportedUserId: string;
+  reason: ReportReason;
+  details?: string;
+  conversationId?: string;
+  messageId?: string;
+}
+
+// The signed-in user's block list, and reporting people to moderators
+export const useModeration = () => {
+  const { user, updateUser } = useAuth();
+
+  const isBlocked = (otherUserId: string) => hasBlocked(user, otherUserId);
+
+  const blockUser = async (blockedUserId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const success = await dataProvider.blockUser(user.id, blockedUserId);
+      if (success) updateUser(applyBlock(user, blockedUserId));
+      return success;
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      return false;
+    }
+  };
+
+  const unblockUser = async (blockedUserId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const success = await dataProvider.unblockUser(user.id, blockedUserId);
+      if (success) updateUser(applyUnblock(user, blockedUserId));
+      return success;
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      return false;
+    }
+  };
+
+  const reportUser = async ({
+    details,
+    conversationId,
+    messageId,
+    ...report
+  }: ReportInput): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      // Firestore rejects undefined fields
+      const reportId = await dataProvider.createReport({
+        ...report,
+        reporterId: user.id,
+        ...(details?.trim() ? { details: details.trim() } : {}),
+        ...(conversationId ? { conversationId } : {}),
+        ...(messageId ? { messageId } : {}),
+      });
+      return Boolean(reportId);
+    } catch (error) {
+      console.error("Error reporting user:", error);
+      return false;
+    }
+  };
+
+  return {
+    blockedUserIds: user?.blockedUsers || [],
+    isBlocked,
+    blockUser,
+    unblockUser,
+    reportUser,
+  };
+};
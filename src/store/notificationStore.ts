@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { Notification } from "@/types";
-import { notificationService, subscribeToUserNotifications } from "@/services/firebase";
+import { dataProvider } from "@/services/dataProvider";
 
 export const useNotificationStore = (userId?: string) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
@@ -17,7 +17,7 @@ export const useNotificationStore = (userId?: string) => {
     try {
       setIsLoading(true);
       setError(null);
-      const userNotifications = await notificationService.getNotifications(userId);
+      const userNotifications = await dataProvider.getUserNotifications(userId);
       setNotifications(Array.isArray(userNotifications) ? userNotifications : []);
     } catch (err) {
       console.error("Error loading notifications:", err);
@@ -45,7 +45,7 @@ export const useNotificationStore = (userId?: string) => {
     // Set up the real-time listener
     const setupListener = () => {
       try {
-        unsubscribe = subscribeToUserNotifications(
+        unsubscribe = dataProvider.subscribeToUserNotifications(
           userId,
           (userNotifications) => {
             try {
@@ -116,7 +116,7 @@ export const useNotificationStore = (userId?: string) => {
 
   const markAsRead = async (notificationId: string): Promise<void> => {
     try {
-      await notificationService.markAsRead(notificationId);
+      await dataProvider.markNotificationAsRead(notificationId);
       // Optimistic update
       setNotifications((prev) =>
         Array.isArray(prev) ? prev.map((notification) =>
@@ -142,7 +142,7 @@ export const useNotificationStore = (userId?: string) => {
         
       await Promise.all(
         unreadNotifications.map((notification) =>
-          notificationService.markAsRead(notification.id)
+          dataProvider.markNotificationAsRead(notification.id)
         )
       );
 
@@ -171,7 +171,7 @@ export const useNotificationStore = (userId?: string) => {
 
   const deleteNotification = async (notificationId: string): Promise<void> => {
     try {
-      await notificationService.deleteNotification(notificationId);
+      await dataProvider.deleteNotification(notificationId);
       // Optimistic update
       setNotifications((prev) =>
         Array.isArray(prev) ? prev.filter((n) => n.id !== notificationId) : []
@@ -187,7 +187,7 @@ export const useNotificationStore = (userId?: string) => {
     if (!userId) return;
 
     try {
-      await notificationService.clearAllNotifications(userId);
+      await dataProvider.clearAllNotifications(userId);
       // Optimistic update
       setNotifications([]);
     } catch (err) {
@@ -199,7 +199,10 @@ export const useNotificationStore = (userId?: string) => {
 
   const createNotification = async (notification: Omit<Notification, "id" | "createdAt">): Promise<void> => {
     try {
-      await notificationService.createNotification(notification);
+      await dataProvider.createNotification({
+        ...notification,
+        createdAt: new Date().toISOString(),
+      });
       // Real-time listener will automatically update the state
     } catch (err) {
       console.error("Error creating notification:", err);
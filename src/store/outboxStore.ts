@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { dataProvider } from "@/services/dataProvider";
+import {
+  IndexedDBOutboxStorage,
+  MemoryOutboxStorage,
+  Outbox,
+} from "@/services/outbox";
+import { OutboxEntry, getNextAttemptAt } from "@/lib/outbox";
+
+// Shared by every store instance, so queued writes survive page changes
+export const outbox = new Outbox(
+  typeof indexedDB === "undefined"
+    ? new MemoryOutboxStorage()
+    : new IndexedDBOutboxStorage(),
+  dataProvider,
+);
+
+/**
+ * Sends the signed-in user's queued writes: on start, whenever the
+ * connection comes back, and when the next retry is due. Mount once, near
+ * the root.
+ */
+export const useOutboxSync = (userId?: string) => {
+  useEffect(() => {
+    if (!userId) return;
+
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = outbox.subscribe(userId, (entries) => {
+      clearTimeout(retryTimer);
+      const next = getNextAttemptAt(entries);
+      if (next) {
+        retryTimer = setTimeout(
+          () => outbox.flush(userId),
+          Math.max(next.getTime() - Date.now(), 0),
+        );
+      }
+    });
+    // Back online: don't wait out the backoff
+    const handleOnline = () => outbox.flush(userId, { force: true });
+
+    window.addEventListener("online", handleOnline);
+    outbox.flush(userId);
+
+    return () => {
+      clearTimeout(retryTimer);
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [userId]);
+};
+
+// The user's queued writes, with the actions offered on failed ones
+export const useOutbox = (userId?: string) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    setEntries([]);
+    if (!userId) return;
+
+    return outbox.subscribe(userId, setEntries);
+  }, [userId]);
+
+  return {
+    entries,
+    retry: (entryId: string) => outbox.retry(entryId),
+    discard: (entryId: string) => outbox.discard(entryId),
+  };
+};
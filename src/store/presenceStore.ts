@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from "react";
+import { Presence, PresenceState, TypingStatus, User } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { useAuth } from "@/store/authStore";
+import {
+  IDLE_AFTER_MS,
+  PRESENCE_HEARTBEAT_MS,
+  TYPING_TIMEOUT_MS,
+  describePresence,
+  getActiveTypers,
+  getPresenceState,
+  isPresenceHidden,
+} from "@/lib/presence";
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "focus"];
+
+// Re-renders every `intervalMs` so stale presence and typing fade out
+// without waiting for a new snapshot
+const useNow = (intervalMs: number) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+};
+
+/**
+ * Publishes the signed-in user's presence while the app is open: online
+ * while they're active, idle after a while without input or with the tab
+ * hidden, offline when they leave. Mount once, near the root.
+ */
+export const usePresenceReporter = (user: User | null) => {
+  const userId = user?.id;
+  const hidden = isPresenceHidden(user);
+
+  useEffect(() => {
+    if (!userId) return;
+    if (hidden) {
+      dataProvider.clearPresence(userId);
+      return;
+    }
+
+    let lastActiveAt = Date.now();
+    let reported: PresenceState | null = null;
+
+    const report = (state: PresenceState) => {
+      reported = state;
+      dataProvider.updatePresence({
+        userId,
+        state,
+        lastActiveAt: new Date(lastActiveAt).toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+    };
+
+    const currentState = (): PresenceState =>
+      document.visibilityState === "visible" &&
+      Date.now() - lastActiveAt < IDLE_AFTER_MS
+        ? "online"
+        : "idle";
+
+    // Activity only costs a write when it changes the state
+    const handleActivity = () => {
+      lastActiveAt = Date.now();
+      if (reported !== "online") report(currentState());
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") lastActiveAt = Date.now();
+      report(currentState());
+    };
+    const handleLeave = () => report("offline");
+
+    report(currentState());
+    const heartbeat = setInterval(
+      () => report(currentState()),
+      PRESENCE_HEARTBEAT_MS,
+    );
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, handleActivity, { passive: true }),
+    );
+    document.addEventListener("visibilitychange", handleVisibility);
+    window.addEventListener("pagehide", handleLeave);
+
+    return () => {
+      clearInterval(heartbeat);
+      ACTIVITY_EVENTS.forEach((type) =>
+        window.removeEventListener(type, handleActivity),
+      );
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("pagehide", handleLeave);
+      // Signing out or hiding presence
+      report("offline");
+    };
+  }, [userId, hidden]);
+};
+
+// Live presence for a set of people (usually friends or chat members).
+// Only friends share it, so anyone else is left out.
+export const usePresenceStore = (userIds: string[]) => {
+  const { user } = useAuth();
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
+  const now = useNow(30 * 1000);
+  const userKey = Array.from(
+    new Set(
+      userIds.filter(
+        (id) => id && (id === user?.id || user?.friends.includes(id)),
+      ),
+    ),
+  )
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    setPresence({});
+    if (!userKey) return;
+
+    return dataProvider.subscribeToPresence(userKey.split(","), (records) => {
+      setPresence(
+        Object.fromEntries(
+          (Array.isArray(records) ? records : []).map((record) => [
+            record.userId,
+            record,
+          ]),
+        ),
+      );
+    });
+  }, [userKey]);
+
+  const getPresence = (userId: string): Presence | null =>
+    presence[userId] || null;
+
+  return {
+    getPresence,
+    getState: (userId: string) => getPresenceState(getPresence(userId), now),
+    describe: (userId: string) => describePresence(getPresence(userId), now),
+  };
+};
+
+/**
+ * Who else is typing in a conversation, plus `notifyTyping` to call on each
+ * keystroke and `stopTyping` once a message is sent. Writes are throttled,
+ * and nothing is sent for people who hide their presence.
+ */
+export const useTypingIndicator = (
+  conversationId: string | undefined,
+  user: User | null,
+) => {
+  const [statuses, setStatuses] = useState<TypingStatus[]>([]);
+  const now = useNow(2 * 1000);
+  const lastSent = useRef(0);
+  const userId = user?.id;
+  const hidden = isPresenceHidden(user);
+
+  useEffect(() => {
+    setStatuses([]);
+    if (!conversationId) return;
+
+    return dataProvider.subscribeToTyping(conversationId, (typing) =>
+      setStatuses(Array.isArray(typing) ? typing : []),
+    );
+  }, [conversationId]);
+
+  const stopTyping = () => {
+    if (!conversationId || !userId || !lastSent.current) return;
+    lastSent.current = 0;
+    dataProvider.setTyping(conversationId, userId, false);
+  };
+
+  // Leaving the conversation stops the indicator right away
+  useEffect(() => {
+    lastSent.current = 0;
+    return () => {
+      if (conversationId && userId && lastSent.current) {
+        dataProvider.setTyping(conversationId, userId, false);
+      }
+    };
+  }, [conversationId, userId]);
+
+  const notifyTyping = () => {
+    if (!conversationId || !userId || hidden) return;
+    if (Date.now() - lastSent.current < TYPING_TIMEOUT_MS / 2) return;
+
+    lastSent.current = Date.now();
+    dataProvider.setTyping(conversationId, userId, true);
+  };
+
+  return {
+    typingUserIds: userId ? getActiveTypers(statuses, userId, now) : [],
+    notifyTyping,
+    stopTyping,
+  };
+};
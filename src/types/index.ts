@@ -9,9 +9,55 @@ export interface User {
     sent: string[];
     received: string[];
   };
+  // IANA zone (e.g. "America/New_York") used for "same day" checks and
+  // shown to friends alongside their own local times
+  timeZone?: string;
+  privacy?: UserPrivacy;
+  // People this user blocked. Changed only through blockUser/unblockUser;
+  // blocking works both ways (see lib/moderation). Private, like homeArea
+  // (see lib/profiles).
+  blockedUsers?: string[];
+  // Hangout matches scoring below this (0-100) are hidden; see
+  // lib/compatibility
+  minMatchScore?: number;
+  // Where the user usually sets out from; new hangouts start here
+  homeArea?: GeoLocation;
   createdAt: string;
 }
 
+// A place picked from the bundled city list or entered as coordinates
+export interface GeoLocation {
+  label: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface UserPrivacy {
+  // Off hides online status, last seen and typing from everyone
+  showPresence?: boolean;
+  // What new events start out as; "friends" when unset
+  eventVisibility?: EventVisibility;
+}
+
+export type PresenceState = "online" | "idle" | "offline";
+
+// Written by the user's own client. Nobody has a record while they hide
+// their presence.
+export interface Presence {
+  userId: string;
+  state: PresenceState;
+  // Last time they actually used the app, shown as "last seen"
+  lastActiveAt: string;
+  // Last heartbeat; records that stop updating go stale (see lib/presence)
+  updatedAt: string;
+}
+
+export interface TypingStatus {
+  conversationId: string;
+  userId: string;
+  updatedAt: string;
+}
+
 export interface Event {
   id: string;
   userId: string;
@@ -20,9 +66,49 @@ export interface Event {
   startTime: string;
   endTime: string;
   type: "personal" | "hangout";
+  // Present on recurring series; startTime/endTime are the first occurrence
+  recurrence?: RecurrenceRule;
+  // Original start times (ISO) of occurrences removed from the series
+  exceptions?: string[];
+  // iCalendar UID, kept for imported events so re-imports are detected
+  uid?: string;
+  // IANA zone the event was planned in; series repeat on its wall clock
+  timeZone?: string;
+  // What friends see of it (see lib/eventVisibility); "friends" when unset
+  visibility?: EventVisibility;
+  // Friends who see the details of a "selected" event
+  sharedWith?: string[];
   createdAt: string;
 }
 
+// private, busy: friends see the time is taken, but nothing else
+// friends: every friend sees the details
+// selected: friends in `sharedWith` see the details, the rest see busy time
+export type EventVisibility = "private" | "busy" | "friends" | "selected";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+// Subset of an iCalendar RRULE (RFC 5545)
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  byDay?: Weekday[];
+  count?: number;
+  until?: string;
+}
+
+// A single expanded instance of an event. For one-off events this is the
+// event itself; for a series the id is derived from the series id and the
+// occurrence's original start time.
+export interface EventOccurrence extends Event {
+  recurringEventId?: string;
+  originalStartTime?: string;
+}
+
+export type RecurrenceEditScope = "this" | "following";
+
 export interface HangoutEvent extends Event {
   type: "hangout";
   preferences: {
@@ -30,30 +116,125 @@ export interface HangoutEvent extends Event {
     budgetLimit?: number;
     maxTravelDistance?: number;
   };
-  visibility: "friends"; // Only friends can see hangout details
+  // Where the owner sets out from, for travel distance checks
+  location?: GeoLocation;
+  // Friends invited to join; the owner is always going
+  invitees?: string[];
+  // Invitees' answers by user id; no entry means no answer yet
+  rsvps?: Record<string, EventRsvp>;
+}
+
+export type RsvpStatus = "yes" | "no" | "maybe";
+
+export interface EventRsvp {
+  status: RsvpStatus;
+  note?: string;
+  respondedAt: string;
 }
 
 export interface Message {
   id: string;
+  conversationId: string;
   senderId: string;
-  receiverId: string;
   content: string;
   timestamp: string;
-  read: boolean;
+  // Set on every edit, delete or reaction so listeners can pick up changes
+  // to messages they've already loaded
+  updatedAt?: string;
+  // Earlier versions, oldest first; only the sender can edit
+  edits?: MessageEdit[];
+  editedAt?: string;
+  // Deleted for everyone: the content is cleared but the message keeps its
+  // place in the conversation
+  deletedAt?: string;
+  // Members who deleted it just for themselves
+  hiddenFor?: string[];
+  // Emoji to the members who reacted with it
+  reactions?: Record<string, string[]>;
+  // A hangout or overlap window shared into the chat; content holds a plain
+  // text summary for previews and older clients
+  card?: HangoutCard;
+  // Images and files; content may be empty when there are some
+  attachments?: MessageAttachment[];
+  // Only on direct messages sent before conversations had their own ids
+  receiverId?: string;
+  read?: boolean;
 }
 
+export interface MessageEdit {
+  content: string;
+  // When this version was replaced
+  editedAt: string;
+}
+
+export interface HangoutCard {
+  // A single hangout, or the window where two hangouts overlap
+  kind: "event" | "overlap";
+  title: string;
+  description?: string;
+  startTime: string;
+  endTime: string;
+  timeZone?: string;
+  activitySuggestions: string[];
+  budgetLimit?: number;
+  maxTravelDistance?: number;
+  // Calendar events the card was made from
+  sourceEventIds: string[];
+  // Members who said yes, in the order they accepted
+  acceptedBy?: string[];
+}
+
+export interface MessageAttachment {
+  id: string;
+  kind: "image" | "file";
+  name: string;
+  contentType: string;
+  // Bytes
+  size: number;
+  url: string;
+  // Where the file lives in storage, so it can be removed with the message
+  path: string;
+  // Small preview for images
+  thumbnailUrl?: string;
+  thumbnailPath?: string;
+}
+
+export type MessageDeleteScope = "me" | "everyone";
+
 export interface Conversation {
   id: string;
+  // Direct chats are between two friends and can't change membership
+  type?: "direct" | "group";
+  // Group name; direct chats are named after the other person
+  name?: string;
   participants: string[];
+  createdBy?: string;
   messages: Message[];
   lastMessage?: Message;
   updatedAt: string;
+  // Members who muted the conversation and get no message notifications
+  mutedBy?: string[];
+}
+
+// The last message a member has read in a conversation. Stored on its own so
+// reading never rewrites the conversation or its messages.
+export interface ReadCursor {
+  conversationId: string;
+  userId: string;
+  lastReadMessageId: string;
+  // Timestamp of that message; everything up to it counts as read
+  lastReadAt: string;
 }
 
 export interface Notification {
   id: string;
   userId: string;
-  type: "friend_request" | "hangout_match" | "message";
+  type:
+    | "friend_request"
+    | "hangout_match"
+    | "message"
+    | "event_invite"
+    | "event_rsvp";
   title: string;
   message: string;
   data?: any;
@@ -61,6 +242,27 @@ export interface Notification {
   createdAt: string;
 }
 
+export type ReportReason = "spam" | "harassment" | "inappropriate" | "other";
+
+// A user reported to the moderators, optionally pointing at the message
+// (and conversation) it's about. Only moderators read these.
+export interface Report {
+  id: string;
+  reporterId: string;
+  reportedUserId: string;
+  reason: ReportReason;
+  details?: string;
+  conversationId?: string;
+  messageId?: string;
+  status: "open" | "resolved";
+  createdAt: string;
+}
+
+export type HangoutMatchStatus =
+  "proposed" | "accepted" | "declined" | "expired";
+
+export type HangoutMatchResponse = "pending" | "accepted" | "declined";
+
 export interface HangoutMatch {
   id: string;
   users: string[];
@@ -69,7 +271,13 @@ export interface HangoutMatch {
     end: string;
   };
   hangoutEvents: string[];
+  // Stored event ids behind hangoutEvents (series ids for occurrences), so
+  // the matches for an event can be found when it changes
+  sourceEvents?: string[];
+  responses: Record<string, HangoutMatchResponse>;
+  status: HangoutMatchStatus;
   createdAt: string;
+  updatedAt: string;
 }
 
 export interface AuthState {
@@ -84,9 +292,17 @@ export interface CreateEventInput {
   startTime: string;
   endTime: string;
   type: "personal" | "hangout";
+  recurrence?: RecurrenceRule;
+  exceptions?: string[];
+  uid?: string;
+  timeZone?: string;
   preferences?: {
     activitySuggestions: string[];
     budgetLimit?: number;
     maxTravelDistance?: number;
   };
+  location?: GeoLocation;
+  invitees?: string[];
+  visibility?: EventVisibility;
+  sharedWith?: string[];
 }
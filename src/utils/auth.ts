@@ -1,11 +1,6 @@
 // src/utils/auth.ts
 import { User } from "@/types";
-import {
-  searchUsers as firebaseSearchUsers,
-  sendFriendRequest as firebaseSendFriendRequest,
-  acceptFriendRequest as firebaseAcceptFriendRequest,
-  rejectFriendRequest as firebaseRejectFriendRequest,
-} from "@/services/firebase";
+import { dataProvider } from "@/services/dataProvider";
 
 // Validation utilities (keeping these as they're still useful)
 export const validateEmail = (email: string): boolean => {
@@ -40,30 +35,30 @@ export const validatePassword = (
   };
 };
 
-// Firebase-based user functions
+// User functions backed by the active data provider
 export const searchUsers = async (query: string, currentUserId: string): Promise<User[]> => {
-  return await firebaseSearchUsers(query, currentUserId);
+  return await dataProvider.searchUsers(query, currentUserId);
 };
 
 export const sendFriendRequest = async (
   fromUserId: string,
   toUserId: string,
 ): Promise<boolean> => {
-  return await firebaseSendFriendRequest(fromUserId, toUserId);
+  return await dataProvider.sendFriendRequest(fromUserId, toUserId);
 };
 
 export const acceptFriendRequest = async (
   userId: string,
   requesterId: string,
 ): Promise<boolean> => {
-  return await firebaseAcceptFriendRequest(userId, requesterId);
+  return await dataProvider.acceptFriendRequest(userId, requesterId);
 };
 
 export const rejectFriendRequest = async (
   userId: string,
   requesterId: string,
 ): Promise<boolean> => {
-  return await firebaseRejectFriendRequest(userId, requesterId);
+  return await dataProvider.rejectFriendRequest(userId, requesterId);
 };
 
 // Deprecated functions (kept for backward compatibility)
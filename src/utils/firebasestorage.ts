@@ -103,7 +103,7 @@ export const conversationStorage = {
     conversationId: string,
     callback: (messages: Message[]) => void
   ) => {
-    return subscribeToConversationMessages(conversationId, callback);
+    return subscribeToConversationMessages(conversationId, null, callback);
   },
 };
 
@@ -118,9 +118,7 @@ export const conversationStorage = {
 
   addMessage: (message: Message): void => {
     const conversations = conversationStorage.getConversations();
-    const conversationId = [message.senderId, message.receiverId]
-      .sort()
-      .join("-");
+    const conversationId = message.conversationId;
 
     let conversation = conversations.find((conv) => conv.id === conversationId);
 